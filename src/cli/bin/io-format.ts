@@ -0,0 +1,4 @@
+#!/usr/bin/env node
+import { runFormatCli } from '../io-format';
+
+process.exitCode = runFormatCli(process.argv.slice(2));
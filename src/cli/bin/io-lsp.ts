@@ -0,0 +1,4 @@
+#!/usr/bin/env node
+import { startLanguageServer } from '../../lsp';
+
+startLanguageServer(process.stdin, process.stdout, { onExit: code => process.exit(code) });
@@ -0,0 +1,4 @@
+#!/usr/bin/env node
+import { runTypesCli } from '../io-types';
+
+process.exitCode = runTypesCli(process.argv.slice(2));
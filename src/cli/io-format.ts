@@ -0,0 +1,121 @@
+import { readFileSync, writeFileSync } from 'node:fs';
+import { checkFormat, format, FormatOptions } from '../parser/cst/format';
+import { CliIO } from './io-types';
+
+const USAGE = `Usage: io-format [files...] [options]
+
+Formats Internet Object files in a canonical layout. Reads the standard input
+and writes to the standard output when no file is given.
+
+Options:
+  -c, --check          Report the files that are not formatted, without changing them
+  -w, --write          Write the formatted text back to the files
+  --max-width <n>      Line width to stay within (default: 80)
+  --indent <n>         Spaces per indentation level (default: 2)
+  --no-align           Leave the columns of collection rows unaligned
+  --no-sort            Keep the header definitions in their written order
+  -h, --help           Show this help
+`;
+
+class UsageError extends Error {}
+
+const defaultIO: CliIO = {
+  stdout: text => process.stdout.write(text),
+  stderr: text => process.stderr.write(text),
+  readStdin: () => readFileSync(0, 'utf8'),
+};
+
+/**
+ * Runs the `io-format` command with the given arguments.
+ *
+ * @param args The command line arguments, without the node and script paths
+ * @param io   The console streams, replaceable for testing
+ * @returns The process exit code: 1 when a file is not formatted in check
+ *   mode, or cannot be formatted
+ */
+export function runFormatCli(args: string[], io: CliIO = defaultIO): number {
+  const options: FormatOptions = {};
+  const files: string[] = [];
+  let check = false;
+  let write = false;
+
+  try {
+    for (let i = 0; i < args.length; i++) {
+      const arg = args[i];
+      const number = () => {
+        const next = args[++i];
+        if (next === undefined || !/^\d+$/.test(next)) throw new UsageError(`Expecting a number after ${arg}.`);
+        return Number(next);
+      };
+
+      switch (arg) {
+        case '-h':
+        case '--help':
+          io.stdout(USAGE);
+          return 0;
+
+        case '-c':
+        case '--check':
+          check = true;
+          break;
+
+        case '-w':
+        case '--write':
+          write = true;
+          break;
+
+        case '--max-width':
+          options.maxWidth = number();
+          break;
+
+        case '--indent':
+          options.indent = number();
+          break;
+
+        case '--no-align':
+          options.alignColumns = false;
+          break;
+
+        case '--no-sort':
+          options.sortDefinitions = false;
+          break;
+
+        default:
+          if (arg.startsWith('-')) throw new UsageError(`Unexpected argument '${arg}'.`);
+          files.push(arg);
+      }
+    }
+
+    if (check && write) throw new UsageError(`--check and --write cannot be used together.`);
+    if (write && files.length === 0) throw new UsageError(`--write needs the files to write.`);
+    if (!check && !write && files.length > 1) throw new UsageError(`Formatting several files needs --write or --check.`);
+  } catch (err) {
+    io.stderr(`io-format: ${(err as Error).message}\n\n${USAGE}`);
+    return 1;
+  }
+
+  let code = 0;
+  const inputs = files.length > 0 ? files : [undefined];
+  for (const file of inputs) {
+    const name = file ?? '<stdin>';
+    try {
+      const text = file === undefined ? io.readStdin() : readFileSync(file, 'utf8');
+      if (check) {
+        const result = checkFormat(text, options);
+        if (!result.formatted) {
+          io.stderr(`${name}:${result.line}: not formatted\n`);
+          code = 1;
+        }
+      } else if (write) {
+        const output = format(text, options);
+        if (output !== text) writeFileSync(file!, output);
+      } else {
+        io.stdout(format(text, options));
+      }
+    } catch (err) {
+      io.stderr(`io-format: ${name}: ${(err as Error).message}\n`);
+      code = 1;
+    }
+  }
+  return code;
+}
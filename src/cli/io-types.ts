@@ -0,0 +1,104 @@
+import { readFileSync, writeFileSync } from 'node:fs';
+import { generateTypes, GenerateTypesOptions } from '../schema/typescript/generate-types';
+
+export interface CliIO {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+  readStdin: () => string;
+}
+
+const USAGE = `Usage: io-types [input.io] [options]
+
+Generates TypeScript types for the schemas of an Internet Object definitions
+file. Reads the standard input when no input file is given.
+
+Options:
+  -o, --out <file>           Write the types to a file instead of the standard output
+  --schema-name <name>       Name of the type generated for $schema (default: Schema)
+  --type <io-type>=<ts-type> Map an IO type to a TypeScript type, e.g. --type uuid=string
+  --decimal-import <module>  Module to import Decimal and the value classes from (default: internet-object)
+  --no-banner                Leave out the generated-file comment
+  -h, --help                 Show this help
+`;
+
+class UsageError extends Error {}
+
+const defaultIO: CliIO = {
+  stdout: text => process.stdout.write(text),
+  stderr: text => process.stderr.write(text),
+  readStdin: () => readFileSync(0, 'utf8'),
+};
+
+/**
+ * Runs the `io-types` command with the given arguments.
+ *
+ * @param args The command line arguments, without the node and script paths
+ * @param io   The console streams, replaceable for testing
+ * @returns The process exit code
+ */
+export function runTypesCli(args: string[], io: CliIO = defaultIO): number {
+  const options: GenerateTypesOptions = {};
+  let input: string | undefined;
+  let out: string | undefined;
+
+  try {
+    for (let i = 0; i < args.length; i++) {
+      const arg = args[i];
+      const value = () => {
+        const next = args[++i];
+        if (next === undefined) throw new UsageError(`Missing value for ${arg}.`);
+        return next;
+      };
+
+      switch (arg) {
+        case '-h':
+        case '--help':
+          io.stdout(USAGE);
+          return 0;
+
+        case '-o':
+        case '--out':
+          out = value();
+          break;
+
+        case '--schema-name':
+          options.schemaName = value();
+          break;
+
+        case '--decimal-import':
+          options.decimalImport = value();
+          break;
+
+        case '--no-banner':
+          options.banner = false;
+          break;
+
+        case '--type': {
+          const mapping = value();
+          const separator = mapping.indexOf('=');
+          if (separator <= 0) throw new UsageError(`Invalid type mapping '${mapping}', expecting <io-type>=<ts-type>.`);
+          options.typeMap = { ...options.typeMap, [mapping.slice(0, separator)]: mapping.slice(separator + 1) };
+          break;
+        }
+
+        default:
+          if (arg.startsWith('-') || input !== undefined) throw new UsageError(`Unexpected argument '${arg}'.`);
+          input = arg;
+      }
+    }
+
+    const text = input === undefined ? io.readStdin() : readFileSync(input, 'utf8');
+    const types = generateTypes(text, options);
+
+    if (out === undefined) {
+      io.stdout(types);
+    } else {
+      writeFileSync(out, types);
+    }
+    return 0;
+  } catch (err) {
+    io.stderr(`io-types: ${(err as Error).message}\n`);
+    if (err instanceof UsageError) io.stderr(`\n${USAGE}`);
+    return 1;
+  }
+}
@@ -28,6 +28,13 @@ import IOObject from "./internet-object";
  * const names = collection.map(p => p.name);
  * ```
  */
+/**
+ * The array `toObject()` returns: typed when the items are objects loaded with
+ * a typed schema, `any` otherwise.
+ */
+type CollectionObject<T> =
+  T extends IOObject<any, infer O> ? (0 extends (1 & O) ? any : O[]) : any;
+
 class IOCollection<T = IOObject> {
   private _items: T[];
   public errors: Error[] = [];
@@ -213,7 +220,7 @@ class IOCollection<T = IOObject> {
    * @param options.skipErrors If true, excludes error objects from output (default: false)
    * @returns An array of plain JavaScript values.
    */
-  public toObject(options?: { skipErrors?: boolean }): any {
+  public toObject(options?: { skipErrors?: boolean }): CollectionObject<T> {
     const skipErrors = options?.skipErrors ?? false;
 
     return this._items
@@ -248,14 +255,14 @@ class IOCollection<T = IOObject> {
           return JSON.stringify(item); // TODO: Should this be parsed back to object or left as string?
         }
         return item;
-      });
+      }) as CollectionObject<T>;
   }
 
   /**
    * Alias for `toObject()`.
    * Provides compatibility with `JSON.stringify()`.
    */
-  public toJSON(options?: { skipErrors?: boolean }): any {
+  public toJSON(options?: { skipErrors?: boolean }): CollectionObject<T> {
     return this.toObject(options);
   }
 
@@ -268,23 +275,41 @@ class IOCollection<T = IOObject> {
   }
 
   /**
-   * Returns all Error objects contained within this collection's ErrorNodes.
+   * Returns all Error objects contained within this collection's ErrorNodes,
+   * followed by any additional errors recorded for its items (for example,
+   * every member failure of a row processed in exhaustive mode).
    *
    * Note: This method is primarily useful when working with collections directly.
    * When using Document.getErrors(), all errors (parser + validation) are already
    * aggregated at the document level.
    *
-   * @returns Array of Error objects from ErrorNode items in this collection
+   * @returns Array of Error objects of this collection, without duplicates
    */
   public getErrors(): Error[] {
-    const errors: Error[] = [];
-    for (const item of this._items) {
+    // Group the recorded errors by item so they follow their item's ErrorNode
+    const byIndex = new Map<number, Error[]>();
+    for (const error of this.errors) {
+      const index = (error as any).collectionIndex;
+      if (typeof index !== 'number') continue;
+      const list = byIndex.get(index);
+      if (list) list.push(error); else byIndex.set(index, [error]);
+    }
+
+    const errors = new Set<Error>();
+    for (let i = 0; i < this._items.length; i++) {
+      const item = this._items[i];
       // ErrorNode-like shape: has an `error` property of type Error
       if (item && typeof item === 'object' && (item as any).error instanceof Error) {
-        errors.push((item as any).error as Error);
+        errors.add((item as any).error as Error);
+      }
+      for (const error of byIndex.get(i) ?? []) {
+        errors.add(error);
       }
     }
-    return errors;
+    for (const error of this.errors) {
+      errors.add(error);
+    }
+    return Array.from(errors);
   }
 
   /**
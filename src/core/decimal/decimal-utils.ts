@@ -178,6 +178,162 @@ export function floorRound(coefficient: bigint, currentScale: number, targetScal
     return quotient;
 }
 
+/**
+ * The ways of rounding a decimal to fewer digits:
+ * - `half-up`: ties away from zero (2.5 → 3, -2.5 → -3), the default
+ * - `half-even`: ties to the even digit, banker's rounding (2.5 → 2, 3.5 → 4)
+ * - `half-down`: ties toward zero (2.5 → 2, -2.5 → -2)
+ * - `ceil`: toward positive infinity
+ * - `floor`: toward negative infinity
+ * - `truncate`: toward zero, dropping the extra digits
+ */
+export type RoundingMode = 'half-up' | 'half-even' | 'half-down' | 'ceil' | 'floor' | 'truncate';
+
+/**
+ * The rounding modes, for validating user input.
+ */
+export const ROUNDING_MODES: readonly RoundingMode[] = ['half-up', 'half-even', 'half-down', 'ceil', 'floor', 'truncate'];
+
+/**
+ * Divides two BigInts, rounding the quotient with the given mode.
+ *
+ * @param dividend The BigInt to divide
+ * @param divisor The BigInt to divide by (must not be zero)
+ * @param mode The rounding mode of the quotient
+ * @returns The rounded quotient
+ * @throws DecimalError if the divisor is zero or the mode is unknown
+ */
+export function divideRounded(dividend: bigint, divisor: bigint, mode: RoundingMode): bigint {
+    if (divisor === 0n) {
+        throw new DecimalError('Division by zero');
+    }
+
+    // BigInt division truncates toward zero
+    const quotient = dividend / divisor;
+    const remainder = dividend % divisor;
+    if (remainder === 0n) {
+        return quotient;
+    }
+
+    const negative = (dividend < 0n) !== (divisor < 0n);
+    const awayFromZero = quotient + (negative ? -1n : 1n);
+
+    // Compare twice the remainder with the divisor to tell the ties
+    const absRemainder2 = (remainder < 0n ? -remainder : remainder) * 2n;
+    const absDivisor = divisor < 0n ? -divisor : divisor;
+    const half = absRemainder2 === absDivisor ? 0 : absRemainder2 > absDivisor ? 1 : -1;
+
+    switch (mode) {
+        case 'half-up':
+            return half >= 0 ? awayFromZero : quotient;
+        case 'half-down':
+            return half > 0 ? awayFromZero : quotient;
+        case 'half-even':
+            if (half === 0) return quotient % 2n === 0n ? quotient : awayFromZero;
+            return half > 0 ? awayFromZero : quotient;
+        case 'ceil':
+            return negative ? quotient : awayFromZero;
+        case 'floor':
+            return negative ? awayFromZero : quotient;
+        case 'truncate':
+            return quotient;
+        default:
+            throw new DecimalError(`Invalid rounding mode: ${mode}`);
+    }
+}
+
+/**
+ * Rounds a coefficient to the target scale with the given rounding mode.
+ * Scaling up pads zeros and never rounds.
+ *
+ * @param coefficient The BigInt coefficient to round
+ * @param currentScale The current scale of the coefficient
+ * @param targetScale The target scale after rounding
+ * @param mode The rounding mode (default: 'half-up')
+ * @returns The rounded coefficient
+ * @throws Error if targetScale is negative or currentScale is negative
+ */
+export function roundToScale(
+    coefficient: bigint,
+    currentScale: number,
+    targetScale: number,
+    mode: RoundingMode = 'half-up'
+): bigint {
+    if (currentScale < 0 || targetScale < 0) {
+        throw new Error('Scales must be non-negative');
+    }
+
+    if (currentScale <= targetScale) {
+        return scaleUp(coefficient, targetScale - currentScale);
+    }
+
+    return divideRounded(coefficient, getPow10(currentScale - targetScale), mode);
+}
+
+/**
+ * Rounds a coefficient using round-half-even (banker's rounding) when scaling down.
+ *
+ * @param coefficient The BigInt coefficient to round
+ * @param currentScale The current scale of the coefficient
+ * @param targetScale The target scale after rounding
+ * @returns The rounded coefficient
+ * @throws Error if targetScale is negative or currentScale is negative
+ */
+export function roundHalfEven(coefficient: bigint, currentScale: number, targetScale: number): bigint {
+    return roundToScale(coefficient, currentScale, targetScale, 'half-even');
+}
+
+/**
+ * Rounds a coefficient using round-half-down (ties toward zero) when scaling down.
+ *
+ * @param coefficient The BigInt coefficient to round
+ * @param currentScale The current scale of the coefficient
+ * @param targetScale The target scale after rounding
+ * @returns The rounded coefficient
+ * @throws Error if targetScale is negative or currentScale is negative
+ */
+export function roundHalfDown(coefficient: bigint, currentScale: number, targetScale: number): bigint {
+    return roundToScale(coefficient, currentScale, targetScale, 'half-down');
+}
+
+/**
+ * Rounds a coefficient toward zero, dropping the extra digits, when scaling down.
+ *
+ * @param coefficient The BigInt coefficient to round
+ * @param currentScale The current scale of the coefficient
+ * @param targetScale The target scale after rounding
+ * @returns The truncated coefficient
+ * @throws Error if targetScale is negative or currentScale is negative
+ */
+export function truncateRound(coefficient: bigint, currentScale: number, targetScale: number): bigint {
+    return roundToScale(coefficient, currentScale, targetScale, 'truncate');
+}
+
+/**
+ * Computes the integer square root of a non-negative BigInt, the largest
+ * integer whose square does not exceed it (Newton's method).
+ *
+ * @param value The non-negative BigInt
+ * @returns floor(sqrt(value))
+ * @throws DecimalError if the value is negative
+ */
+export function integerSqrt(value: bigint): bigint {
+    if (value < 0n) {
+        throw new DecimalError('Square root of a negative number');
+    }
+    if (value < 2n) {
+        return value;
+    }
+
+    // Start above the root, from the bit length, and descend
+    let x = 1n << (BigInt(value.toString(2).length + 1) >> 1n);
+    for (;;) {
+        const next = (x + value / x) >> 1n;
+        if (next >= x) return x;
+        x = next;
+    }
+}
+
 /**
  * Formats a BigInt coefficient as a decimal string with the specified scale and precision.
  * Uses normalization utilities for proper coefficient handling and decimal point placement.
@@ -5,7 +5,9 @@
  * precision, scale, and rounding behaviors.
  */
 
-import { alignOperands, formatBigIntAsDecimal, roundHalfUp, ceilRound, floorRound, validatePrecisionScale, calculateRdbmsArithmeticResult, scaleUp, getPow10 } from './decimal-utils';
+import { alignOperands, formatBigIntAsDecimal, roundHalfUp, ceilRound, floorRound, validatePrecisionScale, calculateRdbmsArithmeticResult, scaleUp, getPow10, roundToScale, divideRounded, integerSqrt, ROUNDING_MODES, RoundingMode } from './decimal-utils';
+
+export type { RoundingMode } from './decimal-utils';
 
 /**
  * Error class for Decimal-specific errors.
@@ -27,6 +29,28 @@ interface DecimalInit {
     exponent: number;
 }
 
+/**
+ * The precision, scale and rounding of the result of an operation. What is
+ * left out falls back to the operation's own rules, and rounding to
+ * `half-up`.
+ *
+ * @example
+ * ```typescript
+ * const ledger: DecimalContext = { precision: 18, scale: 2, rounding: 'half-even' };
+ * new Decimal("10.00").div(new Decimal("3"), ledger).toString(); // "3.33"
+ * ```
+ */
+export interface DecimalContext {
+    /** The total number of significant digits (M) the result may have */
+    precision?: number;
+
+    /** The number of digits after the decimal point (D) of the result */
+    scale?: number;
+
+    /** How the result is rounded to its scale */
+    rounding?: RoundingMode;
+}
+
 /**
  * Decimal provides arbitrary-precision decimal arithmetic with RDBMS-compliant behavior.
  *
@@ -34,7 +58,8 @@ interface DecimalInit {
  * - BigInt-based internal representation for exact arithmetic
  * - Configurable precision (total digits) and scale (decimal places)
  * - RDBMS-standard arithmetic operations (add, sub, mul, div, mod)
- * - Multiple rounding modes: round-half-up, ceil, floor
+ * - Rounding modes: half-up, half-even (banker's), half-down, ceil, floor, truncate
+ * - A rounding context (precision, scale, rounding) accepted by every operation
  * - Scientific notation and various input format support
  * - Immutable: all operations return new Decimal instances
  *
@@ -64,6 +89,11 @@ interface DecimalInit {
  * console.log(value.round(4, 2).toString()); // "10.56" (half-up)
  * console.log(value.ceil(4, 2).toString());  // "10.56"
  * console.log(value.floor(4, 2).toString()); // "10.55"
+ * console.log(new Decimal("2.5").round(2, 0, 'half-even').toString()); // "2"
+ *
+ * // A rounding context, for a result of a fixed scale
+ * const ledger = { precision: 18, scale: 2, rounding: 'half-even' } as const;
+ * console.log(Decimal.sum([a, b, price], ledger).toString()); // "145.74"
  * ```
  */
 class Decimal {
@@ -92,12 +122,21 @@ class Decimal {
      *    - Always requires precision and scale parameters
      *    Example: new Decimal(123.45, 5, 2)
      *
-     * @param value The value to initialize the Decimal with (string, number, or Decimal)
+     * 4. BigInt input:
+     *    - Read as an integer, like its digits; precision/scale are optional
+     *    Example: new Decimal(12345n) or new Decimal(12345n, 7, 2)
+     *
+     * @param value The value to initialize the Decimal with (string, number, bigint, or Decimal)
      * @param precision The total number of significant digits (M)
      * @param scale The number of digits after the decimal point (D)
      * @throws {DecimalError} If value format is invalid or precision/scale constraints are violated
      */
-    constructor(value: string | number | Decimal, precision?: number, scale?: number) {
+    constructor(value: string | number | bigint | Decimal, precision?: number, scale?: number) {
+        // A bigint is an integer, read exactly as its digits
+        if (typeof value === 'bigint') {
+            value = value.toString();
+        }
+
         // Infer or validate precision and scale based on input type
         [precision, scale] = this.resolvePrecisionAndScale(value, precision, scale);
 
@@ -507,6 +546,10 @@ class Decimal {
             return value;
         }
 
+        if (typeof value === 'bigint') {
+            return new Decimal(value);
+        }
+
         if (typeof value === 'number') {
             return new Decimal(value.toString());
         }
@@ -699,14 +742,25 @@ class Decimal {
     }
 
     /**
-     * Rounds this Decimal to the specified precision and scale using round-half-up behavior.
-     * @param targetPrecision The total number of significant digits (M)
+     * Rounds this Decimal to the specified precision and scale, using round-half-up unless
+     * another mode is given. A rounding context may be passed instead, its precision
+     * defaulting to this Decimal's, and its scale to this Decimal's.
+     * @param targetPrecision The total number of significant digits (M), or a rounding context
      * @param targetScale The number of digits after the decimal point (D)
-     * @returns A new Decimal with the specified precision and scale, rounded using round-half-up
+     * @param mode The rounding mode (default: 'half-up')
+     * @returns A new Decimal with the specified precision and scale
      * @throws {DecimalError} If targetScale > targetPrecision or if parameters are invalid
      */
-    round(targetPrecision: number, targetScale: number): Decimal {
-        // Use the utility function
+    round(context: DecimalContext): Decimal;
+    round(targetPrecision: number, targetScale: number, mode?: RoundingMode): Decimal;
+    round(targetPrecision: number | DecimalContext, targetScale?: number, mode: RoundingMode = 'half-up'): Decimal {
+        if (typeof targetPrecision === 'object') {
+            return Decimal.fromResult(this.coefficient, this.scale, this.scale, this.precision, targetPrecision);
+        }
+        if (targetScale === undefined) {
+            throw new DecimalError("Scale must be provided with the precision.");
+        }
+        Decimal.checkRoundingMode(mode);
 
         // Validate parameters
         if (targetScale > targetPrecision) {
@@ -720,7 +774,7 @@ class Decimal {
         }
 
         // Round the coefficient to the target scale
-        const roundedCoeff = roundHalfUp(this.coefficient, this.scale, targetScale);
+        const roundedCoeff = roundToScale(this.coefficient, this.scale, targetScale, mode);
 
         // Format as decimal string and create new Decimal
         const decimalStr = formatBigIntAsDecimal(roundedCoeff, targetScale);
@@ -790,9 +844,10 @@ class Decimal {
      * Uses truncation toward zero for the quotient (RDBMS-like), so the remainder has the same sign as the dividend.
      * Result scale is max(scale1, scale2).
      * @param other The Decimal divisor
+     * @param context The rounding context of the result (optional)
      * @returns A new Decimal representing (this % other)
      */
-    mod(other: Decimal): Decimal {
+    mod(other: Decimal, context?: DecimalContext): Decimal {
         if (!(other instanceof Decimal)) throw new DecimalError('Invalid operand');
         if (other.coefficient === 0n) throw new DecimalError('Division by zero');
 
@@ -808,33 +863,17 @@ class Decimal {
         const q = aCoeff / bCoeff;
         const remainderCoeff = aCoeff - q * bCoeff;
 
-        // Determine precision from actual digits
-        const digits = remainderCoeff.toString().replace('-', '').length;
-        const finalPrecision = Math.max(digits, this.precision, other.precision);
-
-        const resultStr = formatBigIntAsDecimal(remainderCoeff, targetScale);
-        return new Decimal(resultStr, finalPrecision, targetScale);
+        return Decimal.fromResult(remainderCoeff, targetScale, targetScale, Math.max(this.precision, other.precision), context);
     }
 
     /**
      * Adds this Decimal to another and returns a new Decimal.
-     * The result will match the scale of the first operand (this), and will be rounded if necessary.
+     * The result scale is max(scale1, scale2), so the sum is exact unless a context rounds it.
      * @param other The Decimal to add.
-     * @returns A new Decimal representing the sum, rounded to this.scale.
+     * @param context The rounding context of the result (optional)
+     * @returns A new Decimal representing the sum.
      */
-    /**
- * Adds this Decimal to another and returns a new Decimal.
- * The result will match the scale of the first operand (this), and will be rounded if necessary.
- * @param other The Decimal to add.
- * @returns A new Decimal representing the sum, rounded to this.scale.
- */
-    /**
- * Adds this Decimal to another and returns a new Decimal.
- * The result will match the scale of the first operand (this), and will be rounded if necessary.
- * @param other The Decimal to add.
- * @returns A new Decimal representing the sum, rounded to this.scale.
- */
-    add(other: Decimal): Decimal {
+    add(other: Decimal, context?: DecimalContext): Decimal {
         if (!(other instanceof Decimal)) throw new DecimalError('Invalid operand');
 
         // RDBMS addition: resultScale = max(s1, s2); resultPrecision per standard
@@ -857,25 +896,17 @@ class Decimal {
             'round'
         );
 
-        // Add aligned coefficients
-        const sumCoeff = aCoeff + bCoeff;
-
-        // Determine final precision: accommodate actual digits if they exceed calcPrecision
-        const digits = sumCoeff.toString().replace('-', '').length;
-        const finalPrecision = Math.max(calcPrecision, digits);
-
-        // Format and construct
-        const resultStr = formatBigIntAsDecimal(sumCoeff, calcScale);
-        return new Decimal(resultStr, finalPrecision, calcScale);
+        return Decimal.fromResult(aCoeff + bCoeff, calcScale, calcScale, calcPrecision, context);
     }
 
     /**
      * Subtracts another Decimal from this and returns a new Decimal.
-     * The result will match the scale of the first operand (this), and will be rounded if necessary.
+     * The result scale is max(scale1, scale2), so the difference is exact unless a context rounds it.
      * @param other The Decimal to subtract.
-     * @returns A new Decimal representing the difference, rounded to this.scale.
+     * @param context The rounding context of the result (optional)
+     * @returns A new Decimal representing the difference.
      */
-    sub(other: Decimal): Decimal {
+    sub(other: Decimal, context?: DecimalContext): Decimal {
         if (!(other instanceof Decimal)) throw new DecimalError('Invalid operand');
 
         // RDBMS subtraction: use utility to determine result precision/scale
@@ -898,92 +929,261 @@ class Decimal {
             'round'
         );
 
-        // Subtract aligned coefficients
-        const diffCoeff = aCoeff - bCoeff;
-
-        // Determine final precision: accommodate actual digits if they exceed calcPrecision
-        const digits = diffCoeff.toString().replace('-', '').length;
-        const finalPrecision = Math.max(calcPrecision, digits);
-
-        // Format and construct
-        const resultStr = formatBigIntAsDecimal(diffCoeff, calcScale);
-        return new Decimal(resultStr, finalPrecision, calcScale);
+        return Decimal.fromResult(aCoeff - bCoeff, calcScale, calcScale, calcPrecision, context);
     }
 
     /**
      * Multiplies this Decimal by another and returns a new Decimal.
-     * Uses utility functions for scale operations and rounding.
-     * The result scale follows RDBMS standard: max(scale1, scale2).
+     * The exact product is rounded once, to max(scale1, scale2) unless a context gives the scale.
      * @param other The Decimal to multiply by.
-     * @returns A new Decimal representing the product with RDBMS-compliant scale.
+     * @param context The rounding context of the result (optional)
+     * @returns A new Decimal representing the product.
      */
-    mul(other: Decimal): Decimal {
+    mul(other: Decimal, context?: DecimalContext): Decimal {
         if (!(other instanceof Decimal)) throw new DecimalError('Invalid operand');
-        // Multiply coefficients directly using BigInt arithmetic
+
+        // Multiply coefficients directly using BigInt arithmetic; the product is exact at s1 + s2
         const resultCoeff = this.coefficient * other.coefficient;
         const intermediateScale = this.scale + other.scale;
 
         // Tests expect result scale to be max(s1, s2)
         const targetScale = Math.max(this.scale, other.scale);
 
-        // Adjust result to target scale
-        let adjustedCoeff = resultCoeff;
-        if (intermediateScale > targetScale) {
-            adjustedCoeff = roundHalfUp(resultCoeff, intermediateScale, targetScale);
-        } else if (intermediateScale < targetScale) {
-            adjustedCoeff = scaleUp(resultCoeff, targetScale - intermediateScale);
-        }
-
-        // Compute appropriate precision
-        const resultDigits = adjustedCoeff.toString().replace('-', '').length;
-        let finalPrecision = Math.max(this.precision, other.precision, resultDigits);
-        if (resultDigits > finalPrecision) finalPrecision = resultDigits;
-
-        const resultStr = formatBigIntAsDecimal(adjustedCoeff, targetScale);
-        return new Decimal(resultStr, finalPrecision, targetScale);
+        return Decimal.fromResult(resultCoeff, intermediateScale, targetScale, Math.max(this.precision, other.precision), context);
     }
 
     /**
      * Divides this Decimal by another and returns a new Decimal.
-     * The result will match the scale of the dividend (this), and will be rounded if necessary.
-     * This behavior is consistent with industry standards and ensures predictable precision.
+     * The quotient takes the scale of the divisor unless a context gives it, and is rounded
+     * once from the exact quotient (half-up unless the context says otherwise).
      * @param other The Decimal to divide by.
-     * @returns A new Decimal representing the quotient, rounded to this.scale.
+     * @param context The rounding context of the result (optional)
+     * @returns A new Decimal representing the rounded quotient.
      */
-    div(other: Decimal): Decimal {
+    div(other: Decimal, context?: DecimalContext): Decimal {
         if (!(other instanceof Decimal)) throw new DecimalError('Invalid operand');
         if (other.coefficient === 0n) throw new DecimalError('Division by zero');
+        Decimal.checkContext(context);
 
-    // Tests expect result scale to follow the divisor's scale
-    const targetScale = other.scale;
+        // Tests expect result scale to follow the divisor's scale
+        const targetScale = context?.scale ?? other.scale;
 
-    // Compute numerator scaling: coeffA * 10^(targetScale + sB - sA)
-    const exponentAdjustment = targetScale + other.scale - this.scale;
-        let numerator: bigint;
-        if (exponentAdjustment >= 0) {
-            numerator = this.coefficient * getPow10(exponentAdjustment);
-        } else {
-            const down = getPow10(-exponentAdjustment);
-            numerator = this.coefficient / down;
+        // The quotient at T is (coeffA * 10^(T + sB)) / (coeffB * 10^sA); the
+        // smaller power is cancelled out, so no digit is dropped before rounding
+        const exponentAdjustment = targetScale + other.scale - this.scale;
+        const numerator = exponentAdjustment >= 0
+            ? this.coefficient * getPow10(exponentAdjustment)
+            : this.coefficient;
+        const denominator = exponentAdjustment >= 0
+            ? other.coefficient
+            : other.coefficient * getPow10(-exponentAdjustment);
+
+        const quotient = divideRounded(numerator, denominator, context?.rounding ?? 'half-up');
+
+        return Decimal.fromResult(quotient, targetScale, targetScale, Math.max(this.precision, other.precision), context);
+    }
+
+    /**
+     * Returns the absolute value of this Decimal, with the same precision and scale.
+     */
+    abs(): Decimal {
+        return this.coefficient < 0n ? this.negate() : this;
+    }
+
+    /**
+     * Returns this Decimal with its sign flipped, with the same precision and scale.
+     */
+    negate(): Decimal {
+        return new Decimal(formatBigIntAsDecimal(-this.coefficient, this.scale), this.precision, this.scale);
+    }
+
+    /**
+     * Raises this Decimal to an integer power. The exact power is rounded once,
+     * to this Decimal's scale unless a context gives the scale. A negative
+     * exponent divides one by the power.
+     * @param exponent The integer exponent
+     * @param context The rounding context of the result (optional)
+     * @returns A new Decimal representing this^exponent.
+     * @throws {DecimalError} If the exponent is not an integer, or is negative on zero
+     */
+    pow(exponent: number, context?: DecimalContext): Decimal {
+        if (!Number.isSafeInteger(exponent)) {
+            throw new DecimalError(`The exponent must be an integer, got ${exponent}.`);
+        }
+        Decimal.checkContext(context);
+
+        const power = BigInt(Math.abs(exponent));
+        const powerCoeff = this.coefficient ** power;
+        const powerScale = this.scale * Math.abs(exponent);
+        if (exponent >= 0) {
+            return Decimal.fromResult(powerCoeff, powerScale, this.scale, this.precision, context);
         }
-        const denominator = other.coefficient;
 
-        let quotient = numerator / denominator;
-        let remainder = numerator % denominator;
+        if (this.coefficient === 0n) throw new DecimalError('Division by zero');
+
+        // 1 / (c / 10^s)^n, at the target scale T, is 10^(s*n + T) / c^n
+        const targetScale = context?.scale ?? this.scale;
+        const quotient = divideRounded(getPow10(powerScale + targetScale), powerCoeff, context?.rounding ?? 'half-up');
+        return Decimal.fromResult(quotient, targetScale, targetScale, this.precision, context);
+    }
 
-        // Round half up from remainder using the true sign of the result
-        const absDen = denominator < 0n ? -denominator : denominator;
-        const absRem = remainder < 0n ? -remainder : remainder;
-        if (absRem * 2n >= absDen) {
-            const isNegative = (numerator < 0n) !== (denominator < 0n);
-            quotient += isNegative ? -1n : 1n;
+    /**
+     * Computes the square root of this Decimal, rounded to this Decimal's scale
+     * unless a context gives the scale. Every rounding mode rounds the exact root.
+     * @param context The rounding context of the result (optional)
+     * @returns A new Decimal representing the square root.
+     * @throws {DecimalError} If this Decimal is negative
+     */
+    sqrt(context?: DecimalContext): Decimal {
+        if (this.coefficient < 0n) throw new DecimalError('Square root of a negative number');
+        Decimal.checkContext(context);
+
+        // The root is taken one digit (at least) past the target scale, from a
+        // radicand of an even scale
+        const targetScale = context?.scale ?? this.scale;
+        const extra = Math.max(1, Math.ceil((this.scale - 2 * targetScale) / 2));
+        const radicand = scaleUp(this.coefficient, 2 * (targetScale + extra) - this.scale);
+
+        let root = integerSqrt(radicand);
+        let rootScale = targetScale + extra;
+
+        // An inexact root lies strictly between two digits: a trailing 1 keeps
+        // it off the ties, so that it rounds the same as the exact root
+        if (root * root !== radicand) {
+            root = root * 10n + 1n;
+            rootScale += 1;
+        }
+
+        return Decimal.fromResult(root, rootScale, targetScale, this.precision, context);
+    }
+
+    /**
+     * Returns the smallest of the Decimals, which may differ in precision and scale.
+     * @throws {DecimalError} If no Decimal is given
+     */
+    static min(...values: Decimal[]): Decimal {
+        return Decimal.pick(values, 'min', -1);
+    }
+
+    /**
+     * Returns the largest of the Decimals, which may differ in precision and scale.
+     * @throws {DecimalError} If no Decimal is given
+     */
+    static max(...values: Decimal[]): Decimal {
+        return Decimal.pick(values, 'max', 1);
+    }
+
+    /**
+     * Adds up the Decimals exactly, at the largest of their scales, and rounds
+     * the total once when a context is given. The sum of none is zero.
+     * @param values The Decimals to add up
+     * @param context The rounding context of the total (optional)
+     * @returns A new Decimal representing the total.
+     */
+    static sum(values: readonly Decimal[], context?: DecimalContext): Decimal {
+        let total = 0n;
+        let scale = 0;
+        let precision = 1;
+        for (const value of values) {
+            if (!(value instanceof Decimal)) throw new DecimalError('Invalid operand');
+
+            // Keep the total at the largest scale so far
+            if (value.scale > scale) {
+                total = scaleUp(total, value.scale - scale);
+                scale = value.scale;
+            }
+            total += scaleUp(value.coefficient, scale - value.scale);
+            precision = Math.max(precision, value.precision);
+        }
+
+        return Decimal.fromResult(total, scale, scale, Math.max(precision, scale), context);
+    }
+
+    /**
+     * Builds the Decimal of an operation's result: its coefficient, at the given
+     * scale, is rounded to the scale of the context (or the default scale), and
+     * takes the precision of the context, or the larger of the default precision
+     * and its own digits.
+     * @private
+     */
+    private static fromResult(
+        coefficient: bigint,
+        scale: number,
+        defaultScale: number,
+        defaultPrecision: number,
+        context?: DecimalContext
+    ): Decimal {
+        Decimal.checkContext(context);
+
+        const targetScale = context?.scale ?? defaultScale;
+        const rounded = roundToScale(coefficient, scale, targetScale, context?.rounding ?? 'half-up');
+
+        const digits = (rounded < 0n ? -rounded : rounded).toString().length;
+        const precision = context?.precision ?? Math.max(defaultPrecision, digits, targetScale);
+        if (digits > precision) {
+            throw new DecimalError(
+                `The result ${formatBigIntAsDecimal(rounded, targetScale)} exceeds the precision (${precision}) of the context.`
+            );
         }
 
-    const resultStr = formatBigIntAsDecimal(quotient, targetScale);
-    const digits = (quotient < 0n ? (-quotient).toString() : quotient.toString()).length;
-    const finalPrecision = Math.max(this.precision, other.precision, digits);
+        return new Decimal(formatBigIntAsDecimal(rounded, targetScale), precision, targetScale);
+    }
+
+    /**
+     * Validates a rounding context.
+     * @private
+     */
+    private static checkContext(context?: DecimalContext): void {
+        if (context === undefined) return;
+
+        const { precision, scale, rounding } = context;
+        if (precision !== undefined && (!Number.isSafeInteger(precision) || precision < 1)) {
+            throw new DecimalError(`The precision of a context must be a positive integer, got ${precision}.`);
+        }
+        if (scale !== undefined && (!Number.isSafeInteger(scale) || scale < 0)) {
+            throw new DecimalError(`The scale of a context must be a non-negative integer, got ${scale}.`);
+        }
+        if (rounding !== undefined) {
+            Decimal.checkRoundingMode(rounding);
+        }
+    }
+
+    /**
+     * Validates a rounding mode.
+     * @private
+     */
+    private static checkRoundingMode(mode: RoundingMode): void {
+        if (!ROUNDING_MODES.includes(mode)) {
+            throw new DecimalError(`Invalid rounding mode: ${mode}`);
+        }
+    }
+
+    /**
+     * Returns the Decimal of the values that compares to all others with the sign.
+     * @private
+     */
+    private static pick(values: Decimal[], name: string, sign: 1 | -1): Decimal {
+        if (values.length === 0) {
+            throw new DecimalError(`Decimal.${name}() needs at least one value.`);
+        }
+
+        return values.reduce((picked, value) => {
+            if (!(value instanceof Decimal)) throw new DecimalError('Invalid operand');
+            return Decimal.compareValues(value, picked) === sign ? value : picked;
+        });
+    }
+
+    /**
+     * Compares the values of two Decimals, whatever their precision and scale.
+     * @private
+     */
+    private static compareValues(a: Decimal, b: Decimal): number {
+        const scale = Math.max(a.scale, b.scale);
+        const aCoeff = scaleUp(a.coefficient, scale - a.scale);
+        const bCoeff = scaleUp(b.coefficient, scale - b.scale);
 
-    return new Decimal(resultStr, finalPrecision, targetScale);
+        if (aCoeff === bCoeff) return 0;
+        return aCoeff > bCoeff ? 1 : -1;
     }
 
     // (roundCoefficientToScale removed; use roundHalfUp from utils instead)
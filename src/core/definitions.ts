@@ -3,6 +3,8 @@ import ValidationError  from '../errors/io-validation-error';
 import TokenNode        from '../parser/nodes/tokens';
 import TokenType        from '../parser/tokenizer/token-types';
 import Schema           from '../schema/schema';
+import TypedefScope     from '../schema/typedef-scope';
+import { TypeDefConstructor } from '../schema/typedef-scope';
 
 /**
  * Represents a stored definition value with metadata.
@@ -60,6 +62,12 @@ class IODefinitions {
    */
   private _definitions: { [key: string]: IODefinitionValue } = {};
 
+  /**
+   * Custom types registered for these definitions only. Created lazily by
+   * registerType().
+   */
+  private _typeDefs: TypedefScope | null = null;
+
   /**
    * Returns the number of definitions in the collection.
    * @returns Number of definitions.
@@ -86,6 +94,38 @@ class IODefinitions {
     return { key, value: this._definitions[key] };
   }
 
+  /**
+   * Returns the scoped type registry of these definitions, or null when no
+   * custom type has been registered.
+   */
+  public get typeDefs(): TypedefScope | null {
+    return this._typeDefs;
+  }
+
+  /**
+   * Registers custom types which are available only to the schemas, data and
+   * operations that use these definitions. Scoped types take precedence over
+   * the globally registered types of the same name.
+   *
+   * Register the types before parsing the definitions text so that schemas
+   * referring to them compile:
+   *
+   * ```typescript
+   * const defs = new IODefinitions().registerType(UuidDef);
+   * const withSchemas = parseDefinitions('~ $schema: { id: uuid, name: string }', defs);
+   * ```
+   *
+   * @param typeDefConstructors The TypeDef constructor classes
+   * @returns This definitions object, for chaining
+   */
+  public registerType(...typeDefConstructors: TypeDefConstructor[]): this {
+    if (!this._typeDefs) {
+      this._typeDefs = new TypedefScope();
+    }
+    this._typeDefs.register(...typeDefConstructors);
+    return this;
+  }
+
   /**
    * Returns the default schema, if defined.
    * Resolves schema variable references (e.g., $schema: $otherSchema).
@@ -243,6 +283,7 @@ class IODefinitions {
    *                  definitions
    */
   public merge(other: IODefinitions, override: boolean = false) {
+    this.mergeTypeDefs(other, override);
     for (let i = 0; i < other.length; i++) {
       const { key, value } = other.at(i);
       if (override || !this._definitions[key]) {
@@ -251,6 +292,19 @@ class IODefinitions {
     }
   }
 
+  /**
+   * Copies the scoped types of the other definitions into these definitions.
+   * @param other     The other definitions to take the types from
+   * @param override  If true, the other types replace the existing ones
+   */
+  public mergeTypeDefs(other: IODefinitions, override: boolean = false) {
+    if (!other.typeDefs) return;
+    if (!this._typeDefs) {
+      this._typeDefs = new TypedefScope();
+    }
+    this._typeDefs.merge(other.typeDefs, override);
+  }
+
   /**
    * Return a clean object for nodejs console logging.
    */
@@ -31,8 +31,13 @@ import IOSectionCollection from "./section-collection";
  *   console.error('Parsing errors:', doc.errors);
  * }
  * ```
+ *
+ * @template T The type `toObject()` returns. Documents loaded or parsed with
+ *   a typed schema (see `IOSchema.create()`) carry the type of their data,
+ *   which is what `toObject()` returns as long as the header holds no
+ *   metadata definitions.
  */
-class IODocument {
+class IODocument<T = any> {
   private _header: IOHeader;
   private _sections: IOSectionCollection | null;
   private _ownErrors: Error[] = []; // Accumulated errors during parsing
@@ -106,7 +111,7 @@ class IODocument {
    * @param options Optional configuration for object conversion
    * @param options.skipErrors If true, excludes error objects from collections (default: false)
    */
-  public toObject(options?: { skipErrors?: boolean }): any {
+  public toObject(options?: { skipErrors?: boolean }): T {
     const sectionsLen = this._sections?.length || 0;
     let data: any = null;
 
@@ -127,7 +132,7 @@ class IODocument {
       return {
         header: headerObject,
         data,
-      };
+      } as any;
     }
 
     return data;
@@ -137,7 +142,7 @@ class IODocument {
    * Alias for toObject() method for JSON compatibility
    * @param options Optional configuration for JSON conversion
    */
-  public toJSON(options?: { skipErrors?: boolean }): any {
+  public toJSON(options?: { skipErrors?: boolean }): T {
     return this.toObject(options);
   }
 }
@@ -0,0 +1,297 @@
+/**
+ * @fileoverview ISO 8601 durations, such as `P1DT2H`, read by the `duration`
+ * type from `du"..."` strings, with the arithmetic to apply them to the
+ * datetime and date values.
+ */
+
+import { IODate, IODateTime } from './temporal';
+
+// P[n]Y[n]M[n]W[n]DT[n]H[n]M[n[.f]]S, with at least one part, and a
+// fraction (up to nanoseconds) on the seconds only
+const DURATION_EXP = /^(?<sign>[+-])?P(?!$)(?:(?<years>\d+)Y)?(?:(?<months>\d+)M)?(?:(?<weeks>\d+)W)?(?:(?<days>\d+)D)?(?:T(?=\d)(?:(?<hours>\d+)H)?(?:(?<minutes>\d+)M)?(?:(?<seconds>\d+)(?:[.,](?<fraction>\d{1,9}))?S)?)?$/;
+
+const NS_PER_SECOND = 1_000_000_000n;
+const NS_PER_MS = 1_000_000n;
+const SECONDS_PER_DAY = 86_400;
+
+/** The parts of a duration, for `IODuration.from()`. */
+export interface DurationFields {
+  years?: number;
+  months?: number;
+  weeks?: number;
+  days?: number;
+  hours?: number;
+  minutes?: number;
+  seconds?: number;
+  nanoseconds?: number;
+
+  /** Whether the duration goes back in time */
+  negative?: boolean;
+}
+
+/**
+ * An ISO 8601 duration. Its years and months are calendar units: they are
+ * added to a datetime or a date by moving its month, and shortening the
+ * day to the end of that month when needed. The other units are exact.
+ *
+ * Durations are compared by their nominal length, taking a month as 30
+ * days and a year as 365 days, so that `P1D` equals `PT24H`.
+ *
+ * @example
+ * ```typescript
+ * const sla = IODuration.parse('P1DT2H')!
+ * sla.addTo(IODateTime.parse('2024-03-10T09:30:00+05:30')!)  // 2024-03-11T11:30:00+05:30
+ * sla.toMilliseconds()                                      // 93600000
+ * ```
+ */
+export class IODuration {
+  /** The duration, as written, without its annotation and quotes */
+  readonly text: string;
+
+  readonly years: number;
+  readonly months: number;
+  readonly weeks: number;
+  readonly days: number;
+  readonly hours: number;
+  readonly minutes: number;
+
+  /** The whole seconds */
+  readonly seconds: number;
+
+  /** The fraction of the seconds, in nanoseconds */
+  readonly nanoseconds: number;
+
+  /** Whether the duration goes back in time, written with a leading `-` */
+  readonly negative: boolean;
+
+  private constructor(text: string, fields: Required<DurationFields>) {
+    this.text = text;
+    this.years = fields.years;
+    this.months = fields.months;
+    this.weeks = fields.weeks;
+    this.days = fields.days;
+    this.hours = fields.hours;
+    this.minutes = fields.minutes;
+    this.seconds = fields.seconds;
+    this.nanoseconds = fields.nanoseconds;
+    this.negative = fields.negative;
+  }
+
+  /**
+   * Parses an ISO 8601 duration, such as `P1DT2H` or `-PT0.5S`. Returns
+   * null when it is invalid.
+   */
+  static parse(text: string): IODuration | null {
+    const match = DURATION_EXP.exec(text);
+    if (!match) return null;
+
+    const groups = match.groups!;
+    return new IODuration(text, {
+      years:       Number(groups.years || 0),
+      months:      Number(groups.months || 0),
+      weeks:       Number(groups.weeks || 0),
+      days:        Number(groups.days || 0),
+      hours:       Number(groups.hours || 0),
+      minutes:     Number(groups.minutes || 0),
+      seconds:     Number(groups.seconds || 0),
+      nanoseconds: Number((groups.fraction || '').padEnd(9, '0')),
+      negative:    groups.sign === '-',
+    });
+  }
+
+  /**
+   * Returns the duration of the parts, written in the shortest ISO 8601
+   * form, e.g. `P1DT2H`, or `PT0S` when empty.
+   *
+   * @throws RangeError when a part is negative or not an integer
+   */
+  static from(fields: DurationFields): IODuration {
+    const parts: [keyof DurationFields, string][] = [
+      ['years', 'Y'], ['months', 'M'], ['weeks', 'W'], ['days', 'D'],
+      ['hours', 'H'], ['minutes', 'M'], ['seconds', 'S'], ['nanoseconds', ''],
+    ];
+    for (const [name] of parts) {
+      const value = fields[name] ?? 0;
+      if (typeof value !== 'number' || !Number.isSafeInteger(value) || value < 0) {
+        throw new RangeError(`The ${name} of a duration must be a non-negative integer, got ${value}.`);
+      }
+    }
+    if ((fields.nanoseconds ?? 0) >= 1e9) {
+      throw new RangeError(`The nanoseconds of a duration must be less than a second, got ${fields.nanoseconds}.`);
+    }
+
+    const part = (name: keyof DurationFields, unit: string) => fields[name] ? `${fields[name]}${unit}` : '';
+    const date = parts.slice(0, 4).map(([name, unit]) => part(name, unit)).join('');
+    const fraction = fields.nanoseconds ? `.${String(fields.nanoseconds).padStart(9, '0').replace(/0+$/, '')}` : '';
+    const seconds = fields.seconds || fields.nanoseconds ? `${fields.seconds ?? 0}${fraction}S` : '';
+    const time = `${part('hours', 'H')}${part('minutes', 'M')}${seconds}`;
+
+    const text = date || time ? `P${date}${time ? `T${time}` : ''}` : 'PT0S';
+    return IODuration.parse(fields.negative && text !== 'PT0S' ? `-${text}` : text)!;
+  }
+
+  /**
+   * Returns the exact duration from the start to the end, in days, hours,
+   * minutes and seconds; negative when the end comes first. Between dates,
+   * it is in days.
+   *
+   * @throws TypeError when a date is paired with a datetime
+   */
+  static between(start: Date | IODateTime | IODate, end: Date | IODateTime | IODate): IODuration {
+    if ((start instanceof IODate) !== (end instanceof IODate)) {
+      throw new TypeError('A duration is measured between two dates, or two datetimes.');
+    }
+
+    const diff = instantOf(end) - instantOf(start);
+    const negative = diff < 0n;
+    const total = negative ? -diff : diff;
+
+    const seconds = Number(total / NS_PER_SECOND);
+    return IODuration.from({
+      days:        Math.floor(seconds / SECONDS_PER_DAY),
+      hours:       Math.floor(seconds % SECONDS_PER_DAY / 3600),
+      minutes:     Math.floor(seconds % 3600 / 60),
+      seconds:     seconds % 60,
+      nanoseconds: Number(total % NS_PER_SECOND),
+      negative,
+    });
+  }
+
+  /** Tells whether every part of the duration is zero. */
+  get isZero(): boolean {
+    return this.nominalNanoseconds() === 0n;
+  }
+
+  /** Returns the duration going the other way in time. */
+  negated(): IODuration {
+    return IODuration.from({ ...this.fields(), negative: !this.negative });
+  }
+
+  /**
+   * Returns the nominal length of the duration in milliseconds, a month
+   * taken as 30 days and a year as 365 days; negative when it goes back.
+   */
+  toMilliseconds(): number {
+    return Number(this.nominalNanoseconds() / NS_PER_MS);
+  }
+
+  /**
+   * Compares the nominal lengths of the durations. Returns a negative
+   * number, zero or a positive number.
+   */
+  compare(other: IODuration): number {
+    const ours = this.nominalNanoseconds();
+    const theirs = other.nominalNanoseconds();
+    return ours < theirs ? -1 : ours > theirs ? 1 : 0;
+  }
+
+  /** Tells whether the durations have the same nominal length. */
+  equals(other: IODuration): boolean {
+    return this.compare(other) === 0;
+  }
+
+  /**
+   * Returns the datetime or the date moved forward by the duration (back,
+   * when negative). A datetime keeps its offset, and a `Date` is moved in
+   * UTC. Digits beyond the millisecond are dropped from a `Date`.
+   *
+   * @throws RangeError when a duration with hours, minutes or seconds is
+   *                    added to a date
+   */
+  addTo<T extends Date | IODateTime | IODate>(value: T): T {
+    return this.shift(value, this.negative ? -1 : 1);
+  }
+
+  /** Returns the datetime or the date moved back by the duration. */
+  subtractFrom<T extends Date | IODateTime | IODate>(value: T): T {
+    return this.shift(value, this.negative ? 1 : -1);
+  }
+
+  /** Returns the duration as written, e.g. `P1DT2H`. */
+  toString(): string {
+    return this.text;
+  }
+
+  /** Returns the duration as IO text, e.g. `du"P1DT2H"`. */
+  toIOString(): string {
+    return `du"${this.text}"`;
+  }
+
+  toJSON(): string {
+    return this.text;
+  }
+
+  private fields(): Required<DurationFields> {
+    const { years, months, weeks, days, hours, minutes, seconds, nanoseconds, negative } = this;
+    return { years, months, weeks, days, hours, minutes, seconds, nanoseconds, negative };
+  }
+
+  private nominalNanoseconds(): bigint {
+    const days = this.years * 365 + this.months * 30 + this.weeks * 7 + this.days;
+    const seconds = BigInt(days * SECONDS_PER_DAY + this.hours * 3600 + this.minutes * 60 + this.seconds);
+    const total = seconds * NS_PER_SECOND + BigInt(this.nanoseconds);
+    return this.negative ? -total : total;
+  }
+
+  // Moves the wall-clock fields of the value by the months first, then by
+  // the exact units, in the given direction
+  private shift<T extends Date | IODateTime | IODate>(value: T, direction: 1 | -1): T {
+    const exactSeconds = (this.weeks * 7 + this.days) * SECONDS_PER_DAY + this.hours * 3600 + this.minutes * 60 + this.seconds;
+    if (value instanceof IODate && (this.hours || this.minutes || this.seconds || this.nanoseconds)) {
+      throw new RangeError(`The duration '${this.text}' has a time, which cannot be added to a date.`);
+    }
+
+    const fields = value instanceof Date
+      ? {
+          year: value.getUTCFullYear(), month: value.getUTCMonth() + 1, day: value.getUTCDate(),
+          hour: value.getUTCHours(), minute: value.getUTCMinutes(), second: value.getUTCSeconds(),
+          nanosecond: value.getUTCMilliseconds() * 1_000_000,
+        }
+      : value instanceof IODateTime
+        ? value
+        : { year: value.year, month: value.month, day: value.day, hour: 0, minute: 0, second: 0, nanosecond: 0 };
+
+    // The calendar units, the day kept within the month
+    const monthIndex = fields.year * 12 + (fields.month - 1) + direction * (this.years * 12 + this.months);
+    const year = Math.floor(monthIndex / 12);
+    const month = monthIndex - year * 12 + 1;
+    const day = Math.min(fields.day, daysInMonth(year, month));
+
+    // The exact units
+    const base = BigInt(utcMilliseconds(year, month, day, fields.hour, fields.minute, fields.second)) * NS_PER_MS;
+    const delta = BigInt(exactSeconds) * NS_PER_SECOND + BigInt(this.nanoseconds);
+    const total = base + BigInt(fields.nanosecond) + (direction === 1 ? delta : -delta);
+
+    const remainder = ((total % NS_PER_MS) + NS_PER_MS) % NS_PER_MS;
+    const moved = new Date(Number((total - remainder) / NS_PER_MS));
+    if (value instanceof Date) return moved as T;
+
+    const next = {
+      year: moved.getUTCFullYear(), month: moved.getUTCMonth() + 1, day: moved.getUTCDate(),
+      hour: moved.getUTCHours(), minute: moved.getUTCMinutes(), second: moved.getUTCSeconds(),
+      nanosecond: moved.getUTCMilliseconds() * 1_000_000 + Number(remainder),
+    };
+    if (value instanceof IODate) return IODate.from(next) as T;
+    return IODateTime.from(next, (value as IODateTime).offset) as T;
+  }
+}
+
+// The instant of the value, in nanoseconds since the epoch; a date is its
+// UTC midnight
+function instantOf(value: Date | IODateTime | IODate): bigint {
+  if (value instanceof Date) return BigInt(value.getTime()) * NS_PER_MS;
+  const ms = BigInt(value.toDate().getTime()) * NS_PER_MS;
+  return value instanceof IODateTime ? ms + BigInt(value.nanosecond % 1_000_000) : ms;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(utcMilliseconds(year, month + 1, 0, 0, 0, 0)).getUTCDate();
+}
+
+// The UTC milliseconds of the wall-clock fields, years before 100 included
+function utcMilliseconds(year: number, month: number, day: number, hour: number, minute: number, second: number): number {
+  const date = new Date(0);
+  date.setUTCFullYear(year, month - 1, day);
+  date.setUTCHours(hour, minute, second, 0);
+  return date.getTime();
+}
@@ -10,6 +10,8 @@
  * - Synchronizes with object properties for dot-notation access
  *
  * @template T The type of values stored in the object
+ * @template TObject The plain object type `toObject()` returns. Objects loaded
+ *   with a typed schema (see `IOSchema.create()`) carry the schema's type here.
  *
  * @example
  * ```typescript
@@ -21,7 +23,7 @@
  * console.log(obj.getAt(1)); // 2
  * ```
  */
-class IOObject<T = any> implements Iterable<[string | undefined, T]> {
+class IOObject<T = any, TObject = any> implements Iterable<[string | undefined, T]> {
   [key: string]: any;
   private items!: ([string | undefined, T] | undefined)[];
   private keyMap!: Map<string, number>;
@@ -242,6 +244,16 @@ class IOObject<T = any> implements Iterable<[string | undefined, T]> {
   return this.length === 0;
   }
 
+  /**
+   * Returns the validation errors recorded for this object. When the object
+   * was processed in exhaustive mode, this contains one error per failing
+   * member.
+   * @returns A copy of the errors array.
+   */
+  getErrors(): Error[] {
+    return [...this.errors];
+  }
+
   /**
    * Creates an IOObject from an array of values or [key, value] pairs.
    * @param array The array to create from.
@@ -468,7 +480,7 @@ class IOObject<T = any> implements Iterable<[string | undefined, T]> {
    *
    * @returns A plain JavaScript object.
    */
-  toObject(): any {
+  toObject(): TObject {
     const obj:any = {}
     this.forEach((value:any, key:string | undefined, index:number) => {
       if (typeof value === "undefined") return
@@ -493,7 +505,7 @@ class IOObject<T = any> implements Iterable<[string | undefined, T]> {
    * Alias for toObject().
    * Used when calling JSON.stringify.
    */
-  toJSON(): any {
+  toJSON(): TObject {
     return this.toObject();
   }
 
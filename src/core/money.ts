@@ -0,0 +1,142 @@
+/**
+ * @fileoverview Amounts of money, a `Decimal` paired with an ISO 4217
+ * currency code, read by the `money` type from `mo"12.50 USD"` strings.
+ */
+
+import Decimal, { RoundingMode } from './decimal/decimal';
+
+// The amount, then the currency code, one space apart
+const MONEY_EXP = /^(?<amount>-?\d+(?:\.\d+)?) (?<currency>[A-Z]{3})$/;
+const CURRENCY_EXP = /^[A-Z]{3}$/;
+
+// The ISO 4217 currencies whose minor unit is not the cent
+const MINOR_UNITS: { [currency: string]: number } = {
+  BIF: 0, CLP: 0, DJF: 0, GNF: 0, ISK: 0, JPY: 0, KMF: 0, KRW: 0, PYG: 0,
+  RWF: 0, UGX: 0, UYI: 0, VND: 0, VUV: 0, XAF: 0, XOF: 0, XPF: 0,
+  BHD: 3, IQD: 3, JOD: 3, KWD: 3, LYD: 3, OMR: 3, TND: 3,
+  CLF: 4, UYW: 4,
+};
+
+/**
+ * Returns the number of decimal places of the currency's minor unit, per
+ * ISO 4217: 0 for JPY, 3 for BHD, and 2 for USD and the currencies the
+ * table does not list.
+ */
+export function currencyScale(currency: string): number {
+  return MINOR_UNITS[currency] ?? 2;
+}
+
+/**
+ * An amount of money in a currency. The amount is kept as written; the
+ * `money` type checks that it has the digits of the currency's minor unit.
+ * The arithmetic is between amounts of the same currency.
+ *
+ * @example
+ * ```typescript
+ * const price = IOMoney.parse('12.50 USD')!
+ * price.mul(new Decimal('3')).add(IOMoney.of('0.99', 'USD'))  // 38.49 USD
+ * price.toIOString()                                         // mo"12.50 USD"
+ * ```
+ */
+export class IOMoney {
+  /** The amount, a Decimal */
+  readonly amount: Decimal;
+
+  /** The ISO 4217 code of the currency, e.g. `USD` */
+  readonly currency: string;
+
+  private constructor(amount: Decimal, currency: string) {
+    this.amount = amount;
+    this.currency = currency;
+  }
+
+  /**
+   * Parses an amount followed by its currency code, such as `12.50 USD`.
+   * Returns null when it is invalid.
+   */
+  static parse(text: string): IOMoney | null {
+    const match = MONEY_EXP.exec(text);
+    if (!match) return null;
+
+    return new IOMoney(new Decimal(match.groups!.amount), match.groups!.currency);
+  }
+
+  /**
+   * Returns the money of the amount in the currency.
+   *
+   * @throws RangeError when the currency is not a three-letter code
+   */
+  static of(amount: Decimal | string | number | bigint, currency: string): IOMoney {
+    if (!CURRENCY_EXP.test(currency)) {
+      throw new RangeError(`The currency must be an ISO 4217 code of three capital letters, got '${currency}'.`);
+    }
+    return new IOMoney(Decimal.ensureDecimal(amount), currency);
+  }
+
+  /** The number of decimal places of the currency's minor unit. */
+  get scale(): number {
+    return currencyScale(this.currency);
+  }
+
+  /** Returns the sum of the amounts, at the larger of their scales. */
+  add(other: IOMoney): IOMoney {
+    this.checkCurrency(other);
+    return new IOMoney(this.amount.add(other.amount), this.currency);
+  }
+
+  /** Returns the difference of the amounts, at the larger of their scales. */
+  sub(other: IOMoney): IOMoney {
+    this.checkCurrency(other);
+    return new IOMoney(this.amount.sub(other.amount), this.currency);
+  }
+
+  /**
+   * Returns the amount multiplied by the factor, rounded to the currency's
+   * scale with the mode (half-up by default).
+   */
+  mul(factor: Decimal | string | number | bigint, rounding: RoundingMode = 'half-up'): IOMoney {
+    return new IOMoney(this.amount.mul(Decimal.ensureDecimal(factor), { scale: this.scale, rounding }), this.currency);
+  }
+
+  /** Returns the amount rounded to the currency's scale. */
+  rounded(rounding: RoundingMode = 'half-up'): IOMoney {
+    return new IOMoney(this.amount.round({ scale: this.scale, rounding }), this.currency);
+  }
+
+  /**
+   * Compares the amounts. Returns a negative number, zero or a positive
+   * number.
+   *
+   * @throws RangeError when the currencies differ
+   */
+  compare(other: IOMoney): number {
+    this.checkCurrency(other);
+    const difference = this.amount.sub(other.amount).getCoefficient();
+    return difference < 0n ? -1 : difference > 0n ? 1 : 0;
+  }
+
+  /** Tells whether the currencies and the amounts are the same. */
+  equals(other: IOMoney): boolean {
+    return this.currency === other.currency && this.compare(other) === 0;
+  }
+
+  /** Returns the amount and the currency, e.g. `12.50 USD`. */
+  toString(): string {
+    return `${this.amount} ${this.currency}`;
+  }
+
+  /** Returns the money as IO text, e.g. `mo"12.50 USD"`. */
+  toIOString(): string {
+    return `mo"${this}"`;
+  }
+
+  toJSON(): string {
+    return this.toString();
+  }
+
+  private checkCurrency(other: IOMoney): void {
+    if (other.currency !== this.currency) {
+      throw new RangeError(`Cannot combine amounts in ${this.currency} and ${other.currency}.`);
+    }
+  }
+}
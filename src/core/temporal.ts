@@ -0,0 +1,363 @@
+/**
+ * @fileoverview Temporal values which keep a datetime, date or time exactly
+ * as written: its UTC offset, its sub-millisecond digits, and whether it is
+ * an instant or a local wall-clock time.
+ *
+ * They are produced by the `datetime`, `date` and `time` types when their
+ * member is defined with `preserve: true`, and stringify back to the text
+ * they were read from.
+ */
+
+import { datetimeExp, datetimePlainExp } from '../utils/datetime';
+
+type TemporalKind = 'datetime' | 'date' | 'time';
+
+const ANNOTATIONS: Record<TemporalKind, string> = { datetime: 'dt', date: 'd', time: 't' };
+
+const NS_PER_MS = 1_000_000n;
+
+/**
+ * The base of the temporal values. Values of the same kind compare by the
+ * moment they denote, whatever the offset they were written with.
+ */
+export abstract class TemporalValue {
+  /** The value, exactly as written, without its annotation and quotes */
+  readonly text: string;
+
+  protected constructor(text: string) {
+    this.text = text;
+  }
+
+  /** The schema type of the value: `datetime`, `date` or `time` */
+  abstract get kind(): TemporalKind;
+
+  /**
+   * The position of the value on its own scale, in nanoseconds: since the
+   * epoch for datetimes and dates, and since midnight for times.
+   */
+  protected abstract get nanoseconds(): bigint;
+
+  /**
+   * Returns the value as the `Date` the type produces without `preserve`:
+   * a datetime without an offset is taken as UTC, a date is its UTC
+   * midnight, and a time falls on 1900-01-01 UTC. Digits beyond the
+   * millisecond are dropped.
+   */
+  abstract toDate(): Date;
+
+  /**
+   * Compares the value with another value of its kind, or with a `Date`
+   * read as the type reads it. Returns a negative number, zero or a
+   * positive number.
+   */
+  compare(other: TemporalValue | Date): number {
+    const theirs = other instanceof TemporalValue ? other.nanoseconds : this.nanosecondsOf(other);
+    const ours = this.nanoseconds;
+    return ours < theirs ? -1 : ours > theirs ? 1 : 0;
+  }
+
+  /** Tells whether the value denotes the same moment as the other one. */
+  equals(other: TemporalValue | Date): boolean {
+    return this.compare(other) === 0;
+  }
+
+  /** Returns the value as written, e.g. `2024-03-10T09:30:00+05:30`. */
+  toString(): string {
+    return this.text;
+  }
+
+  /** Returns the value as IO text, e.g. `dt"2024-03-10T09:30:00+05:30"`. */
+  toIOString(): string {
+    return `${ANNOTATIONS[this.kind]}"${this.text}"`;
+  }
+
+  toJSON(): string {
+    return this.text;
+  }
+
+  // The position of a Date on the scale of the value
+  protected nanosecondsOf(date: Date): bigint {
+    return BigInt(date.getTime()) * NS_PER_MS;
+  }
+}
+
+/**
+ * A datetime with the offset it was written with. Without an offset, it is
+ * a local wall-clock time (`isLocal`), compared as if it were UTC.
+ *
+ * @example
+ * ```typescript
+ * const start = IODateTime.parse('2024-03-10T09:30:00.123456+05:30')!
+ * start.offset          // '+05:30'
+ * start.nanosecond      // 123456000
+ * start.toDate()        // 2024-03-10T04:00:00.123Z
+ * ```
+ */
+export class IODateTime extends TemporalValue {
+  readonly year: number;
+  readonly month: number;
+  readonly day: number;
+  readonly hour: number;
+  readonly minute: number;
+  readonly second: number;
+
+  /** The fraction of the second, in nanoseconds */
+  readonly nanosecond: number;
+
+  /** The offset as written, `Z` or e.g. `+05:30`, or null for a local time */
+  readonly offset: string | null;
+
+  private constructor(text: string, fields: Fields, offset: string | null) {
+    super(text);
+    this.year = fields.year;
+    this.month = fields.month;
+    this.day = fields.day;
+    this.hour = fields.hour;
+    this.minute = fields.minute;
+    this.second = fields.second;
+    this.nanosecond = fields.nanosecond;
+    this.offset = offset;
+  }
+
+  get kind(): TemporalKind { return 'datetime'; }
+
+  /** Tells whether the datetime is a local wall-clock time, without an offset. */
+  get isLocal(): boolean {
+    return this.offset === null;
+  }
+
+  /** The offset from UTC, in minutes; zero for a local time. */
+  get offsetMinutes(): number {
+    return offsetToMinutes(this.offset);
+  }
+
+  protected get nanoseconds(): bigint {
+    const ms = utcMilliseconds(this) - this.offsetMinutes * 60_000;
+    return BigInt(ms) * NS_PER_MS + BigInt(this.nanosecond);
+  }
+
+  toDate(): Date {
+    return new Date(utcMilliseconds(this) - this.offsetMinutes * 60_000 + Math.floor(this.nanosecond / 1_000_000));
+  }
+
+  /**
+   * Parses an ISO 8601 datetime, with or without separators, such as
+   * `2024-03-10T09:30:00.123456789+05:30`. Returns null when it is invalid.
+   */
+  static parse(text: string): IODateTime | null {
+    const exp = /[\-\:]/.test(text.substring(0, 6)) ? datetimeExp.datetime : datetimePlainExp.datetime;
+    const match = exp.exec(text);
+    if (!match || match[0].length !== text.length) return null;
+
+    const fields = toFields(match.groups || {});
+    if (!fields) return null;
+    return new IODateTime(text, fields, match.groups?.tz || null);
+  }
+
+  /**
+   * Returns the datetime of the wall-clock fields at the given offset, or a
+   * local time with a null offset. The fraction of the second is written
+   * with as many digits, by threes, as it needs.
+   */
+  static from(fields: DateTimeFields, offset: string | null = 'Z'): IODateTime {
+    const date = formatDate(fields);
+    const time = [fields.hour ?? 0, fields.minute ?? 0, fields.second ?? 0].map(n => pad(n, 2)).join(':');
+    const text = `${date}T${time}${formatFraction(fields.nanosecond ?? 0)}${offset ?? ''}`;
+
+    const value = IODateTime.parse(text);
+    if (!value) throw new RangeError(`Invalid datetime '${text}'.`);
+    return value;
+  }
+
+  /**
+   * Returns the datetime of an instant, as seen at the given offset (UTC by
+   * default), written with milliseconds.
+   */
+  static fromDate(date: Date, offset: string = 'Z'): IODateTime {
+    const minutes = offsetToMinutes(offset);
+    const local = new Date(date.getTime() + minutes * 60_000);
+    const text = local.toISOString().replace(/Z$/, offset);
+    return IODateTime.parse(text)!;
+  }
+}
+
+/**
+ * A calendar date, without a time or an offset.
+ */
+export class IODate extends TemporalValue {
+  readonly year: number;
+  readonly month: number;
+  readonly day: number;
+
+  private constructor(text: string, fields: Fields) {
+    super(text);
+    this.year = fields.year;
+    this.month = fields.month;
+    this.day = fields.day;
+  }
+
+  get kind(): TemporalKind { return 'date'; }
+
+  protected get nanoseconds(): bigint {
+    return BigInt(utcMilliseconds({ ...this, hour: 0, minute: 0, second: 0 })) * NS_PER_MS;
+  }
+
+  toDate(): Date {
+    return new Date(utcMilliseconds({ ...this, hour: 0, minute: 0, second: 0 }));
+  }
+
+  /** Parses an ISO 8601 date, such as `2024-03-10`. Returns null when it is invalid. */
+  static parse(text: string): IODate | null {
+    const exp = /\-/.test(text.substring(0, 5)) ? datetimeExp.date : datetimePlainExp.date;
+    const match = exp.exec(text);
+    if (!match) return null;
+
+    const fields = toFields(match.groups || {});
+    return fields ? new IODate(text, fields) : null;
+  }
+
+  /** Returns the date of the fields. */
+  static from(fields: Pick<DateTimeFields, 'year' | 'month' | 'day'>): IODate {
+    const text = formatDate(fields);
+    const value = IODate.parse(text);
+    if (!value) throw new RangeError(`Invalid date '${text}'.`);
+    return value;
+  }
+
+  /** Returns the UTC date of an instant. */
+  static fromDate(date: Date): IODate {
+    return IODate.parse(date.toISOString().split('T')[0])!;
+  }
+}
+
+/**
+ * A time of day, without a date or an offset, with up to nanoseconds.
+ */
+export class IOTime extends TemporalValue {
+  readonly hour: number;
+  readonly minute: number;
+  readonly second: number;
+
+  /** The fraction of the second, in nanoseconds */
+  readonly nanosecond: number;
+
+  private constructor(text: string, fields: Fields) {
+    super(text);
+    this.hour = fields.hour;
+    this.minute = fields.minute;
+    this.second = fields.second;
+    this.nanosecond = fields.nanosecond;
+  }
+
+  get kind(): TemporalKind { return 'time'; }
+
+  protected get nanoseconds(): bigint {
+    const seconds = this.hour * 3600 + this.minute * 60 + this.second;
+    return BigInt(seconds) * 1_000_000_000n + BigInt(this.nanosecond);
+  }
+
+  toDate(): Date {
+    const ms = (this.hour * 3600 + this.minute * 60 + this.second) * 1000 + Math.floor(this.nanosecond / 1_000_000);
+    return new Date(TIME_EPOCH + ms);
+  }
+
+  // The time of day of the Date, in UTC
+  protected nanosecondsOf(date: Date): bigint {
+    const ms = ((date.getTime() % MS_PER_DAY) + MS_PER_DAY) % MS_PER_DAY;
+    return BigInt(ms) * NS_PER_MS;
+  }
+
+  /** Parses an ISO 8601 time, such as `09:30:00.123456`. Returns null when it is invalid. */
+  static parse(text: string): IOTime | null {
+    const exp = /\:/.test(text.substring(0, 3)) ? datetimeExp.time : datetimePlainExp.time;
+    const match = exp.exec(text);
+    if (!match) return null;
+
+    const fields = toFields(match.groups || {});
+    return fields ? new IOTime(text, fields) : null;
+  }
+
+  /** Returns the UTC time of day of an instant, with milliseconds. */
+  static fromDate(date: Date): IOTime {
+    return IOTime.parse(date.toISOString().split('T')[1].replace(/Z$/, ''))!;
+  }
+}
+
+/** The fields of a datetime, from which `IODateTime.from()` writes it. */
+export interface DateTimeFields {
+  year: number;
+  month: number;
+  day: number;
+  hour?: number;
+  minute?: number;
+  second?: number;
+  nanosecond?: number;
+}
+
+const MS_PER_DAY = 86_400_000;
+
+// The day on which the `time` type places its Date values
+const TIME_EPOCH = Date.UTC(1900, 0, 1);
+
+interface Fields {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  nanosecond: number;
+}
+
+// Reads the fields matched by the datetime expressions. Fractions longer
+// than nanoseconds, and days past the end of their month, are rejected.
+function toFields(groups: Record<string, string | undefined>): Fields | null {
+  const fraction = groups.milisecond || '';
+  if (fraction.length > 9) return null;
+
+  const fields: Fields = {
+    year:       Number(groups.year || 1900),
+    month:      Number(groups.month || 1),
+    day:        Number(groups.date || 1),
+    hour:       Number(groups.hour || 0),
+    minute:     Number(groups.minute || 0),
+    second:     Number(groups.second || 0),
+    nanosecond: Number(fraction.padEnd(9, '0')),
+  };
+
+  const daysInMonth = new Date(Date.UTC(2000, fields.month, 0)).getUTCDate();
+  const isLeap = fields.year % 4 === 0 && (fields.year % 100 !== 0 || fields.year % 400 === 0);
+  const lastDay = fields.month === 2 && !isLeap ? 28 : daysInMonth;
+  return fields.day > lastDay ? null : fields;
+}
+
+// The UTC milliseconds of the wall-clock fields, years before 100 included
+function utcMilliseconds(fields: Omit<Fields, 'nanosecond'>): number {
+  const date = new Date(0);
+  date.setUTCFullYear(fields.year, fields.month - 1, fields.day);
+  date.setUTCHours(fields.hour, fields.minute, fields.second, 0);
+  return date.getTime();
+}
+
+function formatDate(fields: Pick<DateTimeFields, 'year' | 'month' | 'day'>): string {
+  return `${pad(fields.year, 4)}-${pad(fields.month, 2)}-${pad(fields.day, 2)}`;
+}
+
+// The fraction of a second, in 3, 6 or 9 digits, or nothing
+function formatFraction(nanosecond: number): string {
+  if (nanosecond === 0) return '';
+  const digits = pad(nanosecond, 9);
+  const length = digits.endsWith('000000') ? 3 : digits.endsWith('000') ? 6 : 9;
+  return `.${digits.slice(0, length)}`;
+}
+
+function pad(n: number, length: number): string {
+  return String(n).padStart(length, '0');
+}
+
+function offsetToMinutes(offset: string | null): number {
+  if (!offset || offset === 'Z') return 0;
+  const digits = offset.slice(1).replace(':', '');
+  const minutes = Number(digits.slice(0, 2)) * 60 + Number(digits.slice(2) || 0);
+  return offset[0] === '-' ? -minutes : minutes;
+}
@@ -7,8 +7,12 @@ enum GeneralErrorCodes {
   valueRequired = 'value-required',
   nullNotAllowed = 'null-not-allowed',
   definitionsRequired = 'definitions-required',
+  definitionsMismatch = 'definitions-mismatch',
   expectedObject = 'expected-object',
-  expectedArray = 'expected-array'
+  expectedArray = 'expected-array',
+  unsupportedConstruct = 'unsupported-construct',
+  sectionNotFound = 'section-not-found',
+  indexOutOfRange = 'index-out-of-range'
 }
 
 export default GeneralErrorCodes
\ No newline at end of file
@@ -20,6 +20,11 @@ class IOError extends Error {
    */
   public fact?: string
 
+  /**
+   * The path of the member at fault, such as `address.city`, when known.
+   */
+  public path?: string
+
   /**
    * A position object, for tracking line and columns.
    */
@@ -73,7 +78,21 @@ class IOError extends Error {
   }
 
 
-  protected updateMessage() {
+  /**
+   * Prepends a member name or an array index to the path, as the error
+   * travels from the member at fault up to the outermost object: `city`
+   * becomes `address.city`, and `[1]` becomes `tags[1]`.
+   */
+  public prependPath(segment: string | number) {
+    const head = typeof segment === 'number' ? `[${segment}]` : segment
+    if (this.path === undefined) this.path = head
+    else this.path = this.path.startsWith('[') ? `${head}${this.path}` : `${head}.${this.path}`
+  }
+
+  /**
+   * Formats the message again, as when the positions of the range moved.
+   */
+  public updateMessage() {
     let errorMsg = `"${this.errorCode}" `
     if (this.fact) {
       errorMsg += `"${this.fact}" `
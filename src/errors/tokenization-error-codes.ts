@@ -9,9 +9,16 @@ enum TokenizationErrorCodes {
 
   // Binary/Base64 tokenization
   invalidBase64 = 'invalid-base64',
+  invalidHex = 'invalid-hex',
 
   // DateTime tokenization
-  invalidDateTime = 'invalid-datetime'
+  invalidDateTime = 'invalid-datetime',
+
+  // Duration tokenization
+  invalidDuration = 'invalid-duration',
+
+  // Money tokenization
+  invalidMoney = 'invalid-money'
 }
 
 export default TokenizationErrorCodes
\ No newline at end of file
@@ -30,11 +30,19 @@ enum ValidationErrorCodes {
   invalidScale = 'invalid-scale',
   invalidPrecision = 'invalid-precision',
 
+  // Money validation
+  currencyMismatch = 'currency-mismatch',
+
   // Boolean validation
   notABool = 'not-a-bool',
 
   // Choice validation
-  invalidChoice = 'invalid-choice'
+  invalidChoice = 'invalid-choice',
+
+  // Union validation
+  missingDiscriminator = 'missing-discriminator',
+  invalidDiscriminator = 'invalid-discriminator',
+  ambiguousValue = 'ambiguous-value'
 }
 
 export default ValidationErrorCodes
\ No newline at end of file
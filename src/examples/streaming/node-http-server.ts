@@ -6,6 +6,7 @@
 
   Then in another terminal:
     - curl http://localhost:8787/stream
+    - curl http://localhost:8787/events
 */
 
 import http from 'node:http';
@@ -15,7 +16,7 @@ import { fileURLToPath } from 'node:url';
 import io from '../../facade';
 import Decimal from '../../core/decimal/decimal';
 import { createStreamWriter } from '../../streaming/writer';
-import { nodeHttpTransport } from '../../streaming/transports';
+import { nodeHttpTransport, sseTransport } from '../../streaming/transports';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -138,6 +139,23 @@ const server = http.createServer(async (req, res) => {
     }
   }
 
+  // --- SERVER-SENT EVENTS ---
+  // Each chunk is an event; an EventSource reconnecting with its
+  // Last-Event-ID resumes with the next order (see createSSESource)
+  if (url === '/events') {
+    const lastEventId = req.headers['last-event-id'];
+    const startIndex = lastEventId === undefined ? 0 : Number(lastEventId);
+    const transport = sseTransport(res, { retry: 2000, startIndex });
+    const writer = createStreamWriter(transport, schemaDefs, { onError: 'emit' });
+
+    if (lastEventId === undefined) await writer.sendHeader();
+    for (let id = startIndex; id < 5; id++) {
+      await writer.send({ id, total: new Decimal('9.99'), ts: new Date().toISOString(), clients: 1 }, '$order');
+    }
+    transport.end();
+    return;
+  }
+
   if (!url.startsWith('/stream')) {
     res.writeHead(404);
     res.end('not found');
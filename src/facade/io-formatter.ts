@@ -16,7 +16,12 @@
 
 import Definitions from '../core/definitions';
 import InternetObject from '../core/internet-object';
+import { TemporalValue } from '../core/temporal';
+import { IODuration } from '../core/duration';
+import { IOMoney } from '../core/money';
+import { bytesToIOString } from '../utils/bytes';
 import Schema from '../schema/schema';
+import UnionSchema from '../schema/union-schema';
 import MemberDef from '../schema/types/memberdef';
 import TypedefRegistry from '../schema/typedef-registry';
 import { IO_MARKERS } from './serialization-constants';
@@ -57,7 +62,8 @@ function getIndent(ctx: FormatContext): string {
 function isPrimitive(val: any): boolean {
   if (val === null || val === undefined) return true;
   if (typeof val === 'boolean' || typeof val === 'number' || typeof val === 'string') return true;
-  if (val instanceof Date) return true;
+  if (val instanceof Date || val instanceof TemporalValue || val instanceof IODuration || val instanceof IOMoney) return true;
+  if (val instanceof Uint8Array) return true;
   return false;
 }
 
@@ -74,7 +80,7 @@ function isArrayOfPrimitives(arr: any[]): boolean {
 function isArrayOfObjects(arr: any[]): boolean {
   return arr.some(item => {
     if (item === null || item === undefined) return false;
-    if (typeof item === 'object' && !(item instanceof Date)) return true;
+    if (typeof item === 'object' && !isPrimitive(item)) return true;
     return false;
   });
 }
@@ -86,7 +92,8 @@ function isArrayOfObjects(arr: any[]): boolean {
  */
 function hasNestedStructure(obj: any): boolean {
   if (obj === null || typeof obj !== 'object') return false;
-  if (obj instanceof Date) return false;
+  if (obj instanceof Date || obj instanceof TemporalValue || obj instanceof IODuration || obj instanceof IOMoney) return false;
+  if (obj instanceof Uint8Array) return false;
   if (Array.isArray(obj)) return isArrayOfObjects(obj);
 
   // Check all values - handle both InternetObject and plain objects
@@ -94,7 +101,7 @@ function hasNestedStructure(obj: any): boolean {
   for (const [key, val] of entries) {
     if (!key) continue;
     // Check if this value is a non-primitive (object or array)
-    if (typeof val === 'object' && val !== null && !(val instanceof Date)) {
+    if (typeof val === 'object' && val !== null && !isPrimitive(val)) {
       return true; // Has nested structure
     }
   }
@@ -150,6 +157,9 @@ function stringifyPrimitive(val: any, defs?: Definitions): string {
     return `dt'${val.toISOString()}'`;
   }
 
+  if (val instanceof TemporalValue || val instanceof IODuration || val instanceof IOMoney) return val.toIOString();
+  if (val instanceof Uint8Array) return bytesToIOString(val);
+
   return String(val);
 }
 
@@ -166,7 +176,7 @@ function formatArray(arr: any[], ctx: FormatContext, schema?: Schema): string {
 
   const parts: string[] = [];
   for (const item of arr) {
-    if (shouldExpand && typeof item === 'object' && item !== null && !(item instanceof Date)) {
+    if (shouldExpand && typeof item === 'object' && item !== null && !isPrimitive(item)) {
       // For expanded arrays, format each object inline (wrapped in braces)
       parts.push(formatNestedObject(item, { ...ctx, isNested: true, level: ctx.level + 1 }, schema));
     } else {
@@ -194,7 +204,7 @@ function formatArray(arr: any[], ctx: FormatContext, schema?: Schema): string {
  */
 function formatNestedObject(obj: any, ctx: FormatContext, schema?: Schema): string {
   if (obj === null) return IO_MARKERS.NULL;
-  if (obj instanceof Date) return stringifyPrimitive(obj, ctx.defs);
+  if (obj instanceof Date || obj instanceof TemporalValue || obj instanceof IODuration || obj instanceof IOMoney || obj instanceof Uint8Array) return stringifyPrimitive(obj, ctx.defs);
 
   const isFormatted = ctx.indentStr.length > 0;
   const parts: string[] = [];
@@ -305,7 +315,7 @@ function formatValueWithMemberDef(val: any, memberDef: MemberDef | undefined, ct
   if (val === null) return IO_MARKERS.NULL;
   if (val === undefined) return '';
 
-  const typeDef = TypedefRegistry.get(memberDef.type);
+  const typeDef = TypedefRegistry.get(memberDef.type, ctx.defs);
 
   // For object type with nested arrays of objects, we may need special handling
   if (memberDef.type === 'object' && typeof val === 'object' && !Array.isArray(val) && !(val instanceof Date)) {
@@ -359,6 +369,11 @@ export function formatRecord(
   schema: Schema | undefined,
   ctx: FormatContext
 ): string {
+  // A union formats the record with the schema of the branch describing it
+  if (schema instanceof UnionSchema) {
+    schema = schema.schemaOf(schema.selectValue(obj, ctx.defs), ctx.defs);
+  }
+
   const isFormatted = ctx.indentStr.length > 0;
 
   // Build all parts first, tracking which need expansion
@@ -9,6 +9,7 @@ import Schema from '../schema/schema';
 import { loadObject as processObject, loadCollection as processCollection } from '../schema/load-processor';
 import IOError from '../errors/io-error';
 import ErrorCodes from '../errors/io-error-codes';
+import { ProcessingContext } from '../schema/processing/processing-context';
 
 /**
  * Creates an InternetObject from plain data without schema validation.
@@ -36,6 +37,48 @@ function createSchemalessCollection(dataArray: any[]): Collection<InternetObject
   return collection;
 }
 
+interface LoadArgs<O> {
+  schema?: Schema;
+  defs?: Definitions;
+  options?: O;
+}
+
+/**
+ * Resolves the `(defs?, options?)` and `(schema, defs?, options?)` argument
+ * forms of the load functions. Without a schema argument, the schema is looked
+ * up by `schemaName` or defaults to `$schema` of the definitions.
+ */
+function resolveLoadArgs<O extends { schemaName?: string }>(args: any[]): LoadArgs<O> {
+  const resolved: LoadArgs<O> = {};
+  let rest = args;
+
+  if (args[0] instanceof Schema) {
+    resolved.schema = args[0];
+    rest = args.slice(1);
+  }
+
+  if (rest[0] instanceof Definitions) {
+    resolved.defs = rest[0];
+    resolved.options = rest[1];
+  } else if (rest[0] && typeof rest[0] === 'object') {
+    resolved.options = rest[0];
+  }
+
+  const { defs, options } = resolved;
+  if (!resolved.schema && defs) {
+    if (options?.schemaName) {
+      resolved.schema = defs.get(options.schemaName) as Schema | undefined;
+      if (!resolved.schema) {
+        throw new IOError(ErrorCodes.schemaNotFound, `Schema '${options.schemaName}' not found in definitions.`);
+      }
+    } else {
+      resolved.schema = defs.defaultSchema || undefined;
+    }
+  }
+
+  return resolved;
+}
+
 export interface LoadObjectOptions {
   /**
    * The name of the schema to use from definitions.
@@ -62,6 +105,14 @@ export interface LoadObjectOptions {
    * Useful for processing collections where some items may be invalid.
    */
   errorCollector?: Error[];
+  /**
+   * When true, every member failure of an object (missing, invalid or unknown
+   * members) is collected instead of stopping at the first one. The loaded
+   * object is returned with the failures available from `getErrors()`, and
+   * they are also added to `errorCollector` when provided.
+   * @default false
+   */
+  exhaustive?: boolean;
 }
 
 /**
@@ -89,6 +140,13 @@ export interface LoadObjectOptions {
  * // Load with specific schema name from definitions
  * const defs = parseDefinitions('~ $User: { name, age }');
  * const obj = loadObject(data, defs, { schemaName: '$User' });
+ *
+ * // Load with a typed schema, obj.toObject() is { name: string, age?: number }
+ * const userSchema = IOSchema.create('$User')
+ *   .addMember('name', { type: 'string' })
+ *   .addMember('age', { type: 'int', optional: true })
+ *   .build();
+ * const obj = loadObject(data, userSchema);
  * ```
  */
 // Overloads for loadObject
@@ -96,35 +154,10 @@ export function loadObject(data: object): InternetObject;
 export function loadObject(data: object, defs: Definitions): InternetObject;
 export function loadObject(data: object, options: LoadObjectOptions): InternetObject;
 export function loadObject(data: object, defs: Definitions, options: LoadObjectOptions): InternetObject;
-export function loadObject(
-  data: object,
-  defsOrOptions?: Definitions | LoadObjectOptions,
-  options?: LoadObjectOptions
-): InternetObject {
-  let resolvedSchema: Schema | undefined;
-  let definitions: Definitions | undefined;
-  let resolvedOptions: LoadObjectOptions | undefined;
-
-  // Parse arguments: handle (data), (data, defs), (data, options), (data, defs, options)
-  if (defsOrOptions instanceof Definitions) {
-    definitions = defsOrOptions;
-    resolvedOptions = options;
-  } else if (defsOrOptions && typeof defsOrOptions === 'object') {
-    // Second param is options
-    resolvedOptions = defsOrOptions as LoadObjectOptions;
-  }
-
-  // Resolve schema: by name from options, or default from definitions
-  if (definitions) {
-    if (resolvedOptions?.schemaName) {
-      resolvedSchema = definitions.get(resolvedOptions.schemaName) as Schema | undefined;
-      if (!resolvedSchema) {
-        throw new IOError(ErrorCodes.schemaNotFound, `Schema '${resolvedOptions.schemaName}' not found in definitions.`);
-      }
-    } else {
-      resolvedSchema = definitions.defaultSchema || undefined;
-    }
-  }
+export function loadObject<T>(data: object, schema: Schema<T>, options?: LoadObjectOptions): InternetObject<any, T>;
+export function loadObject<T>(data: object, schema: Schema<T>, defs: Definitions, options?: LoadObjectOptions): InternetObject<any, T>;
+export function loadObject(data: object, ...args: any[]): InternetObject {
+  const { schema, defs, options } = resolveLoadArgs<LoadObjectOptions>(args);
 
   // Validate that data is an object, not an array
   if (Array.isArray(data)) {
@@ -132,11 +165,36 @@ export function loadObject(
   }
 
   // Schema-less mode: if no schema, load without validation
-  if (!resolvedSchema) {
+  if (!schema) {
     return createSchemalessObject(data);
   }
 
-  return processObject(data, resolvedSchema, definitions);
+  return loadObjectWithOptions(data, schema, defs, options);
+}
+
+/**
+ * Loads an object against a resolved schema, honoring the `exhaustive`,
+ * `errorCollector` and `strict` options.
+ */
+function loadObjectWithOptions(
+  data: any,
+  schema: Schema,
+  defs: Definitions | undefined,
+  options: LoadObjectOptions | LoadOptions | undefined
+): InternetObject {
+  if (!options?.exhaustive) {
+    return processObject(data, schema, defs);
+  }
+
+  const ctx = new ProcessingContext({ exhaustive: true });
+  const obj = processObject(data, schema, defs, ctx);
+  if (ctx.hasErrors()) {
+    const errors = ctx.getErrors();
+    if (options.strict) throw errors[0];
+    obj.errors.push(...errors);
+    options.errorCollector?.push(...errors);
+  }
+  return obj;
 }
 
 /**
@@ -169,47 +227,25 @@ export function loadCollection(data: any[]): Collection<InternetObject>;
 export function loadCollection(data: any[], defs: Definitions): Collection<InternetObject>;
 export function loadCollection(data: any[], options: LoadCollectionOptions): Collection<InternetObject>;
 export function loadCollection(data: any[], defs: Definitions, options: LoadCollectionOptions): Collection<InternetObject>;
-export function loadCollection(
-  data: any[],
-  defsOrOptions?: Definitions | LoadCollectionOptions,
-  options?: LoadCollectionOptions
-): Collection<InternetObject> {
-  let resolvedSchema: Schema | undefined;
-  let definitions: Definitions | undefined;
-  let resolvedOptions: LoadCollectionOptions | undefined;
-
-  // Parse arguments: handle (data), (data, defs), (data, options), (data, defs, options)
-  if (defsOrOptions instanceof Definitions) {
-    definitions = defsOrOptions;
-    resolvedOptions = options;
-  } else if (defsOrOptions && typeof defsOrOptions === 'object') {
-    // Second param is options
-    resolvedOptions = defsOrOptions as LoadCollectionOptions;
-  }
-
+export function loadCollection<T>(data: any[], schema: Schema<T>, options?: LoadCollectionOptions): Collection<InternetObject<any, T>>;
+export function loadCollection<T>(data: any[], schema: Schema<T>, defs: Definitions, options?: LoadCollectionOptions): Collection<InternetObject<any, T>>;
+export function loadCollection(data: any[], ...args: any[]): Collection<InternetObject> {
   // Validate that data is an array
   if (!Array.isArray(data)) {
     throw new IOError(ErrorCodes.expectedArray, `loadCollection expects an array. Use loadObject for single objects.`);
   }
 
-  // Resolve schema: by name from options, or default from definitions
-  if (definitions) {
-    if (resolvedOptions?.schemaName) {
-      resolvedSchema = definitions.get(resolvedOptions.schemaName) as Schema | undefined;
-      if (!resolvedSchema) {
-        throw new IOError(ErrorCodes.schemaNotFound, `Schema '${resolvedOptions.schemaName}' not found in definitions.`);
-      }
-    } else {
-      resolvedSchema = definitions.defaultSchema || undefined;
-    }
-  }
+  const { schema, defs, options } = resolveLoadArgs<LoadCollectionOptions>(args);
 
   // Schema-less mode: if no schema, load without validation
-  if (!resolvedSchema) {
+  if (!schema) {
     return createSchemalessCollection(data);
   }
 
-  return processCollection(data, resolvedSchema, definitions, resolvedOptions?.errorCollector);
+  return processCollection(
+    data, schema, defs, options?.errorCollector,
+    options?.exhaustive ? { exhaustive: true } : undefined
+  );
 }
 
 /**
@@ -241,6 +277,14 @@ export interface LoadOptions {
    * Useful for processing collections where some items may be invalid.
    */
   errorCollector?: Error[];
+  /**
+   * When true, every member failure of an object (missing, invalid or unknown
+   * members) is collected instead of stopping at the first one. The loaded
+   * object is returned with the failures available from `getErrors()`, and
+   * they are also added to `errorCollector` when provided.
+   * @default false
+   */
+  exhaustive?: boolean;
 }
 
 /**
@@ -274,35 +318,12 @@ export function load(data: any): Document;
 export function load(data: any, defs: Definitions): Document;
 export function load(data: any, options: LoadOptions): Document;
 export function load(data: any, defs: Definitions, options: LoadOptions): Document;
-export function load(
-  data: any,
-  defsOrOptions?: Definitions | LoadOptions,
-  options?: LoadOptions
-): Document {
-  let resolvedSchema: Schema | undefined;
-  let definitions: Definitions | undefined;
-  let resolvedOptions: LoadOptions | undefined;
-
-  // Parse arguments: handle (data), (data, defs), (data, options), (data, defs, options)
-  if (defsOrOptions instanceof Definitions) {
-    definitions = defsOrOptions;
-    resolvedOptions = options;
-  } else if (defsOrOptions && typeof defsOrOptions === 'object') {
-    // Second param is options
-    resolvedOptions = defsOrOptions as LoadOptions;
-  }
-
-  // Resolve schema: by name from options, or default from definitions
-  if (definitions) {
-    if (resolvedOptions?.schemaName) {
-      resolvedSchema = definitions.get(resolvedOptions.schemaName) as Schema | undefined;
-      if (!resolvedSchema) {
-        throw new IOError(ErrorCodes.schemaNotFound, `Schema '${resolvedOptions.schemaName}' not found in definitions.`);
-      }
-    } else {
-      resolvedSchema = definitions.defaultSchema || undefined;
-    }
-  }
+export function load<T>(data: any[], schema: Schema<T>, options?: LoadOptions): Document<T[]>;
+export function load<T>(data: any[], schema: Schema<T>, defs: Definitions, options?: LoadOptions): Document<T[]>;
+export function load<T>(data: object, schema: Schema<T>, options?: LoadOptions): Document<T>;
+export function load<T>(data: object, schema: Schema<T>, defs: Definitions, options?: LoadOptions): Document<T>;
+export function load(data: any, ...args: any[]): Document {
+  const { schema: resolvedSchema, defs: definitions, options: resolvedOptions } = resolveLoadArgs<LoadOptions>(args);
 
   // Create header with definitions (if available)
   const header = new Header();
@@ -323,9 +344,12 @@ export function load(
       loadedData = createSchemalessObject(data);
     }
   } else if (Array.isArray(data)) {
-    loadedData = processCollection(data, resolvedSchema, definitions, resolvedOptions?.errorCollector);
+    loadedData = processCollection(
+      data, resolvedSchema, definitions, resolvedOptions?.errorCollector,
+      resolvedOptions?.exhaustive ? { exhaustive: true } : undefined
+    );
   } else {
-    loadedData = processObject(data, resolvedSchema, definitions);
+    loadedData = loadObjectWithOptions(data, resolvedSchema, definitions, resolvedOptions);
   }
 
   // Create section
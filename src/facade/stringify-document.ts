@@ -5,6 +5,7 @@ import Collection from '../core/collection';
 import Section from '../core/section';
 import TypedefRegistry from '../schema/typedef-registry';
 import MemberDef from '../schema/types/memberdef';
+import UnionSchema from '../schema/union-schema';
 import { stringifyMemberDef } from '../schema/types/memberdef-stringify';
 import { stringify, stringifyObject } from './stringify';
 import { StringifyOptions } from './stringify';
@@ -249,6 +250,11 @@ function stringifyHeader(
           const schemaText = stringifySchema(schemaValue, { ...options, includeTypes: true });
           formattedValue = schemaText ? `{${schemaText}}` : '{}';
         }
+      } else if (schemaValue instanceof UnionSchema) {
+        // A union of schemas is written as its any type definition
+        formattedValue = stringifyMemberDef(
+          { type: 'any', oneOf: schemaValue.oneOf, discriminator: schemaValue.discriminator }, true
+        );
       } else {
         // It's a Schema instance - use stringifySchema to format the schema structure
         const schemaText = stringifySchema(schemaValue, { ...options, includeTypes: true });
@@ -3,7 +3,12 @@ import InternetObject from '../core/internet-object';
 import Collection from '../core/collection';
 import Document from '../core/document';
 import Decimal from '../core/decimal/decimal';
+import { TemporalValue } from '../core/temporal';
+import { IODuration } from '../core/duration';
+import { IOMoney } from '../core/money';
+import { bytesToIOString } from '../utils/bytes';
 import Schema from '../schema/schema';
+import UnionSchema from '../schema/union-schema';
 import MemberDef from '../schema/types/memberdef';
 import TypedefRegistry from '../schema/typedef-registry';
 import { quoteExtraPropertyString } from '../utils/string-formatter';
@@ -218,6 +223,16 @@ function stringifyAnyValue(val: any, defs?: Definitions): string {
     return val;
   }
 
+  // Handle preserved datetime, date and time values, as written, durations and money
+  if (val instanceof TemporalValue || val instanceof IODuration || val instanceof IOMoney) {
+    return val.toIOString();
+  }
+
+  // Handle binary values (a Node Buffer included), in base64
+  if (val instanceof Uint8Array) {
+    return bytesToIOString(val);
+  }
+
   // Handle Date - check if it's date-only or datetime
   if (val instanceof Date) {
     const dateDef = TypedefRegistry.get('date');
@@ -268,6 +283,11 @@ export function stringifyObject(
   defs?: Definitions,
   options?: StringifyOptions
 ): string {
+  // A union stringifies the object with the schema of the branch describing it
+  if (schema instanceof UnionSchema) {
+    schema = schema.schemaOf(schema.selectValue(obj, defs), defs);
+  }
+
   const indent = options?.indent;
   const includeTypes = options?.includeTypes ?? false;
 
@@ -294,7 +314,7 @@ export function stringifyObject(
       const hasValue = obj.has(name);
       if (hasValue) {
         const val = obj.get(name);
-        const typeDef = memberDef ? TypedefRegistry.get(memberDef.type) : undefined;
+        const typeDef = memberDef ? TypedefRegistry.get(memberDef.type, defs) : undefined;
         let strValue: string | undefined;
         if (memberDef && typeDef && 'stringify' in typeDef && typeof typeDef.stringify === 'function') {
           const effectiveMemberDef = { ...memberDef };
@@ -338,7 +358,7 @@ export function stringifyObject(
       if (handled.has(key)) continue; // already output
       const memberDef: MemberDef | undefined = schema.defs[key];
       // For extras there is typically no memberDef (unless explicit definition outside names array)
-      const typeDef = memberDef ? TypedefRegistry.get(memberDef.type) : undefined;
+      const typeDef = memberDef ? TypedefRegistry.get(memberDef.type, defs) : undefined;
       let strValue: string | undefined;
       if (memberDef && typeDef && 'stringify' in typeDef && typeof typeDef.stringify === 'function') {
         const effectiveMemberDef = { ...memberDef };
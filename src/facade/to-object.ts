@@ -1,9 +1,9 @@
 /**
  * Interface for objects that support conversion to plain JavaScript objects.
  */
-export interface Jsonable {
-  toJSON(options?: { skipErrors?: boolean }): any;
-  toObject?(options?: { skipErrors?: boolean }): any;
+export interface Jsonable<T = any> {
+  toJSON(options?: { skipErrors?: boolean }): T;
+  toObject?(options?: { skipErrors?: boolean }): T;
 }
 
 /**
@@ -18,7 +18,7 @@ export interface Jsonable {
  * @throws {TypeError} If the value is null/undefined or does not have conversion methods.
  * @returns The plain JavaScript representation.
  */
-export function toObject(value: Jsonable, options?: { skipErrors?: boolean }): any {
+export function toObject<T = any>(value: Jsonable<T>, options?: { skipErrors?: boolean }): T {
   if (value === null || value === undefined) {
     throw new TypeError('io.toObject() expects a Jsonable value, received null/undefined');
   }
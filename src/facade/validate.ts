@@ -1,6 +1,7 @@
 import Definitions from '../core/definitions';
 import Schema from '../schema/schema';
 import { loadCollection, loadObject } from '../schema/load-processor';
+import { ProcessingContext } from '../schema/processing/processing-context';
 
 /**
  * Result of a validation operation.
@@ -14,6 +15,28 @@ export interface ValidationResult<T = any> {
   data?: T;
 }
 
+/**
+ * Options for the validation functions.
+ */
+export interface ValidateOptions {
+  /**
+   * When true, every member failure of an object (missing, invalid or unknown
+   * members) is reported in `errors`, instead of only the first one.
+   * @default false
+   */
+  exhaustive?: boolean;
+}
+
+function resolveDefsAndOptions(
+  defsOrOptions?: Definitions | ValidateOptions,
+  options?: ValidateOptions
+): { defs?: Definitions; options?: ValidateOptions } {
+  if (defsOrOptions instanceof Definitions) {
+    return { defs: defsOrOptions, options };
+  }
+  return { defs: undefined, options: defsOrOptions ?? options };
+}
+
 function resolveSchemaAndDefs(
   schemaOrDefs: Schema | Definitions,
   defs?: Definitions
@@ -34,7 +57,8 @@ function resolveSchemaAndDefs(
  *
  * @param data - The object to validate.
  * @param schemaOrDefs - The Schema to validate against, or Definitions containing a `$schema`.
- * @param defs - Optional Definitions context (if schema is passed as first arg).
+ * @param defsOrOptions - Optional Definitions context (if schema is passed as first arg), or options.
+ * @param options - Optional ValidateOptions (e.g. `exhaustive`).
  * @returns ValidationResult containing `valid` status, `errors`, and processed `data`.
  *
  * @example
@@ -46,14 +70,23 @@ function resolveSchemaAndDefs(
  * } else {
  *   console.error(result.errors);
  * }
+ *
+ * // Report every failing member at once
+ * const all = validateObject(formData, defs, { exhaustive: true });
  * ```
  */
-export function validateObject(data: object, schemaOrDefs: Schema | Definitions, defs?: Definitions): ValidationResult<object> {
+export function validateObject(data: object, schemaOrDefs: Schema | Definitions, defsOrOptions?: Definitions | ValidateOptions, options?: ValidateOptions): ValidationResult<object> {
   const errors: Error[] = [];
 
   try {
+    const { defs, options: opts } = resolveDefsAndOptions(defsOrOptions, options);
     const { schema, defs: resolvedDefs } = resolveSchemaAndDefs(schemaOrDefs, defs);
-    const obj = loadObject(data, schema, resolvedDefs);
+    const ctx = opts?.exhaustive ? new ProcessingContext({ exhaustive: true }) : undefined;
+    const obj = loadObject(data, schema, resolvedDefs, ctx);
+    if (ctx?.hasErrors()) {
+      errors.push(...ctx.getErrors());
+      return { valid: false, errors };
+    }
     return { valid: true, errors, data: obj.toJSON() };
   } catch (err) {
     errors.push(err instanceof Error ? err : new Error(String(err)));
@@ -66,15 +99,17 @@ export function validateObject(data: object, schemaOrDefs: Schema | Definitions,
  *
  * @param data - The array to validate.
  * @param schemaOrDefs - The Schema to validate against, or Definitions containing a `$schema`.
- * @param defs - Optional Definitions context.
+ * @param defsOrOptions - Optional Definitions context, or options.
+ * @param options - Optional ValidateOptions (e.g. `exhaustive`).
  * @returns ValidationResult containing `valid` status, `errors`, and processed `data` array.
  */
-export function validateCollection(data: any[], schemaOrDefs: Schema | Definitions, defs?: Definitions): ValidationResult<any[]> {
+export function validateCollection(data: any[], schemaOrDefs: Schema | Definitions, defsOrOptions?: Definitions | ValidateOptions, options?: ValidateOptions): ValidationResult<any[]> {
   const errors: Error[] = [];
 
   try {
+    const { defs, options: opts } = resolveDefsAndOptions(defsOrOptions, options);
     const { schema, defs: resolvedDefs } = resolveSchemaAndDefs(schemaOrDefs, defs);
-    const col = loadCollection(data, schema, resolvedDefs, errors);
+    const col = loadCollection(data, schema, resolvedDefs, errors, opts?.exhaustive ? { exhaustive: true } : undefined);
 
     if (errors.length > 0) {
       return { valid: false, errors };
@@ -93,13 +128,14 @@ export function validateCollection(data: any[], schemaOrDefs: Schema | Definitio
  *
  * @param data - The object or array to validate.
  * @param schemaOrDefs - The Schema to validate against, or Definitions containing a `$schema`.
- * @param defs - Optional Definitions context.
+ * @param defsOrOptions - Optional Definitions context, or options.
+ * @param options - Optional ValidateOptions (e.g. `exhaustive`).
  * @returns ValidationResult.
  */
-export function validate(data: any, schemaOrDefs: Schema | Definitions, defs?: Definitions): ValidationResult {
+export function validate(data: any, schemaOrDefs: Schema | Definitions, defsOrOptions?: Definitions | ValidateOptions, options?: ValidateOptions): ValidationResult {
   if (Array.isArray(data)) {
-    return validateCollection(data, schemaOrDefs, defs);
+    return validateCollection(data, schemaOrDefs, defsOrOptions, options);
   }
 
-  return validateObject(data, schemaOrDefs, defs);
+  return validateObject(data, schemaOrDefs, defsOrOptions, options);
 }
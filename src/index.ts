@@ -15,6 +15,13 @@ export { default as IOHeader                        } from './core/header';
 export { default as IODefinitions                   } from './core/definitions';
 export { default as IOCollection                    } from './core/collection';
 export { default as Decimal                         } from './core/decimal/decimal';
+export type { DecimalContext, RoundingMode          } from './core/decimal/decimal';
+export { IODateTime, IODate, IOTime, TemporalValue   } from './core/temporal';
+export type { DateTimeFields                        } from './core/temporal';
+export { IODuration                               } from './core/duration';
+export type { DurationFields                        } from './core/duration';
+export { IOMoney, currencyScale                    } from './core/money';
+export type { BinaryEncoding                        } from './utils/bytes';
 export { default as IOObject                        } from './core/internet-object';
 export { default as IOSection                       } from './core/section';
 export { default as IOSectionCollection             } from './core/section-collection';
@@ -27,6 +34,7 @@ export { default as IOValidationError               } from './errors/io-validati
 
 // Schema and validation
 export { default as IOSchema                        } from './schema/schema';
+export { default as IOUnionSchema                   } from './schema/union-schema';
 export { default as parse                           } from './parser/index';
 export { default as parseDefinitions                } from './parser/parse-defs';
 export { default as parseDefs                       } from './parser/parse-defs';
@@ -42,12 +50,49 @@ export { stringifyDocument                          } from './facade/stringify-d
 export { toObject, toJSON } from './facade/to-object';
 export type { Jsonable } from './facade/to-object';
 export { validate, validateObject, validateCollection } from './facade/validate';
-export type { ValidationResult } from './facade/validate';
+export type { ValidationResult, ValidateOptions } from './facade/validate';
+
+// Custom types
+export { default as TypedefRegistry                 } from './schema/typedef-registry';
+export { default as TypedefScope                    } from './schema/typedef-scope';
+export { default as doCommonTypeCheck               } from './schema/types/common-type';
+export type { default as TypeDef                    } from './schema/typedef';
+export type { TypeDefConstructor                    } from './schema/typedef-scope';
+export type { default as MemberDef                  } from './schema/types/memberdef';
+
+// JSON Schema interop
+export { toJSONSchema, fromJSONSchema               } from './schema/json-schema';
+export type { JSONSchema, JSONSchemaIssue           } from './schema/json-schema';
+export type { ToJSONSchemaOptions, ToJSONSchemaResult } from './schema/json-schema';
+export type { FromJSONSchemaOptions, FromJSONSchemaResult } from './schema/json-schema';
+
+// TypeScript type generation
+export { generateTypes                              } from './schema/typescript/generate-types';
+export type { GenerateTypesOptions                  } from './schema/typescript/generate-types';
+export type { InferType, InferMemberType, TypedMemberDef } from './schema/typescript/infer-type';
+
+// Source-preserving editing and incremental parsing
+export { default as IOEditableDocument              } from './parser/cst/editable-document';
+export type { TextEdit                              } from './parser/cst/editable-document';
+export { parseIncremental, reparse                  } from './parser/incremental';
+export type { IncrementalParseResult                } from './parser/incremental';
+
+// Formatting
+export { format, checkFormat                        } from './parser/cst/format';
+export type { FormatOptions, FormatCheckResult      } from './parser/cst/format';
+
+// Language server
+export { IOLanguageServer, startLanguageServer      } from './lsp';
+export type { LanguageServerOptions                 } from './lsp';
 
 // Streaming
 export { createStreamReader, createStreamWriter, createPushSource, BufferTransport } from './streaming';
-export { IOStreamReader } from './streaming';
-export type { IOStreamTransport, IOStreamSource, StreamItem, StreamReaderOptions, StreamWriterOptions } from './streaming';
+export { IOStreamReader, definitionsId, hashDefinitions, mapResolver, directoryResolver, callbackResolver } from './streaming';
+export { IOParseTransform, IOStringifyTransform } from './streaming';
+export { writeStream, IOWriteStream } from './streaming';
+export { IOStreamError } from './streaming';
+export { createSSESource, sseTransport, nodeHttpTransport, webSocketTransport } from './streaming';
+export type { IOStreamTransport, IOStreamSource, StreamItem, StreamCheckpoint, DefinitionsResolver, ResolvedDefinitions, StreamReaderOptions, StreamWriterOptions, StringifyTransformOptions, WriteStreamOptions, ErrorRecord, EventSourceLike, SSESourceOptions, SSETransport, SSETransportOptions, CompressionFormat } from './streaming';
 
 // Main tag functions (also tree-shakable)
 export { ioDefinitions, ioDocument, ioObject, ioSchema } from './facade';
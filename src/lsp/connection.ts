@@ -0,0 +1,91 @@
+import { Message } from './protocol';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const HEADER_END = [13, 10, 13, 10]; // \r\n\r\n
+
+/**
+ * Frames a message with its `Content-Length` header, as the base protocol of
+ * LSP sends it over a byte stream.
+ */
+export function encodeMessage(message: Message): Uint8Array {
+  const body = encoder.encode(JSON.stringify(message));
+  const header = encoder.encode(`Content-Length: ${body.length}\r\n\r\n`);
+
+  const bytes = new Uint8Array(header.length + body.length);
+  bytes.set(header);
+  bytes.set(body, header.length);
+  return bytes;
+}
+
+/**
+ * Reads the messages framed by `encodeMessage()` from the chunks of a byte
+ * stream. A message may span several chunks, and a chunk may hold several
+ * messages.
+ */
+export class MessageReader {
+  private _buffer = new Uint8Array(0);
+
+  /**
+   * @param onMessage Receives every complete message
+   * @param onError   Receives the errors of the messages that cannot be read;
+   *   reading goes on with the next message
+   */
+  constructor(
+    private readonly onMessage: (message: Message) => void,
+    private readonly onError: (error: Error) => void
+  ) {}
+
+  /** Adds a chunk of the stream, and passes on the messages it completes. */
+  push(chunk: Uint8Array | string): void {
+    const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+    const buffer = new Uint8Array(this._buffer.length + bytes.length);
+    buffer.set(this._buffer);
+    buffer.set(bytes, this._buffer.length);
+    this._buffer = buffer;
+
+    while (this._readMessage()) { /* until the buffer holds no complete message */ }
+  }
+
+  private _readMessage(): boolean {
+    const headerEnd = indexOf(this._buffer, HEADER_END);
+    if (headerEnd < 0) return false;
+
+    const headers = decoder.decode(this._buffer.subarray(0, headerEnd));
+    const match = /^content-length:\s*(\d+)\s*$/im.exec(headers);
+    const bodyStart = headerEnd + HEADER_END.length;
+
+    if (!match) {
+      this._buffer = this._buffer.slice(bodyStart);
+      this.onError(new Error(`The message has no Content-Length header: '${headers}'.`));
+      return true;
+    }
+
+    const bodyEnd = bodyStart + Number(match[1]);
+    if (this._buffer.length < bodyEnd) return false;
+
+    const body = decoder.decode(this._buffer.subarray(bodyStart, bodyEnd));
+    this._buffer = this._buffer.slice(bodyEnd);
+
+    let message: Message;
+    try {
+      message = JSON.parse(body);
+    } catch (error) {
+      this.onError(error as Error);
+      return true;
+    }
+    this.onMessage(message);
+    return true;
+  }
+}
+
+function indexOf(bytes: Uint8Array, sequence: number[]): number {
+  outer: for (let i = 0; i <= bytes.length - sequence.length; i++) {
+    for (let j = 0; j < sequence.length; j++) {
+      if (bytes[i + j] !== sequence[j]) continue outer;
+    }
+    return i;
+  }
+  return -1;
+}
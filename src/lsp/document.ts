@@ -0,0 +1,501 @@
+import IODefinitions  from '../core/definitions';
+import IOError        from '../errors/io-error';
+import parse          from '../parser';
+import { IncrementalParseResult, parseIncremental, reparse } from '../parser/incremental';
+import TokenNode      from '../parser/nodes/tokens';
+import Tokenizer      from '../parser/tokenizer';
+import TokenType      from '../parser/tokenizer/token-types';
+import Token          from '../parser/tokenizer/tokens';
+import IOSchema       from '../schema/schema';
+import TypedefRegistry from '../schema/typedef-registry';
+import MemberDef      from '../schema/types/memberdef';
+import { SchemaResolver } from '../schema/utils/schema-resolver';
+import {
+  CompletionItem, CompletionItemKind, Diagnostic, DiagnosticSeverity, DocumentSymbol, Hover,
+  LspLocation, LspPosition, LspRange, SymbolKind, TextDocumentContentChangeEvent,
+} from './protocol';
+
+/** The MemberDef properties shown as the member itself rather than as constraints. */
+const MEMBER_PROPS = new Set(['name', 'type', 'path', 'optional', 'null', 'schema', 'of']);
+
+/** The value or key a position is in, and the members around it. */
+interface MemberFrame {
+  schema: IOSchema | null;
+
+  /** The member definition of the items, for arrays */
+  of?: MemberDef | null;
+  isArray: boolean;
+
+  /** Index of the current member or item */
+  index: number;
+
+  /** Key of the current member, when written as `key: value` */
+  key?: string;
+
+  /** Path of the object or array, from the section */
+  path: string;
+
+  /** Members given so far */
+  used: Set<string>;
+}
+
+/**
+ * An IO document open in the language server. It keeps the text along with
+ * its parse result, which is updated incrementally as the document changes,
+ * and answers the language features for positions in the text.
+ *
+ * The features work on the tokens of the text rather than on the parsed
+ * document, so that they keep working while the text is being typed and
+ * does not parse.
+ */
+class LspDocument {
+  private _text: string;
+  private _result: IncrementalParseResult | null = null;
+  private _failure: Error | null = null;
+  private _lineStarts: number[] = [];
+  private _tokens: readonly Token[] | null = null;
+  private _header: { defs: IODefinitions | null; schema: IOSchema | null } | null = null;
+
+  constructor(readonly uri: string, text: string, public version: number) {
+    this._text = text;
+    this._update(null);
+  }
+
+  get text(): string {
+    return this._text;
+  }
+
+  /** Applies the changes sent with `textDocument/didChange`, in order. */
+  applyChanges(changes: TextDocumentContentChangeEvent[], version: number): void {
+    for (const change of changes) {
+      if (!change.range) {
+        this._text = change.text;
+        this._update(null);
+        continue;
+      }
+
+      const start = this.offsetAt(change.range.start);
+      const end = this.offsetAt(change.range.end);
+      this._text = this._text.slice(0, start) + change.text + this._text.slice(end);
+      this._update({ start, end, text: change.text });
+    }
+    this.version = version;
+  }
+
+  /** The syntax and validation errors of the text. */
+  get diagnostics(): Diagnostic[] {
+    const errors = this._result ? this._result.document.errors : [this._failure!];
+    return errors.map(error => {
+      const range = (error as IOError).positionRange;
+      const start = Math.max(range?.getStartPos().pos ?? 0, 0);
+      const end = Math.max(range?.getEndPos().pos ?? start, start);
+
+      const diagnostic: Diagnostic = {
+        range: this._range(start, end),
+        severity: DiagnosticSeverity.Error,
+        source: 'internet-object',
+        message: (error as IOError).fact ?? error.message,
+      };
+      if (error instanceof IOError) diagnostic.code = error.errorCode;
+      return diagnostic;
+    });
+  }
+
+  /** Describes the member definition of the value or key at the position. */
+  hover(position: LspPosition): Hover | null {
+    const tokens = this._getTokens();
+    const index = this._tokenAt(this.offsetAt(position));
+    if (index < 0) return null;
+
+    const token = tokens[index];
+    const isKey = token.type === TokenType.STRING && tokens[index + 1]?.type === TokenType.COLON;
+    if (!isKey && (token.type === TokenType.COMMA || token.type === TokenType.COLON
+      || token.type === TokenType.CURLY_CLOSE || token.type === TokenType.BRACKET_CLOSE)) {
+      return null;
+    }
+
+    const frame = this._frameAt(index);
+    if (!frame) return null;
+    if (isKey) frame.key = String(token.value);
+
+    const def = this._memberDef(frame);
+    if (!def) return null;
+
+    return {
+      contents: { kind: 'markdown', value: describeMember(memberName(frame), memberPath(frame), def, this._getHeader().defs) },
+      range: this._range(token.pos, token.pos + token.token.length),
+    };
+  }
+
+  /**
+   * Completes the word at the position: definitions after `@` and `$`, and
+   * otherwise the member keys not given yet and the choices of the value.
+   */
+  completion(position: LspPosition): CompletionItem[] {
+    const offset = this.offsetAt(position);
+    let wordStart = offset;
+    while (wordStart > 0 && /[\w$@-]/.test(this._text[wordStart - 1])) wordStart--;
+
+    const word = this._text.slice(wordStart, offset);
+    const { defs } = this._getHeader();
+    if (word.startsWith('@') || word.startsWith('$')) {
+      return (defs?.keys ?? [])
+        .filter(key => key.startsWith(word[0]))
+        .map(key => ({
+          label: key,
+          kind: key.startsWith('@') ? CompletionItemKind.Variable : CompletionItemKind.Class,
+          detail: key.startsWith('@') ? constraintText(defs!.get(key)) : 'schema',
+        }));
+    }
+
+    // The tokens before the word decide what it is
+    const tokens = this._getTokens();
+    let index = tokens.findIndex(token => token.pos >= wordStart);
+    if (index < 0) index = tokens.length;
+
+    const frame = this._frameAt(index);
+    if (!frame) return [];
+
+    const items: CompletionItem[] = [];
+    const def = this._memberDef(frame);
+    for (const choice of def?.choices ?? []) {
+      items.push({ label: String(choice), kind: CompletionItemKind.EnumMember, detail: def!.type });
+    }
+
+    if (!frame.isArray && frame.key === undefined && frame.schema) {
+      for (const name of frame.schema.names) {
+        if (frame.used.has(name)) continue;
+        items.push({
+          label: name,
+          kind: CompletionItemKind.Property,
+          detail: frame.schema.defs[name].type,
+          insertText: `${name}: `,
+        });
+      }
+    }
+    return items;
+  }
+
+  /** Finds the header definition of the `$schema` or `@variable` at the position. */
+  definition(position: LspPosition): LspLocation | null {
+    const tokens = this._getTokens();
+    const index = this._tokenAt(this.offsetAt(position));
+    const name = index < 0 ? undefined : tokens[index].value;
+    if (typeof name !== 'string' || !(name.startsWith('$') || name.startsWith('@'))) return null;
+
+    const headerEnd = this._headerEnd();
+    for (let i = 0; i + 2 < headerEnd; i++) {
+      const key = tokens[i + 1];
+      if (tokens[i].type === TokenType.COLLECTION_START && key.value === name && tokens[i + 2].type === TokenType.COLON) {
+        return { uri: this.uri, range: this._range(key.pos, key.pos + key.token.length) };
+      }
+    }
+    return null;
+  }
+
+  /** Lists the data sections. */
+  symbols(): DocumentSymbol[] {
+    const tokens = this._getTokens();
+    const symbols: DocumentSymbol[] = [];
+
+    let start = this._headerEnd();
+    if (start === 0 && tokens[0]?.type !== TokenType.SECTION_SEP && tokens.length > 0) start = -1;
+
+    while (start < tokens.length) {
+      let end = tokens.findIndex((token, i) => i > start && token.type === TokenType.SECTION_SEP);
+      if (end < 0) end = tokens.length;
+
+      const { name, schemaName, contentStart } = this._sectionHeading(start);
+      const first = tokens[Math.max(start, 0)];
+      const last = tokens[end - 1];
+      const nameToken = contentStart > start + 1 ? tokens[start + 1] : first;
+
+      const rows = tokens.slice(contentStart, end).filter(token => token.type === TokenType.COLLECTION_START).length;
+      symbols.push({
+        name: name ?? 'unnamed',
+        detail: rows > 0 ? `${rows} ${rows === 1 ? 'row' : 'rows'}` : schemaName,
+        kind: rows > 0 ? SymbolKind.Array : SymbolKind.Object,
+        range: this._range(first?.pos ?? 0, last ? last.pos + last.token.length : 0),
+        selectionRange: this._range(nameToken?.pos ?? 0, nameToken ? nameToken.pos + nameToken.token.length : 0),
+      });
+      start = end;
+    }
+    return symbols;
+  }
+
+  /** Converts an LSP position to an offset in the text. */
+  offsetAt(position: LspPosition): number {
+    const starts = this._lineStarts;
+    if (position.line >= starts.length) return this._text.length;
+
+    const lineEnd = position.line + 1 < starts.length ? starts[position.line + 1] : this._text.length;
+    return Math.min(starts[Math.max(position.line, 0)] + Math.max(position.character, 0), lineEnd);
+  }
+
+  /** Converts an offset in the text to an LSP position. */
+  positionAt(offset: number): LspPosition {
+    const starts = this._lineStarts;
+    let lo = 0;
+    let hi = starts.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >>> 1;
+      if (starts[mid] <= offset) lo = mid; else hi = mid - 1;
+    }
+    return { line: lo, character: offset - starts[lo] };
+  }
+
+  private _update(edit: { start: number; end: number; text: string } | null): void {
+    this._lineStarts = [0];
+    for (let i = this._text.indexOf('\n'); i >= 0; i = this._text.indexOf('\n', i + 1)) {
+      this._lineStarts.push(i + 1);
+    }
+    this._tokens = null;
+    this._header = null;
+
+    try {
+      this._result = edit && this._result
+        ? reparse(this._result, edit)
+        : parseIncremental(this._text, null, { exhaustive: true });
+      this._failure = null;
+    } catch (error) {
+      this._result = null;
+      this._failure = error instanceof Error ? error : new Error(String(error));
+    }
+  }
+
+  private _range(start: number, end: number): LspRange {
+    return { start: this.positionAt(start), end: this.positionAt(end) };
+  }
+
+  private _getTokens(): readonly Token[] {
+    if (!this._tokens) {
+      try {
+        this._tokens = this._result ? this._result.state.tokens : new Tokenizer(this._text).tokenize();
+      } catch {
+        this._tokens = [];
+      }
+    }
+    return this._tokens;
+  }
+
+  /** Index of the first `---`, which ends the header; 0 when there is no header. */
+  private _headerEnd(): number {
+    const tokens = this._getTokens();
+    const separator = tokens.findIndex(token => token.type === TokenType.SECTION_SEP);
+    return separator < 0 ? 0 : separator;
+  }
+
+  /** The definitions of the header, parsed on their own as the data may not parse. */
+  private _getHeader(): { defs: IODefinitions | null; schema: IOSchema | null } {
+    if (!this._header) {
+      this._header = { defs: null, schema: null };
+      const separator = this._getTokens()[this._headerEnd()];
+      if (separator?.type === TokenType.SECTION_SEP && separator.pos > 0) {
+        try {
+          const header = parse(this._text.slice(0, separator.pos + separator.token.length)).header;
+          this._header = { defs: header.definitions, schema: header.schema };
+        } catch {
+          // Invalid definitions are reported by the diagnostics
+        }
+      }
+    }
+    return this._header;
+  }
+
+  /** Index of the token the offset is in, or right after. */
+  private _tokenAt(offset: number): number {
+    const tokens = this._getTokens();
+    for (let i = tokens.length - 1; i >= 0; i--) {
+      const token = tokens[i];
+      if (token.pos <= offset) return offset <= token.pos + token.token.length ? i : -1;
+    }
+    return -1;
+  }
+
+  /**
+   * The name, schema name and first content token of the section that
+   * starts at a `---` token, or at the start of the text for -1.
+   */
+  private _sectionHeading(separator: number): { name?: string; schemaName: string; contentStart: number } {
+    const tokens = this._getTokens();
+    let name: string | undefined;
+    let schemaName: string | undefined;
+    let i = separator + 1;
+
+    if (separator >= 0) {
+      for (; tokens[i]?.subType === TokenType.SECTION_NAME || tokens[i]?.subType === TokenType.SECTION_SCHEMA; i++) {
+        if (tokens[i].subType === TokenType.SECTION_NAME) name = String(tokens[i].value);
+        else schemaName = String(tokens[i].value);
+      }
+    }
+    return { name: name ?? schemaName?.substring(1), schemaName: schemaName ?? '$schema', contentStart: i };
+  }
+
+  /**
+   * Follows the tokens of the row that holds the token at the index, up to
+   * that token, to find the member it belongs to. Returns null in the header.
+   */
+  private _frameAt(index: number): MemberFrame | null {
+    const tokens = this._getTokens();
+    const headerEnd = this._headerEnd();
+    const hasHeader = tokens[headerEnd]?.type === TokenType.SECTION_SEP && headerEnd > 0;
+    if (hasHeader && index <= headerEnd) return null;
+
+    let separator = -1;
+    for (let i = index - 1; i >= 0; i--) {
+      if (tokens[i].type === TokenType.SECTION_SEP) { separator = i; break; }
+    }
+
+    const { name, schemaName, contentStart } = this._sectionHeading(separator);
+    if (index < contentStart) return null;
+
+    let rowStart = contentStart;
+    let row = -1;
+    for (let i = contentStart; i < index; i++) {
+      if (tokens[i].type === TokenType.COLLECTION_START) {
+        rowStart = i + 1;
+        row++;
+      }
+    }
+
+    const frames: MemberFrame[] = [{
+      schema: this._sectionSchema(schemaName),
+      isArray: false,
+      index: 0,
+      path: row < 0 ? (name ?? '') : `${name ?? ''}[${row}]`,
+      used: new Set(),
+    }];
+
+    // Braces around the whole row belong to the row object
+    let i = rowStart;
+    if (tokens[i]?.type === TokenType.CURLY_OPEN && i < index) i++;
+
+    for (; i < index; i++) {
+      const frame = frames[frames.length - 1];
+      const token = tokens[i];
+
+      switch (token.type) {
+        case TokenType.COMMA:
+          frame.index++;
+          frame.key = undefined;
+          break;
+
+        case TokenType.CURLY_OPEN:
+        case TokenType.BRACKET_OPEN: {
+          const def = this._memberDef(frame);
+          const isArray = token.type === TokenType.BRACKET_OPEN;
+          this._markUsed(frame);
+          frames.push({
+            schema: isArray ? null : this._objectSchema(def),
+            of: isArray ? itemDef(def) : undefined,
+            isArray,
+            index: 0,
+            path: memberPath(frame),
+            used: new Set(),
+          });
+          break;
+        }
+
+        case TokenType.CURLY_CLOSE:
+        case TokenType.BRACKET_CLOSE:
+          if (frames.length > 1) frames.pop();
+          break;
+
+        default:
+          if (!frame.isArray && token.type === TokenType.STRING && tokens[i + 1]?.type === TokenType.COLON) {
+            frame.key = String(token.value);
+            frame.used.add(frame.key);
+            i++;
+          } else {
+            this._markUsed(frame);
+          }
+      }
+    }
+    return frames[frames.length - 1];
+  }
+
+  private _markUsed(frame: MemberFrame): void {
+    const name = frame.key ?? frame.schema?.names[frame.index];
+    if (!frame.isArray && name !== undefined) frame.used.add(name);
+  }
+
+  private _memberDef(frame: MemberFrame): MemberDef | undefined {
+    if (frame.isArray) return frame.of ?? undefined;
+
+    const schema = frame.schema;
+    if (!schema) return undefined;
+    if (frame.key === undefined) return schema.defs[schema.names[frame.index]];
+    return schema.defs[frame.key] ?? (typeof schema.open === 'object' ? schema.open : undefined);
+  }
+
+  private _sectionSchema(schemaName: string): IOSchema | null {
+    const { defs, schema } = this._getHeader();
+    if (schemaName === '$schema') return schema ?? null;
+
+    try {
+      const resolved = defs?.getV(schemaName);
+      return resolved instanceof IOSchema ? resolved : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private _objectSchema(def: MemberDef | undefined): IOSchema | null {
+    const schema = def?.schema;
+    if (!(schema instanceof IOSchema) && !(schema instanceof TokenNode)) return null;
+
+    try {
+      return SchemaResolver.resolve(schema, this._getHeader().defs ?? undefined);
+    } catch {
+      return null;
+    }
+  }
+}
+
+/** The member definition of the items of an array member. */
+function itemDef(def: MemberDef | undefined): MemberDef | null {
+  const of = def?.of;
+  if (of instanceof IOSchema) return { type: 'object', schema: of };
+  return of && typeof of === 'object' ? of as MemberDef : null;
+}
+
+function memberName(frame: MemberFrame): string {
+  if (frame.isArray) return `[${frame.index}]`;
+  return frame.key ?? frame.schema?.names[frame.index] ?? String(frame.index);
+}
+
+function memberPath(frame: MemberFrame): string {
+  const name = memberName(frame);
+  if (frame.isArray) return `${frame.path}${name}`;
+  return frame.path ? `${frame.path}.${name}` : name;
+}
+
+function describeMember(name: string, path: string, def: MemberDef, defs: IODefinitions | null): string {
+  const flags = [def.optional ? 'optional' : '', def.null ? 'nullable' : ''].filter(Boolean);
+  const lines = [`\`${name}: ${def.type}\`${flags.length ? ` (${flags.join(', ')})` : ''}`, '', `Path: \`${path}\``];
+
+  // The compiled definition holds the defaults of its type too, such as the quotes of strings
+  let typeDefs: MemberDef['defs'] = {};
+  try {
+    typeDefs = TypedefRegistry.get(def.type, defs).schema.defs;
+  } catch {
+    // An unknown type has no defaults
+  }
+
+  const constraints = Object.keys(def)
+    .filter(key => !MEMBER_PROPS.has(key) && def[key] !== undefined && def[key] !== typeDefs[key]?.default)
+    .map(key => `\`${key}: ${constraintText(def[key])}\``);
+  if (constraints.length) lines.push('', `Constraints: ${constraints.join(', ')}`);
+
+  return lines.join('\n');
+}
+
+function constraintText(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(constraintText).join(', ')}]`;
+  if (value instanceof TokenNode) return String(value.value);
+  if (value instanceof RegExp) return String(value);
+  if (value !== null && typeof value === 'object') return '{...}';
+  return String(value);
+}
+
+export default LspDocument;
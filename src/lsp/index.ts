@@ -0,0 +1,6 @@
+export { default as IOLanguageServer } from './server';
+export type { LanguageServerOptions } from './server';
+export { startLanguageServer } from './stdio';
+export type { ByteInput, ByteOutput } from './stdio';
+export { encodeMessage, MessageReader } from './connection';
+export * from './protocol';
@@ -0,0 +1,115 @@
+/**
+ * The subset of the Language Server Protocol used by the IO language server.
+ * The shapes follow the LSP 3.17 specification.
+ */
+
+/** A zero-based line and UTF-16 character offset. */
+export interface LspPosition {
+  line: number;
+  character: number;
+}
+
+export interface LspRange {
+  start: LspPosition;
+  end: LspPosition;
+}
+
+export interface LspLocation {
+  uri: string;
+  range: LspRange;
+}
+
+export enum DiagnosticSeverity {
+  Error       = 1,
+  Warning     = 2,
+  Information = 3,
+  Hint        = 4,
+}
+
+/** The kinds of the messages of `window/logMessage`. */
+export enum MessageType {
+  Error   = 1,
+  Warning = 2,
+  Info    = 3,
+  Log     = 4,
+}
+
+export interface Diagnostic {
+  range: LspRange;
+  severity: DiagnosticSeverity;
+  code?: string;
+  source: string;
+  message: string;
+}
+
+export interface Hover {
+  contents: { kind: 'markdown' | 'plaintext'; value: string };
+  range?: LspRange;
+}
+
+export enum CompletionItemKind {
+  Property   = 10,
+  Value      = 12,
+  EnumMember = 20,
+  Variable   = 6,
+  Class      = 7,
+}
+
+export interface CompletionItem {
+  label: string;
+  kind: CompletionItemKind;
+  detail?: string;
+  insertText?: string;
+}
+
+export enum SymbolKind {
+  Namespace = 3,
+  Object    = 19,
+  Array     = 18,
+}
+
+export interface DocumentSymbol {
+  name: string;
+  detail?: string;
+  kind: SymbolKind;
+  range: LspRange;
+  selectionRange: LspRange;
+}
+
+/** A change of an open document; without a range, the whole text is replaced. */
+export interface TextDocumentContentChangeEvent {
+  range?: LspRange;
+  text: string;
+}
+
+export interface RequestMessage {
+  jsonrpc: '2.0';
+  id: number | string;
+  method: string;
+  params?: any;
+}
+
+export interface NotificationMessage {
+  jsonrpc: '2.0';
+  method: string;
+  params?: any;
+}
+
+export interface ResponseMessage {
+  jsonrpc: '2.0';
+  id: number | string | null;
+  result?: any;
+  error?: { code: number; message: string };
+}
+
+export type Message = RequestMessage | NotificationMessage | ResponseMessage;
+
+/** JSON-RPC and LSP error codes. */
+export enum ErrorCode {
+  ParseError           = -32700,
+  InvalidRequest       = -32600,
+  MethodNotFound       = -32601,
+  InvalidParams        = -32602,
+  InternalError        = -32603,
+  ServerNotInitialized = -32002,
+}
@@ -0,0 +1,199 @@
+import LspDocument from './document';
+import { ErrorCode, Message, MessageType, NotificationMessage, RequestMessage, ResponseMessage } from './protocol';
+
+export interface LanguageServerOptions {
+  /**
+   * Called on the `exit` notification with the exit code the protocol
+   * expects: 0 after a `shutdown` request, 1 otherwise.
+   */
+  onExit?: (code: number) => void;
+}
+
+class ResponseError extends Error {
+  constructor(readonly code: ErrorCode, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * A Language Server Protocol server for Internet Object documents. It
+ * publishes the syntax and validation errors of the open documents as
+ * diagnostics, and provides hovers describing member definitions, completion
+ * of member keys, choices, `@variables` and `$schema` names, go-to-definition
+ * of `$schema` and `@variable` references, and the sections as document
+ * symbols.
+ *
+ * The server is independent of the transport: it handles the messages given
+ * to `handle()` and sends its responses and notifications through the
+ * `send` callback. `startLanguageServer()` connects it to byte streams such
+ * as the standard input and output.
+ *
+ * @example
+ * ```typescript
+ * const server = new IOLanguageServer(message => client.receive(message));
+ * server.handle({ jsonrpc: '2.0', id: 1, method: 'initialize', params: {} });
+ * ```
+ */
+class IOLanguageServer {
+  private readonly _documents = new Map<string, LspDocument>();
+  private _initialized = false;
+  private _shutdown = false;
+
+  constructor(
+    private readonly send: (message: Message) => void,
+    private readonly options: LanguageServerOptions = {}
+  ) {}
+
+  /** Handles a message from the client. */
+  handle(message: Message): void {
+    // Any JSON value can come framed: only objects are messages, and the
+    // protocol has no batches
+    if (typeof message !== 'object' || message === null || Array.isArray(message)) {
+      const reason = Array.isArray(message) ? 'Batch messages are not supported.' : 'The message is not an object.';
+      this._invalidRequest(null, reason);
+      return;
+    }
+
+    if (!('method' in message)) return; // A response to the server, which sends no requests
+
+    if (typeof message.method !== 'string') {
+      this._invalidRequest('id' in message ? message.id ?? null : null, 'The method of the message is not a string.');
+      return;
+    }
+
+    if ('id' in message && message.id !== undefined) {
+      this._request(message as RequestMessage);
+      return;
+    }
+
+    // Notifications have no response to carry an error: a malformed one is
+    // logged to the client and dropped
+    try {
+      this._notification(message);
+    } catch (error) {
+      this._notify('window/logMessage', {
+        type: MessageType.Error,
+        message: `Cannot handle '${message.method}': ${(error as Error).message}`,
+      });
+    }
+  }
+
+  /** Responds to a message that could not be read. */
+  handleParseError(error: Error): void {
+    this.send({ jsonrpc: '2.0', id: null, error: { code: ErrorCode.ParseError, message: error.message } });
+  }
+
+  private _invalidRequest(id: ResponseMessage['id'], message: string): void {
+    this.send({ jsonrpc: '2.0', id, error: { code: ErrorCode.InvalidRequest, message } });
+  }
+
+  private _request(request: RequestMessage): void {
+    const response: ResponseMessage = { jsonrpc: '2.0', id: request.id };
+    try {
+      response.result = this._result(request.method, request.params ?? {});
+    } catch (error) {
+      response.error = error instanceof ResponseError
+        ? { code: error.code, message: error.message }
+        : { code: ErrorCode.InternalError, message: (error as Error).message };
+    }
+    this.send(response);
+  }
+
+  private _result(method: string, params: any): any {
+    if (method === 'initialize') {
+      this._initialized = true;
+      return {
+        capabilities: {
+          textDocumentSync: { openClose: true, change: 2 }, // Incremental
+          hoverProvider: true,
+          completionProvider: { triggerCharacters: ['@', '$', ',', ':', '{'] },
+          definitionProvider: true,
+          documentSymbolProvider: true,
+        },
+        serverInfo: { name: 'internet-object' },
+      };
+    }
+
+    if (!this._initialized) {
+      throw new ResponseError(ErrorCode.ServerNotInitialized, `The server is not initialized.`);
+    }
+
+    switch (method) {
+      case 'shutdown':
+        this._shutdown = true;
+        return null;
+
+      case 'textDocument/hover':
+        return this._document(params).hover(params.position);
+
+      case 'textDocument/completion':
+        return this._document(params).completion(params.position);
+
+      case 'textDocument/definition':
+        return this._document(params).definition(params.position);
+
+      case 'textDocument/documentSymbol':
+        return this._document(params).symbols();
+
+      default:
+        throw new ResponseError(ErrorCode.MethodNotFound, `Unsupported method '${method}'.`);
+    }
+  }
+
+  private _notification(notification: NotificationMessage): void {
+    const params = notification.params ?? {};
+
+    switch (notification.method) {
+      case 'textDocument/didOpen': {
+        const { uri, text, version } = params.textDocument;
+        const document = new LspDocument(uri, text, version);
+        this._documents.set(uri, document);
+        this._publishDiagnostics(document);
+        break;
+      }
+
+      case 'textDocument/didChange': {
+        const document = this._documents.get(params.textDocument.uri);
+        if (!document) return;
+        document.applyChanges(params.contentChanges, params.textDocument.version);
+        this._publishDiagnostics(document);
+        break;
+      }
+
+      case 'textDocument/didClose': {
+        const uri = params.textDocument.uri;
+        this._documents.delete(uri);
+        this._notify('textDocument/publishDiagnostics', { uri, diagnostics: [] });
+        break;
+      }
+
+      case 'exit':
+        this.options.onExit?.(this._shutdown ? 0 : 1);
+        break;
+
+      // Other notifications, such as `initialized`, need no answer
+    }
+  }
+
+  private _document(params: any): LspDocument {
+    const document = this._documents.get(params.textDocument?.uri);
+    if (!document) {
+      throw new ResponseError(ErrorCode.InvalidParams, `The document '${params.textDocument?.uri}' is not open.`);
+    }
+    return document;
+  }
+
+  private _publishDiagnostics(document: LspDocument): void {
+    this._notify('textDocument/publishDiagnostics', {
+      uri: document.uri,
+      version: document.version,
+      diagnostics: document.diagnostics,
+    });
+  }
+
+  private _notify(method: string, params: any): void {
+    this.send({ jsonrpc: '2.0', method, params });
+  }
+}
+
+export default IOLanguageServer;
@@ -0,0 +1,49 @@
+import { encodeMessage, MessageReader } from './connection';
+import IOLanguageServer, { LanguageServerOptions } from './server';
+
+/** A readable byte stream, such as `process.stdin`. */
+export interface ByteInput {
+  on(event: 'data', listener: (chunk: Uint8Array | string) => void): unknown;
+  on(event: 'end', listener: () => void): unknown;
+}
+
+/** A writable byte stream, such as `process.stdout`. */
+export interface ByteOutput {
+  write(chunk: Uint8Array): unknown;
+}
+
+/**
+ * Runs an `IOLanguageServer` over a pair of byte streams, reading and
+ * writing messages framed with `Content-Length` headers as LSP clients do
+ * over the standard input and output.
+ *
+ * @param input   The stream of client messages
+ * @param output  The stream the server messages are written to
+ * @param options The server options
+ * @returns The running server
+ *
+ * @example
+ * ```typescript
+ * startLanguageServer(process.stdin, process.stdout, { onExit: code => process.exit(code) });
+ * ```
+ */
+export function startLanguageServer(
+  input: ByteInput,
+  output: ByteOutput,
+  options: LanguageServerOptions = {}
+): IOLanguageServer {
+  // Exits once, on the exit notification or when the client closes the input
+  let exited = false;
+  const onExit = (code: number) => {
+    if (exited) return;
+    exited = true;
+    options.onExit?.(code);
+  };
+
+  const server = new IOLanguageServer(message => output.write(encodeMessage(message)), { ...options, onExit });
+  const reader = new MessageReader(message => server.handle(message), error => server.handleParseError(error));
+
+  input.on('data', chunk => reader.push(chunk));
+  input.on('end', () => onExit(1));
+  return server;
+}
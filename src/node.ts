@@ -0,0 +1,8 @@
+// Node.js-only APIs, kept out of the main entry point so that it stays
+// free of Node.js built-in modules.
+//
+//   import { createParseTransform } from 'internet-object/node';
+
+// Streaming
+export { IOParseNodeTransform, IOStringifyNodeTransform } from './streaming/node-transforms';
+export { createParseTransform, createStringifyTransform } from './streaming/node-transforms';
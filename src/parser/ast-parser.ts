@@ -664,7 +664,10 @@ class ASTParser {
       case TokenType.DECIMAL:
       case TokenType.BOOLEAN:
       case TokenType.NULL:
-      case TokenType.DATETIME: {
+      case TokenType.DATETIME:
+      case TokenType.DURATION:
+      case TokenType.MONEY:
+      case TokenType.BINARY: {
         const node = new TokenNode(token);
         this.advance();
         return node;
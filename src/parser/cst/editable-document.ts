@@ -0,0 +1,310 @@
+import IODefinitions  from '../../core/definitions';
+import IODocument     from '../../core/document';
+import IOError        from '../../errors/io-error';
+import ErrorCodes     from '../../errors/io-error-codes';
+import IOSchema       from '../../schema/schema';
+import parse          from '..';
+import ASTParser      from '../ast-parser';
+import CollectionNode from '../nodes/collections';
+import DocumentNode   from '../nodes/document';
+import MemberNode     from '../nodes/members';
+import Node           from '../nodes/nodes';
+import ObjectNode     from '../nodes/objects';
+import SectionNode    from '../nodes/section';
+import TokenNode      from '../nodes/tokens';
+import Tokenizer      from '../tokenizer';
+import TokenType      from '../tokenizer/token-types';
+import Token          from '../tokenizer/tokens';
+import { keyToText, valueToText } from './value-text';
+
+/**
+ * A change made to the text of an editable document. The offsets refer to
+ * the text as it was right before the change.
+ */
+export interface TextEdit {
+  /** Offset of the first replaced character */
+  start: number;
+
+  /** Offset right after the last replaced character */
+  end: number;
+
+  /** The inserted text */
+  text: string;
+}
+
+/**
+ * IOEditableDocument keeps the source text of an Internet Object document
+ * alongside its syntax tree, so that values can be changed without
+ * regenerating the text. Every edit replaces only the characters of the
+ * value being changed; comments, whitespace, quoting and member order
+ * elsewhere in the document stay exactly as they were written.
+ *
+ * The tree is the one produced by the tokenizer and `ASTParser`: its tokens
+ * carry their offsets in the text, and the trivia (whitespace and comments)
+ * is whatever text lies between them.
+ *
+ * @example
+ * ```typescript
+ * const doc = IOEditableDocument.parse(`
+ * ~ version: 1.2.0   # bumped by CI
+ * ~ $schema: { name: string, port: int }
+ * ---
+ * api, 8080   # public port
+ * `);
+ *
+ * doc.setHeader('version', '1.3.0').setAt(0, 0, 'port', 9090);
+ * doc.toString();
+ * // ~ version: 1.3.0   # bumped by CI
+ * // ~ $schema: { name: string, port: int }
+ * // ---
+ * // api, 9090   # public port
+ * ```
+ */
+class IOEditableDocument {
+  private _text: string;
+  private readonly _defs: IODefinitions | null;
+  private readonly _edits: TextEdit[] = [];
+  private _tokens!: readonly Token[];
+  private _root!: DocumentNode;
+
+  /**
+   * @param text The IO document text
+   * @param defs External definitions used to resolve the schemas of sections,
+   *   needed to address the positional members by their names
+   */
+  constructor(text: string, defs: IODefinitions | null = null) {
+    this._text = text;
+    this._defs = defs;
+    this._reparse();
+  }
+
+  /** Creates an editable document from the given text. */
+  static parse(text: string, defs: IODefinitions | null = null): IOEditableDocument {
+    return new IOEditableDocument(text, defs);
+  }
+
+  /** The current text of the document, including all the edits. */
+  get text(): string {
+    return this._text;
+  }
+
+  /** The syntax tree of the current text. */
+  get root(): DocumentNode {
+    return this._root;
+  }
+
+  /** The edits made so far, in the order they were made. */
+  get edits(): readonly TextEdit[] {
+    return this._edits;
+  }
+
+  /** Parses the current text into an `IODocument`. */
+  toDocument(): IODocument {
+    return parse(this._text, this._defs);
+  }
+
+  toString(): string {
+    return this._text;
+  }
+
+  /**
+   * Returns the value of a member of a data section, or undefined when the
+   * member is not present.
+   *
+   * @param section The section index, or its name
+   * @param index   The index of the object in the section (0 for a single object)
+   * @param key     The member name, or its position
+   */
+  getAt(section: number | string, index: number, key: string | number): any {
+    const sectionNode = this._section(section);
+    const member = this._findMember(this._object(sectionNode, index), key, sectionNode);
+    return member?.value.toValue();
+  }
+
+  /**
+   * Sets the value of a member of a data section. Only the text of the old
+   * value is replaced; a member that is not present is appended to the
+   * object as `key: value`.
+   *
+   * @param section The section index, or its name
+   * @param index   The index of the object in the section (0 for a single object)
+   * @param key     The member name, or its position
+   * @param value   The new value
+   * @returns This document, for chaining
+   */
+  setAt(section: number | string, index: number, key: string | number, value: unknown): this {
+    const sectionNode = this._section(section);
+    const object = this._object(sectionNode, index);
+    const member = this._findMember(object, key, sectionNode);
+
+    if (member) {
+      this._replaceValue(member.value, value);
+      return this;
+    }
+
+    const members = object.children.filter((child): child is MemberNode => child !== undefined);
+    let text: string;
+    if (typeof key === 'string') {
+      text = `${keyToText(key)}: ${valueToText(value)}`;
+    } else if (key === object.children.length) {
+      text = valueToText(value);
+    } else {
+      throw new IOError(ErrorCodes.indexOutOfRange, `The object has no member at position ${key}.`);
+    }
+
+    const last = members[members.length - 1];
+    if (last) {
+      const at = last.getEndPos().pos;
+      this._edit(at, at, `, ${text}`);
+    } else if (object.openBracket) {
+      const at = object.openBracket.pos + 1;
+      this._edit(at, at, text);
+    } else {
+      throw new IOError(ErrorCodes.indexOutOfRange, `The object at index ${index} is empty and has no braces to add members to.`);
+    }
+    return this;
+  }
+
+  /**
+   * Returns the value of a header definition (`~ key: value`), or undefined
+   * when it is not defined.
+   */
+  getHeader(key: string): any {
+    return this._findDefinition(key)?.value.toValue();
+  }
+
+  /**
+   * Sets the value of a header definition (`~ key: value`). A definition
+   * that is not present is added on a new line after the last one, and a
+   * header is created when the document has none.
+   *
+   * @returns This document, for chaining
+   */
+  setHeader(key: string, value: unknown): this {
+    const member = this._findDefinition(key);
+    if (member) {
+      this._replaceValue(member.value, value);
+      return this;
+    }
+
+    const line = `~ ${keyToText(key)}: ${valueToText(value)}`;
+    const eol = this._text.includes('\r\n') ? '\r\n' : '\n';
+    const header = this._root.header?.child;
+
+    if (header instanceof ObjectNode) {
+      throw new IOError(ErrorCodes.unsupportedConstruct, `The header holds a schema only, definitions cannot be added to it.`);
+    }
+
+    if (header instanceof CollectionNode && header.children.length > 0) {
+      // After the line of the last definition, keeping its trailing comment on it
+      const end = header.getEndPos().pos;
+      const lineEnd = this._text.indexOf('\n', end);
+      const at = lineEnd === -1 ? this._text.length : (this._text[lineEnd - 1] === '\r' ? lineEnd - 1 : lineEnd);
+      this._edit(at, at, `${eol}${line}`);
+      return this;
+    }
+
+    // No header yet: add one before the first section
+    const first = this._tokens[0];
+    if (first?.type === TokenType.SECTION_SEP) {
+      this._edit(first.pos, first.pos, `${line}${eol}`);
+    } else {
+      const at = first ? first.pos : this._text.length;
+      this._edit(at, at, `${line}${eol}---${eol}`);
+    }
+    return this;
+  }
+
+  private _section(section: number | string): SectionNode {
+    const sections = this._root.children;
+    const node = typeof section === 'number'
+      ? sections[section]
+      : sections.find(candidate => candidate.name === section);
+
+    if (!node) {
+      throw new IOError(ErrorCodes.sectionNotFound, `The document has no section ${typeof section === 'number' ? `at index ${section}` : `named '${section}'`}.`);
+    }
+    return node;
+  }
+
+  private _object(section: SectionNode, index: number): ObjectNode {
+    const child = section.child;
+    const node = child instanceof CollectionNode ? child.children[index] : (index === 0 ? child : undefined);
+
+    if (!(node instanceof ObjectNode)) {
+      throw new IOError(ErrorCodes.indexOutOfRange, `The section '${section.name}' has no object at index ${index}.`);
+    }
+    return node;
+  }
+
+  /**
+   * Finds a member by its key, its position, or the position of the name in
+   * the schema of the section for the members written without keys.
+   */
+  private _findMember(object: ObjectNode, key: string | number, section: SectionNode): MemberNode | undefined {
+    if (typeof key === 'number') {
+      const member = object.children[key] as MemberNode | undefined;
+      return member && !member.key ? member : undefined;
+    }
+
+    const keyed = (object.children as Array<MemberNode | undefined>).find(member => member?.key?.value === key);
+    if (keyed) return keyed;
+
+    const position = this._schemaOf(section)?.names.indexOf(key) ?? -1;
+    if (position < 0) return undefined;
+
+    const member = object.children[position] as MemberNode | undefined;
+    return member && !member.key ? member : undefined;
+  }
+
+  private _findDefinition(key: string): MemberNode | undefined {
+    const header = this._root.header?.child;
+    if (!(header instanceof CollectionNode)) return undefined;
+
+    for (const item of header.children) {
+      if (!(item instanceof ObjectNode)) continue;
+      const member = item.children[0] as MemberNode | undefined;
+      if (member?.key?.value === key) return member;
+    }
+    return undefined;
+  }
+
+  /** Resolves the schema of a section from the document header or the external definitions. */
+  private _schemaOf(section: SectionNode): IOSchema | null {
+    let defs = this._defs;
+    let defaultSchema = defs?.defaultSchema ?? null;
+
+    if (this._root.header) {
+      // Only the header is parsed, the data may not be valid yet
+      const separator = this._tokens.find(token => token.type === TokenType.SECTION_SEP)!;
+      const header = parse(this._text.slice(0, separator.pos + separator.token.length), this._defs).header;
+      defs = header.definitions;
+      defaultSchema = header.schema;
+    }
+
+    if (section.schemaNode) {
+      const schema = defs?.getV(section.schemaNode);
+      return schema instanceof IOSchema ? schema : null;
+    }
+    return defaultSchema;
+  }
+
+  private _replaceValue(node: Node, value: unknown): void {
+    const start = node.getStartPos().pos;
+    const end = node.getEndPos().pos;
+    this._edit(start, end, valueToText(value, node instanceof TokenNode ? node : undefined));
+  }
+
+  private _edit(start: number, end: number, text: string): void {
+    this._text = this._text.slice(0, start) + text + this._text.slice(end);
+    this._edits.push({ start, end, text });
+    this._reparse();
+  }
+
+  private _reparse(): void {
+    this._tokens = new Tokenizer(this._text).tokenize();
+    this._root = new ASTParser(this._tokens).parse();
+  }
+}
+
+export default IOEditableDocument;
@@ -0,0 +1,652 @@
+import { createIndentString } from '../../facade/io-formatter';
+import ASTParser      from '../ast-parser';
+import ArrayNode      from '../nodes/array';
+import CollectionNode from '../nodes/collections';
+import MemberNode     from '../nodes/members';
+import Node           from '../nodes/nodes';
+import ObjectNode     from '../nodes/objects';
+import SectionNode    from '../nodes/section';
+import TokenNode      from '../nodes/tokens';
+import Tokenizer      from '../tokenizer';
+import TokenType      from '../tokenizer/token-types';
+import Token          from '../tokenizer/tokens';
+
+export interface FormatOptions {
+  /**
+   * The line width the formatter tries to stay within. Rows and definitions
+   * that are longer break their nested objects and arrays over several lines.
+   * Default is 80.
+   */
+  maxWidth?: number;
+
+  /** The indentation of nested lines, as a number of spaces or a string. Default is 2 */
+  indent?: number | string;
+
+  /**
+   * Pads the values of the `~` rows of a collection so that their columns
+   * line up. Default is true.
+   */
+  alignColumns?: boolean;
+
+  /**
+   * Orders the header definitions: plain keys first, then `@variables`, then
+   * `$schemas`, keeping the written order within each group. Default is true.
+   */
+  sortDefinitions?: boolean;
+}
+
+export interface FormatCheckResult {
+  /** Whether the text is already formatted */
+  formatted: boolean;
+
+  /** The formatted text */
+  output: string;
+
+  /** The first line (1-based) that differs from the formatted text, when not formatted */
+  line?: number;
+}
+
+/** A `#` comment, found between two tokens. */
+interface Comment {
+  text: string;
+
+  /** Whether a blank line comes before the comment, for comments on their own line */
+  blank: boolean;
+}
+
+/** A top-level line of the document: a header definition, a `~` row, a `---` line or a section object. */
+interface Statement {
+  node: Node | null;
+
+  /** Index of the first token, the `~` of rows */
+  first: number;
+
+  /** Index of the last token before the next statement */
+  last: number;
+
+  /** Prefix of the first line, `~ ` for rows */
+  prefix: string;
+}
+
+/**
+ * Formats Internet Object text in a canonical layout. Unlike `stringify()`,
+ * which writes data, the formatter works on the text as written: values keep
+ * their spelling (quotes, number notation, dates) and the comments are kept,
+ * while the whitespace between tokens is normalized.
+ *
+ * - A single space follows commas and colons, and the members of objects are
+ *   padded by one space inside the braces: `{ a, b: 1 }`, `[a, b]`.
+ * - The values of the `~` rows of a collection are padded so that their
+ *   columns line up.
+ * - The header definitions are ordered: plain keys, `@variables`, `$schemas`.
+ * - Rows longer than `maxWidth` break their nested objects and arrays, one
+ *   member per line; a comment inside an object or array also breaks it.
+ * - Blank lines between rows are kept, collapsed to one.
+ *
+ * Formatting is idempotent: formatting the output again returns it unchanged.
+ *
+ * @param text    The IO text to format
+ * @param options The formatting options
+ * @returns The formatted text
+ * @throws IOSyntaxError when the text does not parse
+ *
+ * @example
+ * ```typescript
+ * format('~ $schema: {name:string,age:int}\n---\n~ alice,30\n~ bob,  4');
+ * // ~ $schema: { name: string, age: int }
+ * // ---
+ * // ~ alice, 30
+ * // ~ bob,   4
+ * ```
+ */
+export function format(text: string, options: FormatOptions = {}): string {
+  const eol = text.includes('\r\n') ? '\r\n' : '\n';
+  return new Formatter(text.replace(/\r\n?/g, '\n'), options).format().join(eol);
+}
+
+/**
+ * Checks whether the text is already formatted, as `prettier --check` does.
+ *
+ * @param text    The IO text to check
+ * @param options The formatting options
+ * @returns Whether the text is formatted, the formatted text, and the first
+ *   line that differs from it
+ * @throws IOSyntaxError when the text does not parse
+ */
+export function checkFormat(text: string, options: FormatOptions = {}): FormatCheckResult {
+  const output = format(text, options);
+  if (output === text) return { formatted: true, output };
+
+  const lines = text.split('\n');
+  const expected = output.split('\n');
+  let line = 0;
+  while (line < lines.length && lines[line] === expected[line]) line++;
+  return { formatted: false, output, line: line + 1 };
+}
+
+class Formatter {
+  private readonly tokens: readonly Token[];
+  private readonly width: number;
+  private readonly indent: string;
+  private readonly align: boolean;
+  private readonly sort: boolean;
+
+  /** Comments on their own lines, by the index of the token that follows them */
+  private readonly before: Comment[][] = [];
+
+  /** Comments at the end of the line of a token, by the index of the token */
+  private readonly after: Comment[][] = [];
+
+  /** Whether a blank line comes before each token */
+  private readonly blank: boolean[] = [];
+
+  /** The number of comments before each token, counted from the start, to find the ranges without comments */
+  private readonly counts: number[] = [0];
+
+  private readonly indexes = new Map<number, number>();
+  private readonly printed = new Set<Comment>();
+
+  constructor(private readonly text: string, options: FormatOptions) {
+    this.tokens = new Tokenizer(text).tokenize();
+    this.width = options.maxWidth ?? 80;
+    this.indent = createIndentString(options.indent ?? 2);
+    this.align = options.alignColumns ?? true;
+    this.sort = options.sortDefinitions ?? true;
+
+    this.tokens.forEach((token, index) => this.indexes.set(token.pos, index));
+    this._readComments();
+  }
+
+  format(): string[] {
+    const root = new ASTParser(this.tokens).parse();
+    const errors = root.getErrors();
+    if (errors.length > 0) throw errors[0];
+
+    const lines: string[] = [];
+    let at = 0;
+
+    // The comments at the start, set apart from the first token by a blank line
+    if (this.blank[0] && this.before[0].length > 0) {
+      this._comments(this.before[0], '', lines);
+      lines.push('');
+      this.blank[0] = false;
+    }
+
+    if (root.header) {
+      at = this._section(root.header, at, lines, true);
+    }
+    for (const section of root.children) {
+      at = this._section(section, at, lines, false);
+    }
+
+    // The comments after the last token
+    this._comments(this.before[this.tokens.length], '', lines);
+    if (lines.length > 0) lines.push('');
+    return lines;
+  }
+
+  /** Formats a section starting at the token index, and returns the index after it. */
+  private _section(section: SectionNode, at: number, lines: string[], isHeader: boolean): number {
+    if (this.tokens[at]?.type === TokenType.SECTION_SEP) {
+      let last = at;
+      while (this.tokens[last + 1]?.subType === TokenType.SECTION_NAME || this.tokens[last + 1]?.subType === TokenType.SECTION_SCHEMA) last++;
+
+      const name = section.nameNode?.token ?? '';
+      const schema = section.schemaNode?.token ?? '';
+      const line = '---' + (name ? ` ${name}` : '') + (name && schema ? `: ${schema}` : schema ? ` ${schema}` : '');
+      this._statement({ node: null, first: at, last, prefix: '' }, [line], lines);
+      at = last + 1;
+    }
+
+    const child = section.child;
+    if (child instanceof CollectionNode) {
+      const rows: Statement[] = child.children.map(item => {
+        const first = at;
+        at = this._nextStatement(at);
+        return { node: item ?? null, first, last: at - 1, prefix: '~ ' };
+      });
+
+      if (isHeader && this.sort) {
+        // A stable sort on the kind of definition
+        const rank = (row: Statement) => {
+          const key = row.node instanceof ObjectNode ? (row.node.children[0] as MemberNode | undefined)?.key?.value : undefined;
+          return typeof key !== 'string' ? 0 : key.startsWith('$') ? 2 : key.startsWith('@') ? 1 : 0;
+        };
+        rows.sort((a, b) => rank(a) - rank(b));
+      }
+
+      const aligned = isHeader ? new Map<Statement, string>() : this._alignRows(rows);
+      for (const row of rows) {
+        const body = aligned.get(row) ?? this._row(row);
+        this._statement(row, body.split('\n'), lines);
+      }
+    } else if (child instanceof ObjectNode) {
+      // The object runs up to the next section
+      const first = at;
+      at = this._nextStatement(at - 1);
+      const body = child.openBracket ? this._print(child, 0, '', 0) : this._open(child, '', '');
+      this._statement({ node: child, first, last: at - 1, prefix: '' }, body.split('\n'), lines);
+    }
+
+    return at;
+  }
+
+  /**
+   * Adds a statement to the lines, with the comments and the blank line
+   * before it. The comments within the statement that were not printed along
+   * with its members are moved before it, so that none is lost.
+   */
+  private _statement(statement: Statement, body: string[], lines: string[]): void {
+    const trailing = this._take(this.after[statement.last]);
+    if (trailing) body[body.length - 1] += ` ${trailing}`;
+
+    const leading: Comment[] = [...this.before[statement.first]];
+    for (let i = statement.first; i <= statement.last; i++) {
+      if (i > statement.first) leading.push(...this.before[i]);
+      leading.push(...this.after[i]);
+    }
+
+    // The comments before the first member of a section object are in its body already
+    const pending = leading.filter(comment => !this.printed.has(comment));
+    const first = this.before[statement.first];
+    const blank = pending.length > 0 || first.length === 0 ? this.blank[statement.first] : first[0].blank;
+
+    this._comments(pending, '', lines);
+    if (blank && lines.length > 0 && lines[lines.length - 1] !== '') lines.push('');
+    lines.push(...body);
+  }
+
+  /** Adds the comments not printed yet to the lines, each on its own line. */
+  private _comments(comments: Comment[], indent: string, lines: string[], blanks = true): void {
+    for (const comment of comments) {
+      if (this.printed.has(comment)) continue;
+      this.printed.add(comment);
+      if (blanks && comment.blank && lines.length > 0 && lines[lines.length - 1] !== '') lines.push('');
+      lines.push(indent + comment.text);
+    }
+  }
+
+  /** Prints a `~` row that is not aligned with the others. */
+  private _row(row: Statement): string {
+    const node = row.node as ObjectNode | null;
+    if (node?.openBracket) return row.prefix + this._print(node, row.prefix.length, this.indent, 0);
+    return this._open(node, row.prefix, this.indent);
+  }
+
+  /**
+   * Pads the values of the rows so that their columns line up. Returns the
+   * text of the rows that fit on a single line within the width; the others
+   * are left to `_open()`.
+   */
+  private _alignRows(rows: Statement[]): Map<Statement, string> {
+    const aligned = new Map<Statement, string[]>();
+    for (const row of rows) {
+      if (!(row.node instanceof ObjectNode) || row.node.openBracket) continue;
+
+      const lastToken = this._lastToken(row.node) ?? row.first;
+      if (this._hasComments(row.first, lastToken)) continue;
+
+      const parts = row.node.children.map(member => this._flat(member!));
+      if (parts.some(part => part === null || part.includes('\n'))) continue;
+      if (row.prefix.length + join(parts as string[]).length > this.width) continue;
+      aligned.set(row, parts as string[]);
+    }
+
+    // Rows that grow beyond the width once padded are left out, which may narrow the columns
+    const result = new Map<Statement, string>();
+    let changed = true;
+    while (changed) {
+      changed = false;
+      const widths: number[] = [];
+      if (this.align) {
+        for (const parts of aligned.values()) {
+          parts.slice(0, -1).forEach((part, i) => { widths[i] = Math.max(widths[i] ?? 0, part.length); });
+        }
+      }
+
+      result.clear();
+      for (const [row, parts] of aligned) {
+        let text = row.prefix + parts.map((part, i) => {
+          if (i === parts.length - 1) return part;
+          return `${part},`.padEnd(Math.max(widths[i] ?? 0, part.length) + 2);
+        }).join('');
+        text = text.trimEnd();
+
+        if (text.length > this.width) {
+          aligned.delete(row);
+          changed = true;
+        } else {
+          result.set(row, text);
+        }
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Prints an object without braces, such as a `~` row: its members follow
+   * each other on the line and go on to the next line when they do not fit.
+   *
+   * @param object The object, or null for an empty row
+   * @param prefix The start of the first line
+   * @param indent The indentation of the next lines
+   */
+  private _open(object: ObjectNode | null, prefix: string, indent: string): string {
+    const members = (object?.children ?? []) as MemberNode[];
+    const lines: string[] = [];
+    let line = prefix;
+    let placed = false; // Whether a member is on the current line
+
+    const breakLine = () => {
+      if (line.trim()) lines.push(line.trimEnd());
+      line = indent;
+      placed = false;
+    };
+
+    members.forEach((member, i) => {
+      const isLast = i === members.length - 1;
+      const tail = isLast ? 0 : 1;
+
+      const leading = this._leading(member);
+      if (leading.length > 0) {
+        breakLine();
+        this._comments(leading, indent, lines, false);
+      }
+
+      // A member that does not fit goes on to the next line, unless it fits
+      // there no better and can be broken where it is
+      const printed = new Set(this.printed);
+      let text = this._print(member, line.length, indent, tail);
+      if (placed && (text.includes('\n') || line.length + text.length + tail > this.width)) {
+        // Printing marks the comments printed, so the other try starts over
+        const inPlace = new Set(this.printed);
+        this._restorePrinted(printed);
+        const next = this._print(member, indent.length, indent, tail);
+        if (!next.includes('\n') || line.length + firstLine(text).length > this.width) {
+          breakLine();
+          text = next;
+        } else {
+          this._restorePrinted(inPlace);
+        }
+      }
+
+      const textLines = text.split('\n');
+      if (textLines.length > 1) {
+        lines.push(line + textLines[0], ...textLines.slice(1, -1));
+        line = textLines[textLines.length - 1];
+      } else {
+        line += text;
+      }
+      placed = true;
+
+      if (!isLast) line += ',';
+      const trailing = this._take(this._trailing(member));
+      if (trailing) {
+        line += ` ${trailing}`;
+        breakLine();
+      } else if (!isLast) {
+        line += ' ';
+      }
+    });
+
+    if (line.trim() || lines.length === 0) lines.push(line.trimEnd());
+    return lines.join('\n');
+  }
+
+  /**
+   * Prints a value, a member or an object in braces or an array. Objects and
+   * arrays stay on the line when they fit, and are otherwise broken with one
+   * member per line.
+   *
+   * @param node   The node to print
+   * @param column The column the text starts at
+   * @param indent The indentation of the line the text starts on
+   * @param tail   The width of the text that must follow on the line, such as a comma
+   */
+  private _print(node: Node, column: number, indent: string, tail: number): string {
+    if (isUndefined(node)) return '';
+
+    if (node instanceof MemberNode) {
+      if (!node.key) return this._print(node.value, column, indent, tail);
+      const key = `${this._raw(node.key)}: `;
+      return key + this._print(node.value, column + key.length, indent, tail);
+    }
+
+    if (node instanceof ObjectNode && !node.openBracket && node.children.length === 1) {
+      // The keyed members of arrays
+      return this._print(node.children[0]!, column, indent, tail);
+    }
+
+    if (node instanceof ObjectNode || node instanceof ArrayNode) {
+      const flat = this._flat(node);
+      if (flat !== null && !flat.includes('\n') && column + flat.length + tail <= this.width) return flat;
+      return this._broken(node, indent);
+    }
+
+    return this._raw(node as TokenNode);
+  }
+
+  private _broken(node: ObjectNode | ArrayNode, indent: string): string {
+    const inner = indent + this.indent;
+    const open = this._index(node.openBracket!);
+    const close = this._index(node.closeBracket!);
+    const children = node.children as Array<Node | undefined>;
+
+    const opening = this._take(this.after[open]);
+    const lines = [opening ? `${node.openBracket!.token} ${opening}` : node.openBracket!.token];
+
+    children.forEach((child, i) => {
+      const isLast = i === children.length - 1;
+      if (isLast && isUndefined(child)) return; // The comma before it ends the previous line
+
+      this._comments(this._leading(child), inner, lines, false);
+      let line = inner + this._print(child!, inner.length, inner, isLast ? 0 : 1) + (isLast ? '' : ',');
+      const trailing = this._take(this._trailing(child));
+      if (trailing) line += ` ${trailing}`;
+      lines.push(line);
+    });
+
+    this._comments(this.before[close], inner, lines, false);
+    lines.push(indent + node.closeBracket!.token);
+    return lines.join('\n');
+  }
+
+  /** Prints a node on a single line, or returns null when comments are within it. */
+  private _flat(node: Node | undefined): string | null {
+    if (node === undefined || isUndefined(node)) return '';
+
+    if (node instanceof MemberNode) {
+      const value = this._flat(node.value);
+      if (!node.key || value === null) return value;
+
+      const key = this._index(node.key);
+      if (this._hasComments(key, this._firstToken(node.value)!)) return null;
+      return `${this._raw(node.key)}: ${value}`;
+    }
+
+    if (node instanceof ObjectNode || node instanceof ArrayNode) {
+      const first = this._firstToken(node);
+      if (first !== null && this._hasComments(first, this._lastToken(node)!)) return null;
+
+      const parts = (node.children as Array<Node | undefined>).map(child => this._flat(child));
+      if (parts.some(part => part === null)) return null;
+
+      const members = join(parts as string[]);
+      if (node instanceof ArrayNode) return `[${members}]`;
+      if (!node.openBracket) return members;
+      return parts.length === 0 ? '{}' : `{ ${members} }`;
+    }
+
+    return this._raw(node as TokenNode);
+  }
+
+  /** The comments on their own lines before a member, and those between its key and value. */
+  private _leading(node: Node | undefined): Comment[] {
+    if (node instanceof ObjectNode && !node.openBracket && node.children.length === 1) node = node.children[0];
+
+    const first = this._firstToken(node);
+    if (first === null) return [];
+
+    // The comments after the `~` of a row go before its first member
+    const comments = this.tokens[first - 1]?.type === TokenType.COLLECTION_START ? [...this.after[first - 1]] : [];
+    comments.push(...this.before[first]);
+    if (node instanceof MemberNode && node.key) {
+      const value = this._firstToken(node.value)!;
+      for (let i = first; i < value; i++) {
+        if (i > first) comments.push(...this.before[i]);
+        comments.push(...this.after[i]);
+      }
+      comments.push(...this.before[value]);
+    }
+    return comments.filter(comment => !this.printed.has(comment));
+  }
+
+  /** The comments at the end of the line of a member, or of the comma after it. */
+  private _trailing(node: Node | undefined): Comment[] {
+    // Empty members are the comma that follows them
+    const value = node instanceof MemberNode && !node.key ? node.value : node;
+    if (isUndefined(value)) {
+      const comma = this._index(value as TokenNode);
+      return [...this.before[comma], ...this.after[comma]];
+    }
+
+    const last = this._lastToken(node);
+    if (last === null) return [];
+
+    const comments = [...this.after[last]];
+    if (this.tokens[last + 1]?.type === TokenType.COMMA) {
+      comments.push(...this.before[last + 1], ...this.after[last + 1]);
+    }
+    return comments;
+  }
+
+  private _restorePrinted(printed: Set<Comment>): void {
+    this.printed.clear();
+    printed.forEach(comment => this.printed.add(comment));
+  }
+
+  /** Joins the comments not printed yet, and marks them printed. */
+  private _take(comments: Comment[] = []): string {
+    const texts: string[] = [];
+    for (const comment of comments) {
+      if (this.printed.has(comment)) continue;
+      this.printed.add(comment);
+      texts.push(comment.text);
+    }
+    return texts.join(' ');
+  }
+
+  private _firstToken(node: Node | undefined): number | null {
+    if (node === undefined || isUndefined(node)) return null;
+    if (node instanceof MemberNode) return node.key ? this._index(node.key) : this._firstToken(node.value);
+    if ((node instanceof ObjectNode || node instanceof ArrayNode) && node.openBracket) return this._index(node.openBracket);
+    if (node instanceof ObjectNode) {
+      for (const child of node.children) {
+        const first = this._firstToken(child);
+        if (first !== null) return first;
+      }
+      return null;
+    }
+    return this._index(node as TokenNode);
+  }
+
+  private _lastToken(node: Node | undefined): number | null {
+    if (node === undefined) return null;
+    if (isUndefined(node)) return this._index(node as TokenNode);
+    if (node instanceof MemberNode) return this._lastToken(node.value);
+    if ((node instanceof ObjectNode || node instanceof ArrayNode) && node.closeBracket) return this._index(node.closeBracket);
+    if (node instanceof ObjectNode) {
+      for (let i = node.children.length - 1; i >= 0; i--) {
+        const last = this._lastToken(node.children[i]);
+        if (last !== null) return last;
+      }
+      return null;
+    }
+    return this._index(node as TokenNode);
+  }
+
+  /** Whether comments lie between two tokens. */
+  private _hasComments(first: number, last: number): boolean {
+    return last > first && this.counts[last + 1] - this.counts[first + 1] > 0;
+  }
+
+  /** The index of the first token of the next `~` row or `---` line after the token index. */
+  private _nextStatement(at: number): number {
+    let next = at + 1;
+    while (next < this.tokens.length && this.tokens[next].type !== TokenType.COLLECTION_START
+      && this.tokens[next].type !== TokenType.SECTION_SEP) {
+      next++;
+    }
+    return next;
+  }
+
+  private _index(token: Token): number {
+    return this.indexes.get(token.pos)!;
+  }
+
+  /** The text of a token as written. */
+  private _raw(token: Token): string {
+    return this.text.slice(token.pos, token.pos + token.token.length);
+  }
+
+  /** Reads the comments and blank lines between the tokens. */
+  private _readComments(): void {
+    const count = this.tokens.length;
+    for (let i = 0; i <= count; i++) {
+      this.before.push([]);
+      this.after.push([]);
+    }
+
+    let end = 0;
+    for (let i = 0; i <= count; i++) {
+      const start = i < count ? this.tokens[i].pos : this.text.length;
+      const gap = this.text.slice(end, start);
+
+      let newlines = 0;
+      let offset = 0;
+      while (offset < gap.length) {
+        const char = gap[offset];
+        if (char === '\n') {
+          newlines++;
+          offset++;
+        } else if (char === '#') {
+          let lineEnd = gap.indexOf('\n', offset);
+          if (lineEnd < 0) lineEnd = gap.length;
+          const text = gap.slice(offset, lineEnd).trimEnd();
+
+          if (i > 0 && newlines === 0) {
+            this.after[i - 1].push({ text, blank: false });
+          } else {
+            this.before[i].push({ text, blank: newlines > 1 });
+          }
+          newlines = 0;
+          offset = lineEnd;
+        } else {
+          offset++;
+        }
+      }
+
+      this.blank[i] = newlines > 1;
+      this.counts[i + 1] = this.counts[i] + (i < count ? this.before[i].length : 0) + (i > 0 ? this.after[i - 1].length : 0);
+      if (i < count) end = start + this.tokens[i].token.length;
+    }
+  }
+}
+
+/** Joins the members of an object or array; an empty last member leaves its comma alone. */
+function join(parts: string[]): string {
+  let text = parts[0] ?? '';
+  for (let i = 1; i < parts.length; i++) {
+    text += parts[i] || i < parts.length - 1 ? `, ${parts[i]}` : ',';
+  }
+  return text;
+}
+
+function firstLine(text: string): string {
+  const end = text.indexOf('\n');
+  return end < 0 ? text : text.slice(0, end);
+}
+
+function isUndefined(node: Node | undefined): boolean {
+  return node instanceof TokenNode && node.type === TokenType.UNDEFINED;
+}
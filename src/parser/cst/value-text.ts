@@ -0,0 +1,103 @@
+import Decimal        from '../../core/decimal/decimal';
+import { TemporalValue } from '../../core/temporal';
+import { IODuration }  from '../../core/duration';
+import { IOMoney }     from '../../core/money';
+import InternetObject from '../../core/internet-object';
+import IOError        from '../../errors/io-error';
+import ErrorCodes     from '../../errors/io-error-codes';
+import { IO_MARKERS } from '../../facade/serialization-constants';
+import { bytesToIOString } from '../../utils/bytes';
+import { dateToIOString } from '../../utils/datetime';
+import { needsQuoting, quoteString } from '../../utils/string-formatter';
+import TokenType      from '../tokenizer/token-types';
+import Token          from '../tokenizer/tokens';
+
+const RADIX_PREFIXES: { [subType: string]: number } = { HEX: 16, OCTAL: 8, BINARY: 2 };
+
+/**
+ * Formats a JavaScript value as IO text. When the value replaces an existing
+ * token, the token's style is kept where the new value allows it: the quotes
+ * of strings, the radix of integers, the spelling of booleans and nulls, and
+ * the kind of dates.
+ *
+ * @param value    The value to format
+ * @param previous The token the value replaces, if any
+ * @returns The IO text of the value
+ */
+export function valueToText(value: unknown, previous?: Token): string {
+  if (value === null) {
+    return previous?.type === TokenType.NULL ? previous.token : IO_MARKERS.NULL;
+  }
+
+  if (typeof value === 'string') {
+    return stringText(value, previous);
+  }
+
+  if (typeof value === 'number') {
+    const radix = previous?.type === TokenType.NUMBER ? RADIX_PREFIXES[previous.subType as string] : undefined;
+    if (radix && Number.isInteger(value) && value >= 0) {
+      return previous!.token.slice(0, 2) + value.toString(radix);
+    }
+    return String(value);
+  }
+
+  if (typeof value === 'boolean') {
+    const long = previous?.type === TokenType.BOOLEAN && previous.token.length > 1;
+    if (long) return value ? 'true' : 'false';
+    return value ? IO_MARKERS.TRUE : IO_MARKERS.FALSE;
+  }
+
+  if (typeof value === 'bigint') return `${value}n`;
+  if (value instanceof Decimal) return `${value.toString()}m`;
+
+  if (value instanceof TemporalValue || value instanceof IODuration || value instanceof IOMoney) return value.toIOString();
+
+  if (value instanceof Uint8Array) {
+    return bytesToIOString(value, previous?.subType === 'HEX_STRING' ? 'hex' : 'base64');
+  }
+
+  if (value instanceof Date) {
+    const kind = previous?.type === TokenType.DATE || previous?.type === TokenType.TIME
+      ? previous.type.toLowerCase() as 'date' | 'time'
+      : 'datetime';
+    return dateToIOString(value, kind);
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map(item => valueToText(item)).join(', ')}]`;
+  }
+
+  if (value instanceof InternetObject) {
+    const members: string[] = [];
+    for (const [key, item] of value) {
+      members.push(key === undefined ? valueToText(item) : `${keyToText(key)}: ${valueToText(item)}`);
+    }
+    return `{${members.join(', ')}}`;
+  }
+
+  if (typeof value === 'object') {
+    const members = Object.entries(value as object)
+      .filter(([, item]) => item !== undefined)
+      .map(([key, item]) => `${keyToText(key)}: ${valueToText(item)}`);
+    return `{${members.join(', ')}}`;
+  }
+
+  throw new IOError(ErrorCodes.invalidValue, `Cannot write a value of type '${typeof value}' as IO text.`);
+}
+
+/** Formats a member key, quoting it when it is not a valid open string. */
+export function keyToText(key: string): string {
+  return needsQuoting(key) ? quoteString(key, 'regular', '"') : key;
+}
+
+function stringText(value: string, previous?: Token): string {
+  if (previous?.type === TokenType.STRING) {
+    if (previous.subType === 'REGULAR_STRING') {
+      return quoteString(value, 'regular', previous.token[0]);
+    }
+    if (previous.subType === 'RAW_STRING') {
+      return quoteString(value, 'raw', previous.token[1]);
+    }
+  }
+  return quoteString(value, 'auto', '"');
+}
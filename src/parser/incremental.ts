@@ -0,0 +1,566 @@
+import Collection     from '../core/collection';
+import Definitions    from '../core/definitions';
+import Document       from '../core/document';
+import Header         from '../core/header';
+import PositionRange, { Position } from '../core/positions';
+import SectionCollection from '../core/section-collection';
+import IOError        from '../errors/io-error';
+import ErrorCodes     from '../errors/io-error-codes';
+import { processCollectionItem } from '../schema/processing/collection-processor';
+import Schema         from '../schema/schema';
+import { SchemaResolver } from '../schema/utils/schema-resolver';
+import { buildDocument, sectionSchema } from '.';
+import ASTParser      from './ast-parser';
+import type { TextEdit } from './cst/editable-document';
+import CollectionNode from './nodes/collections';
+import ContainerNode  from './nodes/containers';
+import DocumentNode   from './nodes/document';
+import ErrorNode      from './nodes/error';
+import MemberNode     from './nodes/members';
+import SectionNode    from './nodes/section';
+import TokenNode      from './nodes/tokens';
+import ParserOptions  from './parser-options';
+import Tokenizer      from './tokenizer';
+import TokenType      from './tokenizer/token-types';
+import Token          from './tokenizer/tokens';
+
+/**
+ * A run of tokens whose positions move together: a collection row, or the
+ * tokens between rows, such as a section heading or a section that is
+ * always reparsed as a whole.
+ */
+interface Span {
+  /** The tokens, at the positions of the last time the span was moved */
+  tokens: Token[];
+
+  /** The tree nodes holding the positions of the tokens */
+  nodes: unknown[];
+
+  /** The section of the span, -1 for the header */
+  section: number;
+
+  /** The index of the row in its collection, or -1 */
+  row: number;
+
+  /** The errors positioned in the span */
+  errors: Error[];
+
+  /** The moves of the table the positions have taken so far */
+  moved: Move;
+}
+
+interface Move {
+  /** The change of the offsets */
+  delta: number;
+
+  /** The change of the line numbers */
+  lines: number;
+}
+
+/**
+ * The moves of the spans, each added from a span to the end of the text,
+ * in a Fenwick tree: adding a move and reading the total move of a span
+ * take a time logarithmic in the number of spans.
+ */
+class MoveTable {
+  private readonly deltas: number[];
+  private readonly lines: number[];
+
+  constructor(size: number) {
+    this.deltas = new Array(size + 1).fill(0);
+    this.lines = new Array(size + 1).fill(0);
+  }
+
+  /** Moves the span at the index and every span after it. */
+  add(from: number, move: Move): void {
+    for (let i = from + 1; i < this.deltas.length; i += i & -i) {
+      this.deltas[i] += move.delta;
+      this.lines[i] += move.lines;
+    }
+  }
+
+  /** The total move of the span at the index. */
+  at(index: number): Move {
+    const move = { delta: 0, lines: 0 };
+    for (let i = index + 1; i > 0; i -= i & -i) {
+      move.delta += this.deltas[i];
+      move.lines += this.lines[i];
+    }
+    return move;
+  }
+}
+
+/**
+ * What `reparse()` keeps between edits. The text is cut into spans, and an
+ * edit of a row moves the spans that follow it through the move table
+ * only; their positions are brought up to date when they are read, or at
+ * once for the spans holding errors, as the error messages mention their
+ * lines.
+ */
+class IncrementalState {
+  private flat: Token[] | null = null;
+
+  constructor(
+    readonly defs: Definitions | null,
+    readonly options: ParserOptions,
+    readonly document: Document,
+    readonly spans: Span[],
+    readonly moves: MoveTable,
+
+    /** The offset of the last error token, or -1 */
+    readonly errorEnd: number
+  ) {}
+
+  /** The tokens of the text, at their current positions. */
+  get tokens(): readonly Token[] {
+    if (!this.flat) {
+      const flat: Token[] = [];
+      for (let i = 0; i < this.spans.length; i++) {
+        this.settle(i);
+        for (const token of this.spans[i].tokens) flat.push(token);
+      }
+      this.flat = flat;
+    }
+    return this.flat;
+  }
+
+  /** The current offset of the first token of the span. */
+  startOf(index: number): number {
+    const span = this.spans[index];
+    return span.tokens[0].pos + this.moves.at(index).delta - span.moved.delta;
+  }
+
+  /** Index of the last span starting at or before the offset, or -1. */
+  spanAt(pos: number): number {
+    let lo = 0;
+    let hi = this.spans.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >>> 1;
+      if (this.startOf(mid) <= pos) lo = mid + 1; else hi = mid;
+    }
+    return lo - 1;
+  }
+
+  /** Brings the positions of the span up to date with the move table. */
+  settle(index: number): void {
+    const span = this.spans[index];
+    const total = this.moves.at(index);
+    if (total.delta !== span.moved.delta || total.lines !== span.moved.lines) {
+      this.move(span, {
+        delta: total.delta - span.moved.delta,
+        lines: total.lines - span.moved.lines,
+        cols: 0,
+        line: -1,
+        done: new Set(),
+      });
+    }
+    span.moved = total;
+  }
+
+  /** Moves the positions of the span, its nodes, its values and its errors. */
+  move(span: Span, shift: Shift): void {
+    for (const token of span.tokens) shiftPosition(token, shift);
+    for (const node of span.nodes) shiftNode(node, shift);
+
+    const data = span.section >= 0 ? this.document.sections?.get(span.section)?.data : undefined;
+    if (data instanceof Collection) {
+      if (span.row >= 0) shiftNode(data.getAt(span.row), shift);
+      else if (span.nodes[0] instanceof SectionNode) data.forEach(item => shiftNode(item, shift));
+    }
+
+    for (const error of span.errors) {
+      shiftRange((error as IOError).positionRange, shift);
+      if (error instanceof IOError) error.updateMessage();
+    }
+    this.flat = null;
+  }
+
+  /** Forgets the tokens read so far, as a row changed. */
+  changed(): void {
+    this.flat = null;
+  }
+}
+
+/**
+ * The result of `parseIncremental()` or `reparse()`: the text, its syntax
+ * tree and the processed document, along with what the incremental parser
+ * needs to apply the next edit.
+ */
+export interface IncrementalParseResult {
+  /** The parsed text */
+  readonly text: string;
+
+  /** The syntax tree of the text */
+  readonly root: DocumentNode;
+
+  /** The document, with its data processed against the section schemas */
+  readonly document: Document;
+
+  /**
+   * What the last edit caused to be parsed again: a single collection
+   * `'row'`, or the whole `'document'`.
+   */
+  readonly reparsed: 'row' | 'document';
+
+  /** @internal */
+  readonly state: IncrementalState;
+}
+
+/**
+ * Parses a document for later incremental updates with `reparse()`.
+ *
+ * @param text    The IO document text
+ * @param defs    External definitions, as for `parse()`
+ * @param options Parser options
+ * @returns The parse result to pass to `reparse()`
+ */
+export function parseIncremental(
+  text: string,
+  defs: Definitions | null = null,
+  options: ParserOptions = new ParserOptions()
+): IncrementalParseResult {
+  const tokens = new Tokenizer(text).tokenize();
+  const root = new ASTParser(tokens).parse();
+  const document = tokens.length === 0
+    ? new Document(new Header(), new SectionCollection())
+    : buildDocument(root, defs, null, undefined, options);
+
+  return {
+    text,
+    root,
+    document,
+    reparsed: 'document',
+    state: buildState(root, document, tokens, defs, options),
+  };
+}
+
+/**
+ * Applies a text edit to a previous parse result. When the edit falls inside
+ * a single row of a collection and leaves the rows around it alone, only
+ * that row is tokenized, parsed and validated again; the nodes and values
+ * of the other rows are reused. Any other edit, such as one in the header
+ * or one that adds or removes rows, parses the whole document again. The
+ * positions that follow the row are moved when they are read, so the work
+ * done for a row edit does not depend on the size of the document, apart
+ * from the rows holding errors.
+ *
+ * The previous result shares its nodes with the returned one and must not
+ * be used afterwards.
+ *
+ * @param previous The result of `parseIncremental()` or of an earlier `reparse()`
+ * @param edit     The replaced range of the previous text and its replacement
+ * @returns The result for the edited text
+ *
+ * @example
+ * ```typescript
+ * let result = parseIncremental(text, defs);
+ *
+ * // The user typed 'x' at offset 120
+ * result = reparse(result, { start: 120, end: 120, text: 'x' });
+ * result.document.errors; // diagnostics of the new text
+ * ```
+ */
+export function reparse(previous: IncrementalParseResult, edit: TextEdit): IncrementalParseResult {
+  const { start, end } = edit;
+  if (start < 0 || end < start || end > previous.text.length) {
+    throw new IOError(ErrorCodes.indexOutOfRange, `The edit range ${start}..${end} is outside the text of length ${previous.text.length}.`);
+  }
+
+  const text = previous.text.slice(0, start) + edit.text + previous.text.slice(end);
+  return reparseRow(previous, edit, text)
+    ?? parseIncremental(text, previous.state.defs, previous.state.options);
+}
+
+/**
+ * Reparses the collection row the edit falls in. Returns undefined when the
+ * edit is not confined to one row, so that the document is parsed as a whole.
+ */
+function reparseRow(previous: IncrementalParseResult, edit: TextEdit, text: string): IncrementalParseResult | undefined {
+  const { root, document, state } = previous;
+  const { spans } = state;
+
+  // The row starts at its `~` token, which the edit must leave alone, and
+  // ends where the next row or section begins
+  const index = state.spanAt(edit.start - 1);
+  const span = spans[index] as Span | undefined;
+  if (!span || span.row < 0) return undefined;
+
+  state.settle(index);
+  if (index + 1 < spans.length) state.settle(index + 1);
+
+  const rowStart = span.tokens[0].pos;
+  const next = spans[index + 1]?.tokens[0] as Token | undefined;
+  const rowEnd = next ? next.pos : previous.text.length;
+  if (edit.end > rowEnd) return undefined;
+
+  // The errors of the tokenizer keep the positions they were created with
+  if (state.errorEnd >= rowEnd) return undefined;
+
+  // The row is tokenized along with the token that follows it: the parser
+  // looks ahead past the row, and the new position of that token tells how
+  // the rest of the text moves
+  const delta = edit.text.length - (edit.end - edit.start);
+  const newRowEnd = rowEnd + delta;
+  const row = tokenizeRow(text, rowStart, newRowEnd, span.tokens[0], next);
+  if (!row) return undefined;
+
+  const { following } = row;
+  const rowRoot = new ASTParser(following ? [...row.tokens, following] : row.tokens).parse();
+  const rowCollection = (following?.type === TokenType.SECTION_SEP ? rowRoot.header : rowRoot.children[0])?.child;
+  if (!(rowCollection instanceof CollectionNode) || rowCollection.children.length === 0) return undefined;
+
+  // Errors the row parser could not place in the row would be placed
+  // differently within the whole document
+  const rowErrors = rowRoot.getErrors();
+  if (rowErrors.some(error => errorPos(error) < rowStart || errorPos(error) >= newRowEnd)) return undefined;
+
+  const sectionNode = root.children[span.section];
+  const section = document.sections?.get(span.section);
+  const data = section?.data instanceof Collection ? section.data : null;
+  const defs = document.header.definitions;
+  const schema = sectionSchema(sectionNode, document);
+  if (!data || (schema && !(schema instanceof Schema) && !(schema instanceof TokenNode))) return undefined;
+
+  const rowIndex = span.row;
+  const rowNode = rowCollection.children[0];
+  const collection = sectionNode.child as CollectionNode;
+
+  // The span that follows moves to where its first token is now, and so do
+  // the spans on the same line, whose columns change too; the spans after
+  // them move through the table
+  const shift: Shift = {
+    delta,
+    lines: following && next ? following.row - next.row : 0,
+    cols: following && next ? following.col - next.col : 0,
+    line: next?.row ?? -1,
+    done: new Set(),
+  };
+
+  let moved = index + 1;
+  if (moved < spans.length) {
+    state.move(spans[moved++], shift);
+    while (shift.cols !== 0 && moved < spans.length) {
+      state.settle(moved);
+      if (spans[moved].tokens[0].row !== shift.line) break;
+      state.move(spans[moved++], shift);
+    }
+  }
+  state.moves.add(moved, shift);
+
+  // Syntax errors: those of the new row take the place of the old ones
+  const syntaxErrors = root.getErrors();
+  const kept = syntaxErrors.filter(error => !span.errors.includes(error));
+  const at = kept.findIndex(error => errorPos(error) >= newRowEnd);
+  kept.splice(at < 0 ? kept.length : at, 0, ...rowErrors);
+  syntaxErrors.splice(0, syntaxErrors.length, ...kept);
+
+  collection.children[rowIndex] = rowNode;
+
+  // Validate the new row alone, keeping the errors in row order
+  let value: any;
+  let errors: Error[] = [];
+  if (schema) {
+    ({ value, errors } = processCollectionItem(
+      rowNode, rowIndex, SchemaResolver.resolve(schema, defs), defs,
+      state.options.exhaustive ? { exhaustive: true } : undefined
+    ));
+  } else {
+    value = rowNode?.toValue(defs);
+  }
+
+  data.setAt(rowIndex, value);
+  const others = data.errors.filter(error => (error as any).collectionIndex !== rowIndex);
+  const after = others.findIndex(error => (error as any).collectionIndex > rowIndex);
+  others.splice(after < 0 ? others.length : after, 0, ...errors);
+  data.errors.splice(0, data.errors.length, ...others);
+
+  span.tokens = row.tokens;
+  span.nodes = [rowNode];
+  span.errors = [...rowErrors, ...errors];
+  state.changed();
+
+  // The messages of the errors that follow mention their lines
+  for (let i = moved; i < spans.length; i++) {
+    if (spans[i].errors.length > 0) state.settle(i);
+  }
+
+  return { text, root, document, reparsed: 'row', state };
+}
+
+/**
+ * Tokenizes the text of a row and the token that follows it, translating
+ * the token positions to the whole text. Returns undefined when the new
+ * text is no longer a single row, when it runs into the text that follows,
+ * as an unclosed string or a comment on the line of the next row would, or
+ * when it has tokenizer errors.
+ */
+function tokenizeRow(
+  text: string, rowStart: number, rowEnd: number, startToken: Token, next?: Token
+): { tokens: Token[]; following?: Token } | undefined {
+  if (next) {
+    // The next row must start on a line of its own
+    const lineStart = text.lastIndexOf('\n', rowEnd - 1);
+    if (lineStart < rowStart || text.slice(lineStart + 1, rowEnd).trim() !== '') return undefined;
+  }
+
+  let tokens: Token[];
+  try {
+    tokens = [...new Tokenizer(text.slice(rowStart, next ? rowEnd + next.token.length : rowEnd)).tokenize()];
+  } catch {
+    return undefined;
+  }
+
+  for (const token of tokens) {
+    if (token.row === 1) token.col += startToken.col - 1;
+    token.row += startToken.row - 1;
+    token.pos += rowStart;
+  }
+
+  const following = next ? tokens.pop() : undefined;
+  if (next && (following?.pos !== rowEnd || following.type !== next.type || following.token !== next.token)) {
+    return undefined;
+  }
+
+  if (tokens[0]?.type !== TokenType.COLLECTION_START) return undefined;
+  for (let i = 1; i < tokens.length; i++) {
+    if (!isRowToken(tokens[i])) return undefined;
+  }
+  return { tokens, following };
+}
+
+/**
+ * Cuts the tokens into spans: the header, and for every section its
+ * heading followed by one span per row when it holds a collection, or a
+ * single span otherwise. The sections are delimited by the `---` tokens;
+ * the text before the first one is the header when the tree has one.
+ */
+function buildState(
+  root: DocumentNode, document: Document, tokens: readonly Token[], defs: Definitions | null, options: ParserOptions
+): IncrementalState {
+  const segments: Token[][] = [[]];
+  let errorEnd = -1;
+  for (const token of tokens) {
+    if (token.type === TokenType.SECTION_SEP) segments.push([]);
+    if (token.type === TokenType.ERROR) errorEnd = token.pos;
+    segments[segments.length - 1].push(token);
+  }
+
+  const skip = root.header || tokens[0]?.type === TokenType.SECTION_SEP ? 1 : 0;
+  const sections = segments.slice(skip);
+  const rowsMatch = sections.length === root.children.length;
+
+  const spans: Span[] = [];
+  const add = (spanTokens: Token[], nodes: unknown[], section: number, row: number) => {
+    if (spanTokens.length > 0) spans.push({ tokens: spanTokens, nodes, section, row, errors: [], moved: { delta: 0, lines: 0 } });
+  };
+
+  if (skip) add(segments[0], [], -1, -1);
+  sections.forEach((sectionTokens, s) => {
+    const sectionNode = root.children[s];
+    const child = sectionNode?.child;
+    const first = sectionTokens.findIndex(token => token.type === TokenType.COLLECTION_START);
+    const starts = sectionTokens.filter(token => token.type === TokenType.COLLECTION_START).length;
+
+    if (!rowsMatch || !(child instanceof CollectionNode) || starts !== child.children.length || starts === 0) {
+      add(sectionTokens, sectionNode ? [sectionNode] : [], rowsMatch ? s : -1, -1);
+      return;
+    }
+
+    add(sectionTokens.slice(0, first), [sectionNode.nameNode, sectionNode.schemaNode], s, -1);
+    let row = -1;
+    let rowTokens: Token[] = [];
+    for (const token of sectionTokens.slice(first)) {
+      if (token.type === TokenType.COLLECTION_START) {
+        if (row >= 0) add(rowTokens, [child.children[row]], s, row);
+        row++;
+        rowTokens = [];
+      }
+      rowTokens.push(token);
+    }
+    add(rowTokens, [child.children[row]], s, row);
+  });
+
+  const state = new IncrementalState(defs, options, document, spans, new MoveTable(spans.length), errorEnd);
+
+  // Each error goes with the span it is positioned in
+  for (const error of new Set([...root.getErrors(), ...document.errors])) {
+    const pos = errorPos(error);
+    const index = pos < 0 ? -1 : state.spanAt(pos);
+    if (index >= 0) spans[index].errors.push(error);
+  }
+  return state;
+}
+
+/** Whether a token, other than the first one, keeps a row a single row. */
+function isRowToken(token: Token): boolean {
+  return token.type !== TokenType.COLLECTION_START
+    && token.type !== TokenType.SECTION_SEP
+    && token.type !== TokenType.ERROR;
+}
+
+interface Shift {
+  /** The change of the offsets */
+  delta: number;
+
+  /** The change of the line numbers */
+  lines: number;
+
+  /** The change of the columns on the line of the token following the row */
+  cols: number;
+
+  /** That line, before the change */
+  line: number;
+
+  /** Positions already moved, as nodes, tokens and errors share them */
+  done: Set<object>;
+}
+
+function shiftPosition(position: Position | undefined, shift: Shift): void {
+  if (!position || position.pos < 0 || shift.done.has(position) || Object.isFrozen(position)) return;
+  shift.done.add(position);
+
+  if (position.row === shift.line) position.col += shift.cols;
+  position.row += shift.lines;
+  position.pos += shift.delta;
+}
+
+function shiftNode(node: unknown, shift: Shift): void {
+  if (node instanceof Token) {
+    shiftPosition(node, shift);
+  } else if (node instanceof MemberNode) {
+    shiftNode(node.key, shift);
+    shiftNode(node.value, shift);
+  } else if (node instanceof SectionNode) {
+    shiftNode(node.nameNode, shift);
+    shiftNode(node.schemaNode, shift);
+    shiftNode(node.child, shift);
+  } else if (node instanceof ErrorNode) {
+    shiftPosition(node.position, shift);
+    shiftPosition(node.endPosition, shift);
+    shiftRange((node.error as IOError).positionRange, shift);
+  } else if (node instanceof ContainerNode) {
+    const { openBracket, closeBracket } = node as ContainerNode & { openBracket?: Token; closeBracket?: Token };
+    shiftNode(openBracket, shift);
+    shiftNode(closeBracket, shift);
+    for (const child of node.children) shiftNode(child, shift);
+  }
+}
+
+/** Moves the range of an error, unless it is a node or token moved with the tree. */
+function shiftRange(range: PositionRange | undefined, shift: Shift): void {
+  if (range instanceof Token || range instanceof ContainerNode || range instanceof MemberNode
+    || range instanceof ErrorNode || range instanceof SectionNode) {
+    shiftNode(range, shift);
+    return;
+  }
+
+  // Ranges that hold their positions, such as plain position pairs
+  if (!range || shift.done.has(range)) return;
+  shift.done.add(range);
+  shiftPosition(range.getStartPos(), shift);
+  shiftPosition(range.getEndPos(), shift);
+}
+
+function errorPos(error: Error): number {
+  return (error as IOError).positionRange?.getStartPos().pos ?? -1;
+}
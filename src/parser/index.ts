@@ -16,6 +16,7 @@ import CollectionNode from './nodes/collections';
 import DocumentNode from './nodes/document';
 import MemberNode from './nodes/members';
 import ObjectNode from './nodes/objects';
+import SectionNode from './nodes/section';
 import TokenNode from './nodes/tokens';
 import ParserOptions from './parser-options';
 import Node from './nodes/nodes';
@@ -39,8 +40,13 @@ import ErrorNode from './nodes/error';
  * // Parse with definitions
  * const defs = parseDefinitions('~ $schema: { name: string, age: int }');
  * const doc = parse('Alice, 20', defs);
+ *
+ * // Parse with a typed schema, doc.toObject() is User | User[]
+ * const userSchema = IOSchema.create('$User').addMember('name', { type: 'string' }).build();
+ * const doc = parse('Alice', userSchema);
  * ```
  */
+export default function parse<T>(source: string, schema: Schema<T>, errorCollector?: Error[], options?: ParserOptions): Document<T | T[]>;
 export default function parse(source: string, options?: ParserOptions): Document;
 export default function parse(source: string, defs?: Definitions | null, options?: ParserOptions): Document;
 export default function parse(source: string, defs?: Definitions | Schema | string | null, errorCollector?: Error[], options?: ParserOptions): Document;
@@ -93,12 +99,34 @@ export default function parse(
   const parser = new ASTParser(tokens);
   const docNode = parser.parse();
 
+  return buildDocument(docNode, externalDefs, schema, errorCollector as Error[] | undefined, o);
+}
+
+/**
+ * Builds the document of a parsed syntax tree: compiles the header
+ * definitions and processes every section with its schema.
+ *
+ * @internal Shared with the incremental parser.
+ */
+export function buildDocument(
+  docNode: DocumentNode,
+  externalDefs: Definitions | null,
+  schema: Schema | string | null,
+  errorCollector?: Error[],
+  o?: ParserOptions
+): Document {
   // Extract errors from docNode for transfer to Document
   const errors = docNode.getErrors();
 
   // Create document with optimized initialization
   const doc = new Document(new Header(), new SectionCollection(), errors);
 
+  // Custom types scoped to the external definitions must be available
+  // while the header schemas are being compiled.
+  if (externalDefs) {
+    doc.header.definitions.mergeTypeDefs(externalDefs);
+  }
+
   // If the docNode contains header, then parse it
   if (docNode.header) {
     if (docNode.header.child) {
@@ -107,7 +135,7 @@ export default function parse(
       // name, age, address  # <-- This is a schema
       // ---
       if (docNode.header.child instanceof ObjectNode) {
-        const schema = compileObject("schema", docNode.header.child)
+        const schema = compileObject("schema", docNode.header.child, doc.header.definitions)
         if (schema instanceof Schema) {
           doc.header.definitions?.push("$schema", schema, true)
           doc.header.schema = schema  // Set as the default schema
@@ -134,7 +162,7 @@ export default function parse(
       }
     }
 
-    parseDataWithSchema(docNode, doc, errorCollector);
+    parseDataWithSchema(docNode, doc, errorCollector, o);
   } else {
     if (externalDefs) {
       doc.header.definitions.merge(externalDefs, false);
@@ -155,7 +183,7 @@ export default function parse(
         }
       }
     }
-    parseDataWithSchema(docNode, doc, errorCollector);
+    parseDataWithSchema(docNode, doc, errorCollector, o);
   }
   return doc;
 }
@@ -167,7 +195,7 @@ function parseData(docNode: DocumentNode, doc: Document) {
   }
 }
 
-function parseDataWithSchema(docNode: DocumentNode, doc: Document, errorCollector?: Error[]): void {
+function parseDataWithSchema(docNode: DocumentNode, doc: Document, errorCollector?: Error[], options?: ParserOptions): void {
   const sectionsLen = docNode.children.length;
 
   // Early return if no sections
@@ -178,11 +206,7 @@ function parseDataWithSchema(docNode: DocumentNode, doc: Document, errorCollecto
   for (let i = 0; i < sectionsLen; i++) {
     const sectionNode = docNode.children[i];
     const schemaName = sectionNode.schemaName;
-
-    // If no explicit schema name, fall back to document's default schema
-    const schema = schemaName
-      ? (schemaName === "$schema" ? doc.header.schema : doc.header.definitions?.getV(sectionNode.schemaNode))
-      : doc.header.schema;
+    const schema = sectionSchema(sectionNode, doc);
 
     if (!schema) {
       // No schema for this section, just parse without validation
@@ -190,11 +214,28 @@ function parseDataWithSchema(docNode: DocumentNode, doc: Document, errorCollecto
       continue;
     }
 
-    const result = processSchema(sectionNode.child, schema, doc.header.definitions || undefined, errorCollector);
+    const result = processSchema(
+      sectionNode.child, schema, doc.header.definitions || undefined, errorCollector,
+      options?.exhaustive ? { exhaustive: true } : undefined
+    );
     doc.sections?.push(new Section(result, sectionNode.name, schemaName));
   }
 }
 
+/**
+ * Returns the schema the data of a section is processed with.
+ *
+ * @internal Shared with the incremental parser.
+ */
+export function sectionSchema(sectionNode: SectionNode, doc: Document): Schema | TokenNode | null | undefined {
+  const schemaName = sectionNode.schemaName;
+
+  // If no explicit schema name, fall back to document's default schema
+  return schemaName
+    ? (schemaName === "$schema" ? doc.header.schema : doc.header.definitions?.getV(sectionNode.schemaNode))
+    : doc.header.schema;
+}
+
 function parseDefs(doc: Document, cols: CollectionNode): void {
   const defs = doc.header.definitions;
   if (!defs) {
@@ -21,6 +21,10 @@ class ParserOptions {
   // replace \r\n or \r with \n. Default is true
   readonly normalizeNewline?: boolean;
 
+  // Collect every member failure of an object (missing, invalid, unknown or
+  // duplicate members) instead of stopping at the first one. Default is false
+  readonly exhaustive?: boolean;
+
   constructor(o: Partial<ParserOptions> = {}) {
     this.continueOnError    = o.continueOnError || false;
     this.allowEmptyRecords  = o.allowEmptyRecords || false;
@@ -34,6 +38,8 @@ class ParserOptions {
 
     this.trueTokens         = o.trueTokens || ['true', 'T'];
     this.falseTokens        = o.falseTokens || ['false', 'F'];
+
+    this.exhaustive         = o.exhaustive || false;
   }
 }
 
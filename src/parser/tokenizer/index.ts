@@ -1,4 +1,6 @@
 import Decimal        from '../../core/decimal/decimal';
+import { IODuration } from '../../core/duration';
+import { IOMoney }    from '../../core/money';
 import PositionRange  from '../../core/positions';
 import assertNever    from '../../errors/asserts/asserts';
 import ErrorCodes     from '../../errors/io-error-codes';
@@ -23,7 +25,8 @@ const REGEX_CACHE = {
   binary: /^[01]+$/,
   sectionSchemaName: /^(?:(?:(?<name>[\p{L}\p{M}\p{N}\-_]+)(?<sep>[ \t]*:[ \t]*)?)(?<schema>\$[\p{L}\p{M}\p{N}\-_]+)?|(?<schema2>\$[\p{L}\p{M}\p{N}\-_]+))/u,
   annotatedStrStart: /^(?<name>[a-zA-Z]{1,4})(?<quote>['"])/,
-  base64: /^[A-Za-z0-9+/]*={0,2}$/
+  base64: /^[A-Za-z0-9+/\-_]*={0,2}$/,
+  hexBytes: /^(?:[0-9a-fA-F]{2})*$/
 } as const;
 
 // Fast hex digit checking using character codes (only used in tokenizer)
@@ -426,7 +429,7 @@ class Tokenizer {
     token.pos = start;
     token.row = startRow;
     token.col = startCol;
-    token.token = this.reachedEnd ? tokenText : this.input.substring(start, this.pos);
+    token.token = this.input.substring(start, this.pos);
     token.value = value;
 
     return token;
@@ -458,7 +461,7 @@ class Tokenizer {
     if (!REGEX_CACHE.base64.test(valueStr)) {
       const error = new SyntaxError(
         ErrorCodes.invalidBase64,
-        `Invalid base64 format '${valueStr.length > 20 ? valueStr.substring(0, 20) + '...' : valueStr}'. Expected valid base64 characters (A-Z, a-z, 0-9, +, /) with optional '=' padding.`,
+        `Invalid base64 format '${valueStr.length > 20 ? valueStr.substring(0, 20) + '...' : valueStr}'. Expected valid base64 characters (A-Z, a-z, 0-9, +, /, or - and _ of base64url) with optional '=' padding.`,
         token
       );
       return this.createErrorToken(error, token.pos, token.row, token.col, token.token);
@@ -467,11 +470,35 @@ class Tokenizer {
     token.type = TokenType.BINARY;
     token.subType = "BINARY_STRING";
 
-    // Convert the base64 string to a byte array
+    // Convert the base64 (or base64url) string to a byte array
     token.value = Buffer.from(valueStr, "base64");
     return token;
   }
 
+  private parseHexString(annotation: Annotation): Token {
+    const token = this.parseAnotatedString(annotation);
+
+    // If the annotated string parsing already returned an error token, return it as-is
+    if (token.type === TokenType.ERROR) {
+      return token;
+    }
+
+    const valueStr = token.value as string;
+    if (!REGEX_CACHE.hexBytes.test(valueStr)) {
+      const error = new SyntaxError(
+        ErrorCodes.invalidHex,
+        `Invalid hex format '${valueStr.length > 20 ? valueStr.substring(0, 20) + '...' : valueStr}'. Expected pairs of hex digits (0-9, a-f, A-F).`,
+        token
+      );
+      return this.createErrorToken(error, token.pos, token.row, token.col, token.token);
+    }
+
+    token.type = TokenType.BINARY;
+    token.subType = "HEX_STRING";
+    token.value = Buffer.from(valueStr, "hex");
+    return token;
+  }
+
   private parseDateTime(annotation: Annotation): Token {
     const token = this.parseAnotatedString(annotation);
 
@@ -516,6 +543,48 @@ class Tokenizer {
     }
   }
 
+  private parseDuration(annotation: Annotation): Token {
+    const token = this.parseAnotatedString(annotation);
+
+    // If the annotated string parsing already returned an error token, return it as-is
+    if (token.type === TokenType.ERROR) {
+      return token;
+    }
+
+    const duration = typeof token.value === 'string' ? IODuration.parse(token.value) : null;
+    if (!duration) {
+      const error = new SyntaxError(ErrorCodes.invalidDuration,
+        `Invalid duration format '${token.value}'. Expected valid ISO 8601 duration such as 'P1DT2H'.`,
+        token);
+      return this.createErrorToken(error, token.pos, token.row, token.col, token.token);
+    }
+
+    token.value = duration;
+    token.type = TokenType.DURATION;
+    return token;
+  }
+
+  private parseMoney(annotation: Annotation): Token {
+    const token = this.parseAnotatedString(annotation);
+
+    // If the annotated string parsing already returned an error token, return it as-is
+    if (token.type === TokenType.ERROR) {
+      return token;
+    }
+
+    const money = typeof token.value === 'string' ? IOMoney.parse(token.value) : null;
+    if (!money) {
+      const error = new SyntaxError(ErrorCodes.invalidMoney,
+        `Invalid money format '${token.value}'. Expected an amount and an ISO 4217 currency code such as '12.50 USD'.`,
+        token);
+      return this.createErrorToken(error, token.pos, token.row, token.col, token.token);
+    }
+
+    token.value = money;
+    token.type = TokenType.MONEY;
+    return token;
+  }
+
   private parseNumber(): Token | null {
     const start = this.pos;
     const startRow = this.row;
@@ -982,15 +1051,27 @@ class Tokenizer {
               tokens[tokenIndex++] = this.parseByteString(annotation);
               break;
 
+            case "hex":
+              tokens[tokenIndex++] = this.parseHexString(annotation);
+              break;
+
             case "d":
             case "dt":
             case "t":
               tokens[tokenIndex++] = this.parseDateTime(annotation);
               break;
 
+            case "du":
+              tokens[tokenIndex++] = this.parseDuration(annotation);
+              break;
+
+            case "mo":
+              tokens[tokenIndex++] = this.parseMoney(annotation);
+              break;
+
             default:
               const error = new SyntaxError(ErrorCodes.unsupportedAnnotation,
-                `Unsupported annotation '${annotation.name}'. Supported annotations are: 'r' (raw string), 'b' (binary), 'dt' (datetime), 'd' (date), 't' (time).`,
+                `Unsupported annotation '${annotation.name}'. Supported annotations are: 'r' (raw string), 'b' (binary), 'hex' (hex binary), 'dt' (datetime), 'd' (date), 't' (time), 'du' (duration), 'mo' (money).`,
                 this.currentPosition);
               const tokenText = this.input.substring(this.pos, this.pos + annotation.name.length + 1);
               tokens[tokenIndex++] = this.createErrorToken(error, this.pos, this.row, this.col, tokenText);
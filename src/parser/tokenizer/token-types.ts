@@ -20,6 +20,8 @@ enum TokenType {
   DATETIME          = 'DATETIME',
   DATE              = 'DATE',
   TIME              = 'TIME',
+  DURATION          = 'DURATION',
+  MONEY             = 'MONEY',
   WHITESPACE        = 'WHITESPACE',
   SECTION_SEP       = 'SECTION_SEP',
   SECTION_SCHEMA    = 'SECTION_SCHEMA',
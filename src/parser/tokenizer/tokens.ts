@@ -1,4 +1,6 @@
 import Decimal from '../../core/decimal/decimal';
+import { IODuration } from '../../core/duration';
+import { IOMoney } from '../../core/money';
 import { Position } from '../../core/positions';
 import PositionRange from "../../core/positions";
 import IOError from '../../errors/io-error';
@@ -34,6 +36,8 @@ export type TokenValue =
   | boolean                 // BOOLEAN
   | null                    // NULL
   | Date                    // DATETIME, DATE, TIME
+  | IODuration              // DURATION
+  | IOMoney                 // MONEY
   | Buffer                  // BINARY
   | TokenErrorValue         // ERROR
   | undefined;              // UNDEFINED
@@ -46,6 +50,7 @@ export type TokenSubType =
   | 'OPEN_STRING'
   | 'RAW_STRING'
   | 'BINARY_STRING'
+  | 'HEX_STRING'
   | 'HEX'
   | 'OCTAL'
   | 'BINARY'
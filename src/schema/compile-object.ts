@@ -1,4 +1,5 @@
 import Definitions      from '../core/definitions';
+import IOObject         from '../core/internet-object';
 import assertNever      from '../errors/asserts/asserts';
 import SyntaxError      from '../errors/io-syntax-error';
 import ErrorCodes       from '../errors/io-error-codes';
@@ -11,6 +12,7 @@ import TokenType        from '../parser/tokenizer/token-types';
 import TypedefRegistry  from './typedef-registry';
 import processSchema    from './processor';
 import Schema           from './schema';
+import UnionSchema      from './union-schema';
 import Token            from '../parser/tokenizer/tokens';
 import registerTypes    from './types';
 import MemberDef        from './types/memberdef';
@@ -40,11 +42,46 @@ export default function compileObject(
     throw new SyntaxError(ErrorCodes.invalidSchema, "Schema must be an object.", node);
   }
 
+  // A union of schemas, written as an any type with the oneOf constraint
+  // For example:
+  // $event: { any, oneOf: [$click, $view], discriminator: kind }
+  if (isUnionDef(node as ObjectNode)) {
+    return compileUnion(name, node as ObjectNode, defs);
+  }
+
   const schema = new Schema(name)
   parseObjectDef(node as ObjectNode, schema, "", defs);
   return schema;
 }
 
+function isUnionDef(o: ObjectNode): boolean {
+  const first = o.children[0] as MemberNode | undefined;
+  return !!first && !first.key &&
+    first.value instanceof TokenNode && first.value.type === TokenType.STRING && first.value.value === 'any' &&
+    o.children.some(child => (child as MemberNode | undefined)?.key?.value === 'oneOf');
+}
+
+function compileUnion(name: string, o: ObjectNode, defs?: Definitions): UnionSchema {
+  const def = parseMemberDef('any', o, defs);
+  checkUnionBranches(def, o, name);
+  return new UnionSchema(name, def.oneOf, def.discriminator);
+}
+
+// A discriminator selects the schema of an object, hence every branch of a
+// discriminated union must be one.
+function checkUnionBranches(def: MemberDef, o: ObjectNode, name: string) {
+  if (def.discriminator === undefined || !Array.isArray(def.oneOf)) return;
+
+  const oneOfNode = (o.children as MemberNode[]).find(child => child?.key?.value === 'oneOf')!.value;
+  def.oneOf.forEach((branch: MemberDef, i: number) => {
+    if (branch.type !== 'object') {
+      const branchNode = oneOfNode instanceof ArrayNode ? oneOfNode.children[i] : undefined;
+      throw new SyntaxError(ErrorCodes.invalidSchema,
+        `The branches of the discriminated union ${name} must be schemas.`, (branchNode ?? oneOfNode) as Node);
+    }
+  });
+}
+
 function parseObjectOrTypeDef(o: ObjectNode, path:string, defs?:Definitions) {
   // When the object node is empty object, then the type definition is
   // object without schema definition. Such objects can accept any object
@@ -72,9 +109,10 @@ function parseObjectOrTypeDef(o: ObjectNode, path:string, defs?:Definitions) {
       if (token.type === TokenType.STRING) {
         const tokenValue = token.value as string;
         // Built-in type shorthand: { string, min: ..., max: ... }
-        if (TypedefRegistry.isRegisteredType(tokenValue)) {
+        if (TypedefRegistry.isRegisteredType(tokenValue, defs)) {
           const memberDef = parseMemberDef(tokenValue, o, defs);
           memberDef.path = path;
+          checkUnionBranches(memberDef, o, path);
           return memberDef;
         }
         // Schema variable shorthand: { $Person, ... }
@@ -109,7 +147,7 @@ function parseObjectOrTypeDef(o: ObjectNode, path:string, defs?:Definitions) {
     if (typeof type === 'string' && type.startsWith('$')) {
       return { type: 'object', schema: typeNode as any, path } as MemberDef;
     }
-    if (TypedefRegistry.isRegisteredType(type)) {
+    if (TypedefRegistry.isRegisteredType(type, defs)) {
       const memberDef = parseMemberDef(type, o, defs);
       memberDef.path = path;
       return memberDef;
@@ -178,7 +216,7 @@ function parseArrayOrTypeDef(a:ArrayNode, path:string, defs?:Definitions) :any {
     if (child.type === TokenType.STRING) {
       const type = child.value as string;
     // [string], [number], [boolean], [object], [array] etc.
-    if (TypedefRegistry.isRegisteredType(type)) {
+    if (TypedefRegistry.isRegisteredType(type, defs)) {
       return createMemberDef({
         type: 'array',
         of: {
@@ -270,7 +308,7 @@ function parseObjectDef(o: ObjectNode, schema:Schema, path:string, defs?:Definit
         }
         // For TokenNode (simple types or schema refs), use canonicalizer
         else {
-          const additionalDef = canonicalizeAdditionalProps(memberNode.value, '*');
+          const additionalDef = canonicalizeAdditionalProps(memberNode.value, '*', defs);
           schema.defs['*'] = additionalDef;
           schema.open = additionalDef;
         }
@@ -365,12 +403,24 @@ function parseMemberDef(type:string, o: ObjectNode, defs?: Definitions) {
   // Dereference variables in the ObjectNode before validation
   dereferenceObjectNodeVariables(o, defs);
 
-  const typeDef = TypedefRegistry.get(type);
+  const typeDef = TypedefRegistry.get(type, defs);
   // Pass defs to processSchema so it can resolve variables during validation
   const result = processSchema(o, typeDef.schema, defs);
-  return (result && typeof (result as any).toObject === 'function')
-    ? (result as any).toObject()
-    : result;
+  return result instanceof IOObject ? optionValues(result) : result;
+}
+
+/**
+ * Returns the options of a member definition as a plain object. Unlike
+ * `toObject()`, the values keep their types instead of turning into their
+ * JSON forms, so that a binary default stays bytes.
+ */
+function optionValues(o: IOObject): any {
+  const options: any = {};
+  o.forEach((value: any, key: string | undefined, index: number) => {
+    if (value === undefined) return;
+    options[key || index] = value instanceof IOObject ? optionValues(value) : value;
+  });
+  return options;
 }
 
 function addMemberDef(memberDef: MemberDef, schema: Schema, path:string) {
@@ -463,7 +513,7 @@ export function getMemberDef(memberDef:MemberNode, path:string, defs?:Definition
       } as MemberDef;
     }
 
-    if (TypedefRegistry.isRegisteredType(type) === false) {
+    if (TypedefRegistry.isRegisteredType(type, defs) === false) {
       throw new SyntaxError(ErrorCodes.invalidType,
         `The type '${type}' is not supported.`, node);
     }
@@ -1,8 +1,12 @@
 // Core classes
 export { default as IOSchema } from './schema';
 export { SchemaBuilder } from './schema';
+export { default as IOUnionSchema } from './union-schema';
 export { default as TypedefRegistry } from './typedef-registry';
+export { default as TypedefScope } from './typedef-scope';
+export type { TypeDefConstructor } from './typedef-scope';
 export type { default as TypeDef } from './typedef';
+export { default as doCommonTypeCheck } from './types/common-type';
 
 // Processing
 export { default as processSchema } from './processor';
@@ -20,10 +24,15 @@ export { ValidationUtils, ProcessingResult } from './utils/validation-utils';
 export { SchemaValidator, ValidationResult } from './validation/schema-validator';
 export { canonicalizeAdditionalProps } from './utils/additional-props-canonicalizer';
 export { normalizeKeyToken } from './utils/member-utils';
+export { toJSONSchema, fromJSONSchema } from './json-schema';
+export { generateTypes } from './typescript/generate-types';
 
 // Types
 export type { MemberMap, SchemaConstructorArg } from './schema-types';
 export type { default as MemberDef } from './types/memberdef';
+export type { JSONSchema, JSONSchemaIssue, ToJSONSchemaOptions, FromJSONSchemaOptions } from './json-schema';
+export type { GenerateTypesOptions } from './typescript/generate-types';
+export type { InferType, InferMemberType, TypedMemberDef } from './typescript/infer-type';
 
 // Backward compatibility - Main API
 import Schema from './schema';
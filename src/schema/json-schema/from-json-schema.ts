@@ -0,0 +1,521 @@
+import Decimal        from '../../core/decimal/decimal';
+import IODefinitions  from '../../core/definitions';
+import { IODuration } from '../../core/duration';
+import { IOMoney }    from '../../core/money';
+import IOError        from '../../errors/io-error';
+import ErrorCodes     from '../../errors/io-error-codes';
+import TokenNode      from '../../parser/nodes/tokens';
+import TokenType      from '../../parser/tokenizer/token-types';
+import Token          from '../../parser/tokenizer/tokens';
+import IOSchema       from '../schema';
+import MemberDef      from '../types/memberdef';
+import { BinaryEncoding, decodeBytes } from '../../utils/bytes';
+import { parseTime }  from '../../utils/datetime';
+import { formatIssues } from './to-json-schema';
+import {
+  FromJSONSchemaOptions, FromJSONSchemaResult, JSONSchema, JSONSchemaIssue
+} from './types';
+
+type JSONObject = { [keyword: string]: any };
+
+interface ImportContext {
+  document: JSONObject;
+  issues: JSONSchemaIssue[];
+
+  /** Maps the pointers of the object schemas under `$defs` to their IO names */
+  names: Map<string, string>;
+
+  /** Pointers of the non-object `$defs` being inlined, to detect cycles */
+  inlining: Set<string>;
+}
+
+// Keywords that only annotate a schema and have no effect on validation
+const ANNOTATIONS = new Set([
+  '$schema', '$id', '$comment', '$anchor', '$defs', 'definitions', 'title', 'description',
+  'examples', 'deprecated', 'readOnly', 'writeOnly', 'contentMediaType', 'contentEncoding',
+]);
+
+// Keywords that apply to values of any type, converted by convertMember itself
+const GENERIC_KEYWORDS = ['type', 'enum', 'const', 'default'];
+
+const KEYWORDS_BY_TYPE: { [type: string]: string[] } = {
+  string:  ['format', 'minLength', 'maxLength', 'pattern'],
+  integer: ['format', 'minimum', 'maximum', 'exclusiveMinimum', 'exclusiveMaximum', 'multipleOf'],
+  number:  ['format', 'minimum', 'maximum', 'exclusiveMinimum', 'exclusiveMaximum', 'multipleOf'],
+  boolean: [],
+  array:   ['items', 'minItems', 'maxItems', 'prefixItems', 'contains', 'minContains', 'maxContains', 'uniqueItems', 'unevaluatedItems'],
+  object:  ['properties', 'required', 'additionalProperties', 'patternProperties', 'propertyNames',
+            'minProperties', 'maxProperties', 'dependentRequired', 'dependentSchemas', 'unevaluatedProperties'],
+};
+
+const STRING_FORMATS: { [format: string]: string } = {
+  'email':     'email',
+  'uri':       'url',
+  'url':       'url',
+  'iri':       'url',
+  'date-time': 'datetime',
+  'date':      'date',
+  'time':      'time',
+  'decimal':   'decimal',
+  'duration':  'duration',
+  'money':     'money',
+};
+
+// The content encodings of strings read as binary values
+const CONTENT_ENCODINGS: { [encoding: string]: BinaryEncoding } = {
+  base64: 'base64', base64url: 'base64url', base16: 'hex',
+};
+
+// The pattern of the money format, as exported, with its currencies if named
+const MONEY_PATTERN = /^\^-\?\\d\+\(\?:\\\.\\d\+\)\? (?:\[A-Z\]\{3\}|\(\?:([A-Z]{3}(?:\|[A-Z]{3})*)\))\$$/;
+
+const INTEGER_FORMATS: { [format: string]: string } = {
+  int8: 'int8', int16: 'int16', int32: 'int32', int64: 'int',
+  uint8: 'uint8', uint16: 'uint16', uint32: 'uint32', uint64: 'uint',
+  bigint: 'bigint',
+};
+
+// Bounds implied by the sized integer types, mirroring NumberDef.getTypeBounds
+const INT_BOUNDS: { [type: string]: [number, number | null] } = {
+  uint:   [0, null],
+  int8:   [-(2 ** 7), 2 ** 7 - 1],
+  uint8:  [0, 2 ** 8 - 1],
+  int16:  [-(2 ** 15), 2 ** 15 - 1],
+  uint16: [0, 2 ** 16 - 1],
+  int32:  [-(2 ** 31), 2 ** 31 - 1],
+  uint32: [0, 2 ** 32 - 1],
+};
+
+/**
+ * Imports a JSON Schema document (2020-12, or draft-07 `definitions`) into
+ * IODefinitions.
+ *
+ * Object schemas under `$defs` become named schemas (`$defs/address` →
+ * `$address`) and `$ref`s to them become schema references. An object schema
+ * at the root of the document becomes the default `$schema`. Keywords that
+ * Internet Object cannot express, such as `patternProperties` or `not`, are
+ * reported in `issues` rather than silently dropped.
+ *
+ * @param json    The JSON Schema document, as an object or a JSON string
+ * @param options Import options
+ *
+ * @example
+ * ```typescript
+ * const { definitions, issues } = fromJSONSchema({
+ *   type: 'object',
+ *   properties: { name: { type: 'string' }, age: { type: 'integer', minimum: 0 } },
+ *   required: ['name'],
+ * })
+ * parse('Alice, 30', definitions)
+ * ```
+ */
+export function fromJSONSchema(json: JSONSchema | string, options: FromJSONSchemaOptions = {}): FromJSONSchemaResult {
+  const document = typeof json === 'string' ? JSON.parse(json) : json;
+  if (typeof document !== 'object' || document === null || Array.isArray(document)) {
+    throw new IOError(ErrorCodes.invalidSchema, 'Expecting a JSON Schema document object.');
+  }
+
+  const defs = options.defs ?? new IODefinitions();
+  const ctx: ImportContext = { document, issues: [], names: new Map(), inlining: new Set() };
+
+  // Register the names first so that the schemas may reference each other
+  // in any order, including recursively.
+  const entries: [string, string, JSONObject][] = [];
+  for (const container of ['$defs', 'definitions']) {
+    const group = document[container];
+    if (!isObject(group)) continue;
+    for (const key of Object.keys(group)) {
+      const pointer = `#/${container}/${escapePointer(key)}`;
+      if (isObjectSchema(group[key])) {
+        ctx.names.set(pointer, `$${key}`);
+        entries.push([pointer, `$${key}`, group[key]]);
+      }
+    }
+  }
+
+  const rootIsObject = isObjectSchema(document);
+  if (rootIsObject) ctx.names.set('#', '$schema');
+
+  for (const [pointer, name, schema] of entries) {
+    defs.push(name, convertSchema(schema, name, '', pointer, ctx), true, false);
+  }
+
+  if (rootIsObject) {
+    defs.push('$schema', convertSchema(document, '$schema', '', '#', ctx), true, false);
+  } else if (typeof document.$ref === 'string' && ctx.names.has(document.$ref)) {
+    defs.push('$schema', schemaRef(ctx.names.get(document.$ref)!), true, false);
+  } else if (document.type !== undefined || document.$ref !== undefined) {
+    ctx.issues.push({
+      path: '#', keyword: 'type',
+      message: 'The root schema does not describe an object and cannot become the default schema.'
+    });
+  }
+
+  if (options.strict && ctx.issues.length > 0) {
+    throw new IOError(ErrorCodes.unsupportedConstruct, formatIssues('Cannot import the JSON Schema', ctx.issues));
+  }
+
+  return { definitions: defs, issues: ctx.issues };
+}
+
+function convertSchema(json: JSONObject, name: string, path: string, pointer: string, ctx: ImportContext): IOSchema {
+  const schema = new IOSchema(name);
+  const required: string[] = Array.isArray(json.required) ? json.required : [];
+  const properties = isObject(json.properties) ? json.properties : {};
+
+  for (const key of Object.keys(properties)) {
+    const memberPath = path ? `${path}.${key}` : key;
+    const memberDef = convertMember(properties[key], memberPath, `${pointer}/properties/${escapePointer(key)}`, ctx);
+    schema.names.push(key);
+    schema.defs[key] = { name: key, optional: !required.includes(key), ...memberDef, null: memberDef.null ?? false };
+  }
+
+  for (const key of required) {
+    if (!(key in properties)) {
+      ctx.issues.push({
+        path: `${pointer}/required`, keyword: 'required',
+        message: `The required property '${key}' is not declared in 'properties'.`
+      });
+    }
+  }
+
+  // JSON Schema objects are open unless additionalProperties says otherwise
+  const additional = json.additionalProperties;
+  if (additional === false) {
+    schema.open = false;
+  } else if (additional === undefined || additional === true || isEmptySchema(additional)) {
+    schema.open = true;
+  } else {
+    schema.open = convertMember(additional, '*', `${pointer}/additionalProperties`, ctx);
+  }
+
+  reportKeywords(json, ['properties', 'required', 'additionalProperties'], pointer, ctx, ['type']);
+  return schema;
+}
+
+function convertMember(json: JSONSchema, path: string, pointer: string, ctx: ImportContext): MemberDef {
+  if (json === true || isEmptySchema(json)) return { type: 'any', path };
+  if (!isObject(json)) {
+    ctx.issues.push({ path: pointer, keyword: 'false', message: 'The schema rejecting every value has no IO equivalent.' });
+    return { type: 'any', path };
+  }
+
+  if (typeof json.$ref === 'string') return convertRef(json, path, pointer, ctx);
+
+  // Nullability may be expressed by the type, the enum, or an anyOf branch
+  let nullable = false;
+  let types: string[] = json.type === undefined ? [] : ([] as string[]).concat(json.type);
+  if (types.includes('null')) {
+    nullable = true;
+    types = types.filter(t => t !== 'null');
+  }
+
+  const union = json.anyOf ?? json.oneOf;
+  const unionKeyword = json.anyOf !== undefined ? 'anyOf' : 'oneOf';
+  if (Array.isArray(union)) {
+    const branches = union.filter((branch: any) => {
+      if (isObject(branch) && branch.type === 'null' && Object.keys(branch).length === 1) {
+        nullable = true;
+        return false;
+      }
+      return true;
+    });
+
+    if (unionKeyword === 'oneOf' && branches.length > 1) {
+      ctx.issues.push({
+        path: pointer, keyword: 'oneOf',
+        message: `The exclusive 'oneOf' is imported as 'anyOf'; values matching several branches are accepted.`
+      });
+    }
+
+    // A single branch left, typically `anyOf: [{ $ref }, { type: 'null' }]`
+    const { anyOf, oneOf, ...rest } = json;
+    const memberDef = branches.length === 1
+      ? convertMember({ ...rest, ...branches[0] }, path, pointer, ctx)
+      : withGeneric({
+          type: 'any', path,
+          anyOf: branches.map((branch: any, i: number) => convertMember(branch, path, `${pointer}/${unionKeyword}/${i}`, ctx))
+        }, rest, pointer, ctx);
+    if (nullable) memberDef.null = true;
+    return memberDef;
+  }
+
+  if (Array.isArray(json.allOf)) {
+    const { allOf, ...rest } = json;
+    if (allOf.length === 1) return convertMember({ ...rest, ...allOf[0] }, path, pointer, ctx);
+    ctx.issues.push({ path: pointer, keyword: 'allOf', message: `The 'allOf' combination has no IO equivalent and is ignored.` });
+    return convertMember(rest, path, pointer, ctx);
+  }
+
+  if (types.length === 0) types = inferTypes(json);
+
+  let memberDef: MemberDef;
+  if (types.length === 1) {
+    memberDef = convertTyped(types[0], json, path, pointer, ctx);
+  } else {
+    // Several types: each branch only takes the keywords that apply to it
+    memberDef = {
+      type: 'any', path,
+      anyOf: types.map(type => {
+        const branch: JSONObject = { type };
+        for (const keyword of KEYWORDS_BY_TYPE[type] ?? []) {
+          if (json[keyword] !== undefined) branch[keyword] = json[keyword];
+        }
+        return convertTyped(type, branch, path, pointer, ctx);
+      })
+    };
+    reportKeywords(json, [], pointer, ctx, Object.values(KEYWORDS_BY_TYPE).flat());
+  }
+
+  withGeneric(memberDef, json, pointer, ctx);
+  if (nullable || (Array.isArray(json.enum) && json.enum.includes(null))) memberDef.null = true;
+  return memberDef;
+}
+
+function convertTyped(type: string, json: JSONObject, path: string, pointer: string, ctx: ImportContext): MemberDef {
+  const report = (keyword: string, message: string) => ctx.issues.push({ path: `${pointer}/${keyword}`, keyword, message });
+  const memberDef: MemberDef = { type: 'any', path };
+
+  switch (type) {
+    case 'string': {
+      memberDef.type = 'string';
+      if (json.format !== undefined) {
+        const ioType = STRING_FORMATS[json.format];
+        if (ioType) {
+          memberDef.type = ioType;
+        } else {
+          report('format', `The string format '${json.format}' is not supported and is imported as a plain string.`);
+        }
+      } else if (typeof json.contentEncoding === 'string' && CONTENT_ENCODINGS[json.contentEncoding]) {
+        memberDef.type = 'binary';
+        if (json.contentEncoding !== 'base64') memberDef.encoding = CONTENT_ENCODINGS[json.contentEncoding];
+      }
+
+      // The pattern of exported money names its currencies
+      const moneyPattern = memberDef.type === 'money' && typeof json.pattern === 'string'
+        ? MONEY_PATTERN.exec(json.pattern)
+        : null;
+      if (moneyPattern?.[1]) memberDef.currencies = moneyPattern[1].split('|');
+
+      const isText = ['string', 'email', 'url'].includes(memberDef.type);
+      for (const [keyword, option] of [['minLength', 'minLen'], ['maxLength', 'maxLen'], ['pattern', 'pattern']]) {
+        if (json[keyword] === undefined || (keyword === 'pattern' && moneyPattern)) continue;
+        if (isText) memberDef[option] = json[keyword];
+        else report(keyword, `The '${keyword}' keyword cannot be applied to the IO '${memberDef.type}' type.`);
+      }
+      break;
+    }
+
+    case 'integer':
+    case 'number': {
+      memberDef.type = type === 'integer' ? 'int' : 'number';
+      if (type === 'integer' && json.format !== undefined) {
+        if (INTEGER_FORMATS[json.format]) memberDef.type = INTEGER_FORMATS[json.format];
+        else report('format', `The integer format '${json.format}' is not supported and is imported as 'int'.`);
+      } else if (json.format !== undefined && json.format !== 'float' && json.format !== 'double') {
+        report('format', `The number format '${json.format}' is not supported and is imported as 'number'.`);
+      }
+
+      let min = json.minimum;
+      let max = json.maximum;
+      if (typeof json.exclusiveMinimum === 'number') {
+        if (type === 'integer') min = Math.max(min ?? -Infinity, Math.floor(json.exclusiveMinimum) + 1);
+        else report('exclusiveMinimum', `The 'exclusiveMinimum' of a non-integer number has no IO equivalent.`);
+      }
+      if (typeof json.exclusiveMaximum === 'number') {
+        if (type === 'integer') max = Math.min(max ?? Infinity, Math.ceil(json.exclusiveMaximum) - 1);
+        else report('exclusiveMaximum', `The 'exclusiveMaximum' of a non-integer number has no IO equivalent.`);
+      }
+
+      // Bounds implied by a sized type are not repeated
+      const [typeMin, typeMax] = INT_BOUNDS[memberDef.type] ?? [null, null];
+      const toNumber = memberDef.type === 'bigint' ? (v: number) => BigInt(v) : (v: number) => v;
+      if (min !== undefined && min !== typeMin) memberDef.min = toNumber(min);
+      if (max !== undefined && max !== typeMax) memberDef.max = toNumber(max);
+      if (json.multipleOf !== undefined) memberDef.multipleOf = toNumber(json.multipleOf);
+      break;
+    }
+
+    case 'boolean':
+      memberDef.type = 'bool';
+      break;
+
+    case 'array':
+      memberDef.type = 'array';
+      if (json.items !== undefined && !isEmptySchema(json.items) && json.items !== true) {
+        const of = convertMember(json.items, path, `${pointer}/items`, ctx);
+        memberDef.of = of;
+      }
+      if (json.minItems !== undefined) memberDef.minLen = json.minItems;
+      if (json.maxItems !== undefined) memberDef.maxLen = json.maxItems;
+      break;
+
+    case 'object': {
+      memberDef.type = 'object';
+      // A plain open object, such as `{ type: 'object' }`, needs no schema
+      if (json.properties !== undefined || (json.additionalProperties !== undefined && json.additionalProperties !== true)) {
+        memberDef.schema = convertSchema(json, path, path, pointer, ctx);
+        return memberDef;
+      }
+      break;
+    }
+
+    default:
+      report('type', `The type '${type}' is not supported and is imported as 'any'.`);
+      return memberDef;
+  }
+
+  reportKeywords(json, KEYWORDS_BY_TYPE[type], pointer, ctx, ['format', 'exclusiveMinimum', 'exclusiveMaximum']);
+  return memberDef;
+}
+
+function convertRef(json: JSONObject, path: string, pointer: string, ctx: ImportContext): MemberDef {
+  const ref: string = json.$ref;
+  const { $ref, ...rest } = json;
+
+  const name = ctx.names.get(ref);
+  if (name) {
+    reportKeywords(rest, ['default'], pointer, ctx);
+    const memberDef: MemberDef = { type: 'object', schema: schemaRef(name), path };
+    if (rest.default !== undefined) memberDef.default = rest.default;
+    return memberDef;
+  }
+
+  // Non-object definitions, such as a shared enum, are inlined
+  const target = ref.startsWith('#') ? resolvePointer(ctx.document, ref) : undefined;
+  if (target === undefined) {
+    ctx.issues.push({ path: pointer, keyword: '$ref', message: `The reference '${ref}' cannot be resolved and is imported as 'any'.` });
+    return { type: 'any', path };
+  }
+
+  if (ctx.inlining.has(ref)) {
+    ctx.issues.push({ path: pointer, keyword: '$ref', message: `The recursive reference '${ref}' is not an object schema and is imported as 'any'.` });
+    return { type: 'any', path };
+  }
+
+  ctx.inlining.add(ref);
+  try {
+    return convertMember({ ...(isObject(target) ? target : {}), ...rest }, path, pointer, ctx);
+  } finally {
+    ctx.inlining.delete(ref);
+  }
+}
+
+/**
+ * Applies the keywords valid for any type (enum, const, default) to the
+ * converted member.
+ */
+function withGeneric(memberDef: MemberDef, json: JSONObject, pointer: string, ctx: ImportContext): MemberDef {
+  const choices = Array.isArray(json.enum) ? json.enum : json.const !== undefined ? [json.const] : undefined;
+  if (choices) {
+    const values = choices.filter((choice: any) => choice !== null);
+    if (values.length > 0) memberDef.choices = values.map((choice: any) => fromJSONValue(choice, memberDef.type));
+  }
+
+  if (json.default !== undefined) {
+    memberDef.default = fromJSONValue(json.default, memberDef.type, memberDef.encoding);
+  }
+
+  for (const keyword of ['not', 'if', 'then', 'else', '$dynamicRef']) {
+    if (json[keyword] !== undefined) {
+      ctx.issues.push({ path: `${pointer}/${keyword}`, keyword, message: `The '${keyword}' keyword has no IO equivalent and is ignored.` });
+    }
+  }
+
+  return memberDef;
+}
+
+/**
+ * Reports the keywords of a schema that were not converted. The keywords of
+ * the other types are ignored, as JSON Schema only applies them to values of
+ * their own type.
+ */
+function reportKeywords(json: JSONObject, converted: string[], pointer: string, ctx: ImportContext, skip: string[] = []) {
+  const unsupported = new Set([
+    'prefixItems', 'contains', 'minContains', 'maxContains', 'uniqueItems', 'unevaluatedItems',
+    'patternProperties', 'propertyNames', 'minProperties', 'maxProperties', 'dependentRequired',
+    'dependentSchemas', 'unevaluatedProperties',
+  ]);
+  const known = new Set([
+    ...GENERIC_KEYWORDS, ...Object.values(KEYWORDS_BY_TYPE).flat(),
+    'anyOf', 'oneOf', 'allOf', 'not', 'if', 'then', 'else', '$dynamicRef', '$ref',
+  ]);
+
+  for (const keyword of Object.keys(json)) {
+    if (ANNOTATIONS.has(keyword) || skip.includes(keyword)) continue;
+    if (converted.includes(keyword) && !unsupported.has(keyword)) continue;
+    if (known.has(keyword) && !unsupported.has(keyword)) continue;
+
+    ctx.issues.push({
+      path: `${pointer}/${keyword}`, keyword,
+      message: known.has(keyword)
+        ? `The '${keyword}' keyword has no IO equivalent and is ignored.`
+        : `The unknown keyword '${keyword}' is ignored.`
+    });
+  }
+}
+
+function inferTypes(json: JSONObject): string[] {
+  return Object.keys(KEYWORDS_BY_TYPE).filter(type =>
+    type !== 'integer' && KEYWORDS_BY_TYPE[type].some(keyword => json[keyword] !== undefined && keyword !== 'format')
+  );
+}
+
+function fromJSONValue(value: any, type: string, encoding?: BinaryEncoding): any {
+  if (typeof value === 'string' && type === 'time') {
+    // Read as DateTimeDef reads times, on 1900-01-01 and in UTC unless the
+    // value carries an offset, so the import is the same in every time zone
+    const offset = /(?:Z|[+-]\d{2}:?\d{2})$/i.test(value) ? '' : 'Z';
+    return parseTime(value) ?? new Date(`1900-01-01T${value}${offset}`);
+  }
+  if (typeof value === 'string' && ['datetime', 'date'].includes(type)) {
+    return new Date(value);
+  }
+  if (type === 'duration' && typeof value === 'string') {
+    return IODuration.parse(value) ?? value;
+  }
+  if (type === 'money' && typeof value === 'string') {
+    return IOMoney.parse(value) ?? value;
+  }
+  if (type === 'binary' && typeof value === 'string') {
+    return decodeBytes(value, encoding) ?? value;
+  }
+  if (type === 'decimal' && (typeof value === 'string' || typeof value === 'number')) {
+    return new Decimal(String(value));
+  }
+  if (type === 'bigint' && typeof value === 'number') return BigInt(value);
+  return value;
+}
+
+function schemaRef(name: string): TokenNode {
+  return new TokenNode(Token.init(0, 1, 1, name, name, TokenType.STRING, 'OPEN_STRING'));
+}
+
+function isObjectSchema(json: any): boolean {
+  if (!isObject(json)) return false;
+  if (json.type !== undefined) return json.type === 'object';
+  return json.properties !== undefined;
+}
+
+function isEmptySchema(json: any): boolean {
+  return isObject(json) && Object.keys(json).every(keyword => ANNOTATIONS.has(keyword));
+}
+
+function isObject(value: any): value is JSONObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function resolvePointer(document: JSONObject, ref: string): any {
+  if (ref === '#') return document;
+  if (!ref.startsWith('#/')) return undefined;
+  return ref.slice(2).split('/').reduce((node: any, part) => {
+    const key = part.replace(/~1/g, '/').replace(/~0/g, '~');
+    return isObject(node) || Array.isArray(node) ? (node as any)[key] : undefined;
+  }, document);
+}
+
+function escapePointer(key: string): string {
+  return key.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+export default fromJSONSchema;
@@ -0,0 +1,7 @@
+export { toJSONSchema } from './to-json-schema';
+export { fromJSONSchema } from './from-json-schema';
+export { JSON_SCHEMA_DIALECT } from './types';
+export type {
+  JSONSchema, JSONSchemaIssue, ToJSONSchemaOptions, ToJSONSchemaResult,
+  FromJSONSchemaOptions, FromJSONSchemaResult,
+} from './types';
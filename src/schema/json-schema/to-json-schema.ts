@@ -0,0 +1,437 @@
+import Decimal        from '../../core/decimal/decimal';
+import IODefinitions  from '../../core/definitions';
+import { IODuration } from '../../core/duration';
+import { IOMoney }    from '../../core/money';
+import IOError        from '../../errors/io-error';
+import ErrorCodes     from '../../errors/io-error-codes';
+import TokenNode      from '../../parser/nodes/tokens';
+import IOSchema       from '../schema';
+import MemberDef      from '../types/memberdef';
+import UnionSchema    from '../union-schema';
+import { BinaryEncoding, encodeBytes } from '../../utils/bytes';
+import {
+  JSON_SCHEMA_DIALECT, JSONSchemaIssue, ToJSONSchemaOptions, ToJSONSchemaResult
+} from './types';
+
+type JSONObject = { [keyword: string]: any };
+
+interface ExportContext {
+  defs?: IODefinitions;
+  rootName: string;
+  issues: JSONSchemaIssue[];
+
+  /** Names of the schemas referenced so far, in order of discovery. */
+  refs: string[];
+}
+
+// Options shared by all the types, converted by convertMember itself.
+const COMMON_OPTIONS = ['name', 'type', 'path', 'optional', 'null', 'default', 'choices'];
+
+// Options that only control how values are written, nothing to validate.
+const SERIALIZATION_OPTIONS: { [type: string]: string[] } = {
+  string: ['format', 'escapeLines', 'encloser'],
+  number: ['format'],
+  any:    ['isSchema'],
+};
+
+// Bounds of the sized integer types, mirroring NumberDef.getTypeBounds
+const INT_BOUNDS: { [type: string]: [number, number | null] } = {
+  uint:   [0, null],
+  int8:   [-(2 ** 7), 2 ** 7 - 1],
+  uint8:  [0, 2 ** 8 - 1],
+  int16:  [-(2 ** 15), 2 ** 15 - 1],
+  uint16: [0, 2 ** 16 - 1],
+  int32:  [-(2 ** 31), 2 ** 31 - 1],
+  uint32: [0, 2 ** 32 - 1],
+};
+
+const FLOAT_FORMATS: { [type: string]: string } = {
+  float32: 'float',
+  float64: 'double',
+};
+
+/**
+ * Converts a compiled IOSchema, or all the schemas of an IODefinitions, into
+ * a JSON Schema 2020-12 document.
+ *
+ * Named schemas (`$address`) referenced by members are emitted under `$defs`
+ * and referenced with `$ref`. Constructs that JSON Schema cannot express,
+ * such as decimal ranges, regex flags, or custom types, are reported in
+ * `issues` rather than silently dropped.
+ *
+ * @param source  The schema or the definitions to convert
+ * @param options Conversion options
+ *
+ * @example
+ * ```typescript
+ * const defs = parseDefinitions(`~ $User: { name: string, age?: {int, min: 0} }`)
+ * const { schema, issues } = toJSONSchema(defs, { root: '$User' })
+ * // schema.properties.age → { type: 'integer', minimum: 0 }
+ * ```
+ */
+export function toJSONSchema(source: IOSchema | IODefinitions, options: ToJSONSchemaOptions = {}): ToJSONSchemaResult {
+  const defs = source instanceof IODefinitions ? source : options.defs;
+  let root: IOSchema | undefined;
+  let rootName: string;
+
+  if (source instanceof IOSchema) {
+    root = source;
+    rootName = options.root ?? source.name;
+  } else {
+    rootName = options.root ?? '$schema';
+    root = resolveSchema(rootName, source);
+    if (!root && options.root !== undefined) {
+      throw new IOError(ErrorCodes.schemaNotFound, `The schema '${options.root}' is not defined.`);
+    }
+  }
+
+  const ctx: ExportContext = { defs, rootName, issues: [], refs: [] };
+  const document: JSONObject = { $schema: JSON_SCHEMA_DIALECT };
+  if (options.id) document.$id = options.id;
+  if (root) Object.assign(document, convertSchema(root, rootName, ctx));
+
+  // When converting definitions, every named schema is emitted, referenced
+  // or not. Otherwise only the ones reachable from the root.
+  if (source instanceof IODefinitions) {
+    for (const key of source.keys) {
+      if (key.startsWith('$') && resolveSchema(key, source) && !ctx.refs.includes(key)) {
+        ctx.refs.push(key);
+      }
+    }
+  }
+
+  const $defs: JSONObject = {};
+  for (let i = 0; i < ctx.refs.length; i++) {
+    const name = ctx.refs[i];
+    if (name === rootName) continue;
+    $defs[defName(name)] = convertSchema(resolveSchema(name, defs)!, name, ctx);
+  }
+  if (Object.keys($defs).length > 0) document.$defs = $defs;
+
+  if (options.strict && ctx.issues.length > 0) {
+    throw new IOError(ErrorCodes.unsupportedConstruct, formatIssues('Cannot convert the schema to JSON Schema', ctx.issues));
+  }
+
+  return { schema: document, issues: ctx.issues };
+}
+
+/**
+ * Formats the issues into a single error message for strict mode.
+ * @internal
+ */
+export function formatIssues(title: string, issues: JSONSchemaIssue[]): string {
+  return `${title}:\n${issues.map(issue => `  - ${issue.path}: ${issue.message}`).join('\n')}`;
+}
+
+function convertSchema(schema: IOSchema, path: string, ctx: ExportContext): JSONObject {
+  if (schema instanceof UnionSchema) {
+    return convertMember({ type: 'any', oneOf: schema.oneOf, discriminator: schema.discriminator }, path, ctx);
+  }
+
+  const out: JSONObject = { type: 'object', properties: {} };
+  const required: string[] = [];
+
+  for (const name of schema.names) {
+    const memberDef = schema.defs[name];
+    out.properties[name] = convertMember(memberDef, `${path}.${name}`, ctx);
+    if (!memberDef.optional) required.push(name);
+  }
+
+  if (required.length > 0) out.required = required;
+
+  // JSON Schema objects are open by default, IO schemas are closed
+  if (schema.open === false) {
+    out.additionalProperties = false;
+  } else if (schema.open !== true) {
+    out.additionalProperties = convertMember(schema.open, `${path}.*`, ctx);
+  }
+
+  return out;
+}
+
+function convertMember(memberDef: MemberDef, path: string, ctx: ExportContext): JSONObject {
+  const type = memberDef.type;
+  const handled = new Set<string>([...COMMON_OPTIONS, ...(SERIALIZATION_OPTIONS[type] || [])]);
+  const mark = (...keys: string[]) => keys.forEach(key => handled.add(key));
+  const report = (keyword: string, message: string) => ctx.issues.push({ path, keyword, message });
+  let out: JSONObject;
+
+  switch (type) {
+    case 'string':
+    case 'email':
+    case 'url':
+      out = { type: 'string' };
+      if (type === 'email') out.format = 'email';
+      if (type === 'url') out.format = 'uri';
+      if (memberDef.len !== undefined) {
+        out.minLength = memberDef.len;
+        out.maxLength = memberDef.len;
+      }
+      if (memberDef.minLen !== undefined) out.minLength = memberDef.minLen;
+      if (memberDef.maxLen !== undefined) out.maxLength = memberDef.maxLen;
+      if (memberDef.pattern !== undefined) out.pattern = memberDef.pattern;
+      if (memberDef.flags) {
+        report('flags', `The regular expression flags '${memberDef.flags}' have no JSON Schema equivalent.`);
+      }
+      mark('len', 'minLen', 'maxLen', 'pattern', 'flags', 'format', 'escapeLines', 'encloser');
+      break;
+
+    case 'int':
+    case 'uint':
+    case 'int8':
+    case 'int16':
+    case 'int32':
+    case 'uint8':
+    case 'uint16':
+    case 'uint32':
+    case 'uint64':
+    case 'number':
+    case 'float':
+    case 'float32':
+    case 'float64': {
+      const isFloat = type === 'number' || type.startsWith('float');
+      out = { type: isFloat ? 'number' : 'integer' };
+      if (FLOAT_FORMATS[type]) out.format = FLOAT_FORMATS[type];
+      else if (!isFloat && type !== 'int' && type !== 'uint') out.format = type;
+
+      const [min, max] = INT_BOUNDS[type] || [null, null];
+      if (min !== null) out.minimum = min;
+      if (max !== null) out.maximum = max;
+      if (memberDef.min !== undefined && memberDef.min !== null) out.minimum = memberDef.min;
+      if (memberDef.max !== undefined && memberDef.max !== null) out.maximum = memberDef.max;
+      if (memberDef.multipleOf !== undefined) out.multipleOf = memberDef.multipleOf;
+      mark('min', 'max', 'multipleOf', 'format');
+      break;
+    }
+
+    case 'bigint':
+      out = { type: 'integer', format: 'bigint' };
+      if (memberDef.min !== undefined) out.minimum = Number(memberDef.min);
+      if (memberDef.max !== undefined) out.maximum = Number(memberDef.max);
+      if (memberDef.multipleOf !== undefined) out.multipleOf = Number(memberDef.multipleOf);
+      mark('min', 'max', 'multipleOf', 'format');
+      break;
+
+    case 'decimal':
+      // Decimals are serialized to JSON as strings to keep their precision,
+      // so numeric constraints cannot be applied to them.
+      out = { type: 'string', format: 'decimal' };
+      for (const option of ['min', 'max', 'multipleOf', 'precision', 'scale']) {
+        if (memberDef[option] !== undefined) {
+          report(option, `The decimal '${option}' constraint has no JSON Schema equivalent.`);
+        }
+        mark(option);
+      }
+      break;
+
+    case 'bool':
+      out = { type: 'boolean' };
+      break;
+
+    case 'datetime':
+    case 'date':
+    case 'time':
+      out = { type: 'string', format: type === 'datetime' ? 'date-time' : type };
+      for (const option of ['min', 'max']) {
+        if (memberDef[option] !== undefined) {
+          report(option, `The ${type} '${option}' constraint has no JSON Schema equivalent.`);
+        }
+        mark(option);
+      }
+      break;
+
+    case 'duration':
+      out = { type: 'string', format: 'duration' };
+      for (const option of ['min', 'max']) {
+        if (memberDef[option] !== undefined) {
+          report(option, `The duration '${option}' constraint has no JSON Schema equivalent.`);
+        }
+        mark(option);
+      }
+      break;
+
+    case 'binary':
+    case 'bytes': {
+      // Bytes travel as text in the member's encoding; its lengths count
+      // characters, not bytes
+      const encoding = memberDef.encoding ?? 'base64';
+      out = { type: 'string', contentEncoding: encoding === 'hex' ? 'base16' : encoding };
+      mark('encoding');
+      for (const option of ['len', 'minLen', 'maxLen']) {
+        if (memberDef[option] !== undefined) {
+          report(option, `The ${type} '${option}' constraint counts bytes and has no JSON Schema equivalent.`);
+        }
+        mark(option);
+      }
+      break;
+    }
+
+    case 'money': {
+      // Money travels as its text, an amount and a currency code, and the
+      // currencies narrow the codes its pattern accepts
+      const currencies = Array.isArray(memberDef.currencies) && memberDef.currencies.length > 0
+        ? `(?:${memberDef.currencies.join('|')})`
+        : '[A-Z]{3}';
+      out = { type: 'string', format: 'money', pattern: `^-?\\d+(?:\\.\\d+)? ${currencies}$` };
+      mark('currencies');
+      for (const option of ['min', 'max', 'precision', 'scale']) {
+        if (memberDef[option] !== undefined) {
+          report(option, `The money '${option}' constraint has no JSON Schema equivalent.`);
+        }
+        mark(option);
+      }
+      break;
+    }
+
+    case 'array':
+      out = { type: 'array' };
+      if (memberDef.of instanceof IOSchema) {
+        out.items = convertSchema(memberDef.of, `${path}[]`, ctx);
+      } else if (memberDef.of?.type) {
+        out.items = convertMember(memberDef.of, `${path}[]`, ctx);
+      }
+      if (memberDef.len !== undefined) {
+        out.minItems = memberDef.len;
+        out.maxItems = memberDef.len;
+      }
+      if (memberDef.minLen !== undefined) out.minItems = memberDef.minLen;
+      if (memberDef.maxLen !== undefined) out.maxItems = memberDef.maxLen;
+      mark('of', 'len', 'minLen', 'maxLen');
+      break;
+
+    case 'object':
+      out = convertObjectMember(memberDef, path, ctx);
+      mark('schema', 'schemaRef');
+      break;
+
+    case 'any':
+      out = {};
+      if (Array.isArray(memberDef.anyOf)) {
+        out.anyOf = memberDef.anyOf.map((def: MemberDef, i: number) => convertMember(def, `${path}.anyOf[${i}]`, ctx));
+      }
+      if (Array.isArray(memberDef.oneOf)) {
+        const branches = memberDef.oneOf.map((def: MemberDef, i: number) => convertMember(def, `${path}.oneOf[${i}]`, ctx));
+        // The tags of the branches are not constrained by their schemas, so
+        // a value may match several of them.
+        if (memberDef.discriminator !== undefined) {
+          out.anyOf = branches;
+          report('discriminator', `The discriminator '${memberDef.discriminator}' has no JSON Schema equivalent; the branches are emitted as anyOf.`);
+        } else {
+          out.oneOf = branches;
+        }
+      }
+      mark('anyOf', 'oneOf', 'discriminator');
+      break;
+
+    default:
+      report('type', `The type '${type}' has no JSON Schema equivalent and is emitted as an unconstrained schema.`);
+      return {};
+  }
+
+  if (memberDef.choices !== undefined) {
+    out.enum = memberDef.choices.map((choice: any) => toJSONValue(choice, type));
+  }
+
+  if (memberDef.default !== undefined) {
+    out.default = toJSONValue(resolveVariable(memberDef.default, ctx), type, memberDef.encoding);
+  }
+
+  if (memberDef.null) out = allowNull(out);
+
+  for (const key of Object.keys(memberDef)) {
+    if (handled.has(key) || key.startsWith('__') || memberDef[key] === undefined) continue;
+    report(key, `The '${key}' option has no JSON Schema equivalent.`);
+  }
+
+  return out;
+}
+
+function convertObjectMember(memberDef: MemberDef, path: string, ctx: ExportContext): JSONObject {
+  const schema = memberDef.schema ?? memberDef.schemaRef;
+
+  if (schema instanceof IOSchema) {
+    // A named schema shared through the definitions is referenced, not inlined
+    if (schema.name.startsWith('$') && ctx.defs && resolveSchema(schema.name, ctx.defs) === schema) {
+      return refTo(schema.name, path, ctx);
+    }
+    return convertSchema(schema, path, ctx);
+  }
+
+  const name = schema instanceof TokenNode ? schema.value : schema;
+  if (typeof name === 'string' && name.startsWith('$')) {
+    return refTo(name, path, ctx);
+  }
+
+  return { type: 'object' };
+}
+
+function refTo(name: string, path: string, ctx: ExportContext): JSONObject {
+  if (name === ctx.rootName) return { $ref: '#' };
+
+  if (!resolveSchema(name, ctx.defs)) {
+    ctx.issues.push({
+      path, keyword: 'schema',
+      message: `The schema '${name}' is not defined and is emitted as an unconstrained object.`
+    });
+    return { type: 'object' };
+  }
+
+  if (!ctx.refs.includes(name)) ctx.refs.push(name);
+  return { $ref: `#/$defs/${defName(name)}` };
+}
+
+function allowNull(out: JSONObject): JSONObject {
+  if (Array.isArray(out.enum) && !out.enum.includes(null)) out.enum.push(null);
+
+  if (typeof out.type === 'string') {
+    out.type = [out.type, 'null'];
+    return out;
+  }
+
+  if (Array.isArray(out.anyOf)) {
+    out.anyOf.push({ type: 'null' });
+    return out;
+  }
+
+  // An unconstrained schema already accepts null
+  if (out.$ref === undefined) return out;
+
+  const { default: defaultValue, ...ref } = out;
+  const nullable: JSONObject = { anyOf: [ref, { type: 'null' }] };
+  if (defaultValue !== undefined) nullable.default = defaultValue;
+  return nullable;
+}
+
+function toJSONValue(value: any, type: string, encoding?: BinaryEncoding): any {
+  if (typeof value === 'bigint') return Number(value);
+  if (value instanceof Decimal) return value.toString();
+  if (value instanceof IODuration || value instanceof IOMoney) return value.toString();
+  if (value instanceof Uint8Array) return encodeBytes(value, encoding);
+  if (value instanceof Date) {
+    const iso = value.toISOString();
+    if (type === 'date') return iso.slice(0, 10);
+    if (type === 'time') return iso.slice(11);
+    return iso;
+  }
+  return value;
+}
+
+function resolveVariable(value: any, ctx: ExportContext): any {
+  if (typeof value === 'string' && value.startsWith('@') && ctx.defs) {
+    const resolved = ctx.defs.getV(value);
+    return resolved instanceof TokenNode ? resolved.value : resolved;
+  }
+  return value;
+}
+
+function resolveSchema(name: string, defs?: IODefinitions): IOSchema | undefined {
+  if (!defs || defs.get(name) === undefined) return undefined;
+  const value = defs.getV(name);
+  return value instanceof IOSchema ? value : undefined;
+}
+
+function defName(name: string): string {
+  return name.startsWith('$') ? name.slice(1) : name;
+}
+
+export default toJSONSchema;
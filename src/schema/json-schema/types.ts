@@ -0,0 +1,70 @@
+import IODefinitions from '../../core/definitions';
+
+/** The dialect emitted by `toJSONSchema` and preferred by `fromJSONSchema`. */
+export const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+/**
+ * A JSON Schema document or subschema. Kept deliberately loose since
+ * JSON Schema allows arbitrary keywords.
+ */
+export type JSONSchema = { [keyword: string]: any } | boolean;
+
+/**
+ * Describes a construct that could not be converted (or could only be
+ * converted approximately) between Internet Object and JSON Schema.
+ */
+export interface JSONSchemaIssue {
+  /**
+   * Where the construct was found. For `toJSONSchema` this is the IO member
+   * path prefixed by the schema name (`$User.address.zip`), for
+   * `fromJSONSchema` a JSON pointer into the source document (`#/properties/zip`).
+   */
+  path: string;
+
+  /** The IO member option or JSON Schema keyword that was not converted. */
+  keyword: string;
+
+  /** A human-readable description of the issue. */
+  message: string;
+}
+
+export interface ToJSONSchemaOptions {
+  /**
+   * Definitions used to resolve `$schema` references when an `IOSchema` is
+   * converted on its own.
+   */
+  defs?: IODefinitions;
+
+  /**
+   * The name of the schema to emit at the root of the document. Defaults to
+   * `$schema` when converting definitions.
+   */
+  root?: string;
+
+  /** Value of the `$id` keyword of the emitted document. */
+  id?: string;
+
+  /** When true, throws an IOError listing all issues instead of returning them. */
+  strict?: boolean;
+}
+
+export interface ToJSONSchemaResult {
+  schema: { [keyword: string]: any };
+  issues: JSONSchemaIssue[];
+}
+
+export interface FromJSONSchemaOptions {
+  /**
+   * Definitions to add the imported schemas to. A new `IODefinitions` is
+   * created when omitted.
+   */
+  defs?: IODefinitions;
+
+  /** When true, throws an IOError listing all issues instead of returning them. */
+  strict?: boolean;
+}
+
+export interface FromJSONSchemaResult {
+  definitions: IODefinitions;
+  issues: JSONSchemaIssue[];
+}
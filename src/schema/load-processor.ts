@@ -5,9 +5,11 @@ import ErrorCodes from '../errors/io-error-codes';
 import IOError from '../errors/io-error';
 import ValidationError from '../errors/io-validation-error';
 import Schema from './schema';
+import UnionSchema from './union-schema';
 import MemberDef from './types/memberdef';
 import TypedefRegistry from './typedef-registry';
 import TokenNode from '../parser/nodes/tokens';
+import { ProcessingContext, ProcessingContextOptions } from './processing/processing-context';
 
 /**
  * Resolves variable references in memberDef fields like default, min, max, choices.
@@ -62,6 +64,9 @@ function _resolveMemberDefVariables(memberDef: MemberDef, defs?: Definitions): M
  * @param data - Plain JavaScript object to validate
  * @param schema - Schema to validate against (or schema name if defs provided)
  * @param defs - Optional definitions for variable resolution and schema lookup
+ * @param context - Optional processing context. When provided, member failures
+ *                  are added to it and the (partially) loaded object is returned
+ *                  instead of throwing the first error.
  * @returns InternetObject with validated data
  * @throws ValidationError if data doesn't conform to schema
  *
@@ -75,7 +80,8 @@ function _resolveMemberDefVariables(memberDef: MemberDef, defs?: Definitions): M
 export function loadObject(
   data: any,
   schema: Schema | string,
-  defs?: Definitions
+  defs?: Definitions,
+  context?: ProcessingContext
 ): InternetObject {
   // Resolve schema if it's a string reference
   if (typeof schema === 'string') {
@@ -97,22 +103,33 @@ export function loadObject(
     );
   }
 
-  return _loadObject(data, schema, defs);
+  // A union loads the object with the schema of the branch describing it
+  if (schema instanceof UnionSchema) {
+    schema = schema.schemaOf(schema.selectValue(data, defs), defs);
+  }
+
+  return _loadObject(data, schema, defs, context);
 }
 
 /**
  * Internal helper to loadObject an object with resolved schema
  */
-function _loadObject(data: any, schema: Schema, defs?: Definitions): InternetObject {
+function _loadObject(data: any, schema: Schema, defs?: Definitions, context?: ProcessingContext): InternetObject {
   const result = new InternetObject();
   const processedNames = new Set<string>();
 
+  // Without a context, the first failure is thrown (backward compatible)
+  const handleError = (error: unknown): void => {
+    if (!context || !(error instanceof Error)) throw error;
+    context.addError(error);
+  };
+
   // Process schema-defined members
   for (const name of schema.names) {
     const memberDef = _resolveMemberDefVariables(schema.defs[name], defs);
     const value = data[name];
 
-    const typeDef = TypedefRegistry.get(memberDef.type);
+    const typeDef = TypedefRegistry.get(memberDef.type, defs);
     if (!typeDef) {
       throw new IOError(ErrorCodes.invalidType, `Type '${memberDef.type}' is not registered.`);
     }
@@ -132,7 +149,8 @@ function _loadObject(data: any, schema: Schema, defs?: Definitions): InternetObj
             error.message = `Error in field '${name}': ${error.message}`;
           }
         }
-        throw error;
+        if (error instanceof IOError) error.prependPath(name);
+        handleError(error);
       }
     } else {
       // Fallback for types without loadObject() - use value as-is if present
@@ -141,10 +159,10 @@ function _loadObject(data: any, schema: Schema, defs?: Definitions): InternetObj
       } else if (memberDef.default !== undefined) {
         result.set(name, memberDef.default);
       } else if (!memberDef.optional) {
-        throw new ValidationError(
+        handleError(new ValidationError(
           ErrorCodes.valueRequired,
           `Value required for field '${name}'`
-        );
+        ));
       }
     }
 
@@ -164,11 +182,15 @@ function _loadObject(data: any, schema: Schema, defs?: Definitions): InternetObj
           memberDef = { type: 'any', path: key };
         }
 
-        const typeDef = TypedefRegistry.get(memberDef.type);
+        const typeDef = TypedefRegistry.get(memberDef.type, defs);
         if (typeDef && 'load' in typeDef && typeDef.load) {
-          const loadedValue = typeDef.load(data[key], memberDef, defs);
-          if (loadedValue !== undefined) {
-            result.set(key, loadedValue);
+          try {
+            const loadedValue = typeDef.load(data[key], memberDef, defs);
+            if (loadedValue !== undefined) {
+              result.set(key, loadedValue);
+            }
+          } catch (error) {
+            handleError(error);
           }
         } else {
           result.set(key, data[key]);
@@ -179,10 +201,10 @@ function _loadObject(data: any, schema: Schema, defs?: Definitions): InternetObj
     // Check for unexpected properties in closed schemas
     for (const key in data) {
       if (!processedNames.has(key)) {
-        throw new ValidationError(
+        handleError(new ValidationError(
           ErrorCodes.unknownMember,
           `The ${schema.name ? `${schema.name} ` : ''}schema does not define a member named '${key}'.`
-        );
+        ));
       }
     }
   }
@@ -198,6 +220,8 @@ function _loadObject(data: any, schema: Schema, defs?: Definitions): InternetObj
  * @param schema - Schema to validate each item against
  * @param defs - Optional definitions for variable resolution
  * @param errorCollector - Optional array to collect validation errors
+ * @param contextOptions - Optional processing options. With `exhaustive`, every
+ *                         member failure of an item is collected, not only the first.
  * @returns Collection with validated InternetObjects and error objects
  *
  * @example
@@ -218,7 +242,8 @@ export function loadCollection(
   dataArray: any[],
   schema: Schema | string,
   defs?: Definitions,
-  errorCollector?: Error[]
+  errorCollector?: Error[],
+  contextOptions?: ProcessingContextOptions
 ): Collection<InternetObject> {
   // Resolve schema if it's a string reference
   if (typeof schema === 'string') {
@@ -244,6 +269,23 @@ export function loadCollection(
 
   for (let i = 0; i < dataArray.length; i++) {
     try {
+      if (contextOptions?.exhaustive) {
+        const ctx = new ProcessingContext(contextOptions);
+        const item = loadObject(dataArray[i], schema, defs, ctx);
+        if (ctx.hasErrors()) {
+          const errors = ctx.getErrors();
+          for (const error of errors) {
+            (error as any).collectionIndex = i;
+            errorCollector?.push(error);
+            collection.errors.push(error);
+          }
+          collection.push(_errorObject(errors[0], i, errors.length) as any);
+        } else {
+          collection.push(item);
+        }
+        continue;
+      }
+
       const item = loadObject(dataArray[i], schema, defs);
       collection.push(item);
     } catch (error) {
@@ -261,14 +303,7 @@ export function loadCollection(
 
         // Create error object to maintain collection structure
         // This allows downstream code to know which items failed
-        const errorObj = {
-          __error: true,
-          category: error instanceof ValidationError ? 'validation' : 'runtime',
-          message: error.message,
-          collectionIndex: i
-        };
-
-        collection.push(errorObj as any);
+        collection.push(_errorObject(error, i) as any);
       } else {
         // Re-throw non-Error exceptions
         throw error;
@@ -278,3 +313,20 @@ export function loadCollection(
 
   return collection;
 }
+
+/**
+ * Creates the error object which takes the place of a failed item in a
+ * loaded collection. `errorCount` is recorded when more than one member failed.
+ */
+function _errorObject(error: Error, collectionIndex: number, errorCount: number = 1) {
+  const errorObj: any = {
+    __error: true,
+    category: error instanceof ValidationError ? 'validation' : 'runtime',
+    message: error.message,
+    collectionIndex
+  };
+  if (errorCount > 1) {
+    errorObj.errorCount = errorCount;
+  }
+  return errorObj;
+}
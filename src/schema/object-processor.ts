@@ -8,6 +8,7 @@ import ObjectNode         from '../parser/nodes/objects';
 import TokenNode          from '../parser/nodes/tokens';
 import assertNever        from '../errors/asserts/asserts';
 import Schema             from './schema';
+import UnionSchema        from './union-schema';
 import MemberDef          from './types/memberdef';
 import { processMember }  from './processing/member-processor';
 import { ProcessingContext } from './processing/processing-context';
@@ -74,6 +75,11 @@ export default function processObject(
     assertNever("Invalid schema type");
   }
 
+  // A union processes the object with the schema of the branch describing it
+  if (schema instanceof UnionSchema) {
+    schema = schema.schemaOf(schema.selectNode(data, defs), defs);
+  }
+
   return _processObject(data, schema as Schema, defs, collectionIndex, context);
 }
 
@@ -97,6 +103,13 @@ function _processObject(
     ctx.addError(error);
   };
 
+  // Helper for member failures which abort the object unless the context
+  // is exhaustive, in which case they are collected like validation errors.
+  const handleMemberFailure = (error: Error): void => {
+    if (!ctx.exhaustive) throw error;
+    ctx.addError(error);
+  };
+
   // Helper to collect errors from nested InternetObjects
   const collectNestedErrors = (val: any): void => {
     if (val instanceof InternetObject && val.errors.length > 0) {
@@ -116,7 +129,7 @@ function _processObject(
       // Create a synthetic member with the entire data ObjectNode as its value
       const syntheticMember = { key: null, value: data } as any;
       try {
-        const val = processMember(syntheticMember, memberDef, defs);
+        const val = processMember(syntheticMember, memberDef, defs, ctx);
         // Collect errors from nested InternetObjects
         collectNestedErrors(val);
         if (val !== undefined) o.set(name, val);
@@ -149,7 +162,7 @@ function _processObject(
       }
 
       try {
-        const val = processMember(member, memberDef, defs);
+        const val = processMember(member, memberDef, defs, ctx);
         // Collect errors from nested InternetObjects
         collectNestedErrors(val);
         // Only mark as processed if we actually obtained a value (or a default was applied)
@@ -180,7 +193,7 @@ function _processObject(
       } else {
         try {
           const dummyMember = { key: null, value: undefined } as any;
-          const val = processMember(dummyMember, memberDef, defs);
+          const val = processMember(dummyMember, memberDef, defs, ctx);
           // Collect errors from nested InternetObjects
           collectNestedErrors(val);
           if (val !== undefined) {
@@ -205,8 +218,16 @@ function _processObject(
     for (; i<data.children.length; i++) {
       const member = data.children[i] as MemberNode;
       if (!schema.open) {
+        // In exhaustive mode, keyed members are reported as unknown members
+        // by the keyed loop below, which names them individually.
+        if (member.key && ctx.exhaustive) {
+          positional = false;
+          break;
+        }
         // This is a syntax error, not a validation error - throw immediately
-        throw new SyntaxError(ErrorCodes.additionalValuesNotAllowed, `Additional values are not allowed in the ${schema.name}. The ${schema.name} schema is not open.`, member.value);
+        // (collected in exhaustive mode)
+        handleMemberFailure(new SyntaxError(ErrorCodes.additionalValuesNotAllowed, `Additional values are not allowed in the ${schema.name}. The ${schema.name} schema is not open.`, member.value));
+        continue;
       }
       if (member.key) {
         positional = false;
@@ -232,16 +253,18 @@ function _processObject(
     let memberDef = _resolveMemberDefVariables(schema.defs[name], defs);
 
     if (processedNames.has(name)) {
-      // Syntax error - throw immediately
-      throw new SyntaxError(ErrorCodes.duplicateMember, `Member ${name} is already defined.`, member);
+      // Syntax error - throw immediately (collected in exhaustive mode)
+      handleMemberFailure(new SyntaxError(ErrorCodes.duplicateMember, `Member ${name} is already defined.`, member));
+      continue;
     }
 
     // When the member is not found check if the schema is open to allow
     // additional properties. If not throw an error.
     if (!memberDef && !schema.open) {
-      // Syntax error - throw immediately
-      throw new SyntaxError(
-        ErrorCodes.unknownMember, `The ${schema.name ? `${schema.name} ` : ''}schema does not define a member named '${name}'.`, member.key)
+      // Syntax error - throw immediately (collected in exhaustive mode)
+      handleMemberFailure(new SyntaxError(
+        ErrorCodes.unknownMember, `The ${schema.name ? `${schema.name} ` : ''}schema does not define a member named '${name}'.`, member.key));
+      continue;
     }
 
     // In an open schema, the memberDef is not found. Use schema.open constraints if available, else type 'any'.
@@ -255,7 +278,7 @@ function _processObject(
 
     processedNames.add(name);
     try {
-      const val = processMember(member, memberDef, defs);
+      const val = processMember(member, memberDef, defs, ctx);
       // Collect errors from nested InternetObjects
       collectNestedErrors(val);
       o.set(name, val);
@@ -281,7 +304,7 @@ function _processObject(
       const member = data.children.find((m) => (m as any).key?.value === name)
 
       try {
-        const val = processMember(member as any, memberDef, defs);
+        const val = processMember(member as any, memberDef, defs, ctx);
         // Collect errors from nested InternetObjects
         collectNestedErrors(val);
         if (val !== undefined) {
@@ -313,7 +336,7 @@ function _processObject(
         memberDef = { type: 'any', path: name };
       }
       try {
-        const val = processMember(memberNode, memberDef, defs);
+        const val = processMember(memberNode, memberDef, defs, ctx);
         // Collect errors from nested InternetObjects
         collectNestedErrors(val);
         o.set(name, val);
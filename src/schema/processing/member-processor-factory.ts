@@ -5,12 +5,12 @@ import MemberDef from '../types/memberdef';
 
 export class MemberProcessorFactory {
   static process(member: MemberNode, memberDef: MemberDef, defs?: Definitions): any {
-    const processor = this.getProcessor(memberDef.type);
+    const processor = this.getProcessor(memberDef.type, defs);
     return processor.process(member, memberDef, defs);
   }
 
-  private static getProcessor(type: string): MemberProcessor {
-    const typeDef = TypedefRegistry.get(type);
+  private static getProcessor(type: string, defs?: Definitions): MemberProcessor {
+    const typeDef = TypedefRegistry.get(type, defs);
     return new StandardMemberProcessor(typeDef);
   }
 }
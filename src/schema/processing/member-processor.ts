@@ -4,12 +4,13 @@ import TypedefRegistry  from '../typedef-registry';
 import MemberDef        from '../types/memberdef';
 import IOError          from '../../errors/io-error';
 import ErrorCodes       from '../../errors/io-error-codes';
+import { ProcessingContext } from './processing-context';
 
-export function processMember(member: MemberNode, memberDef: MemberDef, defs?: IODefinitions): any {
-  const typeDef = TypedefRegistry.get(memberDef.type);
+export function processMember(member: MemberNode, memberDef: MemberDef, defs?: IODefinitions, context?: ProcessingContext): any {
+  const typeDef = TypedefRegistry.get(memberDef.type, defs);
   if (!typeDef) {
     throw new IOError(ErrorCodes.invalidType, `Type '${memberDef.type}' is not registered.`);
   }
   let valueNode = member?.value;
-  return typeDef.parse(valueNode, memberDef, defs);
+  return typeDef.parse(valueNode, memberDef, defs, context);
 }
@@ -13,6 +13,14 @@ export interface ProcessingContextOptions {
    * Default: false
    */
   strictMode?: boolean;
+
+  /**
+   * If true, member failures which normally abort the object (unknown
+   * members, duplicate members and additional values in a closed schema)
+   * are collected as well, so every failing member of an object is reported.
+   * Default: false
+   */
+  exhaustive?: boolean;
 }
 
 /**
@@ -28,6 +36,7 @@ export class ProcessingContext {
     this._options = {
       collectAllErrors: true,
       strictMode: false,
+      exhaustive: false,
       ...options
     };
   }
@@ -46,6 +55,13 @@ export class ProcessingContext {
     return this._options.strictMode ?? false;
   }
 
+  /**
+   * Whether member-level failures are collected instead of aborting the object
+   */
+  get exhaustive(): boolean {
+    return this._options.exhaustive ?? false;
+  }
+
   /**
    * Adds an error to the collection
    */
@@ -6,7 +6,7 @@ import ObjectNode from '../parser/nodes/objects';
 import TokenNode from '../parser/nodes/tokens';
 import processObject from './object-processor';
 import processCollection from './processing/collection-processor';
-import { ProcessingContext } from './processing/processing-context';
+import { ProcessingContext, ProcessingContextOptions } from './processing/processing-context';
 import Schema from './schema';
 import { ValidationUtils } from './utils/validation-utils';
 
@@ -18,7 +18,8 @@ export default function processSchema(
   data: ProcessableData,
   schema: SchemaType,
   defs?: Definitions,
-  errorCollector?: Error[]
+  errorCollector?: Error[],
+  contextOptions?: ProcessingContextOptions
 ): ProcessResult {
   // Early return for null data
   if (data === null) {
@@ -30,6 +31,18 @@ export default function processSchema(
 
   // Route to appropriate processor
   if (validData instanceof ObjectNode) {
+    // In exhaustive mode, the object keeps all of its errors and is returned
+    // instead of throwing the first one.
+    if (contextOptions?.exhaustive) {
+      const ctx = new ProcessingContext(contextOptions);
+      const result = processObject(validData, validSchema, defs, void 0, ctx);
+      if (ctx.hasErrors()) {
+        result.errors.push(...ctx.getErrors());
+        errorCollector?.push(...ctx.getErrors());
+      }
+      return result;
+    }
+
     // For single objects, create a context if errorCollector is provided
     if (errorCollector) {
       const ctx = new ProcessingContext();
@@ -44,5 +57,5 @@ export default function processSchema(
   }
 
   // Must be CollectionNode at this point due to validation
-  return processCollection(validData as CollectionNode, validSchema, defs, errorCollector);
+  return processCollection(validData as CollectionNode, validSchema, defs, errorCollector, contextOptions);
 }
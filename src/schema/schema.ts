@@ -2,8 +2,21 @@ import IOError from '../errors/io-error'
 import ErrorCodes from '../errors/io-error-codes'
 import MemberDef from "./types/memberdef";
 import { MemberMap } from "./schema-types";
+import type { MemberShape, Simplify, TypedMemberDef } from "./typescript/infer-type";
+
+/**
+ * @template T The object type of the values the schema describes. It is
+ *   inferred when the schema is built with `IOSchema.create()`, and stays
+ *   `any` for schemas compiled from IO text.
+ */
+export default class IOSchema<T = any> {
+  /**
+   * Carries the object type of the schema at compile time only; it is never
+   * assigned at runtime.
+   */
+  declare readonly __type?: T;
+
 
-export default class IOSchema {
   /** Name of the schema */
   public name: string;
 
@@ -64,7 +77,10 @@ export default class IOSchema {
     return this.names.length;
   }
 
-  /** Builder entry for new, immutable-style construction while keeping runtime mutability */
+  /**
+   * Builder entry for new, immutable-style construction while keeping runtime mutability.
+   * The members added to the builder make up the static type of the built schema.
+   */
   static create(name: string): SchemaBuilder {
     return new SchemaBuilder(name);
   }
@@ -75,29 +91,33 @@ export default class IOSchema {
   }
 }
 
-export class SchemaBuilder {
+export class SchemaBuilder<T extends object = {}> {
   private names: string[] = [];
   private defs: MemberMap = {};
   private isOpen: boolean | MemberDef = false;
 
   constructor(private name: string) {}
 
-  addMember(name: string, def: MemberDef): this {
+  addMember<const K extends string, const D extends TypedMemberDef>(
+    name: K, def: D
+  ): SchemaBuilder<Simplify<T & MemberShape<K, D>>> {
     if (this.defs[name]) {
       throw new IOError(ErrorCodes.duplicateMember, `Member '${name}' already exists in schema '${this.name}'`);
     }
     this.names.push(name);
-    this.defs[name] = { ...def, path: def.path || name };
-    return this;
+    this.defs[name] = { ...def, path: def.path || name } as MemberDef;
+    return this as SchemaBuilder<any>;
   }
 
-  setOpen(open: boolean | MemberDef): this {
-    this.isOpen = open;
-    return this;
+  setOpen<const O extends boolean | TypedMemberDef>(
+    open: O
+  ): SchemaBuilder<O extends false ? T : T & { [key: string]: unknown }> {
+    this.isOpen = open as boolean | MemberDef;
+    return this as SchemaBuilder<any>;
   }
 
-  build(): IOSchema {
-    const schema = new IOSchema(this.name);
+  build(): IOSchema<T> {
+    const schema = new IOSchema<T>(this.name);
     // Populate mutable structure to keep backward compatibility
     for (const n of this.names) {
       schema.names.push(n);
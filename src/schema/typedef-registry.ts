@@ -1,11 +1,8 @@
+import type Definitions   from '../core/definitions';
 import InternetObjectError  from '../errors/io-error';
 import ErrorCodes           from '../errors/io-error-codes';
 import TypeDef              from './typedef';
-
-interface TypeDefConstructor {
-  new(type: string): TypeDef;
-  types: string[];
-}
+import { TypeDefConstructor } from './typedef-scope';
 
 export default class TypedefRegistry {
   private static readonly typeDefMap = new Map<string, TypeDef>();
@@ -40,7 +37,9 @@ export default class TypedefRegistry {
         this.typeNames.add(type);
       }
     }
-  }  /**
+  }
+
+  /**
    * Unregisters the specified type from the registry.
    * @param type The type name to unregister
    */
@@ -59,12 +58,15 @@ export default class TypedefRegistry {
   }
 
   /**
-   * Returns the associated TypeDef object for the specified type.
+   * Returns the associated TypeDef object for the specified type. When the
+   * definitions carry a scoped registry (see `IODefinitions.registerType`),
+   * it is consulted before the global registry.
    * @param type The registered type name
+   * @param defs Optional definitions whose scoped types take precedence
    * @throws {InternetObjectError} When the type is not registered
    */
-  public static get(type: string): TypeDef {
-    const typeDef = this.typeDefMap.get(type);
+  public static get(type: string, defs?: Definitions | null): TypeDef {
+    const typeDef = defs?.typeDefs?.get(type) ?? this.typeDefMap.get(type);
     if (!typeDef) {
       throw new InternetObjectError(ErrorCodes.invalidType, `Type '${type}' is not registered`);
     }
@@ -72,11 +74,13 @@ export default class TypedefRegistry {
   }
 
   /**
-   * Checks if the specified type is registered.
+   * Checks if the specified type is registered, either globally or in the
+   * scoped registry of the provided definitions.
    * @param typeName The type name to check
+   * @param defs Optional definitions whose scoped types are also considered
    */
-  public static isRegisteredType(typeName: string): boolean {
-    return this.typeDefMap.has(typeName);
+  public static isRegisteredType(typeName: string, defs?: Definitions | null): boolean {
+    return this.typeDefMap.has(typeName) || !!defs?.typeDefs?.has(typeName);
   }
 
   /**
@@ -85,7 +89,7 @@ export default class TypedefRegistry {
   public static clear(): void {
     this.typeDefMap.clear();
     this.typeNames.clear();
-  this.warnedDuplicateTypes.clear();
+    this.warnedDuplicateTypes.clear();
   }
 
   /**
@@ -0,0 +1,116 @@
+import InternetObjectError  from '../errors/io-error';
+import ErrorCodes           from '../errors/io-error-codes';
+import TypeDef              from './typedef';
+
+/**
+ * Describes a TypeDef class that can be registered with the
+ * `TypedefRegistry` or a `TypedefScope`. The static `types` array lists the
+ * type names handled by the class; one instance is created per type name by
+ * calling the constructor with that name.
+ *
+ * @example
+ * ```typescript
+ * class UuidDef implements TypeDef {
+ *   static get types() { return ['uuid'] }
+ *   constructor(private _type: string) {}
+ *   get type() { return this._type }
+ *   get schema() { return uuidSchema }
+ *   parse(node, memberDef, defs) { ... }
+ *   load(value, memberDef, defs) { ... }
+ *   stringify(value, memberDef, defs) { ... }
+ * }
+ * ```
+ */
+export interface TypeDefConstructor {
+  new(type: string): TypeDef;
+  types: readonly string[];
+}
+
+/**
+ * A TypedefScope is a local, instance-level registry of custom types. It is
+ * attached to an `IODefinitions` object so that types registered by one
+ * library do not leak into (or clash with) the types of another library in
+ * the same process. Lookups through `TypedefRegistry.get(type, defs)` consult
+ * the scope first, then fall back to the global registry.
+ *
+ * Unlike the global registry, a scope may shadow a built-in type name.
+ */
+export default class TypedefScope {
+  private readonly typeDefMap = new Map<string, TypeDef>();
+
+  /**
+   * Registers TypeDef constructors for all the types they declare. When a
+   * type is already registered in this scope, it is replaced.
+   * @param typeDefConstructors The TypeDef constructor classes
+   */
+  public register(...typeDefConstructors: TypeDefConstructor[]): this {
+    for (const Constructor of typeDefConstructors) {
+      if (!Constructor || !Array.isArray(Constructor.types) || Constructor.types.length === 0) {
+        throw new InternetObjectError(ErrorCodes.invalidType,
+          `A TypeDef constructor must declare at least one type name in its static 'types' array.`);
+      }
+
+      for (const type of Constructor.types) {
+        if (typeof type !== 'string' || type === '' || type.startsWith('$') || type.startsWith('@')) {
+          throw new InternetObjectError(ErrorCodes.invalidType,
+            `The type name '${type}' is not valid. Type names must not be empty or start with '$' or '@'.`);
+        }
+        this.typeDefMap.set(type, new Constructor(type));
+      }
+    }
+    return this;
+  }
+
+  /**
+   * Unregisters the specified type from the scope.
+   * @param type The type name to unregister
+   * @returns True if the type was registered and has been removed
+   */
+  public unregister(type: string): boolean {
+    return this.typeDefMap.delete(type);
+  }
+
+  /**
+   * Returns the TypeDef registered in this scope for the type, or undefined.
+   * @param type The type name
+   */
+  public get(type: string): TypeDef | undefined {
+    return this.typeDefMap.get(type);
+  }
+
+  /**
+   * Checks if the specified type is registered in this scope.
+   * @param type The type name to check
+   */
+  public has(type: string): boolean {
+    return this.typeDefMap.has(type);
+  }
+
+  /**
+   * Copies the registrations of another scope into this one.
+   * @param other     The scope to copy from
+   * @param override  If true, types of the other scope replace the existing ones
+   */
+  public merge(other: TypedefScope, override: boolean = false): this {
+    for (const [type, typeDef] of other.typeDefMap) {
+      if (override || !this.typeDefMap.has(type)) {
+        this.typeDefMap.set(type, typeDef);
+      }
+    }
+    return this;
+  }
+
+  /**
+   * Gets the array of type names registered in this scope.
+   */
+  public get types(): readonly string[] {
+    return Object.freeze(Array.from(this.typeDefMap.keys()));
+  }
+
+  /**
+   * Gets the count of types registered in this scope.
+   */
+  public get count(): number {
+    return this.typeDefMap.size;
+  }
+}
@@ -2,6 +2,7 @@ import Node               from '../parser/nodes/nodes'
 import Definitions        from '../core/definitions'
 import Schema             from './schema'
 import MemberDef          from './types/memberdef'
+import { ProcessingContext } from './processing/processing-context'
 
 /**
  * Defines the SchemaValidator interface.
@@ -20,9 +21,11 @@ export default interface TypeDef {
 
   /**
    * Validates and parses the value as per the memberDef and returns the results
-   * specifying whether the value adhers to the schema or not!
+   * specifying whether the value adhers to the schema or not! The context of
+   * the object being processed, if any, lets nested objects collect their
+   * failures in it.
    */
-  parse(node: Node, memberDef: MemberDef, definitions?: Definitions): any
+  parse(node: Node, memberDef: MemberDef, definitions?: Definitions, context?: ProcessingContext): any
 
   /** Load: JS Value → Validated JS Value (optional until all types adopt) */
   load?(value: any, memberDef: MemberDef, definitions?: Definitions): any
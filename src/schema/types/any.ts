@@ -1,4 +1,7 @@
 import Definitions            from '../../core/definitions';
+import { TemporalValue }      from '../../core/temporal';
+import { IODuration }         from '../../core/duration';
+import { IOMoney }            from '../../core/money';
 import ErrorCodes             from '../../errors/io-error-codes';
 import InternetObjectError    from '../../errors/io-error';
 import ValidationError        from '../../errors/io-validation-error';
@@ -8,6 +11,8 @@ import { getMemberDef       } from '../../schema/compile-object';
 import Schema                 from '../../schema/schema';
 import TypeDef                from '../../schema/typedef';
 import TypedefRegistry        from '../../schema/typedef-registry';
+import UnionSchema            from '../../schema/union-schema';
+import { bytesToIOString }    from '../../utils/bytes';
 import doCommonTypeCheck      from './common-type';
 import MemberDef              from './memberdef';
 
@@ -19,6 +24,8 @@ const schema = new Schema(
   { default:  { type: "any",    optional: true,  null: true } },
   { choices:  { type: "array",  optional: true,  null: false } },
   { anyOf:    { type: "array",  optional: true,  null: false, of } },
+  { oneOf:    { type: "array",  optional: true,  null: false, of } },
+  { discriminator: { type: "string", optional: true, null: false } },
   { isSchema: { type: "bool",   optional: true,  null: false, default: false } },
   { optional: { type: "bool",   optional: true } },
   { null:     { type: "bool",   optional: true } },
@@ -34,6 +41,11 @@ export default class AnyDef implements TypeDef {
     const { value, changed } = doCommonTypeCheck(memberDef, valueNode, node, defs)
     if (changed) return value
 
+    if (memberDef.oneOf) {
+      const def = this._union(memberDef).selectNode(node, defs)
+      return TypedefRegistry.get(def.type, defs).parse(node, { ...def, path: memberDef.path }, defs)
+    }
+
     const anyOf = memberDef.anyOf;
     if (!anyOf) {
       if (memberDef.__memberdef) { // Convert to memberDef
@@ -50,7 +62,7 @@ export default class AnyDef implements TypeDef {
       const def = anyOf[i]
       def.path = memberDef.path
 
-      const typeDef = TypedefRegistry.get(def.type)
+      const typeDef = TypedefRegistry.get(def.type, defs)
       if (!typeDef) {
         throw new InternetObjectError(ErrorCodes.invalidType, `Invalid type definition '${def.type}'`)
       }
@@ -78,6 +90,11 @@ export default class AnyDef implements TypeDef {
     const { value: checkedValue, changed } = doCommonTypeCheck(memberDef, value, undefined, defs)
     if (changed) return checkedValue
 
+    if (memberDef.oneOf) {
+      const def = this._union(memberDef).selectValue(value, defs)
+      return TypedefRegistry.get(def.type, defs).load!(value, { ...def, path: memberDef.path }, defs)
+    }
+
     const anyOf = memberDef.anyOf
     if (!anyOf) {
       // No constraints - accept any value
@@ -88,7 +105,7 @@ export default class AnyDef implements TypeDef {
     const errors: Error[] = []
     for (const def of anyOf) {
       const defWithPath = { ...def, path: memberDef.path }
-      const typeDef = TypedefRegistry.get(def.type)
+      const typeDef = TypedefRegistry.get(def.type, defs)
 
       if (!typeDef) {
         throw new InternetObjectError(ErrorCodes.invalidType, `Invalid type definition '${def.type}'`)
@@ -136,12 +153,17 @@ export default class AnyDef implements TypeDef {
     if (value === null) return 'N'
     if (value === undefined) return undefined  // Skip this field entirely
 
+    if (memberDef.oneOf) {
+      const def = this._union(memberDef).selectValue(value, defs)
+      return TypedefRegistry.get(def.type, defs).stringify!(value, { ...def, path: memberDef.path }, defs)
+    }
+
     // If anyOf is specified, try to find a matching type
     const anyOf = memberDef.anyOf
     if (anyOf) {
       for (const def of anyOf) {
         const defWithPath = { ...def, path: memberDef.path }
-        const typeDef = TypedefRegistry.get(def.type)
+        const typeDef = TypedefRegistry.get(def.type, defs)
 
         if (!typeDef) continue
 
@@ -163,6 +185,13 @@ export default class AnyDef implements TypeDef {
     return this._stringifyByInference(value, memberDef.path || '', defs)
   }
 
+  /**
+   * The union of the oneOf branches, which selects the branch of a value
+   */
+  private _union(memberDef: MemberDef): UnionSchema {
+    return new UnionSchema(memberDef.path || '', memberDef.oneOf, memberDef.discriminator)
+  }
+
   /**
    * Stringify by inferring the type from the value
    * Note: This is only called for non-null/non-undefined values, so inner
@@ -205,6 +234,12 @@ export default class AnyDef implements TypeDef {
       return value
     }
 
+    // Preserved datetime, date and time values, as written, durations and money
+    if (value instanceof TemporalValue || value instanceof IODuration || value instanceof IOMoney) return value.toIOString()
+
+    // Binary values (a Node Buffer included), in base64
+    if (value instanceof Uint8Array) return bytesToIOString(value)
+
     // Date - infer date/time/datetime based on components
     if (value instanceof Date) {
       const inferredType = this._inferDateTimeType(value)
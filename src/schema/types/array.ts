@@ -1,5 +1,6 @@
 import Definitions            from '../../core/definitions'
 import assertNever            from '../../errors/asserts/asserts'
+import IOError                from '../../errors/io-error'
 import ErrorCodes             from '../../errors/io-error-codes'
 import ValidationError        from '../../errors/io-validation-error'
 import ArrayNode              from '../../parser/nodes/array'
@@ -54,7 +55,7 @@ class ArrayDef implements TypeDef {
       arrayMemberDef.schema = memberDef.of
       arrayMemberDef.path = memberDef.path
     } else if (memberDef.of?.type) {
-      typeDef = TypedefRegistry.get(memberDef.of.type)
+      typeDef = TypedefRegistry.get(memberDef.of.type, defs)
       if (!typeDef) {
         throw new ValidationError(
           ErrorCodes.invalidType,
@@ -75,7 +76,12 @@ class ArrayDef implements TypeDef {
       const itemMemberDef = { ...arrayMemberDef, path: itemPath }
 
       if (typeDef && 'load' in typeDef && typeof typeDef.load === 'function') {
-        result.push(typeDef.load(item, itemMemberDef, defs))
+        try {
+          result.push(typeDef.load(item, itemMemberDef, defs))
+        } catch (error) {
+          if (error instanceof IOError) error.prependPath(i)
+          throw error
+        }
       } else if (typeDef) {
         // Fallback: no load method, just push the value
         result.push(item)
@@ -122,7 +128,7 @@ class ArrayDef implements TypeDef {
       arrayMemberDef.schema = memberDef.of
       arrayMemberDef.path = memberDef.path
     } else if (memberDef.of?.type) {
-      typeDef = TypedefRegistry.get(memberDef.of.type)
+      typeDef = TypedefRegistry.get(memberDef.of.type, defs)
       arrayMemberDef = { ...memberDef.of }
       arrayMemberDef.path = memberDef.path
     } else if (memberDef.schemaRef && defs) {
@@ -177,7 +183,7 @@ function _processNode(node: Node, memberDef: MemberDef, defs?: Definitions) {
     arrayMemberDef.schema = memberDef.of
     arrayMemberDef.path = memberDef.path
   } else if (memberDef.of?.type) {
-    typeDef = TypedefRegistry.get(memberDef.of.type)
+    typeDef = TypedefRegistry.get(memberDef.of.type, defs)
     if (!typeDef) {
       throw new ValidationError(ErrorCodes.invalidType, `Invalid type definition '${memberDef.of.type}'`, node)
     }
@@ -0,0 +1,117 @@
+import Definitions            from '../../core/definitions';
+import ErrorCodes             from '../../errors/io-error-codes';
+import ValidationError        from '../../errors/io-validation-error';
+import ErrorNode              from '../../parser/nodes/error';
+import Node                   from '../../parser/nodes/nodes';
+import TokenNode              from '../../parser/nodes/tokens';
+import Schema                 from '../../schema/schema';
+import TypeDef                from '../../schema/typedef';
+import TokenType              from '../../parser/tokenizer/token-types';
+import { BINARY_ENCODINGS, BinaryEncoding, bytesToIOString, decodeBytes, encodeBytes, toBytes } from '../../utils/bytes';
+import doCommonTypeCheck      from './common-type';
+import MemberDef              from './memberdef';
+
+const BINARY_TYPES = ['binary', 'bytes']
+
+const schema = new Schema(
+  "binary",
+  { type:     { type: "string", optional: false, null: false, choices: BINARY_TYPES } },
+  { default:  { type: "binary", optional: true,  null: false } },
+  { len:      { type: "number", optional: true,  null: false, min: 0 } },
+  { minLen:   { type: "number", optional: true,  null: false, min: 0 } },
+  { maxLen:   { type: "number", optional: true,  null: false, min: 0 } },
+  { encoding: { type: "string", optional: true,  null: false, choices: [...BINARY_ENCODINGS] } },
+  { optional: { type: "bool",   optional: true } },
+  { null:     { type: "bool",   optional: true } }
+)
+
+/**
+ * Reads the binary values written as `b"..."` (base64 or base64url) or
+ * `hex"..."` into `Uint8Array` values. `len`, `minLen` and `maxLen` count
+ * bytes, and `encoding` picks the text `stringify` writes: `base64` (the
+ * default), `base64url` or `hex`. In JSON, the values are strings of the
+ * encoding, the ones `load` accepts.
+ */
+class BinaryDef implements TypeDef {
+  #type: string
+
+  public get type() { return this.#type }
+  public get schema() { return schema }
+
+  public constructor(type: string = 'binary') { this.#type = type }
+
+  parse(node: Node, memberDef: MemberDef, defs?: Definitions): Uint8Array {
+    const valueNode = defs?.getV(node) || node
+    const { value, changed } = doCommonTypeCheck(memberDef, valueNode, node, defs)
+    if (changed) return value instanceof Uint8Array ? this.#withJSON(value, memberDef) : value
+
+    // A malformed b"..." or hex"..." is read as an error node, which carries
+    // the tokenizer's invalid-base64 or invalid-hex error
+    if (valueNode instanceof ErrorNode) throw valueNode.error
+
+    if (valueNode.type !== TokenType.BINARY) {
+      throw new ValidationError(ErrorCodes.invalidType, `Expecting a BINARY value for ${memberDef.path}, currently ${valueNode.value}, a ${valueNode.type} value`, node as TokenNode)
+    }
+
+    const bytes = toBytes(value)!
+    this.#validate(bytes, memberDef, node)
+
+    return this.#withJSON(bytes, memberDef)
+  }
+
+  load(value: any, memberDef: MemberDef, defs?: Definitions): Uint8Array {
+    const { value: checkedValue, changed } = doCommonTypeCheck(memberDef, value, undefined, defs)
+    if (changed) return checkedValue instanceof Uint8Array ? this.#withJSON(checkedValue, memberDef) : checkedValue
+
+    // Bytes travel as text in JSON, in the member's encoding
+    const encoding: BinaryEncoding = memberDef.encoding ?? 'base64'
+    const bytes = typeof value === 'string' ? decodeBytes(value, encoding) : toBytes(value)
+    if (!bytes) {
+      throw new ValidationError(
+        ErrorCodes.invalidType,
+        `Expecting a Uint8Array, an ArrayBuffer or a ${encoding} string for '${memberDef.path}', got ${typeof value === 'string' ? 'an invalid string' : typeof value}`
+      )
+    }
+
+    this.#validate(bytes, memberDef)
+
+    return this.#withJSON(bytes, memberDef)
+  }
+
+  public stringify(value: Uint8Array | ArrayBuffer, memberDef: MemberDef): string {
+    return bytesToIOString(toBytes(value)!, memberDef.encoding ?? 'base64')
+  }
+
+  /**
+   * Returns a view of the bytes, sharing their memory, whose `toJSON()` gives
+   * their text in the member's encoding, as dates and decimals have text
+   * forms in JSON. The given array itself is left untouched.
+   */
+  #withJSON(bytes: Uint8Array, memberDef: MemberDef): Uint8Array {
+    const encoding: BinaryEncoding = memberDef.encoding ?? 'base64'
+    const view = new Uint8Array(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+    Object.defineProperty(view, 'toJSON', { value: () => encodeBytes(view, encoding) })
+    return view
+  }
+
+  #validate(bytes: Uint8Array, memberDef: MemberDef, node?: Node) {
+    const { len, minLen, maxLen } = memberDef
+    const path = memberDef.path ? `'${memberDef.path}'` : 'the value'
+
+    if (len !== undefined && bytes.length !== len) {
+      throw new ValidationError(ErrorCodes.invalidLength, `Expecting ${path} to be ${len} bytes long, currently ${bytes.length}`, node)
+    }
+
+    if (minLen !== undefined && bytes.length < minLen) {
+      throw new ValidationError(ErrorCodes.invalidMinLength, `Expecting ${path} to be at least ${minLen} bytes long, currently ${bytes.length}`, node)
+    }
+
+    if (maxLen !== undefined && bytes.length > maxLen) {
+      throw new ValidationError(ErrorCodes.invalidMaxLength, `Expecting ${path} to be at most ${maxLen} bytes long, currently ${bytes.length}`, node)
+    }
+  }
+
+  public static get types() { return BINARY_TYPES }
+}
+
+export default BinaryDef
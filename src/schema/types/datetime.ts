@@ -1,4 +1,5 @@
 import Definitions            from '../../core/definitions';
+import { IODate, IODateTime, IOTime, TemporalValue } from '../../core/temporal';
 import ErrorCodes             from '../../errors/io-error-codes';
 import ValidationError        from '../../errors/io-validation-error';
 import Node                   from '../../parser/nodes/nodes';
@@ -19,10 +20,16 @@ const schema = new Schema(
   { choices:  { type: "array",    optional: true,  null: false, of: { type: "datetime" } } },
   { min:      { type: "datetime", optional: true,  null: false } },
   { max:      { type: "datetime", optional: true,  null: false } },
+  { preserve: { type: "bool",     optional: true } },
   { optional: { type: "bool",     optional: true } },
   { null:     { type: "bool",     optional: true } }
 )
 
+/**
+ * Parses the datetime, date and time values into `Date` objects, or, when
+ * the member is defined with `preserve: true`, into `IODateTime`, `IODate`
+ * and `IOTime` values which keep the text they were written with.
+ */
 class DateTimeDef implements TypeDef {
   #type: string
 
@@ -31,27 +38,34 @@ class DateTimeDef implements TypeDef {
 
   public constructor(type: string = 'datetime') { this.#type = type }
 
-  parse(node: Node, memberDef: MemberDef, defs?: Definitions): Date {
+  parse(node: Node, memberDef: MemberDef, defs?: Definitions): any {
     const valueNode = defs?.getV(node) || node
+
     const { value, changed } = doCommonTypeCheck(memberDef, valueNode, node, defs, this.#dateTimeEqualityComparator)
-    if (changed) return value
+    if (changed) return memberDef.preserve ? this.#toTemporal(value, memberDef) : value
 
     if (valueNode.type !== TokenType.DATETIME) {
       throw new ValidationError(ErrorCodes.invalidDateTime, `Expecting a ${memberDef.type.toUpperCase()} value for ${memberDef.path}, currently ${valueNode.value}, a ${valueNode.type} value`, node as TokenNode)
     }
 
+    // The preserved value is read again from the text of the token
+    const parsed = memberDef.preserve
+      ? this.#parseTemporal(_literalText(valueNode as TokenNode), memberDef, node)
+      : value
+
     // Validate the value
-    this.#validate(value, memberDef, node, defs)
+    this.#validate(parsed, memberDef, node, defs)
 
-    return value
+    return parsed
   }
 
-  load(value: any, memberDef: MemberDef, defs?: Definitions): Date {
+  load(value: any, memberDef: MemberDef, defs?: Definitions): any {
     const { value: checkedValue, changed } = doCommonTypeCheck(memberDef, value, undefined, defs, this.#dateTimeEqualityComparator)
-    if (changed) return checkedValue
+    if (changed) return memberDef.preserve ? this.#toTemporal(checkedValue, memberDef) : checkedValue
 
-    // Type validation - must be a Date object
-    if (!(value instanceof Date)) {
+    // Type validation - must be a Date object, or a value of the type
+    const isTemporal = value instanceof TemporalValue && value.kind === memberDef.type
+    if (!(value instanceof Date) && !isTemporal) {
       throw new ValidationError(
         ErrorCodes.invalidType,
         `Expecting a Date object for '${memberDef.path}', got ${typeof value}`
@@ -61,18 +75,40 @@ class DateTimeDef implements TypeDef {
     // Validate constraints
     this.#validate(value, memberDef, undefined, defs)
 
-    return value
+    if (memberDef.preserve) return this.#toTemporal(value, memberDef)
+    return isTemporal ? value.toDate() : value
   }
 
-  public stringify(value: Date): string {
+  public stringify(value: Date | TemporalValue): string {
+    if (value instanceof TemporalValue) return value.toIOString()
     return dt.dateToIOString(value, this.#type as any)
   }
 
+  #parseTemporal(text: string, memberDef: MemberDef, node?: Node): TemporalValue {
+    const parsed = memberDef.type === 'date' ? IODate.parse(text)
+      : memberDef.type === 'time' ? IOTime.parse(text)
+      : IODateTime.parse(text)
+
+    if (!parsed) {
+      throw new ValidationError(ErrorCodes.invalidDateTime, `Expecting a ${memberDef.type.toUpperCase()} value for ${memberDef.path}, currently '${text}'`, node)
+    }
+    return parsed
+  }
+
+  // Defaults, and Dates given to load(), become values of the type
+  #toTemporal = (value: any, memberDef: MemberDef): any => {
+    if (!(value instanceof Date)) return value
+    return memberDef.type === 'date' ? IODate.fromDate(value)
+      : memberDef.type === 'time' ? IOTime.fromDate(value)
+      : IODateTime.fromDate(value)
+  }
+
   #normalizeToDate = (v: any, defs?: Definitions): Date | undefined => {
     if (!v) return undefined
 
     // Already a Date instance (min/max from schema are already Date objects)
     if (v instanceof Date) return v
+    if (v instanceof TemporalValue) return v.toDate()
 
     if (typeof v === 'string') {
       const d = new Date(v)
@@ -99,20 +135,26 @@ class DateTimeDef implements TypeDef {
     return undefined
   }
 
+  // The choices, read as Date objects, match to the millisecond
   #dateTimeEqualityComparator = (value: any, choice: any): boolean => {
-    const valDate = value instanceof Date ? value : undefined
+    const valDate = value instanceof TemporalValue ? value.toDate() : value instanceof Date ? value : undefined
     const choiceDate = this.#normalizeToDate(choice)
 
     if (!valDate || !choiceDate) return false
     return valDate.getTime() === choiceDate.getTime()
   }
 
-  #validate(value:Date, memberDef: MemberDef, node?: Node, defs?: Definitions) {
+  #validate(value: Date | TemporalValue, memberDef: MemberDef, node?: Node, defs?: Definitions) {
     const dateType:any = memberDef.type
 
+    // Preserved values compare with their sub-millisecond digits
+    const compare = (bound: Date): number => value instanceof TemporalValue
+      ? value.compare(bound)
+      : value.getTime() - bound.getTime()
+
     if (memberDef.min) {
       const min = this.#normalizeToDate(memberDef.min, defs)
-      if (min && value < min) {
+      if (min && compare(min) < 0) {
         throw new ValidationError(
           ErrorCodes.outOfRange,
           `Expecting the value ${memberDef.path ? `for '${memberDef.path}'` : ''} to be greater than or equal to '${dt.dateToSmartString(min, dateType)}'`,
@@ -123,7 +165,7 @@ class DateTimeDef implements TypeDef {
 
     if (memberDef.max) {
       const max = this.#normalizeToDate(memberDef.max, defs)
-      if (max && value > max) {
+      if (max && compare(max) > 0) {
         throw new ValidationError(
           ErrorCodes.outOfRange,
           `Expecting the value ${memberDef.path ? `for '${memberDef.path}'` : ''} to be less than or equal to '${dt.dateToSmartString(max, dateType)}'`,
@@ -136,4 +178,11 @@ class DateTimeDef implements TypeDef {
   public static get types() { return DATETIME_TYPES }
 }
 
+// The text of an annotated string token, such as `dt"2024-03-10"`, without
+// its annotation and quotes
+function _literalText(node: TokenNode): string {
+  const match = /^[a-z]*(["'])([\s\S]*)\1$/.exec(node.token)
+  return match ? match[2] : String(node.token)
+}
+
 export default DateTimeDef
@@ -0,0 +1,124 @@
+import Definitions            from '../../core/definitions';
+import { IODuration }         from '../../core/duration';
+import ErrorCodes             from '../../errors/io-error-codes';
+import ValidationError        from '../../errors/io-validation-error';
+import Node                   from '../../parser/nodes/nodes';
+import TokenNode              from '../../parser/nodes/tokens';
+import Schema                 from '../../schema/schema';
+import TypeDef                from '../../schema/typedef';
+import TokenType              from '../../parser/tokenizer/token-types';
+import doCommonTypeCheck      from './common-type';
+import MemberDef              from './memberdef';
+
+const DURATION_TYPES = ['duration']
+
+const schema = new Schema(
+  "duration",
+  { type:     { type: "string",   optional: false, null: false, choices: DURATION_TYPES } },
+  { default:  { type: "duration", optional: true,  null: false  } },
+  { choices:  { type: "array",    optional: true,  null: false, of: { type: "duration" } } },
+  { min:      { type: "duration", optional: true,  null: false } },
+  { max:      { type: "duration", optional: true,  null: false } },
+  { optional: { type: "bool",     optional: true } },
+  { null:     { type: "bool",     optional: true } }
+)
+
+/**
+ * Parses the ISO 8601 durations written as `du"P1DT2H"` into `IODuration`
+ * values. `min`, `max` and `choices` compare by nominal length, a month
+ * taken as 30 days and a year as 365 days.
+ */
+class DurationDef implements TypeDef {
+  #type: string
+
+  public get type() { return this.#type }
+  public get schema() { return schema }
+
+  public constructor(type: string = 'duration') { this.#type = type }
+
+  parse(node: Node, memberDef: MemberDef, defs?: Definitions): IODuration {
+    const valueNode = defs?.getV(node) || node
+    const { value, changed } = doCommonTypeCheck(memberDef, valueNode, node, defs, this.#durationEqualityComparator)
+    if (changed) return value
+
+    if (valueNode.type !== TokenType.DURATION) {
+      throw new ValidationError(ErrorCodes.invalidType, `Expecting a DURATION value for ${memberDef.path}, currently ${valueNode.value}, a ${valueNode.type} value`, node as TokenNode)
+    }
+
+    this.#validate(value, memberDef, node, defs)
+
+    return value
+  }
+
+  load(value: any, memberDef: MemberDef, defs?: Definitions): IODuration {
+    const { value: checkedValue, changed } = doCommonTypeCheck(memberDef, value, undefined, defs, this.#durationEqualityComparator)
+    if (changed) return checkedValue
+
+    // An ISO 8601 string is read too, as durations travel as text in JSON
+    const duration = typeof value === 'string' ? IODuration.parse(value) : value
+    if (!(duration instanceof IODuration)) {
+      throw new ValidationError(
+        ErrorCodes.invalidType,
+        `Expecting an IODuration or an ISO 8601 duration string for '${memberDef.path}', got ${typeof value === 'string' ? `'${value}'` : typeof value}`
+      )
+    }
+
+    this.#validate(duration, memberDef, undefined, defs)
+
+    return duration
+  }
+
+  public stringify(value: IODuration): string {
+    return value.toIOString()
+  }
+
+  #normalize = (v: any, defs?: Definitions): IODuration | undefined => {
+    if (v instanceof IODuration) return v
+    if (typeof v === 'string') return IODuration.parse(v) ?? undefined
+
+    if (v instanceof TokenNode) {
+      if (v.value instanceof IODuration) return v.value
+      const resolved = defs?.getV(v)
+      if (resolved instanceof IODuration) return resolved
+      if (resolved instanceof TokenNode && resolved.value instanceof IODuration) return resolved.value
+    }
+
+    return undefined
+  }
+
+  #durationEqualityComparator = (value: any, choice: any): boolean => {
+    const duration = this.#normalize(value)
+    const choiceDuration = this.#normalize(choice)
+
+    if (!duration || !choiceDuration) return false
+    return duration.equals(choiceDuration)
+  }
+
+  #validate(value: IODuration, memberDef: MemberDef, node?: Node, defs?: Definitions) {
+    if (memberDef.min) {
+      const min = this.#normalize(memberDef.min, defs)
+      if (min && value.compare(min) < 0) {
+        throw new ValidationError(
+          ErrorCodes.outOfRange,
+          `Expecting the value ${memberDef.path ? `for '${memberDef.path}'` : ''} to be greater than or equal to '${min}'`,
+          node
+        )
+      }
+    }
+
+    if (memberDef.max) {
+      const max = this.#normalize(memberDef.max, defs)
+      if (max && value.compare(max) > 0) {
+        throw new ValidationError(
+          ErrorCodes.outOfRange,
+          `Expecting the value ${memberDef.path ? `for '${memberDef.path}'` : ''} to be less than or equal to '${max}'`,
+          node
+        )
+      }
+    }
+  }
+
+  public static get types() { return DURATION_TYPES }
+}
+
+export default DurationDef
@@ -2,8 +2,11 @@ import TypedefRegistry  from '../../schema/typedef-registry'
 
 import AnyDef           from './any'
 import ArrayDef         from './array'
+import BinaryDef        from './binary'
 import BooleanDef       from './boolean'
 import DateTimeDef      from './datetime'
+import DurationDef      from './duration'
+import MoneyDef         from './money'
 import NumberDef        from './number'
 import ObjectDef        from './object'
 import StringDef        from './string'
@@ -14,7 +17,8 @@ export default function registerTypes() {
   if (registered) return
 
   TypedefRegistry.register(
-    AnyDef, ArrayDef, BooleanDef, NumberDef, ObjectDef, StringDef, DateTimeDef
+    AnyDef, ArrayDef, BooleanDef, NumberDef, ObjectDef, StringDef, DateTimeDef, DurationDef,
+    MoneyDef, BinaryDef
   )
 
   registered = true
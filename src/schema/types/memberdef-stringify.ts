@@ -57,6 +57,11 @@ export function stringifyMemberDef(memberDef: MemberDef, includeTypes: boolean):
     return formatNestedSchema(memberDef.schema);
   }
 
+  // Handle unions of schemas or types - output as {any, oneOf: [...]}
+  if (memberDef.type === 'any' && Array.isArray(memberDef.oneOf)) {
+    return stringifyUnionMemberDef(memberDef);
+  }
+
   // Skip type annotation if not requested or if type is 'any'
   if (!includeTypes || !memberDef.type || memberDef.type === 'any') {
     return '';
@@ -78,6 +83,15 @@ export function stringifyMemberDef(memberDef: MemberDef, includeTypes: boolean):
   }
 }
 
+/**
+ * Formats a union of branches with its discriminator, if any.
+ */
+function stringifyUnionMemberDef(memberDef: MemberDef): string {
+  const branches = memberDef.oneOf.map((branch: MemberDef) => stringifyMemberDef(branch, true) || branch.type);
+  const discriminator = memberDef.discriminator !== undefined ? `, discriminator: ${memberDef.discriminator}` : '';
+  return `{any, oneOf: [${branches.join(', ')}]${discriminator}}`;
+}
+
 /**
  * Formats a nested object schema into {field1, field2, ...} notation.
  * Applies SRP by isolating nested schema formatting logic.
@@ -0,0 +1,160 @@
+import Decimal                from '../../core/decimal/decimal';
+import Definitions            from '../../core/definitions';
+import { IOMoney, currencyScale } from '../../core/money';
+import ErrorCodes             from '../../errors/io-error-codes';
+import ValidationError        from '../../errors/io-validation-error';
+import Node                   from '../../parser/nodes/nodes';
+import TokenNode              from '../../parser/nodes/tokens';
+import Schema                 from '../../schema/schema';
+import TypeDef                from '../../schema/typedef';
+import TokenType              from '../../parser/tokenizer/token-types';
+import doCommonTypeCheck      from './common-type';
+import DecimalDef             from './decimal';
+import MemberDef              from './memberdef';
+
+const MONEY_TYPES = ['money']
+
+const schema = new Schema(
+  "money",
+  { type:       { type: "string", optional: false, null: false, choices: MONEY_TYPES } },
+  { default:    { type: "money",  optional: true,  null: false  } },
+  { choices:    { type: "array",  optional: true,  null: false, of: { type: "money" } } },
+  { currencies: { type: "array",  optional: true,  null: false, of: { type: "string" } } },
+  { precision:  { type: "number", optional: true,  null: false } },
+  { scale:      { type: "number", optional: true,  null: false } },
+  { min:        { type: "money",  optional: true,  null: false } },
+  { max:        { type: "money",  optional: true,  null: false } },
+  { optional:   { type: "bool",   optional: true } },
+  { null:       { type: "bool",   optional: true } }
+)
+
+/**
+ * Parses the amounts of money written as `mo"12.50 USD"` into `IOMoney`
+ * values. The amount takes the scale of the currency's minor unit (JPY 0,
+ * USD 2, BHD 3), or the `scale` option: fewer digits are padded, more are
+ * an error. `currencies` lists the accepted currencies, and `min` and `max`
+ * bound the values of their own currency.
+ */
+class MoneyDef implements TypeDef {
+  #type: string
+  #decimalDef = new DecimalDef()
+
+  public get type() { return this.#type }
+  public get schema() { return schema }
+
+  public constructor(type: string = 'money') { this.#type = type }
+
+  parse(node: Node, memberDef: MemberDef, defs?: Definitions): IOMoney {
+    const valueNode = defs?.getV(node) || node
+    const { value, changed } = doCommonTypeCheck(memberDef, valueNode, node, defs, this.#moneyEqualityComparator)
+    if (changed) return value
+
+    if (valueNode.type !== TokenType.MONEY) {
+      throw new ValidationError(ErrorCodes.invalidType, `Expecting a MONEY value for ${memberDef.path}, currently ${valueNode.value}, a ${valueNode.type} value`, node as TokenNode)
+    }
+
+    return this.#validate(value, memberDef, node, defs)
+  }
+
+  load(value: any, memberDef: MemberDef, defs?: Definitions): IOMoney {
+    const { value: checkedValue, changed } = doCommonTypeCheck(memberDef, value, undefined, defs, this.#moneyEqualityComparator)
+    if (changed) return checkedValue
+
+    // Money travels as its text in JSON, or as an amount and a currency
+    const money = this.#normalize(value)
+    if (!money) {
+      throw new ValidationError(
+        ErrorCodes.invalidType,
+        `Expecting an IOMoney, a '12.50 USD' string or an { amount, currency } object for '${memberDef.path}', got ${typeof value === 'string' ? `'${value}'` : typeof value}`
+      )
+    }
+
+    return this.#validate(money, memberDef, undefined, defs)
+  }
+
+  public stringify(value: IOMoney): string {
+    return value.toIOString()
+  }
+
+  #normalize = (v: any, defs?: Definitions): IOMoney | undefined => {
+    if (v instanceof IOMoney) return v
+    if (typeof v === 'string') return IOMoney.parse(v) ?? undefined
+
+    if (v instanceof TokenNode) {
+      if (v.value instanceof IOMoney) return v.value
+      const resolved = defs?.getV(v)
+      if (resolved instanceof IOMoney) return resolved
+      if (resolved instanceof TokenNode && resolved.value instanceof IOMoney) return resolved.value
+      return undefined
+    }
+
+    if (v && typeof v === 'object' && typeof v.currency === 'string' &&
+        (v.amount instanceof Decimal || typeof v.amount === 'string' || typeof v.amount === 'number')) {
+      try {
+        return IOMoney.of(v.amount, v.currency)
+      } catch {
+        return undefined
+      }
+    }
+
+    return undefined
+  }
+
+  #moneyEqualityComparator = (value: any, choice: any): boolean => {
+    const money = this.#normalize(value)
+    const choiceMoney = this.#normalize(choice)
+
+    if (!money || !choiceMoney) return false
+    return money.equals(choiceMoney)
+  }
+
+  #validate(value: IOMoney, memberDef: MemberDef, node?: Node, defs?: Definitions): IOMoney {
+    const path = memberDef.path ? `'${memberDef.path}'` : 'the value'
+
+    const currencies: string[] | undefined = memberDef.currencies
+    if (currencies && !currencies.includes(value.currency)) {
+      throw new ValidationError(
+        ErrorCodes.invalidChoice,
+        `Expecting the currency of ${path} to be one of ${currencies.join(', ')}, currently ${value.currency}`,
+        node
+      )
+    }
+
+    // The amount is padded to the scale, and then checked as a decimal of
+    // that scale, and of the precision if any
+    const scale = memberDef.scale ?? currencyScale(value.currency)
+    const amount = value.amount.getScale() < scale ? value.amount.round({ scale }) : value.amount
+    this.#decimalDef.validate({ type: 'decimal', path: memberDef.path, precision: memberDef.precision, scale }, amount, node)
+
+    const money = amount === value.amount ? value : IOMoney.of(amount, value.currency)
+
+    for (const [option, sign] of [['min', -1], ['max', 1]] as const) {
+      if (memberDef[option] === undefined || memberDef[option] === null) continue
+
+      const bound = this.#normalize(memberDef[option], defs)
+      if (!bound) continue
+
+      if (bound.currency !== money.currency) {
+        throw new ValidationError(
+          ErrorCodes.currencyMismatch,
+          `Expecting ${path} in ${bound.currency}, the currency of its ${option}, currently ${money.currency}`,
+          node
+        )
+      }
+
+      if (money.compare(bound) === sign) {
+        throw new ValidationError(
+          ErrorCodes.outOfRange,
+          `Expecting ${path} to be ${sign < 0 ? 'greater' : 'less'} than or equal to '${bound}'`,
+          node
+        )
+      }
+    }
+
+    return money
+  }
+
+  public static get types() { return MONEY_TYPES }
+}
+
+export default MoneyDef
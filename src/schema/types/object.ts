@@ -11,6 +11,7 @@ import processObject        from '../../schema/object-processor';
 import Schema               from '../../schema/schema';
 import TypeDef              from '../../schema/typedef';
 import TypedefRegistry      from '../../schema/typedef-registry';
+import { ProcessingContext } from '../../schema/processing/processing-context';
 import doCommonTypeCheck    from './common-type';
 import MemberDef            from './memberdef';
 
@@ -43,8 +44,8 @@ class ObjectDef implements TypeDef {
   /**
    * Parses the object in IO format into JavaScript object.
    */
-  parse = (node: Node, memberDef: MemberDef, defs?: Definitions): any => {
-    return this._process(node, memberDef, defs)
+  parse = (node: Node, memberDef: MemberDef, defs?: Definitions, context?: ProcessingContext): any => {
+    return this._process(node, memberDef, defs, context)
   }
 
   /**
@@ -116,14 +117,20 @@ class ObjectDef implements TypeDef {
       memberDef.path = basePath ? `${basePath}.${name}` : name
       const value = data[name]
 
-      const typeDef = TypedefRegistry.get(memberDef.type)
+      const typeDef = TypedefRegistry.get(memberDef.type, defs)
       if (!typeDef) {
         throw new IOError(ErrorCodes.invalidType, `Type '${memberDef.type}' is not registered.`)
       }
 
       // Use load() method if available
       if ('load' in typeDef && typeof typeDef.load === 'function') {
-        const loadedValue = typeDef.load(value, memberDef, defs)
+        let loadedValue
+        try {
+          loadedValue = typeDef.load(value, memberDef, defs)
+        } catch (error) {
+          if (error instanceof IOError) error.prependPath(name)
+          throw error
+        }
         if (loadedValue !== undefined) {
           result[name] = loadedValue
         }
@@ -155,7 +162,7 @@ class ObjectDef implements TypeDef {
             extraMemberDef = { type: 'any', path: basePath ? `${basePath}.${key}` : key }
           }
 
-          const typeDef = TypedefRegistry.get(extraMemberDef.type)
+          const typeDef = TypedefRegistry.get(extraMemberDef.type, defs)
           if (typeDef && 'load' in typeDef && typeof typeDef.load === 'function') {
             const loadedValue = typeDef.load(data[key], extraMemberDef, defs)
             if (loadedValue !== undefined) {
@@ -194,7 +201,7 @@ class ObjectDef implements TypeDef {
         memberDef.path = basePath ? `${basePath}.${name}` : name
         const value = data[name]
 
-        const typeDef = TypedefRegistry.get(memberDef.type)
+        const typeDef = TypedefRegistry.get(memberDef.type, defs)
         if (typeDef && 'stringify' in typeDef && typeof typeDef.stringify === 'function') {
           // Use auto format (default) - it safely handles all cases
           // stringify returns undefined to signal "skip this field" (missing optional)
@@ -346,7 +353,7 @@ class ObjectDef implements TypeDef {
 
   // Process the parse and load requests
   private _process = (
-    node: Node, memberDef: MemberDef, defs?: Definitions
+    node: Node, memberDef: MemberDef, defs?: Definitions, context?: ProcessingContext
   ) => {
     const valueNode = defs?.getV(node) || node
     const { value, changed } = doCommonTypeCheck(memberDef, valueNode, node, defs)
@@ -362,6 +369,11 @@ class ObjectDef implements TypeDef {
       throw new ValidationError(ErrorCodes.invalidObject, `Expecting an object value for '${memberDef.path}'`, node)
     }
 
+    // In exhaustive mode the members of the nested object report their
+    // failures into the enclosing context, instead of the first one aborting
+    // the object
+    const nestedContext = context?.exhaustive ? context : undefined
+
     if (valueNode === node) {
       if (memberDef.__schema) {
         return compileObject(memberDef.path || "", valueNode as ObjectNode, defs)
@@ -371,7 +383,7 @@ class ObjectDef implements TypeDef {
         schema = new Schema(memberDef.path || "")
         schema.open = true
       }
-      return processObject(valueNode as ObjectNode, schema, defs)
+      return processObject(valueNode as ObjectNode, schema, defs, undefined, nestedContext)
     }
 
     // valueNode fetched from defs. Hence, in case of an error, replace the
@@ -381,8 +393,14 @@ class ObjectDef implements TypeDef {
       schema.open = true
     }
 
+    // The failures collected in exhaustive mode are moved to it as well
+    const collected = nestedContext?.errorCount ?? 0
     try {
-      return processObject(valueNode as ObjectNode, schema, defs)
+      const result = processObject(valueNode as ObjectNode, schema, defs, undefined, nestedContext)
+      nestedContext?.getErrors().slice(collected).forEach(err => {
+        if (err instanceof ValidationError) err.positionRange = node
+      })
+      return result
     } catch (err) {
       if (err instanceof ValidationError) {
         err.positionRange = node
@@ -0,0 +1,323 @@
+import IODefinitions    from '../../core/definitions';
+import IOError          from '../../errors/io-error';
+import ErrorCodes       from '../../errors/io-error-codes';
+import parseDefinitions from '../../parser/parse-defs';
+import TokenNode        from '../../parser/nodes/tokens';
+import IOSchema         from '../schema';
+import MemberDef        from '../types/memberdef';
+import UnionSchema      from '../union-schema';
+
+export interface GenerateTypesOptions {
+  /**
+   * Definitions the text is parsed with, such as ones carrying the custom
+   * types it uses. Ignored when the source is already an `IODefinitions`.
+   */
+  defs?: IODefinitions;
+
+  /**
+   * Module to import the `Decimal` type, and the value classes such as
+   * `IODateTime`, from when a schema uses them. Set to `null` to leave the
+   * import out. Defaults to `'internet-object'`.
+   */
+  decimalImport?: string | null;
+
+  /**
+   * TypeScript types of custom (or built-in) IO types, by type name. For
+   * example `{ uuid: 'string' }`. Unmapped custom types become `unknown`.
+   */
+  typeMap?: { [type: string]: string };
+
+  /** Name of the type generated for the default `$schema`. Defaults to `'Schema'`. */
+  schemaName?: string;
+
+  /** When false, the generated-file banner comment is left out. Defaults to true. */
+  banner?: boolean;
+}
+
+interface GenerateContext {
+  defs: IODefinitions;
+  options: GenerateTypesOptions;
+  /** Names of the types to import from the `decimalImport` module. */
+  imports: Set<string>;
+}
+
+const NUMBER_TYPES = new Set([
+  'number', 'int', 'uint', 'float', 'int8', 'int16', 'int32',
+  'uint8', 'uint16', 'uint32', 'uint64', 'float32', 'float64',
+]);
+
+const TEMPORAL_TYPES: { [type: string]: string } = {
+  datetime: 'IODateTime',
+  date: 'IODate',
+  time: 'IOTime',
+};
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+/**
+ * Generates TypeScript declarations for every schema of the IO definitions.
+ * Each `$name` schema becomes an exported interface (`$address` →
+ * `Address`); a schema that only references another one becomes a type alias.
+ *
+ * | IO                              | TypeScript                       |
+ * |---------------------------------|----------------------------------|
+ * | `string`, `email`, `url`        | `string`                         |
+ * | `int`, `number`, ...            | `number`                         |
+ * | `bigint`                        | `bigint`                         |
+ * | `decimal`                       | `Decimal`                        |
+ * | `money`                         | `IOMoney`                        |
+ * | `datetime`, `date`, `time`      | `Date`                           |
+ * | the same, with `preserve: true` | `IODateTime`, `IODate`, `IOTime` |
+ * | `duration`                      | `IODuration`                     |
+ * | `binary`, `bytes`               | `Uint8Array`                     |
+ * | `choices`                       | literal union (`'a' \| 'b'`)     |
+ * | `name?`                         | `name?:`                         |
+ * | `name*`                         | `T \| null`                      |
+ * | `*: T`                          | `[key: string]: T`               |
+ *
+ * @param source  The IO definitions, or their text to be parsed with `parseDefinitions`
+ * @param options Generation options
+ * @returns The TypeScript source
+ *
+ * @example
+ * ```typescript
+ * generateTypes('~ $User: { name: string, role: {string, choices: [admin, user]}, age?: int }')
+ * // export interface User {
+ * //   name: string;
+ * //   role: 'admin' | 'user';
+ * //   age?: number;
+ * // }
+ * ```
+ */
+export function generateTypes(source: string | IODefinitions, options: GenerateTypesOptions = {}): string {
+  const defs = typeof source === 'string' ? parseDefinitions(source, options.defs ?? null) : source;
+  if (!defs) {
+    throw new IOError(ErrorCodes.definitionsRequired, 'The text does not contain any definitions to generate types from.');
+  }
+
+  const ctx: GenerateContext = { defs, options, imports: new Set() };
+  const declarations: string[] = [];
+
+  for (const key of defs.keys) {
+    if (!key.startsWith('$')) continue;
+
+    const name = typeName(key, ctx);
+    const value = defs.get(key);
+
+    if (value instanceof IOSchema && value.name !== key && defs.get(value.name) === value) {
+      // `$schema: $person` once the reference has been resolved
+      declarations.push(`export type ${name} = ${typeName(value.name, ctx)};`);
+    } else if (value instanceof UnionSchema) {
+      declarations.push(`export type ${name} = ${unionType(value.oneOf, ctx, '')};`);
+    } else if (value instanceof IOSchema) {
+      declarations.push(`export interface ${name} ${schemaType(value, ctx, '')}`);
+    } else if (value instanceof TokenNode && typeof value.value === 'string' && value.value.startsWith('$')) {
+      declarations.push(`export type ${name} = ${typeName(value.value, ctx)};`);
+    }
+  }
+
+  const header: string[] = [];
+  if (options.banner !== false) {
+    header.push('// Generated from Internet Object definitions. Do not edit by hand.');
+  }
+
+  const decimalImport = options.decimalImport === undefined ? 'internet-object' : options.decimalImport;
+  if (ctx.imports.size > 0 && decimalImport !== null) {
+    header.push(`import type { ${[...ctx.imports].sort().join(', ')} } from '${decimalImport}';`);
+  }
+
+  const parts = header.length > 0 ? [header.join('\n')] : [];
+  return [...parts, ...declarations].join('\n\n') + '\n';
+}
+
+/**
+ * Converts a schema name into a TypeScript type name: `$order_item` →
+ * `OrderItem`, `$schema` → the `schemaName` option.
+ */
+function typeName(key: string, ctx: GenerateContext): string {
+  if (key === '$schema') return ctx.options.schemaName ?? 'Schema';
+
+  const name = key.replace(/^\$/, '')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(part => part[0].toUpperCase() + part.slice(1))
+    .join('');
+
+  return /^[0-9]/.test(name) ? `_${name}` : name;
+}
+
+function schemaType(schema: IOSchema, ctx: GenerateContext, indent: string): string {
+  const inner = indent + '  ';
+  const lines: string[] = [];
+  const memberTypes: string[] = [];
+  let hasOptional = false;
+
+  for (const name of schema.names) {
+    const memberDef = schema.defs[name];
+    const type = memberType(memberDef, ctx, inner);
+    const key = IDENTIFIER.test(name) ? name : `'${escapeString(name)}'`;
+
+    lines.push(`${inner}${key}${memberDef.optional ? '?' : ''}: ${type};`);
+    memberTypes.push(type);
+    if (memberDef.optional) hasOptional = true;
+  }
+
+  if (schema.open) {
+    // The index signature must accept the types of the declared members too
+    const openType = schema.open === true ? 'unknown' : memberType(schema.open, ctx, inner);
+    if (schema.open === true && schema.names.length === 0) return 'Record<string, unknown>';
+
+    const indexTypes = openType === 'unknown'
+      ? ['unknown']
+      : widen(union([openType, ...memberTypes, ...(hasOptional ? ['undefined'] : [])]));
+    lines.push(`${inner}[key: string]: ${indexTypes.join(' | ')};`);
+  }
+
+  return lines.length === 0 ? '{}' : `{\n${lines.join('\n')}\n${indent}}`;
+}
+
+function memberType(memberDef: MemberDef, ctx: GenerateContext, indent: string): string {
+  const choices = memberDef.choices;
+  let type = Array.isArray(choices) && choices.length > 0 && choices.every(isLiteral)
+    ? union(choices.map(literal)).join(' | ')
+    : baseType(memberDef, ctx, indent);
+
+  if (memberDef.null && type !== 'unknown') type = `${type} | null`;
+  return type;
+}
+
+function baseType(memberDef: MemberDef, ctx: GenerateContext, indent: string): string {
+  const type = memberDef.type;
+  const mapped = ctx.options.typeMap?.[type];
+  if (mapped) return mapped;
+
+  if (NUMBER_TYPES.has(type)) return 'number';
+
+  switch (type) {
+    case 'string':
+    case 'email':
+    case 'url':
+      return 'string';
+
+    case 'bigint':
+      return 'bigint';
+
+    case 'decimal':
+      return use('Decimal', ctx);
+
+    case 'money':
+      return use('IOMoney', ctx);
+
+    case 'datetime':
+    case 'date':
+    case 'time':
+      return memberDef.preserve ? use(TEMPORAL_TYPES[type], ctx) : 'Date';
+
+    case 'duration':
+      return use('IODuration', ctx);
+
+    case 'binary':
+    case 'bytes':
+      return 'Uint8Array';
+
+    case 'bool':
+      return 'boolean';
+
+    case 'array': {
+      const of = memberDef.of instanceof IOSchema
+        ? schemaType(memberDef.of, ctx, indent)
+        : memberDef.of?.type ? memberType(memberDef.of, ctx, indent) : 'unknown';
+      return union([of]).length > 1 ? `(${of})[]` : `${of}[]`;
+    }
+
+    case 'object':
+      return objectType(memberDef, ctx, indent);
+
+    case 'any':
+      if (Array.isArray(memberDef.oneOf) && memberDef.oneOf.length > 0) {
+        return unionType(memberDef.oneOf, ctx, indent);
+      }
+      if (Array.isArray(memberDef.anyOf) && memberDef.anyOf.length > 0) {
+        return union(memberDef.anyOf.map((def: MemberDef) => memberType(def, ctx, indent))).join(' | ');
+      }
+      return 'unknown';
+
+    default:
+      return 'unknown';
+  }
+}
+
+/** Returns the name of an imported type, adding it to the imports. */
+function use(name: string, ctx: GenerateContext): string {
+  ctx.imports.add(name);
+  return name;
+}
+
+function unionType(oneOf: MemberDef[], ctx: GenerateContext, indent: string): string {
+  return union(oneOf.map(def => memberType(def, ctx, indent))).join(' | ');
+}
+
+function objectType(memberDef: MemberDef, ctx: GenerateContext, indent: string): string {
+  const schema = memberDef.schema ?? memberDef.schemaRef;
+
+  if (schema instanceof IOSchema) {
+    // Named schemas shared through the definitions are referenced by name
+    if (schema.name.startsWith('$') && ctx.defs.get(schema.name) === schema) {
+      return typeName(schema.name, ctx);
+    }
+    return schemaType(schema, ctx, indent);
+  }
+
+  const ref = schema instanceof TokenNode ? schema.value : schema;
+  if (typeof ref === 'string' && ref.startsWith('$')) return typeName(ref, ctx);
+
+  return 'Record<string, unknown>';
+}
+
+// Dates, decimals and other objects have no literal type
+function isLiteral(value: any): boolean {
+  return ['string', 'number', 'bigint', 'boolean'].includes(typeof value) && !Number.isNaN(value);
+}
+
+function literal(value: any): string {
+  if (typeof value === 'string') return `'${escapeString(value)}'`;
+  if (typeof value === 'bigint') return `${value}n`;
+  return String(value);
+}
+
+/**
+ * Flattens the given types into a list of distinct union members. Unions
+ * nested in object literals or parentheses are kept as they are.
+ */
+function union(types: string[]): string[] {
+  const members: string[] = [];
+  for (const type of types) {
+    let depth = 0;
+    let start = 0;
+    for (let i = 0; i < type.length; i++) {
+      const ch = type[i];
+      if (ch === '{' || ch === '(' || ch === '<') depth++;
+      else if (ch === '}' || ch === ')' || ch === '>') depth--;
+      else if (depth === 0 && type.startsWith(' | ', i)) {
+        members.push(type.slice(start, i));
+        start = i + 3;
+      }
+    }
+    members.push(type.slice(start));
+  }
+  return Array.from(new Set(members));
+}
+
+/** Drops the literal types already covered by `string` or `number`. */
+function widen(types: string[]): string[] {
+  return types.filter(type =>
+    !(types.includes('string') && /^'.*'$/.test(type)) &&
+    !(types.includes('number') && /^-?[0-9.]+(e[-+]?[0-9]+)?$/i.test(type))
+  );
+}
+
+function escapeString(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n');
+}
+
+export default generateTypes;
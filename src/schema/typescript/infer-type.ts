@@ -0,0 +1,120 @@
+import type Decimal from '../../core/decimal/decimal';
+import type { IODuration } from '../../core/duration';
+import type { IOMoney } from '../../core/money';
+import type { IODate, IODateTime, IOTime } from '../../core/temporal';
+import type IOSchema from '../schema';
+import type { SchemaBuilder } from '../schema';
+
+/**
+ * The member definition shape the typed `SchemaBuilder.addMember()` accepts.
+ * It is a `MemberDef` whose `type`, `optional`, `null`, `choices`, `of`,
+ * `schema` and `preserve` are read at compile time to infer the member's
+ * TypeScript type.
+ */
+export interface TypedMemberDef {
+  type: string;
+  optional?: boolean;
+  null?: boolean;
+  choices?: readonly unknown[];
+  of?: TypedMemberDef | IOSchema<any>;
+  schema?: unknown;
+  preserve?: boolean;
+
+  // Other type options (min, maxLen, pattern, ...)
+  [key: string]: any;
+}
+
+/** TypeScript types of the built-in IO types. */
+interface BuiltInTypes {
+  string: string;
+  email: string;
+  url: string;
+
+  number: number;
+  int: number;
+  uint: number;
+  float: number;
+  int8: number;
+  int16: number;
+  int32: number;
+  uint8: number;
+  uint16: number;
+  uint32: number;
+  uint64: number;
+  float32: number;
+  float64: number;
+
+  bigint: bigint;
+  decimal: Decimal;
+  money: IOMoney;
+
+  datetime: Date;
+  date: Date;
+  time: Date;
+  duration: IODuration;
+
+  binary: Uint8Array;
+  bytes: Uint8Array;
+
+  bool: boolean;
+  any: unknown;
+}
+
+/** TypeScript types of the date and time types declared with `preserve: true`. */
+interface PreservedTypes {
+  datetime: IODateTime;
+  date: IODate;
+  time: IOTime;
+}
+
+type ElementType<O> =
+  O extends IOSchema<infer U> ? U : InferMemberType<O>;
+
+type BaseType<D> =
+  D extends { choices: readonly (infer C)[] } ? C :
+  D extends { type: 'array' } ? (D extends { of: infer O } ? ElementType<O>[] : unknown[]) :
+  D extends { type: 'object' } ? (D extends { schema: IOSchema<infer U> } ? U : Record<string, unknown>) :
+  D extends { type: infer N extends keyof PreservedTypes, preserve: true } ? PreservedTypes[N] :
+  D extends { type: infer N extends keyof BuiltInTypes } ? BuiltInTypes[N] :
+  unknown;
+
+/**
+ * Infers the TypeScript type of the values a member definition accepts.
+ * Custom types, and members typed with a plain `string`, infer `unknown`.
+ *
+ * @example
+ * ```typescript
+ * InferMemberType<{ type: 'int', null: true }>                // number | null
+ * InferMemberType<{ type: 'string', choices: ['a', 'b'] }>    // 'a' | 'b'
+ * InferMemberType<{ type: 'array', of: { type: 'string' } }>  // string[]
+ * ```
+ */
+export type InferMemberType<D> =
+  D extends { null: true } ? BaseType<D> | null : BaseType<D>;
+
+/** The object type contributed by a single member. */
+export type MemberShape<K extends string, D> =
+  D extends { optional: true }
+    ? { [P in K]?: InferMemberType<D> }
+    : { [P in K]: InferMemberType<D> };
+
+/** Flattens an intersection of member shapes into a single object type. */
+export type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+/**
+ * Extracts the object type of a typed schema or schema builder.
+ *
+ * @example
+ * ```typescript
+ * const userSchema = IOSchema.create('$User')
+ *   .addMember('name', { type: 'string' })
+ *   .addMember('age', { type: 'int', optional: true })
+ *   .build();
+ *
+ * type User = InferType<typeof userSchema>; // { name: string; age?: number }
+ * ```
+ */
+export type InferType<S> =
+  S extends IOSchema<infer T> ? T :
+  S extends SchemaBuilder<infer T> ? T :
+  never;
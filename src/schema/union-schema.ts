@@ -0,0 +1,173 @@
+import Definitions      from '../core/definitions';
+import InternetObject   from '../core/internet-object';
+import ErrorCodes       from '../errors/io-error-codes';
+import IOError          from '../errors/io-error';
+import ValidationError  from '../errors/io-validation-error';
+import MemberNode       from '../parser/nodes/members';
+import Node             from '../parser/nodes/nodes';
+import ObjectNode       from '../parser/nodes/objects';
+import TokenNode        from '../parser/nodes/tokens';
+import IOSchema         from './schema';
+import TypedefRegistry  from './typedef-registry';
+import MemberDef        from './types/memberdef';
+
+/**
+ * A schema for values described by one of several branches. With a
+ * discriminator, the value of that member (the tag) selects the branch;
+ * without one, the value must match exactly one branch.
+ *
+ * Union schemas are defined as `any` type definitions with the `oneOf`
+ * constraint, so that a collection can mix records of different schemas:
+ *
+ * ```ruby
+ * ~ $click: { kind, x: int, y: int }
+ * ~ $view: { kind, page: string }
+ * ~ $event: { any, oneOf: [$click, $view], discriminator: kind }
+ * --- events: $event
+ * ~ click, 10, 20
+ * ~ view, home
+ * ```
+ *
+ * The tags of a branch are the `choices` of its discriminator member, or
+ * the name of its schema without the `$` when the member has no choices.
+ */
+export default class UnionSchema extends IOSchema {
+  /** The member definitions of the branches */
+  public readonly oneOf: MemberDef[];
+
+  /** The name of the member whose value selects the branch */
+  public readonly discriminator?: string;
+
+  constructor(name: string, oneOf: MemberDef[], discriminator?: string) {
+    super(name);
+    this.oneOf = oneOf;
+    this.discriminator = discriminator;
+  }
+
+  /**
+   * Selects the branch describing the data node.
+   *
+   * @throws ValidationError when no branch, or several branches without a
+   *   discriminator, describe the node
+   */
+  selectNode(node: Node, defs?: Definitions): MemberDef {
+    if (this.discriminator === undefined) {
+      return this._match((def, typeDef) => typeDef.parse(node, def, defs), defs, node);
+    }
+
+    const discriminator = this.discriminator;
+    const valueNode = defs?.getV(node) || node;
+    if (!(valueNode instanceof ObjectNode)) {
+      throw new ValidationError(ErrorCodes.invalidObject, `Expecting an object value for '${this.name}'.`, node);
+    }
+
+    // The tag is keyed, or positional at the index of the discriminator in
+    // the schema of the branch.
+    const members = valueNode.children as Array<MemberNode | undefined>;
+    const keyed = members.find(member => member?.key?.value === discriminator);
+    return this._select((schema) => {
+      const member = keyed ?? members[schema.names.indexOf(discriminator)];
+      if (!member || (member.key && member !== keyed)) return undefined;
+      return member.value.toValue(defs);
+    }, defs, valueNode);
+  }
+
+  /**
+   * Selects the branch describing the JavaScript value.
+   *
+   * @throws ValidationError when no branch, or several branches without a
+   *   discriminator, describe the value
+   */
+  selectValue(value: any, defs?: Definitions): MemberDef {
+    if (this.discriminator === undefined) {
+      return this._match((def, typeDef) => {
+        if (!typeDef.load) throw new IOError(ErrorCodes.invalidType, `Type '${def.type}' does not support load()`);
+        return typeDef.load(value, def, defs);
+      }, defs);
+    }
+
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new ValidationError(ErrorCodes.invalidObject, `Expecting an object value for '${this.name}'.`);
+    }
+
+    const tag = value instanceof InternetObject ? value.get(this.discriminator) : value[this.discriminator];
+    return this._select(() => tag, defs);
+  }
+
+  /**
+   * Returns the schema of an object branch.
+   *
+   * @throws IOError when the branch is not an object with a schema
+   */
+  schemaOf(def: MemberDef, defs?: Definitions): IOSchema {
+    const schema = def.type === 'object' && def.schema instanceof TokenNode ? defs?.getV(def.schema) : def.schema;
+    if (def.type !== 'object' || !(schema instanceof IOSchema)) {
+      throw new IOError(ErrorCodes.invalidSchema, `The branches of '${this.name}' must be schemas to describe objects.`);
+    }
+    return schema;
+  }
+
+  /**
+   * Returns the tags selecting the branch.
+   */
+  tagsOf(def: MemberDef, defs?: Definitions): any[] {
+    const schema = this.schemaOf(def, defs);
+    const choices = schema.defs[this.discriminator!]?.choices;
+    if (Array.isArray(choices)) return choices;
+
+    const name = def.schema instanceof TokenNode ? def.schema.value as string : schema.name;
+    return [name.replace(/^\$/, '')];
+  }
+
+  private _select(tagOf: (schema: IOSchema) => any, defs?: Definitions, node?: Node): MemberDef {
+    const tags: any[] = [];
+    let found: any;
+
+    for (const def of this.oneOf) {
+      const tag = tagOf(this.schemaOf(def, defs));
+      const branchTags = this.tagsOf(def, defs);
+      if (tag !== undefined && branchTags.includes(tag)) return def;
+
+      tags.push(...branchTags);
+      if (found === undefined) found = tag;
+    }
+
+    const expecting = tags.map(tag => String(tag)).join(', ');
+    if (found === undefined || found === null) {
+      throw new ValidationError(ErrorCodes.missingDiscriminator,
+        `Expecting the ${this.discriminator} of '${this.name}', one of ${expecting}.`, node);
+    }
+
+    throw new ValidationError(ErrorCodes.invalidDiscriminator,
+      `The ${this.discriminator} '${found}' does not select any schema of '${this.name}'; expecting one of ${expecting}.`, node);
+  }
+
+  private _match(check: (def: MemberDef, typeDef: any) => any, defs?: Definitions, node?: Node): MemberDef {
+    const matched: MemberDef[] = [];
+
+    for (const def of this.oneOf) {
+      const typeDef = TypedefRegistry.get(def.type, defs);
+      if (!typeDef) {
+        throw new IOError(ErrorCodes.invalidType, `Invalid type definition '${def.type}'`);
+      }
+
+      try {
+        check({ ...def, path: def.path ?? this.name }, typeDef);
+        matched.push(def);
+      } catch (e) {
+        // Unknown members and additional values are syntax errors
+        if (!(e instanceof IOError)) throw e;
+      }
+    }
+
+    if (matched.length === 0) {
+      throw new ValidationError(ErrorCodes.invalidValue,
+        `None of the oneOf definitions of '${this.name}' matched.`, node);
+    }
+    if (matched.length > 1) {
+      throw new ValidationError(ErrorCodes.ambiguousValue,
+        `The value of '${this.name}' matches ${matched.length} of its schemas; add a discriminator to tell them apart.`, node);
+    }
+    return matched[0];
+  }
+}
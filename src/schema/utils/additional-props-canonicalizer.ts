@@ -2,19 +2,21 @@ import MemberDef from '../types/memberdef';
 import TokenNode from '../../parser/nodes/tokens';
 import ObjectNode from '../../parser/nodes/objects';
 import ArrayNode from '../../parser/nodes/array';
+import Definitions from '../../core/definitions';
 import TypedefRegistry from '../typedef-registry';
 
 /**
  * Converts additional property schema node to canonical MemberDef.
  * Supports: string, object, array, MemberDef with constraints, open forms,
- * and schema variable references ($schemaName).
+ * and schema variable references ($schemaName). Types registered in the
+ * definitions' scoped registry are recognized as well.
  */
-export function canonicalizeAdditionalProps(node: any, path: string = '*'): MemberDef {
+export function canonicalizeAdditionalProps(node: any, path: string = '*', defs?: Definitions): MemberDef {
   // Switch on node type
   if (node instanceof TokenNode) {
     if (typeof node.value === 'string') {
       // Built-in types (string, int, bool, etc.)
-      if (TypedefRegistry.isRegisteredType(node.value)) {
+      if (TypedefRegistry.isRegisteredType(node.value, defs)) {
         return { type: node.value, path };
       }
       // Open form: *
@@ -43,7 +45,7 @@ export function canonicalizeAdditionalProps(node: any, path: string = '*'): Memb
         if (typeToken.value.startsWith('$')) {
           return { type: 'object', schema: typeToken, path };
         }
-        if (TypedefRegistry.isRegisteredType(typeToken.value)) {
+        if (TypedefRegistry.isRegisteredType(typeToken.value, defs)) {
           // Collect constraints from other children (MemberNode with key)
           const memberDef: MemberDef = { type: typeToken.value, path };
           for (let i = 1; i < node.children.length; i++) {
@@ -1,3 +1,4 @@
+import { SSE_END_EVENT } from './transports';
 import { IOStreamSource, IOStreamTransport, StreamChunk } from './types';
 
 /**
@@ -90,6 +91,63 @@ export function createPushSource(): {
   return { source, push, close };
 }
 
+/** The parts of an `EventSource` (browser, or a Node.js polyfill) the SSE source uses. */
+export interface EventSourceLike {
+  readonly readyState?: number;
+  addEventListener(type: string, listener: (event: any) => void): void;
+  removeEventListener?(type: string, listener: (event: any) => void): void;
+  close(): void;
+}
+
+/** Options of the SSE source. */
+export interface SSESourceOptions {
+  /** The type of the events carrying the stream. Default: `message`. */
+  event?: string;
+}
+
+// EventSource.CLOSED
+const EVENT_SOURCE_CLOSED = 2;
+
+/**
+ * Turns an `EventSource` reading from an `sseTransport()` into a source for
+ * `createStreamReader`. The data of each event is a piece of the stream; the
+ * `end` event completes it, and closes the event source. While the event
+ * source reconnects after a network error, the stream waits; it fails once
+ * the event source gives up.
+ *
+ * ```ts
+ * const reader = createStreamReader(createSSESource(new EventSource('/events')));
+ * for await (const item of reader) console.log(item.data);
+ * ```
+ */
+export function createSSESource(eventSource: EventSourceLike, options?: SSESourceOptions): AsyncIterable<StreamChunk> {
+  const { source, push, close } = createPushSource();
+  const type = options?.event ?? 'message';
+
+  const onData = (event: { data?: string }) => push(`${event.data ?? ''}\n`);
+  const onEnd = () => {
+    cleanup();
+    eventSource.close();
+    close();
+  };
+  const onError = () => {
+    if (eventSource.readyState !== EVENT_SOURCE_CLOSED) return;
+    cleanup();
+    close(new Error('The event source was closed before the stream ended.'));
+  };
+  const cleanup = () => {
+    eventSource.removeEventListener?.(type, onData);
+    eventSource.removeEventListener?.(SSE_END_EVENT, onEnd);
+    eventSource.removeEventListener?.('error', onError);
+  };
+
+  eventSource.addEventListener(type, onData);
+  eventSource.addEventListener(SSE_END_EVENT, onEnd);
+  eventSource.addEventListener('error', onError);
+
+  return source;
+}
+
 /**
  * A transport that accumulates all written data into a single string buffer.
  * Useful for environments where streaming upload is not possible, and you need
@@ -0,0 +1,79 @@
+import { StreamItem } from './types';
+
+/**
+ * Routes the items of a stream to one async iterator per channel. The
+ * stream is read once, as the channels ask for items; the items read while
+ * another channel waits are queued for their own channel. Items of
+ * channels nobody reads are dropped, so every channel should be opened
+ * before reading starts.
+ */
+export class ChannelRouter {
+  private readonly iterator: AsyncIterator<StreamItem>;
+  private readonly queues = new Map<string, StreamItem[]>();
+  private reading: Promise<void> | null = null;
+  private done = false;
+  private failure: unknown = null;
+
+  constructor(items: AsyncIterable<StreamItem>) {
+    this.iterator = items[Symbol.asyncIterator]();
+  }
+
+  /**
+   * Returns an async iterator over the items of a channel. It ends with the
+   * stream, and throws its error.
+   *
+   * @throws Error when the channel is already being read
+   */
+  channel(name: string): AsyncIterableIterator<StreamItem> {
+    if (this.queues.has(name)) {
+      throw new Error(`The channel '${name}' is already being read.`);
+    }
+
+    const queue: StreamItem[] = [];
+    this.queues.set(name, queue);
+
+    const iterator: AsyncIterableIterator<StreamItem> = {
+      next: async (): Promise<IteratorResult<StreamItem>> => {
+        for (;;) {
+          if (queue.length > 0) return { value: queue.shift()!, done: false };
+          if (this.done) {
+            if (this.failure !== null) throw this.failure;
+            return { value: undefined, done: true };
+          }
+          await this.read();
+        }
+      },
+      return: async (): Promise<IteratorResult<StreamItem>> => {
+        // The items of a channel left early are dropped from now on
+        if (this.queues.get(name) === queue) this.queues.delete(name);
+        queue.length = 0;
+        return { value: undefined, done: true };
+      },
+      [Symbol.asyncIterator]: () => iterator,
+    };
+    return iterator;
+  }
+
+  // Reads the next item for its channel; the channels waiting at the same
+  // time share the read
+  private read(): Promise<void> {
+    if (!this.reading) {
+      this.reading = this.iterator.next().then(
+        (result) => {
+          if (result.done) {
+            this.done = true;
+          } else if (result.value.channel !== undefined) {
+            this.queues.get(result.value.channel)?.push(result.value);
+          }
+        },
+        (err) => {
+          this.done = true;
+          this.failure = err;
+        },
+      ).finally(() => {
+        this.reading = null;
+      });
+    }
+    return this.reading;
+  }
+}
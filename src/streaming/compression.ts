@@ -0,0 +1,247 @@
+import { StreamChunk } from './types';
+
+/** The compression formats of streams: gzip, zlib deflate, and brotli. */
+export type CompressionFormat = 'gzip' | 'deflate' | 'br';
+
+/** A pair of streams transforming bytes, as a `CompressionStream`. */
+interface ByteTransform {
+  readable: ReadableStream<Uint8Array>;
+  writable: WritableStream<Uint8Array>;
+}
+
+/**
+ * Returns the compression of a stream from its first bytes, or null. Gzip
+ * is told by its magic number, and zlib deflate by its header, limited to
+ * the flags that cannot start UTF-8 text. Brotli has no magic number; it
+ * has to be named.
+ */
+export function detectCompression(bytes: Uint8Array): CompressionFormat | null {
+  if (bytes.length < 2) return null;
+  if (bytes[0] === 0x1f && bytes[1] === 0x8b) return 'gzip';
+  if (bytes[0] === 0x78 && (bytes[1] === 0x01 || bytes[1] === 0x9c || bytes[1] === 0xda)) return 'deflate';
+  return null;
+}
+
+/**
+ * Decompresses the chunks of a source, with the given format, or the one
+ * detected from its first bytes with `'auto'`. Text chunks and bytes of no
+ * known format pass through.
+ */
+export async function* decompressChunks(
+  source: AsyncIterable<StreamChunk>,
+  format: CompressionFormat | 'auto'
+): AsyncIterable<StreamChunk> {
+  const iterator = source[Symbol.asyncIterator]();
+
+  // The first bytes, enough to tell the format
+  const head: Uint8Array[] = [];
+  let headSize = 0;
+  let detected: CompressionFormat | null = format === 'auto' ? null : format;
+  while (format === 'auto' && headSize < 2) {
+    const next = await iterator.next();
+    if (next.done) break;
+
+    if (typeof next.value === 'string') {
+      yield* head;
+      yield next.value;
+      yield* rest(iterator);
+      return;
+    }
+
+    const bytes = toBytes(next.value);
+    head.push(bytes);
+    headSize += bytes.length;
+    detected = detectCompression(concat(head));
+  }
+
+  const chunks = prepend(head, iterator);
+  if (detected === null) {
+    yield* chunks;
+    return;
+  }
+
+  yield* through(chunks, await decompressor(detected));
+}
+
+/**
+ * Compresses the text of a stream chunk by chunk. Each chunk is flushed, so
+ * that the bytes sent so far decompress to whole rows, and a partial
+ * download stays readable. Without `zlib` (in browsers), a
+ * `CompressionStream` is used, which cannot flush: the bytes come out as
+ * its buffers fill, and at `finish()`.
+ */
+export class StreamCompressor {
+  private readonly format: CompressionFormat;
+  private stream: Promise<Compressor> | null = null;
+  private readonly encoder = new TextEncoder();
+
+  constructor(format: CompressionFormat) {
+    this.format = format;
+  }
+
+  /** Returns the compressed bytes of the chunk, flushed. */
+  async compress(chunk: string | Uint8Array): Promise<Uint8Array> {
+    const stream = await this.open();
+    const bytes = typeof chunk === 'string' ? this.encoder.encode(chunk) : chunk;
+    return stream.push(bytes);
+  }
+
+  /** Ends the compressed stream, returning its last bytes. */
+  async finish(): Promise<Uint8Array> {
+    const stream = await this.open();
+    return stream.end();
+  }
+
+  private open(): Promise<Compressor> {
+    if (!this.stream) this.stream = openCompressor(this.format);
+    return this.stream;
+  }
+}
+
+interface Compressor {
+  push(bytes: Uint8Array): Promise<Uint8Array>;
+  end(): Promise<Uint8Array>;
+}
+
+async function openCompressor(format: CompressionFormat): Promise<Compressor> {
+  const zlib = await importZlib();
+  if (zlib) {
+    const stream = format === 'gzip' ? zlib.createGzip()
+      : format === 'deflate' ? zlib.createDeflate()
+      : zlib.createBrotliCompress();
+    const flushKind = format === 'br' ? zlib.constants.BROTLI_OPERATION_FLUSH : zlib.constants.Z_SYNC_FLUSH;
+
+    const output: Uint8Array[] = [];
+    let failure: Error | null = null;
+    stream.on('data', (bytes: Uint8Array) => output.push(bytes));
+    stream.on('error', (err: Error) => { failure = err; });
+
+    // The output of a flush is emitted before its callback
+    const drained = (): Uint8Array => {
+      if (failure) throw failure;
+      return concat(output.splice(0));
+    };
+
+    return {
+      push: bytes => new Promise((resolve, reject) => {
+        stream.write(bytes);
+        stream.flush(flushKind, () => {
+          try { resolve(drained()); } catch (err) { reject(err); }
+        });
+      }),
+      end: () => new Promise((resolve, reject) => {
+        // Its last bytes are emitted before 'end', but after 'finish'
+        stream.once('end', () => {
+          try { resolve(drained()); } catch (err) { reject(err); }
+        });
+        stream.once('error', reject);
+        stream.end();
+      }),
+    };
+  }
+
+  if (format === 'br' || typeof CompressionStream === 'undefined') {
+    throw new Error(`Compressing streams with '${format}' is not supported here.`);
+  }
+
+  const transform = new CompressionStream(format);
+  const writer = transform.writable.getWriter();
+  const reader = transform.readable.getReader();
+  const output: Uint8Array[] = [];
+  const reading = (async () => {
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) return;
+      output.push(value);
+    }
+  })();
+
+  return {
+    push: async (bytes) => {
+      await writer.write(bytes);
+      return concat(output.splice(0));
+    },
+    end: async () => {
+      await writer.close();
+      await reading;
+      return concat(output.splice(0));
+    },
+  };
+}
+
+// A truncated stream ends with the rows of its last flush: zlib is told
+// not to fail on it. DecompressionStream (in browsers) fails instead.
+async function decompressor(format: CompressionFormat): Promise<ByteTransform> {
+  const zlib = await importZlib();
+  if (zlib) {
+    const { Duplex } = await import('node:stream');
+    const stream = format === 'gzip' ? zlib.createGunzip({ finishFlush: zlib.constants.Z_SYNC_FLUSH })
+      : format === 'deflate' ? zlib.createInflate({ finishFlush: zlib.constants.Z_SYNC_FLUSH })
+      : zlib.createBrotliDecompress({ finishFlush: zlib.constants.BROTLI_OPERATION_FLUSH });
+    return Duplex.toWeb(stream) as unknown as ByteTransform;
+  }
+
+  if (format === 'br' || typeof DecompressionStream === 'undefined') {
+    throw new Error(`Decompressing streams with '${format}' is not supported here.`);
+  }
+  return new DecompressionStream(format) as ByteTransform;
+}
+
+async function importZlib(): Promise<typeof import('node:zlib') | null> {
+  try {
+    return await import('node:zlib');
+  } catch {
+    return null;
+  }
+}
+
+// Feeds the chunks to the transform while its output is read, so that
+// neither side waits for the other to finish
+async function* through(chunks: AsyncIterable<StreamChunk>, transform: ByteTransform): AsyncIterable<Uint8Array> {
+  const writer = transform.writable.getWriter();
+  const feeding = (async () => {
+    try {
+      for await (const chunk of chunks) await writer.write(toBytes(chunk));
+      await writer.close();
+    } catch (err) {
+      await writer.abort(err).catch(() => { /* already failed */ });
+    }
+  })();
+
+  const reader = transform.readable.getReader();
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    yield value;
+  }
+  await feeding;
+}
+
+async function* prepend(head: Uint8Array[], iterator: AsyncIterator<StreamChunk>): AsyncIterable<StreamChunk> {
+  yield* head;
+  yield* rest(iterator);
+}
+
+async function* rest(iterator: AsyncIterator<StreamChunk>): AsyncIterable<StreamChunk> {
+  for (;;) {
+    const next = await iterator.next();
+    if (next.done) return;
+    yield next.value;
+  }
+}
+
+function toBytes(chunk: StreamChunk): Uint8Array {
+  if (typeof chunk === 'string') return new TextEncoder().encode(chunk);
+  return chunk instanceof Uint8Array ? chunk : new Uint8Array(chunk);
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  if (chunks.length === 1) return chunks[0];
+  const out = new Uint8Array(chunks.reduce((size, chunk) => size + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+}
@@ -0,0 +1,51 @@
+import Definitions from '../core/definitions';
+import Document from '../core/document';
+import Header from '../core/header';
+import SectionCollection from '../core/section-collection';
+import { stringifyDocument } from '../facade/stringify-document';
+
+/** The header definition naming the definitions of a stream. */
+export const DEFS_ID_KEY = 'defsId';
+
+/**
+ * Returns a stable hash of the definitions, computed over their canonical
+ * header text so that equal definitions hash alike however they were
+ * written. The `defsId` entry itself is not part of the hash.
+ */
+export function hashDefinitions(defs: Definitions): string {
+  const header = new Header();
+  header.definitions.merge(defs, true);
+  header.definitions.delete(DEFS_ID_KEY);
+
+  const text = stringifyDocument(new Document(header, new SectionCollection()), { includeHeader: true });
+  return hashText(text);
+}
+
+/**
+ * Returns the id of the definitions: their `defsId` entry when the header
+ * names them, their hash otherwise, and `null` without definitions.
+ */
+export function definitionsId(defs: Definitions | null): string | null {
+  if (!defs) return null;
+
+  const id = defs.get(DEFS_ID_KEY);
+  if (id !== undefined && id !== null) return String(id);
+  return hashDefinitions(defs);
+}
+
+// A 53-bit non-cryptographic hash (cyrb53), as 14 hex digits. It only has to
+// tell definitions apart, and runs the same in every runtime.
+function hashText(text: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+  const hash = 4294967296 * (2097151 & h2) + (h1 >>> 0);
+  return hash.toString(16).padStart(14, '0');
+}
@@ -0,0 +1,103 @@
+import Definitions from '../core/definitions';
+import IOError from '../errors/io-error';
+import { loadObject } from '../facade/load';
+import { stringify } from '../facade/stringify';
+import parseDefinitions from '../parser/parse-defs';
+
+/** The section of the records reporting the items a writer failed to write. */
+export const ERROR_SCHEMA_NAME = '$error';
+
+/**
+ * The schema of the `$error` records. The schema of the failed item is
+ * named without its `$`, as a value starting with `$` would be read as a
+ * reference.
+ */
+const ERROR_SCHEMA = '{ code: string, message: string, path?: string, index?: int, schema?: string, channel?: string }';
+
+let errorDefs: Definitions | null = null;
+
+/** Returns the definitions holding the built-in `$error` schema. */
+export function errorDefinitions(): Definitions {
+  if (!errorDefs) {
+    errorDefs = parseDefinitions(`~ ${ERROR_SCHEMA_NAME}: ${ERROR_SCHEMA}`)!;
+  }
+  return errorDefs;
+}
+
+/** An `$error` record, as written in the stream. */
+export interface ErrorRecord {
+  /** The error code, e.g. `invalid-type` */
+  code: string;
+
+  /** The reason of the error */
+  message: string;
+
+  /** The path of the member at fault, e.g. `address.city` */
+  path?: string;
+
+  /** The index of the failed item among the items written */
+  index?: number;
+
+  /** The name of the schema of the failed item, without its `$` */
+  schema?: string;
+
+  /** The channel of the failed item, if written to one */
+  channel?: string;
+}
+
+/**
+ * An error reported by the writer of a stream in an `$error` record, in
+ * place of the item it failed to write.
+ */
+export class IOStreamError extends IOError {
+  /** The index of the failed item among the items written, when known */
+  public index?: number;
+
+  /** The schema of the failed item, e.g. `$click`, when known */
+  public schemaName?: string;
+
+  /** The channel of the failed item, if written to one */
+  public channel?: string;
+
+  constructor(errorCode: string, fact?: string) {
+    super(errorCode, fact);
+    this.name = 'IOStreamError';
+  }
+}
+
+/** Returns the `$error` record reporting the error of an item. */
+export function toErrorRecord(err: any, index: number, schemaName: string, channel?: string): ErrorRecord {
+  const record: ErrorRecord = {
+    code: err?.errorCode || 'error',
+    message: err instanceof IOError ? (err.fact ?? err.message) : (err?.message || String(err)),
+  };
+
+  if (err instanceof IOError && err.path) record.path = err.path;
+  record.index = index;
+  record.schema = schemaName.startsWith('$') ? schemaName.slice(1) : schemaName;
+  if (channel !== undefined) record.channel = channel;
+
+  return record;
+}
+
+/** Returns the `$error` record as an IO row, without its leading `~`. */
+export function stringifyErrorRecord(record: ErrorRecord): string {
+  const defs = errorDefinitions();
+  const obj = loadObject(record, defs, { schemaName: ERROR_SCHEMA_NAME });
+  return stringify(obj as any, defs, { schemaName: ERROR_SCHEMA_NAME });
+}
+
+/** Tells whether a value has the shape of an `$error` record. */
+export function isErrorRecord(value: any): value is ErrorRecord {
+  return typeof value?.code === 'string' && typeof value.message === 'string';
+}
+
+/** Rebuilds the error reported by an `$error` record. */
+export function fromErrorRecord(record: ErrorRecord): IOStreamError {
+  const error = new IOStreamError(record.code, record.message);
+  if (record.path !== undefined) error.path = record.path;
+  if (record.index !== undefined) error.index = record.index;
+  if (record.schema !== undefined) error.schemaName = `$${record.schema}`;
+  if (record.channel !== undefined) error.channel = record.channel;
+  return error;
+}
@@ -1,5 +1,17 @@
 export * from './types';
 export { createStreamReader, IOStreamReader } from './reader';
 export { createStreamWriter, IOStreamWriter } from './writer';
-export { createPushSource, BufferTransport } from './adapters';
+export { createPushSource, createSSESource, BufferTransport } from './adapters';
+export type { EventSourceLike, SSESourceOptions } from './adapters';
+export { nodeHttpTransport, webSocketTransport, sseTransport } from './transports';
+export type { SSETransport, SSETransportOptions } from './transports';
+export { definitionsId, hashDefinitions } from './defs-id';
+export { mapResolver, directoryResolver, callbackResolver } from './resolvers';
+export { IOParseTransform, IOStringifyTransform } from './transforms';
+export type { StringifyTransformOptions } from './transforms';
+export { writeStream, IOWriteStream } from './write-stream';
+export type { WriteStreamOptions } from './write-stream';
 
+export { IOStreamError } from './error-records';
+export type { ErrorRecord } from './error-records';
+export type { CompressionFormat } from './compression';
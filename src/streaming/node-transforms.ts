@@ -0,0 +1,110 @@
+import { Transform, TransformCallback } from 'node:stream';
+import Definitions from '../core/definitions';
+import { IOStreamReader } from './reader';
+import { ChunkFeed } from './source';
+import { createTextWriter, StringifyTransformOptions } from './transforms';
+import { IOStreamWriter } from './writer';
+import { StreamReaderOptions } from './types';
+
+/**
+ * A Node.js transform parsing IO text (strings or buffers) into the items
+ * of an `IOStreamReader`, in object mode. A chunk is accepted once the
+ * items it completes have been pushed, and the errors of the reader are
+ * emitted as `'error'` events, so it can be piped like any other stream:
+ *
+ * ```ts
+ * pipeline(fs.createReadStream('x.io'), createParseTransform(), filter, createStringifyTransform(defs), out);
+ * ```
+ */
+export class IOParseNodeTransform extends Transform {
+  /** The reader parsing the text, for its `checkpoint` and `definitions` */
+  readonly reader: IOStreamReader;
+
+  private readonly feed = new ChunkFeed();
+  private readonly reading: Promise<void>;
+
+  constructor(definitions?: Definitions | null, options?: StreamReaderOptions) {
+    super({ readableObjectMode: true });
+
+    const reader = new IOStreamReader(this.feed, definitions, options);
+    this.reader = reader;
+    this.reading = (async () => {
+      for await (const item of reader) this.push(item);
+    })();
+    this.reading.catch(err => this.feed.fail(err));
+  }
+
+  override _transform(chunk: any, _encoding: BufferEncoding, callback: TransformCallback): void {
+    this.feed.put(chunk).then(() => callback(), callback);
+  }
+
+  override _flush(callback: TransformCallback): void {
+    this.feed.end();
+    this.reading.then(() => callback(), callback);
+  }
+
+  override _destroy(err: Error | null, callback: (error?: Error | null) => void): void {
+    // Lets the reader finish instead of waiting for chunks that never come
+    this.feed.end();
+    callback(err);
+  }
+}
+
+/**
+ * A Node.js transform serializing the objects written to it into IO text,
+ * starting with the header. Objects failing validation are emitted as
+ * `'error'` events unless the `onError` option says otherwise.
+ */
+export class IOStringifyNodeTransform extends Transform {
+  /** The writer serializing the objects */
+  readonly writer: IOStreamWriter;
+
+  private readonly schemaName?: string;
+  private headerSent = false;
+
+  constructor(definitions?: Definitions | null, options?: StringifyTransformOptions) {
+    super({ writableObjectMode: true });
+
+    this.writer = createTextWriter(definitions, options);
+    this.schemaName = options?.schemaName;
+  }
+
+  override _transform(item: any, _encoding: BufferEncoding, callback: TransformCallback): void {
+    try {
+      this._sendHeader();
+      const text = this.writer.write(item, this.schemaName);
+      if (text) this.push(text);
+      callback();
+    } catch (err: any) {
+      callback(err);
+    }
+  }
+
+  override _flush(callback: TransformCallback): void {
+    // An empty stream still has its header
+    this._sendHeader();
+    callback();
+  }
+
+  private _sendHeader(): void {
+    if (this.headerSent) return;
+    this.headerSent = true;
+    this.push(this.writer.getHeader());
+  }
+}
+
+/** Creates a Node.js transform parsing IO text into stream items. */
+export function createParseTransform(
+  definitions?: Definitions | null,
+  options?: StreamReaderOptions
+): IOParseNodeTransform {
+  return new IOParseNodeTransform(definitions, options);
+}
+
+/** Creates a Node.js transform serializing objects into IO text. */
+export function createStringifyTransform(
+  definitions?: Definitions | null,
+  options?: StringifyTransformOptions
+): IOStringifyNodeTransform {
+  return new IOStringifyNodeTransform(definitions, options);
+}
@@ -1,24 +1,107 @@
 import Definitions from '../core/definitions';
 import Schema from '../schema/schema';
 import parse from '../parser/index';
-import { ChunkDecoder, normalizeNewlines, splitLinesKeepRemainder, updateStringState } from './text';
+import parseDefinitions from '../parser/parse-defs';
+import ErrorCodes from '../errors/io-error-codes';
+import IOError from '../errors/io-error';
+import { ChunkDecoder, splitLinesKeepRemainder, stripLineBreak, updateStringState, utf8Length } from './text';
+import { DEFS_ID_KEY, definitionsId, hashDefinitions } from './defs-id';
+import { ERROR_SCHEMA_NAME, errorDefinitions, fromErrorRecord, isErrorRecord } from './error-records';
 import { toAsyncIterable } from './source';
-import { IOStreamSource, StreamReaderOptions, StreamItem } from './types';
+import { ChannelRouter } from './channels';
+import { decompressChunks } from './compression';
+import { IOStreamSource, StreamCheckpoint, StreamReaderOptions, StreamItem } from './types';
 import IODocument from '../core/document';
+import ASTParser from '../parser/ast-parser';
+import CollectionNode from '../parser/nodes/collections';
+import ErrorNode from '../parser/nodes/error';
+import TokenNode from '../parser/nodes/tokens';
+import Tokenizer from '../parser/tokenizer';
+import { processCollectionItem } from '../schema/processing/collection-processor';
+import { SchemaResolver } from '../schema/utils/schema-resolver';
+
+type Position = { offset: number; charOffset: number; line: number };
+
+/** The section the rows are processed with, resolved once per section. */
+interface RowSection {
+  schemaName: string;
+  schema: Schema | null;
+}
+
+/** Where the reader stands in a channel it has switched away from. */
+interface ChannelState {
+  section: string;
+  collectionIndex: number;
+  rowSection: RowSection | null | undefined;
+}
+
+// `--- orders: $order` names its section, the channel `orders`; a row
+// tagged `~>orders` belongs to it wherever it appears
+const SECTION_NAME = /^---\s*([A-Za-z_][\w-]*)\s*(?::|$)/;
+const CHANNEL_ROW = /^(\s*)~>([A-Za-z_][\w-]*)(?=\s|$)/;
+
+/** Returns the name of a section line, e.g. `orders` for `--- orders: $order`. */
+function sectionName(line: string | null): string | null {
+  return line === null ? null : SECTION_NAME.exec(line)?.[1] ?? null;
+}
 
 /**
  * A streaming reader for Internet Object data.
  * Reads chunked data from a source and parses it into IO objects.
+ *
+ * After each item, `checkpoint` tells where the stream may be resumed from,
+ * so that a client can reconnect at that offset and pass the checkpoint
+ * (with the same definitions) to a new reader, without reading the header
+ * again.
  */
 export class IOStreamReader implements AsyncIterable<StreamItem> {
   private readonly source: AsyncIterable<any>;
-  private readonly definitions: Definitions | null;
+  private readonly initialDefinitions: Definitions | null;
   private readonly options: StreamReaderOptions;
 
+  private currentDefinitions: Definitions | null;
+  private currentCheckpoint: StreamCheckpoint | null = null;
+  private router: ChannelRouter | null = null;
+
+  /**
+   * @throws IOError when resuming with definitions other than the ones the
+   *   checkpoint was taken with
+   */
   constructor(source: IOStreamSource, definitions?: Definitions | null, options?: StreamReaderOptions) {
-    this.source = toAsyncIterable(source);
-    this.definitions = definitions ?? null;
     this.options = options || {};
+    const compression = this.options.compression ?? 'auto';
+    this.source = compression === 'none'
+      ? toAsyncIterable(source)
+      : decompressChunks(toAsyncIterable(source), compression);
+    this.initialDefinitions = definitions ?? null;
+    this.currentDefinitions = this.initialDefinitions;
+
+    const resume = this.options.resume;
+    if (resume) {
+      const defsId = definitionsId(this.initialDefinitions);
+      if (resume.defsId !== defsId) {
+        throw new IOError(ErrorCodes.definitionsMismatch,
+          `The checkpoint was taken with the definitions '${resume.defsId}', but the reader has '${defsId}'.`);
+      }
+      this.currentCheckpoint = { ...resume };
+    }
+  }
+
+  /**
+   * The checkpoint after the last item read, or after the header before the
+   * first item; null until the header has been read.
+   *
+   * When a record yields several items, the checkpoints of all but its last
+   * item point to the start of the record, so resuming there yields them
+   * again with their same indexes.
+   */
+  get checkpoint(): StreamCheckpoint | null {
+    return this.currentCheckpoint;
+  }
+
+  /** The definitions of the stream, including the ones of its header. */
+  get definitions(): Definitions | null {
+    return this.currentDefinitions;
   }
 
   /**
@@ -33,31 +116,246 @@ export class IOStreamReader implements AsyncIterable<StreamItem> {
     return items;
   }
 
+  /**
+   * Returns an async iterator over the items of a channel: the named section
+   * `--- name: $schema` and the rows tagged `~>name`. All the channels share
+   * one reading of the stream, which should not be iterated otherwise, and
+   * the items of the channels not opened are dropped; open every channel
+   * before reading any.
+   *
+   * ```ts
+   * const orders = reader.channel('orders');
+   * const quotes = reader.channel('quotes');
+   * await Promise.all([consume(orders), consume(quotes)]);
+   * ```
+   *
+   * @throws Error when the channel is already being read
+   */
+  channel(name: string): AsyncIterableIterator<StreamItem> {
+    if (!this.router) this.router = new ChannelRouter(this);
+    return this.router.channel(name);
+  }
+
   /**
    * Iterates over the stream, yielding parsed items (data, error, schemaName, etc.)
    */
   async *[Symbol.asyncIterator](): AsyncIterator<StreamItem> {
     const maxBufferedChars = this.options.maxBufferedChars ?? 2_000_000;
+    const resume = this.options.resume;
 
-    let streamIndex = 0;
+    let streamIndex = resume?.index ?? 0;
+    let collectionIndex = resume?.collectionIndex ?? 0;
     let headerLines: string[] = [];
-    let headerDone = false;
+    let headerDone = resume !== undefined;
 
-    let defs: Definitions | null = this.definitions;
+    let defs: Definitions | null = this.initialDefinitions;
+    let defsId: string | null = resume ? resume.defsId : definitionsId(defs);
     let defaultSchemaName: string | undefined = this.options.defaultSchema;
+    if (resume && !defaultSchemaName && defs?.defaultSchema instanceof Schema) {
+      defaultSchemaName = '$schema';
+    }
 
     // Data parsing state
-    let currentSectionHeaderLine: string | null = null; // e.g. '--- $order'
+    let currentSectionHeaderLine: string | null = resume?.section ?? null; // e.g. '--- $order'
+    let rowSection: RowSection | null | undefined;
+
+    // The channels declared so far, and the one of the current section
+    const channels = new Map<string, ChannelState>();
+    for (const [name, state] of Object.entries(resume?.channels ?? {})) {
+      channels.set(name, { ...state, rowSection: undefined });
+    }
+    let currentChannel = sectionName(currentSectionHeaderLine);
+    if (currentChannel !== null && !channels.has(currentChannel)) {
+      channels.set(currentChannel, { section: currentSectionHeaderLine!, collectionIndex, rowSection: undefined });
+    }
+    let channelsSnapshot: StreamCheckpoint['channels'] | null = null;
     let pendingLines: string[] = [];
+    let pendingLineStarts: number[] = [];
     let pendingSize = 0;
+    let pendingStart: Position = { offset: 0, charOffset: 0, line: 1 };
     let inString: string | null = null;
     let remainder = '';
     const decoder = new ChunkDecoder();
 
-    // Helper to flush pending lines as a parsed section
-    const flushPending = async (): Promise<StreamItem[]> => {
+    // Where the line being read starts, and where it ends
+    let lineStart: Position = { offset: resume?.offset ?? 0, charOffset: resume?.charOffset ?? 0, line: resume?.line ?? 1 };
+    let lineEnd: Position = lineStart;
+    let firstLine = resume === undefined;
+
+    // Adds the channels to a checkpoint; their snapshot is only rebuilt when
+    // the reader switches channels
+    const withChannels = (checkpoint: StreamCheckpoint): StreamCheckpoint => {
+      if (channels.size === 0) return checkpoint;
+      if (!channelsSnapshot) {
+        channelsSnapshot = {};
+        for (const [name, state] of channels) {
+          channelsSnapshot[name] = { section: state.section, collectionIndex: state.collectionIndex };
+        }
+      }
+      checkpoint.channels = channelsSnapshot;
+      return checkpoint;
+    };
+
+    const leaveChannel = (): void => {
+      if (currentChannel === null) return;
+      const state = channels.get(currentChannel)!;
+      state.collectionIndex = collectionIndex;
+      state.rowSection = rowSection;
+      channelsSnapshot = null;
+    };
+
+    // Starts the section of a `---` line; a named one declares its channel
+    const enterSection = (line: string | null): void => {
+      leaveChannel();
+      currentSectionHeaderLine = line;
+      currentChannel = sectionName(line);
+      rowSection = undefined;
+      collectionIndex = 0;
+      if (currentChannel !== null) {
+        channels.set(currentChannel, { section: line!, collectionIndex: 0, rowSection: undefined });
+        channelsSnapshot = null;
+      }
+    };
+
+    // A row tagged with a declared channel switches back to its section; the
+    // tag is blanked out, so that the columns of the row are kept
+    const untag = (line: string): string => {
+      const match = CHANNEL_ROW.exec(line);
+      const name = match?.[2];
+      if (!match || name === undefined || !channels.has(name)) return line;
+
+      if (name !== currentChannel) {
+        leaveChannel();
+        const state = channels.get(name)!;
+        currentChannel = name;
+        currentSectionHeaderLine = state.section;
+        collectionIndex = state.collectionIndex;
+        rowSection = state.rowSection;
+      }
+      return `${match[1]}~${' '.repeat(name.length + 1)}${line.slice(match[0].length)}`;
+    };
+
+    // Resolves the schema of the current section for its rows; null when the
+    // rows must be parsed along with the section line, as for sections
+    // whose schema is not defined.
+    const resolveRowSection = (): RowSection | null => {
+      try {
+        const tokens = new Tokenizer(currentSectionHeaderLine ?? '---').tokenize();
+        const sectionNode = new ASTParser(tokens).parse().children[0];
+        if (!sectionNode) return null;
+
+        const schemaName = sectionNode.schemaName ?? '$schema';
+        const name = schemaName.startsWith('$') ? schemaName : `$${schemaName}`;
+
+        // `$error` records are read with the built-in schema unless the
+        // definitions have their own
+        const sectionDefs = name === ERROR_SCHEMA_NAME && defs?.get(ERROR_SCHEMA_NAME) === undefined
+          ? errorDefinitions()
+          : defs;
+
+        const found = schemaName === '$schema'
+          ? sectionDefs?.defaultSchema
+          : sectionDefs?.getV(sectionNode.schemaNode ?? schemaName);
+        if (!found) return { schemaName: defaultSchemaName ?? '$schema', schema: null };
+        if (!(found instanceof Schema) && !(found instanceof TokenNode)) return null;
+
+        return { schemaName: name, schema: SchemaResolver.resolve(found, sectionDefs ?? undefined) };
+      } catch {
+        return null;
+      }
+    };
+
+    // Processes the pending `~` rows alone against the schema of their
+    // section, keeping the positions of their tokens in the stream. Returns
+    // undefined when the rows are not a plain collection.
+    const processRows = (text: string, section: RowSection): StreamItem[] | undefined => {
+      let root;
+      try {
+        const tokens = new Tokenizer(text).tokenize();
+        for (const token of tokens) {
+          token.pos = pendingLineStarts[token.row - 1] + token.col - 1;
+          token.row += pendingStart.line - 1;
+        }
+        root = new ASTParser(tokens).parse();
+      } catch {
+        return undefined;
+      }
+
+      const collection = root.header === null && root.children.length === 1 ? root.children[0].child : null;
+      if (!(collection instanceof CollectionNode)) return undefined;
+
+      const out: StreamItem[] = collection.children.map((node) => {
+        const { value, errors } = section.schema
+          ? processCollectionItem(node, collectionIndex++, section.schema, defs ?? undefined)
+          : { value: node instanceof ErrorNode ? node : node?.toValue(defs ?? undefined), errors: [] };
+
+        if (value instanceof ErrorNode || errors.length > 0) {
+          return { data: null, schemaName: section.schemaName, index: streamIndex++, error: errors[0] ?? value.error };
+        }
+        return dataItem(value, section.schemaName);
+      });
+
+      // Syntax errors the rows do not hold are reported with the last one
+      const syntaxErrors = root.getErrors();
+      if (syntaxErrors.length > 0 && out.length > 0 && out.every(item => !item.error)) {
+        out[out.length - 1].error = syntaxErrors[0];
+      }
+      return out;
+    };
+
+    // Yields a valid item; the records of the `$error` section stand for the
+    // items the writer failed to write, and are yielded as their errors.
+    const dataItem = (data: any, schemaName: string): StreamItem => {
+      const record = schemaName === ERROR_SCHEMA_NAME ? data?.toJSON?.() : undefined;
+      if (isErrorRecord(record)) {
+        const error = fromErrorRecord(record);
+        const item: StreamItem = { data: null, schemaName: error.schemaName ?? ERROR_SCHEMA_NAME, index: streamIndex++, error };
+        if (error.channel !== undefined) item.channel = error.channel;
+        return item;
+      }
+      return { data, schemaName, index: streamIndex++, error: undefined };
+    };
+
+    // Helper to flush pending lines as a parsed section. Each item is paired
+    // with the checkpoint after it; the pending text ends at `end`.
+    const flushPending = async (end: Position): Promise<Array<[StreamItem, StreamCheckpoint]>> => {
       if (pendingLines.length === 0) return [];
 
+      const start = pendingStart;
+      const startIndex = streamIndex;
+      const startCollectionIndex = collectionIndex;
+      const section = currentSectionHeaderLine;
+      const channel = currentChannel;
+      const paired = (items: StreamItem[]): Array<[StreamItem, StreamCheckpoint]> => items.map((item, i) => {
+        const last = i === items.length - 1;
+        if (channel !== null && item.channel === undefined) item.channel = channel;
+        return [item, withChannels({
+          defsId,
+          section,
+          index: last ? streamIndex : startIndex,
+          collectionIndex: last ? collectionIndex : startCollectionIndex,
+          ...(last ? end : start),
+        })];
+      });
+      const parsed = (items: StreamItem[]): Array<[StreamItem, StreamCheckpoint]> => {
+        collectionIndex += items.length;
+        return paired(items);
+      };
+
+      // Rows are processed one by one, so sections can be of any size
+      if (pendingLines[0].trimStart().startsWith('~')) {
+        if (rowSection === undefined) rowSection = resolveRowSection();
+        if (rowSection) {
+          const items = processRows(pendingLines.join('\n'), rowSection);
+          if (items) {
+            pendingLines = [];
+            pendingLineStarts = [];
+            pendingSize = 0;
+            return paired(items);
+          }
+        }
+      }
+
       const sectionText = [
         // If no explicit section header has been seen, omit it (default section)
         currentSectionHeaderLine ? `${currentSectionHeaderLine}\n` : '',
@@ -66,6 +364,7 @@ export class IOStreamReader implements AsyncIterable<StreamItem> {
       ].join('');
 
       pendingLines = [];
+      pendingLineStarts = [];
       pendingSize = 0;
 
       const errors: Error[] = [];
@@ -75,12 +374,12 @@ export class IOStreamReader implements AsyncIterable<StreamItem> {
         doc = defs ? parse(sectionText, defs, errors) : parse(sectionText, null, errors);
       } catch (err: any) {
         // If parse throws (e.g. syntax error), yield an error item
-        return [{
+        return parsed([{
           data: null,
           schemaName: currentSectionHeaderLine ? (currentSectionHeaderLine.replace('---', '').trim() || '$schema') : (defaultSchemaName ?? '$schema'),
           index: streamIndex++,
           error: err
-        }];
+        }]);
       }
 
       const out: StreamItem[] = [];
@@ -88,15 +387,15 @@ export class IOStreamReader implements AsyncIterable<StreamItem> {
 
       // If parse produced errors but no sections (or empty sections), yield error
       if ((!sections || sections.length === 0) && errors.length > 0) {
-         return [{
+         return parsed([{
           data: null,
           schemaName: currentSectionHeaderLine ? (currentSectionHeaderLine.replace('---', '').trim() || '$schema') : (defaultSchemaName ?? '$schema'),
           index: streamIndex++,
           error: errors[0]
-        }];
+        }]);
       }
 
-      if (!sections || sections.length === 0) return out;
+      if (!sections || sections.length === 0) return [];
 
       for (let si = 0; si < sections.length; si++) {
         const section = sections.get(si);
@@ -121,12 +420,7 @@ export class IOStreamReader implements AsyncIterable<StreamItem> {
                 error: item,
               });
             } else {
-              out.push({
-                data: item,
-                schemaName,
-                index: streamIndex++,
-                error: undefined,
-              });
+              out.push(dataItem(item, schemaName));
             }
             idxInSection++;
           }
@@ -134,7 +428,7 @@ export class IOStreamReader implements AsyncIterable<StreamItem> {
           if ((data as any).__error) {
             out.push({ data: null, schemaName, index: streamIndex++, error: data });
           } else {
-            out.push({ data, schemaName, index: streamIndex++, error: undefined });
+            out.push(dataItem(data, schemaName));
           }
         }
       }
@@ -144,23 +438,34 @@ export class IOStreamReader implements AsyncIterable<StreamItem> {
         out[out.length - 1].error = errors[0];
       }
 
-      return out;
+      return parsed(out);
     };
 
     // --- Main Loop ---
     for await (const chunk of this.source) {
-      const text = normalizeNewlines(decoder.decode(chunk));
-      remainder += text;
+      remainder += decoder.decode(chunk);
 
+      const { lines, remainder: newRemainder } = splitLinesKeepRemainder(remainder);
+      remainder = newRemainder;
+
+      // Only an unterminated line is held, however large the chunk
       if (remainder.length > maxBufferedChars) {
         throw new Error(`Stream reader exceeded maxBufferedChars (${maxBufferedChars}).`);
       }
 
-      const { lines, remainder: newRemainder } = splitLinesKeepRemainder(remainder);
-      remainder = newRemainder;
-
       for (const rawLine of lines) {
-        const line = rawLine;
+        lineStart = lineEnd;
+        lineEnd = {
+          offset: lineStart.offset + utf8Length(rawLine),
+          charOffset: lineStart.charOffset + rawLine.length,
+          line: lineStart.line + 1,
+        };
+
+        let line = stripLineBreak(rawLine);
+        if (firstLine) {
+          firstLine = false;
+          if (line.charCodeAt(0) === 0xfeff) line = line.slice(1);
+        }
         const trimmed = line.trim();
 
         if (!headerDone) {
@@ -169,29 +474,50 @@ export class IOStreamReader implements AsyncIterable<StreamItem> {
 
             const headerText = headerLines.length ? `${headerLines.join('\n')}\n---\n` : `---\n`;
             headerLines = [];
+            pendingLineStarts = [];
+            pendingSize = 0;
 
             const headerErrors: Error[] = [];
             const headerDoc = defs ? parse(headerText, defs, headerErrors) : parse(headerText, null, headerErrors);
 
             defs = headerDoc.header?.definitions ?? defs;
-            const schema = headerDoc.header?.schema;
+
+            // A header without schemas may name its definitions by id
+            const referenced = defs?.get(DEFS_ID_KEY);
+            if (this.options.resolver && defs && referenced !== undefined && referenced !== null
+                && !defs.keys.some(key => key.startsWith('$'))) {
+              defs = await this.resolveDefinitions(String(referenced), defs);
+            }
+
+            defsId = definitionsId(defs);
+            this.currentDefinitions = defs;
+            const schema = headerDoc.header?.schema ?? defs?.defaultSchema;
             if (!defaultSchemaName && schema instanceof Schema) {
                 defaultSchemaName = '$schema';
             }
 
-            currentSectionHeaderLine = trimmed === '---' ? null : trimmed;
+            enterSection(trimmed === '---' ? null : trimmed);
+            this.currentCheckpoint = withChannels({ defsId, section: currentSectionHeaderLine, index: streamIndex, collectionIndex, ...lineEnd });
             continue;
             }
 
             headerLines.push(line);
+            pendingLineStarts.push(lineStart.charOffset);
+            pendingSize += line.length;
+            if (pendingSize > maxBufferedChars) {
+              throw new Error(`Stream reader exceeded maxBufferedChars (${maxBufferedChars}) in the header.`);
+            }
             continue;
         }
 
         if (trimmed.startsWith('---')) {
-            const flushed = await flushPending();
-            for (const item of flushed) yield item;
+            const flushed = await flushPending(lineStart);
+            for (const [item, checkpoint] of flushed) {
+              this.currentCheckpoint = checkpoint;
+              yield item;
+            }
 
-            currentSectionHeaderLine = trimmed === '---' ? null : trimmed;
+            enterSection(trimmed === '---' ? null : trimmed);
             inString = null;
             continue;
         }
@@ -199,18 +525,25 @@ export class IOStreamReader implements AsyncIterable<StreamItem> {
         if (trimmed.length === 0) {
             if (inString !== null) {
             pendingLines.push(line);
+            pendingLineStarts.push(lineStart.charOffset);
             }
             continue;
         }
 
         if (inString === null && (trimmed.startsWith('~') || trimmed.startsWith('#'))) {
-            const flushed = await flushPending();
-            for (const item of flushed) yield item;
+            const flushed = await flushPending(lineStart);
+            for (const [item, checkpoint] of flushed) {
+              this.currentCheckpoint = checkpoint;
+              yield item;
+            }
+            line = untag(line);
         }
 
         inString = updateStringState(line, inString);
 
+        if (pendingLines.length === 0) pendingStart = lineStart;
         pendingLines.push(line);
+        pendingLineStarts.push(lineStart.charOffset);
         pendingSize += line.length;
         if (pendingSize > maxBufferedChars) {
             throw new Error(`Stream reader exceeded maxBufferedChars (${maxBufferedChars}) in pending lines.`);
@@ -219,21 +552,74 @@ export class IOStreamReader implements AsyncIterable<StreamItem> {
     }
 
     if (remainder.trim().length > 0) {
+      if (firstLine && remainder.charCodeAt(0) === 0xfeff) {
+        lineEnd = { ...lineEnd, offset: lineEnd.offset + 3, charOffset: lineEnd.charOffset + 1 };
+        remainder = remainder.slice(1);
+        firstLine = false;
+      }
       if (!headerDone) {
         headerLines.push(remainder);
+        pendingLineStarts.push(lineEnd.charOffset);
       } else {
+        const trimmed = remainder.trim();
+        if (inString === null && (trimmed.startsWith('~') || trimmed.startsWith('#'))) {
+          const flushed = await flushPending(lineEnd);
+          for (const [item, checkpoint] of flushed) {
+            this.currentCheckpoint = checkpoint;
+            yield item;
+          }
+          remainder = untag(remainder);
+        }
+        if (pendingLines.length === 0) pendingStart = lineEnd;
         pendingLines.push(remainder);
+        pendingLineStarts.push(lineEnd.charOffset);
       }
     }
+    const end: Position = {
+      offset: lineEnd.offset + utf8Length(remainder),
+      charOffset: lineEnd.charOffset + remainder.length,
+      line: lineEnd.line,
+    };
 
     if (!headerDone && headerLines.length > 0) {
       pendingLines = headerLines;
       headerLines = [];
       headerDone = true;
+      pendingStart = { offset: 0, charOffset: 0, line: 1 };
+    }
+
+    const flushed = await flushPending(end);
+    for (const [item, checkpoint] of flushed) {
+      this.currentCheckpoint = checkpoint;
+      yield item;
+    }
+  }
+
+  /**
+   * Resolves the definitions the header names by id, and adds them to the
+   * header definitions.
+   *
+   * @throws IOError when the resolver does not know the id, or finds
+   *   definitions with another id
+   */
+  private async resolveDefinitions(defsId: string, header: Definitions): Promise<Definitions> {
+    const resolver = this.options.resolver!;
+    const found = typeof resolver === 'function' ? await resolver(defsId) : await resolver.resolve(defsId);
+    if (found === null || found === undefined) {
+      throw new IOError(ErrorCodes.definitionsRequired, `No definitions were found for the defsId '${defsId}' of the stream.`);
+    }
+
+    const resolved = typeof found === 'string' ? parseDefinitions(found) : found;
+    const hash = resolved ? hashDefinitions(resolved) : null;
+    if (!resolved || (hash !== defsId && definitionsId(resolved) !== defsId)) {
+      throw new IOError(ErrorCodes.definitionsMismatch,
+        `The definitions resolved for the defsId '${defsId}' do not match it; their hash is '${hash}'.`);
     }
 
-    const flushed = await flushPending();
-    for (const item of flushed) yield item;
+    const defs = new Definitions();
+    defs.merge(header, true);
+    defs.merge(resolved, false);
+    return defs;
   }
 }
 
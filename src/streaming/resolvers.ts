@@ -0,0 +1,45 @@
+import Definitions from '../core/definitions';
+import { DefinitionsResolver, ResolvedDefinitions } from './types';
+
+/**
+ * Resolves definitions from an in-memory map of ids to definitions (or
+ * their IO text).
+ */
+export function mapResolver(
+  entries: Map<string, Definitions | string> | Record<string, Definitions | string>
+): DefinitionsResolver {
+  const map = entries instanceof Map ? entries : new Map(Object.entries(entries));
+  return {
+    resolve(defsId) {
+      return map.get(defsId);
+    }
+  };
+}
+
+/**
+ * Resolves definitions from the files of a directory, named after their id
+ * (`<dir>/<defsId>.io`). Node.js only. Ids that are not plain file names
+ * are never looked up.
+ */
+export function directoryResolver(dir: string, extension: string = '.io'): DefinitionsResolver {
+  return {
+    async resolve(defsId) {
+      if (!/^[\w.-]+$/.test(defsId) || defsId.startsWith('.')) return undefined;
+
+      const { readFile } = await import('node:fs/promises');
+      try {
+        return await readFile(`${dir.replace(/[\\/]+$/, '')}/${defsId}${extension}`, 'utf-8');
+      } catch (err: any) {
+        if (err?.code === 'ENOENT') return undefined;
+        throw err;
+      }
+    }
+  };
+}
+
+/** Resolves definitions with a function. */
+export function callbackResolver(
+  resolve: (defsId: string) => ResolvedDefinitions | Promise<ResolvedDefinitions>
+): DefinitionsResolver {
+  return { resolve };
+}
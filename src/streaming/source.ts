@@ -44,6 +44,75 @@ export async function* toAsyncIterable(source: IOStreamSource): AsyncIterable<St
   throw new Error('Unsupported stream source type. Provide an AsyncIterable or a ReadableStream.');
 }
 
+/**
+ * A source fed one chunk at a time, for readers driven by a transform.
+ * `put()` resolves once the reader has consumed the chunk, that is, when it
+ * asks for the next one, so the transform can wait for the items of each
+ * chunk before accepting more.
+ */
+export class ChunkFeed implements AsyncIterable<StreamChunk> {
+  private readonly chunks: StreamChunk[] = [];
+  private ended = false;
+  private failure: Error | null = null;
+  private consumer: ((result: IteratorResult<StreamChunk>) => void) | null = null;
+  private producers: { resolve: () => void; reject: (err: Error) => void }[] = [];
+
+  /** Feeds the chunk, resolving once the reader has consumed it. */
+  put(chunk: StreamChunk): Promise<void> {
+    if (this.failure) return Promise.reject(this.failure);
+
+    return new Promise((resolve, reject) => {
+      this.producers.push({ resolve, reject });
+      this.chunks.push(chunk);
+      this._give();
+    });
+  }
+
+  /** Ends the source once the fed chunks are consumed. */
+  end(): void {
+    this.ended = true;
+    this._give();
+  }
+
+  /** Fails the chunks waiting to be consumed, and the ones fed later. */
+  fail(err: Error): void {
+    this.failure = err;
+    this.producers.splice(0).forEach(producer => producer.reject(err));
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<StreamChunk> {
+    let given = 0;
+    return {
+      next: () => {
+        // Asking for a chunk means the ones given before are consumed
+        this.producers.splice(0, given).forEach(producer => producer.resolve());
+        given = 0;
+
+        return new Promise<IteratorResult<StreamChunk>>(resolve => {
+          this.consumer = (result) => {
+            if (!result.done) given = 1;
+            resolve(result);
+          };
+          this._give();
+        });
+      }
+    };
+  }
+
+  private _give(): void {
+    const consumer = this.consumer;
+    if (!consumer) return;
+
+    if (this.chunks.length > 0) {
+      this.consumer = null;
+      consumer({ value: this.chunks.shift()!, done: false });
+    } else if (this.ended) {
+      this.consumer = null;
+      consumer({ value: undefined, done: true });
+    }
+  }
+}
+
 function isAsyncIterable(x: any): x is AsyncIterable<any> {
   return x && typeof x[Symbol.asyncIterator] === 'function';
 }
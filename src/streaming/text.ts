@@ -1,7 +1,8 @@
 import { StreamChunk } from './types';
 
 export class ChunkDecoder {
-  private decoder = new TextDecoder('utf-8');
+  // A byte order mark is kept, so that byte offsets match the source
+  private decoder = new TextDecoder('utf-8', { ignoreBOM: true });
 
   decode(chunk: StreamChunk): string {
     if (typeof chunk === 'string') return chunk;
@@ -10,17 +11,53 @@ export class ChunkDecoder {
   }
 }
 
-export function normalizeNewlines(s: string): string {
-  // Keep it simple: normalize CRLF to LF for parsing logic.
-  return s.replace(/\r\n/g, '\n').replace(/\r/g, '\n');
+/**
+ * Splits the buffer into complete lines, each ending with `\n`, `\r\n` or
+ * `\r` and keeping its line break, so that the callers can count the
+ * characters and bytes they consume. A trailing `\r` stays in the remainder
+ * until the next chunk tells whether a `\n` follows it.
+ */
+export function splitLinesKeepRemainder(buffer: string): { lines: string[]; remainder: string } {
+  const lines: string[] = [];
+  let start = 0;
+
+  for (let i = 0; i < buffer.length; i++) {
+    const ch = buffer.charCodeAt(i);
+    if (ch === 10) {
+      lines.push(buffer.slice(start, i + 1));
+      start = i + 1;
+    } else if (ch === 13) {
+      if (i + 1 === buffer.length) break;
+      const end = buffer.charCodeAt(i + 1) === 10 ? i + 2 : i + 1;
+      lines.push(buffer.slice(start, end));
+      start = end;
+      i = end - 1;
+    }
+  }
+
+  return { lines, remainder: buffer.slice(start) };
 }
 
-export function splitLinesKeepRemainder(buffer: string): { lines: string[]; remainder: string } {
-  const idx = buffer.lastIndexOf('\n');
-  if (idx === -1) return { lines: [], remainder: buffer };
-  const head = buffer.slice(0, idx);
-  const remainder = buffer.slice(idx + 1);
-  return { lines: head.split('\n'), remainder };
+/** Returns the line without its line break. */
+export function stripLineBreak(line: string): string {
+  if (line.endsWith('\r\n')) return line.slice(0, -2);
+  if (line.endsWith('\n') || line.endsWith('\r')) return line.slice(0, -1);
+  return line;
+}
+
+/** Returns the number of bytes the string takes in UTF-8. */
+export function utf8Length(s: string): number {
+  let bytes = 0;
+  for (let i = 0; i < s.length; i++) {
+    const ch = s.charCodeAt(i);
+    if (ch < 0x80) bytes += 1;
+    else if (ch < 0x800) bytes += 2;
+    else if (ch >= 0xd800 && ch <= 0xdbff && i + 1 < s.length && (s.charCodeAt(i + 1) & 0xfc00) === 0xdc00) {
+      bytes += 4;
+      i++;
+    } else bytes += 3;
+  }
+  return bytes;
 }
 
 export function updateStringState(line: string, inString: string | null): string | null {
@@ -28,22 +65,24 @@ export function updateStringState(line: string, inString: string | null): string
   for (let i = 0; i < line.length; i++) {
     const char = line[i];
     if (state === null) {
-      if (char === '"' || char === "'") {
+      // Open strings escape quotes too, as in `it\'s`
+      if ((char === '"' || char === "'") && !isEscaped(line, i)) {
         state = char;
       }
     } else {
-      if (char === state) {
-        // Check if it's escaped
-        let backslashes = 0;
-        for (let j = i - 1; j >= 0; j--) {
-          if (line[j] === '\\') backslashes++;
-          else break;
-        }
-        if (backslashes % 2 === 0) {
-          state = null;
-        }
+      if (char === state && !isEscaped(line, i)) {
+        state = null;
       }
     }
   }
   return state;
 }
+
+function isEscaped(line: string, index: number): boolean {
+  let backslashes = 0;
+  for (let j = index - 1; j >= 0; j--) {
+    if (line[j] === '\\') backslashes++;
+    else break;
+  }
+  return backslashes % 2 === 1;
+}
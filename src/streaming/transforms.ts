@@ -0,0 +1,90 @@
+import Definitions from '../core/definitions';
+import { IOStreamReader } from './reader';
+import { ChunkFeed } from './source';
+import { IOStreamWriter } from './writer';
+import { StreamChunk, StreamItem, StreamReaderOptions, StreamWriterOptions } from './types';
+
+/** Options of the transforms serializing objects into IO text. */
+export interface StringifyTransformOptions extends StreamWriterOptions {
+  /** The schema of the objects. Default: `$schema`. */
+  schemaName?: string;
+}
+
+/**
+ * Parses IO text (strings or UTF-8 bytes) into the items of an
+ * `IOStreamReader`. Each chunk is accepted once the items it completes have
+ * been queued, so a slow reader of the items slows down the writer of the
+ * text. Errors of the reader error the stream.
+ *
+ * ```ts
+ * const items = response.body!.pipeThrough(new IOParseTransform(defs));
+ * ```
+ */
+export class IOParseTransform extends TransformStream<StreamChunk, StreamItem> {
+  /** The reader parsing the text, for its `checkpoint` and `definitions` */
+  readonly reader: IOStreamReader;
+
+  constructor(definitions?: Definitions | null, options?: StreamReaderOptions) {
+    const feed = new ChunkFeed();
+    const reader = new IOStreamReader(feed, definitions, options);
+    let reading: Promise<void>;
+
+    super({
+      start: (controller) => {
+        reading = (async () => {
+          for await (const item of reader) controller.enqueue(item);
+        })();
+        reading.catch((err) => {
+          feed.fail(err);
+          controller.error(err);
+        });
+      },
+      transform: chunk => feed.put(chunk),
+      flush: () => {
+        feed.end();
+        return reading;
+      },
+    });
+
+    this.reader = reader;
+  }
+}
+
+/**
+ * Serializes the objects written to it into IO text, starting with the
+ * header, with an `IOStreamWriter`. Objects failing validation error the
+ * stream unless the `onError` option says otherwise.
+ *
+ * ```ts
+ * const body = objects.pipeThrough(new IOStringifyTransform(defs));
+ * ```
+ */
+export class IOStringifyTransform extends TransformStream<any, string> {
+  /** The writer serializing the objects */
+  readonly writer: IOStreamWriter;
+
+  constructor(definitions?: Definitions | null, options?: StringifyTransformOptions) {
+    const writer = createTextWriter(definitions, options);
+    const schemaName = options?.schemaName;
+
+    super({
+      start: (controller) => {
+        controller.enqueue(writer.getHeader());
+      },
+      transform: (item, controller) => {
+        const text = writer.write(item, schemaName);
+        if (text) controller.enqueue(text);
+      },
+    });
+
+    this.writer = writer;
+  }
+}
+
+/**
+ * Returns a writer used only to serialize, whose text the caller passes on
+ * itself.
+ */
+export function createTextWriter(definitions?: Definitions | null, options?: StreamWriterOptions): IOStreamWriter {
+  return new IOStreamWriter({ send() { /* the text is returned by write() */ } }, definitions, options);
+}
@@ -1,11 +1,37 @@
+import { updateStringState } from './text';
 import { IOStreamTransport } from './types';
 
+/**
+ * The parts of a Node.js `Writable` the transports use. `write()` returns
+ * `false` when the stream buffers are full; `'drain'` is emitted once they
+ * have been flushed.
+ */
+export interface NodeWritableLike {
+  write(chunk: any): boolean | void;
+  once?(event: string, listener: (...args: any[]) => void): any;
+  removeListener?(event: string, listener: (...args: any[]) => void): any;
+}
+
+/**
+ * Node.js Writable transport. `send()` resolves at once while the stream
+ * accepts more data, and after its `'drain'` event when `write()` reports
+ * that the buffers are full, rejecting if the stream fails or closes first.
+ */
+export function nodeWritableTransport(writable: NodeWritableLike): IOStreamTransport {
+  return {
+    send(chunk) {
+      if (writable.write(chunk) === false) return waitForDrain(writable);
+    }
+  };
+}
+
 /** Node.js HTTP transport (ServerResponse-like). */
-export function nodeHttpTransport(res: { write: (chunk: any) => any; flush?: () => void }): IOStreamTransport {
+export function nodeHttpTransport(res: NodeWritableLike & { flush?: () => void }): IOStreamTransport {
   return {
     send(chunk) {
-      res.write(chunk);
+      const ok = res.write(chunk);
       if (typeof res.flush === 'function') res.flush();
+      if (ok === false) return waitForDrain(res);
     }
   };
 }
@@ -18,3 +44,112 @@ export function webSocketTransport(ws: { send: (data: any) => any }): IOStreamTr
     }
   };
 }
+
+/** Options of the Server-Sent Events transport. */
+export interface SSETransportOptions {
+  /** The reconnection delay the client should wait for, in ms, sent once */
+  retry?: number;
+
+  /**
+   * The index of the first item sent, when resuming a stream from the
+   * `Last-Event-ID` of a client. Default: 0.
+   */
+  startIndex?: number;
+
+  /** The type of the events. Default: unnamed (`message`). */
+  event?: string;
+}
+
+/** A Server-Sent Events transport, which tells the client when the stream is complete. */
+export interface SSETransport extends IOStreamTransport {
+  /** Sends the `end` event and ends the response. */
+  end(): void;
+}
+
+/** The event telling an SSE client that the stream is complete. */
+export const SSE_END_EVENT = 'end';
+
+/**
+ * Server-Sent Events transport (ServerResponse-like). Each chunk is sent as
+ * an event, one `data:` field per line, whose `id` is the index of the next
+ * item: a client reconnecting with that `Last-Event-ID` resumes with the
+ * next item. The response headers are set unless already sent.
+ *
+ * ```ts
+ * const transport = sseTransport(res, { retry: 2000, startIndex: Number(req.headers['last-event-id'] ?? 0) });
+ * ```
+ */
+export function sseTransport(
+  res: NodeWritableLike & { flush?: () => void; end?: () => void; setHeader?: (name: string, value: string) => void; headersSent?: boolean },
+  options?: SSETransportOptions
+): SSETransport {
+  const decoder = new TextDecoder();
+  let index = options?.startIndex ?? 0;
+  let retry = options?.retry;
+  let inString: string | null = null;
+  let inHeader = true;
+
+  if (typeof res.setHeader === 'function' && !res.headersSent) {
+    res.setHeader('content-type', 'text/event-stream; charset=utf-8');
+    res.setHeader('cache-control', 'no-cache');
+    res.setHeader('connection', 'keep-alive');
+  }
+
+  const write = (frame: string) => {
+    const ok = res.write(frame);
+    if (typeof res.flush === 'function') res.flush();
+    if (ok === false) return waitForDrain(res);
+  };
+
+  return {
+    send(chunk) {
+      const text = typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+      const lines = text.replace(/(\r\n|\r|\n)$/, '').split(/\r\n|\r|\n/);
+
+      // Counts the records of the chunk, which follow the header
+      for (const line of lines) {
+        const trimmed = line.trimStart();
+        if (inString === null) {
+          if (trimmed.startsWith('---')) inHeader = false;
+          else if (!inHeader && trimmed.startsWith('~')) index++;
+        }
+        inString = updateStringState(line, inString);
+      }
+
+      let frame = '';
+      if (retry !== undefined) {
+        frame += `retry: ${retry}\n`;
+        retry = undefined;
+      }
+      if (options?.event) frame += `event: ${options.event}\n`;
+      frame += `id: ${index}\n`;
+      frame += lines.map(line => `data: ${line}\n`).join('');
+
+      return write(`${frame}\n`);
+    },
+    end() {
+      write(`event: ${SSE_END_EVENT}\ndata:\n\n`);
+      res.end?.();
+    },
+  };
+}
+
+function waitForDrain(writable: NodeWritableLike): Promise<void> | void {
+  // Duck-typed writables without events cannot report when they drain
+  if (typeof writable.once !== 'function') return;
+
+  return new Promise<void>((resolve, reject) => {
+    const cleanup = () => {
+      writable.removeListener?.('drain', onDrain);
+      writable.removeListener?.('error', onError);
+      writable.removeListener?.('close', onClose);
+    };
+    const onDrain = () => { cleanup(); resolve(); };
+    const onError = (err: Error) => { cleanup(); reject(err); };
+    const onClose = () => { cleanup(); reject(new Error('The stream was closed before it drained.')); };
+
+    writable.once!('drain', onDrain);
+    writable.once!('error', onError);
+    writable.once!('close', onClose);
+  });
+}
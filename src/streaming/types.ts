@@ -1,3 +1,6 @@
+import Definitions from '../core/definitions';
+import { CompressionFormat } from './compression';
+
 export type StreamChunk = string | Uint8Array | ArrayBuffer;
 
 /** Server-side: where the writer sends text chunks. */
@@ -27,6 +30,57 @@ export interface StreamItem<T = any> {
   schemaName: string;
   index: number;
   error?: Error;
+
+  /** The name of the section (or channel) of the item, when it has one */
+  channel?: string;
+}
+
+/**
+ * Where a reader stands in a stream, so that it can resume there after the
+ * connection breaks. The offsets count from the start of the stream, and
+ * point just past the last line consumed by the item.
+ */
+export interface StreamCheckpoint {
+  /** The id of the header definitions (its `defsId`, or their hash) */
+  defsId: string | null;
+
+  /** The `--- $section` line of the current section, or null */
+  section: string | null;
+
+  /** The index of the next item */
+  index: number;
+
+  /** The index of the next item within its section */
+  collectionIndex: number;
+
+  /**
+   * The channels declared so far, by name: their section line, and the
+   * index of their next item
+   */
+  channels?: Record<string, { section: string; collectionIndex: number }>;
+
+  /** The UTF-8 byte offset to resume reading from */
+  offset: number;
+
+  /** The character (UTF-16 code unit) offset to resume reading from */
+  charOffset: number;
+
+  /** The line number of the offset, for the positions of later errors */
+  line: number;
+}
+
+/**
+ * Definitions found for an id: the definitions, or their IO text. `null` or
+ * `undefined` when the id is unknown.
+ */
+export type ResolvedDefinitions = Definitions | string | null | undefined;
+
+/**
+ * Finds the definitions a stream header refers to by its `defsId`, so that
+ * the writer does not have to send them with every stream.
+ */
+export interface DefinitionsResolver {
+  resolve(defsId: string): ResolvedDefinitions | Promise<ResolvedDefinitions>;
 }
 
 export interface StreamReaderOptions {
@@ -34,24 +88,75 @@ export interface StreamReaderOptions {
   defaultSchema?: string;
 
   /**
-   * Soft guardrails for streaming buffers.
+   * Soft guardrails for streaming buffers: the most characters a single
+   * line, record or header may take. Sections are read row by row, so they
+   * may be of any size. Default: 2000000.
    * This is not a security boundary, but prevents accidental unbounded growth.
    */
   maxBufferedChars?: number;
+
+  /**
+   * Resumes a stream from a checkpoint of an earlier reader. The source
+   * must start at the checkpoint offset, and the definitions must be the
+   * ones of the original header; they are checked against its `defsId`.
+   */
+  resume?: StreamCheckpoint;
+
+  /**
+   * Resolves the definitions of streams whose header only names them by
+   * their `defsId`. The resolved definitions must have that id: their
+   * content hash, or the `defsId` they declare.
+   */
+  resolver?: DefinitionsResolver | DefinitionsResolver['resolve'];
+
+  /**
+   * How byte sources are compressed: `'auto'` (the default) decompresses
+   * gzip and deflate sources told by their first bytes, a format always
+   * decompresses with it (brotli must be named), and `'none'` never does.
+   * Checkpoint offsets count the decompressed bytes.
+   */
+  compression?: CompressionFormat | 'auto' | 'none';
 }
 
 export interface StreamWriterOptions {
-  /** Default: true. If false, schemas are not written into the header. */
+  /**
+   * Default: true. If false, schemas are not written into the header, which
+   * names them by their `defsId` instead for the reader to resolve.
+   */
   includeSchemas?: boolean;
 
-  /** If set, inserts a stable hash/id into header metadata (design hook). */
+  /**
+   * The id of the definitions, written into the header as `defsId`. When
+   * schemas are left out and no id is set, their content hash is used.
+   */
   defsId?: string;
 
   /**
    * How to handle validation/serialization errors during write().
    * - 'throw': Throw the error (default).
    * - 'ignore': Return empty string (skip the record).
-   * - 'emit': Emit an error record (e.g. `!error { ... }`).
+   * - 'emit': Write an `$error` record in place of the item, which readers
+   *   surface as an item with an `error` (an `IOStreamError`).
    */
   onError?: 'throw' | 'ignore' | 'emit';
+
+  /**
+   * The schemas of the channels written with `writeTo()`, by channel name,
+   * e.g. `{ orders: '$order', quotes: '$quote' }`.
+   */
+  channels?: Record<string, string>;
+
+  /**
+   * How many characters (bytes for binary chunks) `send()` may queue ahead
+   * of a slow transport before it waits for the queue to drain. Default: 16384.
+   */
+  highWaterMark?: number;
+
+  /**
+   * Compresses the bytes sent via the transport and the byte streams of
+   * `toReadableStream()` and `toTransformStream()`. Each chunk is flushed
+   * on its own, so that a partial download holds whole rows; call `end()`
+   * to complete the compressed stream. Default: none.
+   */
+  compression?: CompressionFormat;
 }
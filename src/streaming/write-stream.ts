@@ -0,0 +1,79 @@
+import Definitions from '../core/definitions';
+import { createTextWriter } from './transforms';
+import { StreamWriterOptions } from './types';
+
+export interface WriteStreamOptions extends StreamWriterOptions {
+  /**
+   * The schema of the items: a schema name, or a function returning the one
+   * of each item. A change of schema between items starts a new section.
+   * Default: `$schema`.
+   */
+  schemaName?: string | ((item: any, index: number) => string | undefined);
+}
+
+/**
+ * A complete IO document written from the items of a source: the header,
+ * then a row for each item, with a section switch whenever the schema of
+ * the items changes. Items are taken from the source only as the text is
+ * read.
+ */
+export class IOWriteStream implements AsyncIterable<string> {
+  private readonly source: AsyncIterable<object> | Iterable<object>;
+  private readonly definitions: Definitions | null;
+  private readonly options: WriteStreamOptions;
+
+  constructor(source: AsyncIterable<object> | Iterable<object>, definitions?: Definitions | null, options?: WriteStreamOptions) {
+    this.source = source;
+    this.definitions = definitions ?? null;
+    this.options = options || {};
+  }
+
+  /**
+   * Yields the header, then the text of each item. Items skipped by the
+   * `onError: 'ignore'` policy yield nothing.
+   *
+   * @throws The validation error of an item, with `onError: 'throw'`
+   */
+  async *[Symbol.asyncIterator](): AsyncIterator<string> {
+    const writer = createTextWriter(this.definitions, this.options);
+    const { schemaName } = this.options;
+
+    yield writer.getHeader();
+
+    let index = 0;
+    for await (const item of this.source) {
+      const name = typeof schemaName === 'function' ? schemaName(item, index) : schemaName;
+      index++;
+
+      const text = writer.write(item, name);
+      if (text) yield text;
+    }
+  }
+
+  /**
+   * Returns the document as a readable stream of UTF-8 bytes, e.g. for a
+   * fetch `Response` body, pulling the items as the stream is read, as
+   * `IOStreamWriter.toReadableStream()` does.
+   */
+  toReadableStream(): ReadableStream<Uint8Array> {
+    return createTextWriter(this.definitions, this.options).toReadableStream(this.source, this.options.schemaName);
+  }
+}
+
+/**
+ * Writes the items of a source as a complete IO document, as an async
+ * iterable of text chunks (or a `ReadableStream` with `toReadableStream()`).
+ *
+ * ```ts
+ * for await (const text of writeStream(events, defs, { schemaName: e => `$${e.kind}` })) {
+ *   out.write(text);
+ * }
+ * ```
+ */
+export function writeStream(
+  source: AsyncIterable<object> | Iterable<object>,
+  definitions?: Definitions | null,
+  options?: WriteStreamOptions
+): IOWriteStream {
+  return new IOWriteStream(source, definitions, options);
+}
@@ -1,12 +1,23 @@
 import Definitions from '../core/definitions';
 import Document from '../core/document';
 import Header from '../core/header';
+import ErrorCodes from '../errors/io-error-codes';
+import IOError from '../errors/io-error';
 import SectionCollection from '../core/section-collection';
 import { loadObject } from '../facade/load';
 import { stringify } from '../facade/stringify';
 import { stringifyDocument } from '../facade/stringify-document';
+import { StreamCompressor } from './compression';
+import { DEFS_ID_KEY, hashDefinitions } from './defs-id';
+import { ERROR_SCHEMA_NAME, errorDefinitions, stringifyErrorRecord, toErrorRecord } from './error-records';
+import { nodeWritableTransport } from './transports';
 import { IOStreamTransport, StreamWriterOptions } from './types';
 
+const DEFAULT_HIGH_WATER_MARK = 16384;
+const CHANNEL_NAME = /^[A-Za-z_][\w-]*$/;
+
+type Chunk = string | Uint8Array;
+
 export class IOStreamWriter {
   private readonly transport: IOStreamTransport;
   private readonly defs: Definitions | null;
@@ -15,6 +26,19 @@ export class IOStreamWriter {
   private headerDefs: Definitions | null = null;
   private headerText: string | null = null;
   private currentSchemaName: string | null = null;
+  private itemIndex = 0;
+  private readonly channels = new Map<string, string>();
+
+  // Chunks waiting for the transport, in order, and their total size
+  private readonly queue: Chunk[] = [];
+  private queuedSize = 0;
+  private pumping = false;
+  private failure: Error | null = null;
+  private spaceWaiters: { resolve: () => void; reject: (err: Error) => void }[] = [];
+  private drainWaiters: { resolve: () => void; reject: (err: Error) => void }[] = [];
+
+  // Compresses the chunks sent via the transport
+  private readonly compressor: StreamCompressor | null;
 
   constructor(transport: IOStreamTransport, defs?: Definitions | null, options?: StreamWriterOptions) {
     this.transport = transport;
@@ -23,7 +47,11 @@ export class IOStreamWriter {
       includeSchemas: options?.includeSchemas ?? true,
       defsId: options?.defsId,
       onError: options?.onError,
+      channels: options?.channels,
+      highWaterMark: options?.highWaterMark ?? DEFAULT_HIGH_WATER_MARK,
+      compression: options?.compression,
     };
+    this.compressor = this.options.compression ? new StreamCompressor(this.options.compression) : null;
   }
 
   /** Sets header metadata (non-schema definitions). Must be called before getHeader(). */
@@ -43,14 +71,22 @@ export class IOStreamWriter {
       header.definitions.merge(this.headerDefs, true);
     }
 
-    // 2) optional defs identifier (design hook)
-    if (this.options.defsId) {
-      header.definitions.set('defsId', this.options.defsId);
+    // 2) defs identifier, which names the definitions when they are left out
+    const defsId = this.options.defsId
+      ?? (!this.options.includeSchemas && this.defs ? hashDefinitions(this.defs) : undefined);
+    if (defsId) {
+      header.definitions.set(DEFS_ID_KEY, defsId);
     }
 
     // 3) schema definitions (if configured)
     if (this.options.includeSchemas && this.defs) {
       header.definitions.merge(this.defs, false);
+
+      // Keeps the document valid for parse(), which does not know the
+      // built-in `$error` schema
+      if (this.options.onError === 'emit' && header.definitions.get(ERROR_SCHEMA_NAME) === undefined) {
+        header.definitions.merge(errorDefinitions(), false);
+      }
     }
 
     const doc = new Document(header, new SectionCollection());
@@ -67,15 +103,18 @@ export class IOStreamWriter {
     return this.headerText;
   }
 
-  /** Sends header immediately via transport. */
+  /** Sends the header via the transport, queued like the records. */
   async sendHeader(): Promise<void> {
-    const h = this.getHeader();
-    await this.transport.send(h);
+    await this._enqueue(this.getHeader());
   }
 
-  /** Emits a schema switch marker. Use `$schema` or omit to switch back to default. */
-  section(schemaName?: string): string {
-    const s = schemaName ? `--- ${schemaName}\n` : `---\n`;
+  /**
+   * Emits a schema switch marker. Use `$schema` or omit to switch back to
+   * default. With a name, the section is named, as the sections of channels.
+   */
+  section(schemaName?: string, name?: string): string {
+    const label = name ? (schemaName ? `${name}: ${schemaName}` : name) : schemaName;
+    const s = label ? `--- ${label}\n` : `---\n`;
     this.currentSchemaName = schemaName ?? '$schema';
     return s;
   }
@@ -83,66 +122,97 @@ export class IOStreamWriter {
   /**
    * Serializes one item.
    * If schemaName changes, prepends a section switch marker automatically.
+   * With `onError: 'emit'`, an item failing validation is replaced by an
+   * `$error` record naming its code, message, member path, index and schema.
    */
   write(data: any, schemaName?: string): string {
     const effectiveSchema = schemaName ?? '$schema';
-    const parts: string[] = [];
+    const index = this.itemIndex++;
 
     try {
-      if (this.currentSchemaName !== effectiveSchema) {
-        // only include schema marker for non-default schema
-        parts.push(this.section(schemaName));
-      }
+      const row = this._serialize(data, effectiveSchema);
 
-      // Validate+wrap into InternetObject if schema available.
-      // If defs is not provided, loadObject will be schemaless.
-      const ioObj = this.defs
-        ? loadObject(data, this.defs, { schemaName: effectiveSchema })
-        : loadObject(data as any);
+      // only include schema marker for non-default schema
+      const marker = this.currentSchemaName !== effectiveSchema ? this.section(schemaName) : '';
+      return `${marker}~ ${row}\n`;
+    } catch (err: any) {
+      return this._failed(err, index, effectiveSchema);
+    }
+  }
 
-      // stringify() outputs record without '~'
-      const row = this.defs
-        ? stringify(ioObj as any, this.defs, { schemaName: effectiveSchema })
-        : stringify(ioObj as any);
+  /**
+   * Serializes one item of a channel, as a row tagged `~>channel`, so that
+   * the items of several channels interleave without section switches. The
+   * first item of a channel is preceded by its declaration, the section
+   * `--- channel: $schema`.
+   *
+   * The schema of a channel is the one of the `channels` option, else the
+   * `schemaName` of its first item, else `$schema`.
+   *
+   * @throws IOError for an invalid channel name, or a schema other than the
+   *   one of the channel
+   */
+  writeTo(channel: string, data: any, schemaName?: string): string {
+    if (!CHANNEL_NAME.test(channel)) {
+      throw new IOError(ErrorCodes.invalidValue, `'${channel}' is not a valid channel name.`);
+    }
 
-      parts.push(`~ ${row}\n`);
-      return parts.join('');
-    } catch (err: any) {
-      const action = this.options.onError ?? 'throw';
+    const declared = this.channels.get(channel) ?? this.options.channels?.[channel];
+    if (declared !== undefined && schemaName !== undefined && schemaName !== declared) {
+      throw new IOError(ErrorCodes.invalidValue, `The channel '${channel}' carries '${declared}' items, not '${schemaName}'.`);
+    }
 
-      if (action === 'throw') {
-        throw err;
-      }
+    const effectiveSchema = declared ?? schemaName ?? '$schema';
+    const index = this.itemIndex++;
 
-      if (action === 'ignore') {
-        return '';
-      }
+    try {
+      const row = this._serialize(data, effectiveSchema);
 
-      if (action === 'emit') {
-        // Switch to $error section to avoid schema validation issues on client
-        // We don't update this.currentSchemaName to '$error' permanently because
-        // we want the next write() to switch back to its intended schema if needed.
-        // However, write() logic checks this.currentSchemaName.
-        // So we MUST update this.currentSchemaName so the next write knows we are in $error.
-        parts.push(this.section('$error'));
-
-        // Simple error object
-        const errorObj = {
-          code: err.errorCode || 'error',
-          message: err.message || String(err)
-        };
-
-        // We use JSON.stringify for safety, assuming simple error structure
-        // IO format is compatible with JSON for simple objects
-        parts.push(`~ ${JSON.stringify(errorObj)}\n`);
-
-        return parts.join('');
+      let declaration = '';
+      if (!this.channels.has(channel)) {
+        this.channels.set(channel, effectiveSchema);
+        declaration = this.section(effectiveSchema === '$schema' ? undefined : effectiveSchema, channel);
       }
 
-      return '';
+      // The untagged rows that follow must switch to their own section
+      this.currentSchemaName = null;
+      return `${declaration}~>${channel} ${row}\n`;
+    } catch (err: any) {
+      return this._failed(err, index, effectiveSchema, channel);
     }
   }
 
+  /** Validates the item against the schema and returns its row, without '~'. */
+  private _serialize(data: any, schemaName: string): string {
+    // Validate+wrap into InternetObject if schema available.
+    // If defs is not provided, loadObject will be schemaless.
+    const ioObj = this.defs
+      ? loadObject(data, this.defs, { schemaName })
+      : loadObject(data as any);
+
+    return this.defs
+      ? stringify(ioObj as any, this.defs, { schemaName })
+      : stringify(ioObj as any);
+  }
+
+  /** Applies the `onError` policy to an item that failed to serialize. */
+  private _failed(err: any, index: number, schemaName: string, channel?: string): string {
+    const action = this.options.onError ?? 'throw';
+
+    if (action === 'throw') {
+      throw err;
+    }
+
+    if (action === 'emit') {
+      // The record takes the place of the item, in its own section; the
+      // next write() switches back to the schema of its item
+      const marker = this.currentSchemaName !== ERROR_SCHEMA_NAME ? this.section(ERROR_SCHEMA_NAME) : '';
+      return `${marker}~ ${stringifyErrorRecord(toErrorRecord(err, index, schemaName, channel))}\n`;
+    }
+
+    return '';
+  }
+
   /**
    * Writes a batch of items.
    * Efficiently handles schema switching (only switches once if all items share schema).
@@ -157,11 +227,30 @@ export class IOStreamWriter {
 
   /**
    * Serializes and sends one item via the transport.
+   *
+   * Chunks are handed to the transport one at a time, each after the
+   * previous one has been sent. While fewer than `highWaterMark` characters
+   * are queued, the returned promise resolves at once; beyond that, it
+   * resolves when the queue has drained below the mark. Call `flush()` to
+   * wait until everything has been sent, e.g. before ending the stream.
+   *
+   * @throws The error of the transport, once a chunk has failed to send
    */
   async send(data: object, schemaName?: string): Promise<void> {
     const chunk = this.write(data, schemaName);
     if (chunk) {
-      await this.transport.send(chunk);
+      await this._enqueue(chunk);
+    }
+  }
+
+  /**
+   * Serializes one item of a channel, as `writeTo()` does, and sends it via
+   * the transport.
+   */
+  async sendTo(channel: string, data: object, schemaName?: string): Promise<void> {
+    const chunk = this.writeTo(channel, data, schemaName);
+    if (chunk) {
+      await this._enqueue(chunk);
     }
   }
 
@@ -171,11 +260,184 @@ export class IOStreamWriter {
   async sendBatch(items: object[], schemaName?: string): Promise<void> {
     const chunk = this.writeBatch(items, schemaName);
     if (chunk) {
-      await this.transport.send(chunk);
+      await this._enqueue(chunk);
+    }
+  }
+
+  /**
+   * Waits until every queued chunk has been sent by the transport.
+   *
+   * @throws The error of the transport, if a chunk failed to send
+   */
+  flush(): Promise<void> {
+    if (this.failure) return Promise.reject(this.failure);
+    if (this.queue.length === 0) return Promise.resolve();
+    return new Promise((resolve, reject) => this.drainWaiters.push({ resolve, reject }));
+  }
+
+  /**
+   * Waits until every queued chunk has been sent, then, with `compression`,
+   * ends the compressed stream by sending its last bytes. No chunk may be
+   * sent after it.
+   *
+   * @throws The error of the transport, if a chunk failed to send
+   */
+  async end(): Promise<void> {
+    await this.flush();
+    if (this.compressor) {
+      const bytes = await this.compressor.finish();
+      if (bytes.length > 0) await this.transport.send(bytes);
     }
   }
+
+  /**
+   * Returns a readable stream of the header followed by the items,
+   * serialized as UTF-8 IO text, e.g. for a fetch `Response` body. Items are
+   * pulled from the source only as fast as the stream is read. The schema
+   * is a name, or a function returning the one of each item.
+   */
+  toReadableStream(
+    items: Iterable<object> | AsyncIterable<object>,
+    schemaName?: string | ((item: any, index: number) => string | undefined)
+  ): ReadableStream<Uint8Array> {
+    const encoder = this._byteEncoder();
+    const iterator = Symbol.asyncIterator in items
+      ? (items as AsyncIterable<object>)[Symbol.asyncIterator]()
+      : (items as Iterable<object>)[Symbol.iterator]();
+    let index = 0;
+
+    return new ReadableStream<Uint8Array>({
+      start: async (controller) => {
+        enqueue(controller, await encoder.encode(this.getHeader()));
+      },
+      pull: async (controller) => {
+        // Skipped records (onError: 'ignore') produce no text
+        for (;;) {
+          const next = await iterator.next();
+          if (next.done) {
+            enqueue(controller, await encoder.finish());
+            controller.close();
+            return;
+          }
+
+          const name = typeof schemaName === 'function' ? schemaName(next.value, index) : schemaName;
+          index++;
+
+          const chunk = this.write(next.value, name);
+          if (chunk) {
+            enqueue(controller, await encoder.encode(chunk));
+            return;
+          }
+        }
+      },
+      cancel: async () => {
+        await iterator.return?.();
+      },
+    }, this._byteStrategy());
+  }
+
+  /**
+   * Returns a transform stream serializing the objects written to it into
+   * UTF-8 IO text, starting with the header. Writers to it wait while its
+   * readable side holds `highWaterMark` bytes that have not been read.
+   */
+  toTransformStream(schemaName?: string): TransformStream<object, Uint8Array> {
+    const encoder = this._byteEncoder();
+
+    return new TransformStream<object, Uint8Array>({
+      start: async (controller) => {
+        enqueue(controller, await encoder.encode(this.getHeader()));
+      },
+      transform: async (item, controller) => {
+        const chunk = this.write(item, schemaName);
+        if (chunk) enqueue(controller, await encoder.encode(chunk));
+      },
+      flush: async (controller) => {
+        enqueue(controller, await encoder.finish());
+      },
+    }, undefined, this._byteStrategy());
+  }
+
+  // Encodes the text of a byte stream as UTF-8, compressed with the
+  // `compression` option, each stream with its own compressor
+  private _byteEncoder(): ByteEncoder {
+    const format = this.options.compression;
+    if (format) {
+      const compressor = new StreamCompressor(format);
+      return { encode: chunk => compressor.compress(chunk), finish: () => compressor.finish() };
+    }
+
+    const encoder = new TextEncoder();
+    return { encode: async chunk => encoder.encode(chunk), finish: async () => new Uint8Array(0) };
+  }
+
+  private _byteStrategy(): QueuingStrategy<Uint8Array> {
+    return new ByteLengthQueuingStrategy({ highWaterMark: this.options.highWaterMark! });
+  }
+
+  private _enqueue(chunk: Chunk): Promise<void> {
+    if (this.failure) return Promise.reject(this.failure);
+
+    this.queue.push(chunk);
+    this.queuedSize += sizeOf(chunk);
+    void this._pump();
+
+    if (this.queuedSize < this.options.highWaterMark!) return Promise.resolve();
+    return new Promise((resolve, reject) => this.spaceWaiters.push({ resolve, reject }));
+  }
+
+  private async _pump(): Promise<void> {
+    if (this.pumping) return;
+    this.pumping = true;
+
+    try {
+      while (this.queue.length > 0) {
+        const chunk = this.queue[0];
+        if (this.compressor) {
+          const bytes = await this.compressor.compress(chunk);
+          if (bytes.length > 0) await this.transport.send(bytes);
+        } else {
+          await this.transport.send(chunk);
+        }
+        this.queue.shift();
+        this.queuedSize -= sizeOf(chunk);
+
+        if (this.queuedSize < this.options.highWaterMark!) {
+          this.spaceWaiters.splice(0).forEach(waiter => waiter.resolve());
+        }
+      }
+      this.drainWaiters.splice(0).forEach(waiter => waiter.resolve());
+    } catch (err) {
+      // The chunks that could not be sent are dropped; every later send()
+      // fails with the same error.
+      this.failure = err instanceof Error ? err : new Error(String(err));
+      this.queue.length = 0;
+      this.queuedSize = 0;
+      [...this.spaceWaiters.splice(0), ...this.drainWaiters.splice(0)].forEach(waiter => waiter.reject(this.failure!));
+    } finally {
+      this.pumping = false;
+    }
+  }
+}
+
+interface ByteEncoder {
+  encode(chunk: string): Promise<Uint8Array>;
+  finish(): Promise<Uint8Array>;
+}
+
+function enqueue(controller: { enqueue(chunk: Uint8Array): void }, bytes: Uint8Array): void {
+  if (bytes.length > 0) controller.enqueue(bytes);
 }
 
+function sizeOf(chunk: Chunk): number {
+  return typeof chunk === 'string' ? chunk.length : chunk.byteLength;
+}
+
+/**
+ * Creates a stream writer sending to the transport. A Node.js `Writable`
+ * (anything with `write()` but no `send()`) is wrapped so that sending waits
+ * for its `'drain'` event when its buffers are full.
+ */
 export function createStreamWriter(
   transport: IOStreamTransport | { write: (chunk: any) => boolean | void },
   defs?: Definitions | null,
@@ -183,18 +445,7 @@ export function createStreamWriter(
 ): IOStreamWriter {
   // Duck-type check for Node.js Writable stream
   if (transport && typeof (transport as any).write === 'function' && typeof (transport as any).send !== 'function') {
-    const writable = transport as any;
-    transport = {
-      send: (chunk: string | Uint8Array) => {
-        const ok = writable.write(chunk);
-        // Handle backpressure if needed? For now we just write.
-        if (!ok) {
-           // simple drain handler could be async but send() result is void|Promise<void>
-           // Implementing proper backpressure requires async send().
-           // For now, we fire and forget or trust the stream buffers.
-        }
-      }
-    };
+    transport = nodeWritableTransport(transport as any);
   }
 
   return new IOStreamWriter(transport as IOStreamTransport, defs ?? null, options);
@@ -0,0 +1,53 @@
+/**
+ * The text encodings of binary values: `base64` and `base64url` are written
+ * as `b"..."` strings, and `hex` as `hex"..."` strings.
+ */
+export type BinaryEncoding = 'base64' | 'base64url' | 'hex'
+
+export const BINARY_ENCODINGS: readonly BinaryEncoding[] = ['base64', 'base64url', 'hex']
+
+const base64Exp = /^[A-Za-z0-9+/]*={0,2}$/
+const base64UrlExp = /^[A-Za-z0-9\-_]*={0,2}$/
+const hexExp = /^(?:[0-9a-fA-F]{2})*$/
+
+/**
+ * Returns the bytes of a `Uint8Array` (a Node `Buffer` included), an
+ * `ArrayBuffer` or another view of one, as a `Uint8Array` sharing their
+ * memory. Returns null for other values.
+ */
+export const toBytes = (value: unknown): Uint8Array | null => {
+  if (value instanceof Uint8Array) {
+    return value.constructor === Uint8Array ? value : new Uint8Array(value.buffer, value.byteOffset, value.byteLength)
+  }
+  if (value instanceof ArrayBuffer) return new Uint8Array(value)
+  if (ArrayBuffer.isView(value)) return new Uint8Array(value.buffer, value.byteOffset, value.byteLength)
+  return null
+}
+
+/**
+ * Encodes the bytes as text, without the IO annotation. The base64url text
+ * has no padding.
+ */
+export const encodeBytes = (bytes: Uint8Array, encoding: BinaryEncoding = 'base64'): string => {
+  return Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength).toString(encoding)
+}
+
+/**
+ * Decodes the text of the encoding. Returns null when the text has
+ * characters outside the encoding's alphabet, or an odd number of hex
+ * digits.
+ */
+export const decodeBytes = (text: string, encoding: BinaryEncoding = 'base64'): Uint8Array | null => {
+  const exp = encoding === 'hex' ? hexExp : encoding === 'base64url' ? base64UrlExp : base64Exp
+  if (!exp.test(text)) return null
+  return toBytes(Buffer.from(text, encoding))
+}
+
+/**
+ * Returns the bytes as IO text, `b"..."` for base64 and base64url, and
+ * `hex"..."` for hex.
+ */
+export const bytesToIOString = (bytes: Uint8Array, encoding: BinaryEncoding = 'base64'): string => {
+  const text = encodeBytes(bytes, encoding)
+  return encoding === 'hex' ? `hex"${text}"` : `b"${text}"`
+}
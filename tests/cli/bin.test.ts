@@ -0,0 +1,40 @@
+import { spawnSync } from 'node:child_process';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { build } from 'tsup';
+import { binConfig } from '../../tsup.config';
+
+/** Runs a built command with the given standard input. */
+function run(dir: string, bin: string, input: string, args: string[] = []) {
+  return spawnSync(process.execPath, [join(dir, `${bin}.js`), ...args], { input, encoding: 'utf8', timeout: 20000 });
+}
+
+describe('built commands', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'io-bin-'));
+    await build({ ...binConfig, outDir: dir, silent: true, config: false });
+  }, 120000);
+
+  afterAll(() => { rmSync(dir, { recursive: true, force: true }); });
+
+  test('io-types runs with node', () => {
+    const result = run(dir, 'io-types', '~ $user: { name: string }', ['--no-banner']);
+    expect(result.stderr).toBe('');
+    expect(result.stdout).toBe('export interface User {\n  name: string;\n}\n');
+  });
+
+  test('io-format runs with node', () => {
+    const result = run(dir, 'io-format', '~   a,1');
+    expect(result.stderr).toBe('');
+    expect(result.status).toBe(0);
+  });
+
+  test('io-lsp runs with node, and exits when the input ends', () => {
+    const result = run(dir, 'io-lsp', '');
+    expect(result.stderr).toBe('');
+    expect(result.status).toBe(1);
+  });
+});
@@ -0,0 +1,65 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { runFormatCli } from '../../src/cli/io-format';
+import { CliIO } from '../../src/cli/io-types';
+
+function createIO(stdin = '') {
+  const out = { stdout: '', stderr: '' };
+  const io: CliIO = {
+    stdout: text => { out.stdout += text; },
+    stderr: text => { out.stderr += text; },
+    readStdin: () => stdin,
+  };
+  return { io, out };
+}
+
+const messy = '~ $schema: {name:string,age:int}\n---\n~ alice,30\n~ bob,4\n';
+const formatted = '~ $schema: { name: string, age: int }\n---\n~ alice, 30\n~ bob,   4\n';
+
+describe('io-format CLI', () => {
+  let dir: string;
+
+  beforeEach(() => { dir = mkdtempSync(join(tmpdir(), 'io-format-')); });
+  afterEach(() => { rmSync(dir, { recursive: true, force: true }); });
+
+  test('formats the standard input to the standard output', () => {
+    const { io, out } = createIO(messy);
+
+    expect(runFormatCli([], io)).toBe(0);
+    expect(out.stdout).toBe(formatted);
+  });
+
+  test('reports the files that are not formatted in check mode', () => {
+    const clean = join(dir, 'clean.io');
+    const dirty = join(dir, 'dirty.io');
+    writeFileSync(clean, formatted);
+    writeFileSync(dirty, messy);
+    const { io, out } = createIO();
+
+    expect(runFormatCli(['--check', clean, dirty], io)).toBe(1);
+    expect(out.stderr).toBe(`${dirty}:1: not formatted\n`);
+    expect(readFileSync(dirty, 'utf8')).toBe(messy);
+
+    expect(runFormatCli(['-c', clean], createIO().io)).toBe(0);
+  });
+
+  test('writes the formatted text back to the files', () => {
+    const file = join(dir, 'data.io');
+    writeFileSync(file, messy);
+
+    expect(runFormatCli(['--write', '--no-align', '--max-width', '20', file], createIO().io)).toBe(0);
+    expect(readFileSync(file, 'utf8')).toBe('~ $schema: {\n    name: string,\n    age: int\n  }\n---\n~ alice, 30\n~ bob, 4\n');
+  });
+
+  test('reports invalid arguments and texts that do not parse', () => {
+    const usage = createIO();
+    expect(runFormatCli(['--indent', 'two'], usage.io)).toBe(1);
+    expect(usage.out.stderr).toMatch(/Expecting a number after --indent/);
+    expect(usage.out.stderr).toMatch(/Usage: io-format/);
+
+    const invalid = createIO('~ {a, b\n');
+    expect(runFormatCli([], invalid.io)).toBe(1);
+    expect(invalid.out.stderr).toMatch(/^io-format: <stdin>: /);
+  });
+});
@@ -0,0 +1,63 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { runTypesCli, CliIO } from '../../src/cli/io-types';
+
+function createIO(stdin = '') {
+  const out = { stdout: '', stderr: '' };
+  const io: CliIO = {
+    stdout: text => { out.stdout += text; },
+    stderr: text => { out.stderr += text; },
+    readStdin: () => stdin,
+  };
+  return { io, out };
+}
+
+describe('io-types CLI', () => {
+  let dir: string;
+
+  beforeEach(() => { dir = mkdtempSync(join(tmpdir(), 'io-types-')); });
+  afterEach(() => { rmSync(dir, { recursive: true, force: true }); });
+
+  test('prints the types of an input file', () => {
+    const input = join(dir, 'defs.io');
+    writeFileSync(input, '~ $user: { name: string, age?: int }');
+    const { io, out } = createIO();
+
+    expect(runTypesCli([input, '--no-banner'], io)).toBe(0);
+    expect(out.stdout).toBe('export interface User {\n  name: string;\n  age?: number;\n}\n');
+  });
+
+  test('reads the standard input and writes to a file', () => {
+    const output = join(dir, 'types.ts');
+    const { io, out } = createIO('~ $schema: { id: string, price: decimal, at: datetime }');
+
+    expect(runTypesCli(['-o', output, '--schema-name', 'Row', '--type', 'datetime=string', '--decimal-import', './money'], io)).toBe(0);
+    expect(out.stdout).toBe('');
+
+    const written = readFileSync(output, 'utf8');
+    expect(written).toContain('export interface Row {');
+    expect(written).toContain('at: string;');
+    expect(written).toContain(`import type { Decimal } from './money';`);
+  });
+
+  test('prints the usage for invalid arguments', () => {
+    const { io, out } = createIO();
+
+    expect(runTypesCli(['--type', 'uuid'], io)).toBe(1);
+    expect(out.stderr).toMatch(/Invalid type mapping/);
+    expect(out.stderr).toMatch(/Usage: io-types/);
+
+    const help = createIO();
+    expect(runTypesCli(['--help'], help.io)).toBe(0);
+    expect(help.out.stdout).toMatch(/Usage: io-types/);
+  });
+
+  test('reports parse errors without the usage', () => {
+    const { io, out } = createIO('~ $schema: { a: nope }');
+
+    expect(runTypesCli([], io)).toBe(1);
+    expect(out.stderr).toMatch(/^io-types: /);
+    expect(out.stderr).not.toMatch(/Usage/);
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Test suite for the rounding modes, the rounding context and the arithmetic
+ * of Decimal beyond add/sub/mul/div/mod: abs, negate, pow, sqrt, min, max,
+ * sum, and bigint input.
+ */
+
+import Decimal, { DecimalContext, DecimalError } from '../../../src/core/decimal/decimal';
+
+const d = (value: string) => new Decimal(value);
+
+describe('Decimal Arithmetic', () => {
+
+    describe('rounding modes', () => {
+
+        test('should round with every mode', () => {
+            const cases: [string, Record<string, string>][] = [
+                ['2.5',  { 'half-up': '3',  'half-even': '2',  'half-down': '2',  ceil: '3',  floor: '2',  truncate: '2' }],
+                ['3.5',  { 'half-up': '4',  'half-even': '4',  'half-down': '3',  ceil: '4',  floor: '3',  truncate: '3' }],
+                ['-2.5', { 'half-up': '-3', 'half-even': '-2', 'half-down': '-2', ceil: '-2', floor: '-3', truncate: '-2' }],
+                ['-2.6', { 'half-up': '-3', 'half-even': '-3', 'half-down': '-3', ceil: '-2', floor: '-3', truncate: '-2' }],
+            ];
+
+            for (const [value, expected] of cases) {
+                for (const [mode, result] of Object.entries(expected)) {
+                    expect(d(value).round(2, 0, mode as any).toString()).toBe(result);
+                }
+            }
+        });
+
+        test('should keep round() half-up by default', () => {
+            expect(d('1.25').round(3, 1).toString()).toBe('1.3');
+            expect(d('-1.25').round(3, 1).toString()).toBe('-1.3');
+        });
+
+        test('should round to a context', () => {
+            expect(d('1.2345').round({ scale: 2, rounding: 'ceil' }).toString()).toBe('1.24');
+            expect(d('1.225').round({ scale: 2, rounding: 'half-even' }).toString()).toBe('1.22');
+            expect(d('1.2').round({ scale: 3 }).toString()).toBe('1.200');
+        });
+
+        test('should reject unknown modes and invalid contexts', () => {
+            expect(() => d('1.5').round(2, 0, 'up' as any)).toThrow(DecimalError);
+            expect(() => d('1.5').round({ rounding: 'up' as any })).toThrow('Invalid rounding mode');
+            expect(() => d('1.5').round({ scale: -1 })).toThrow(DecimalError);
+            expect(() => d('1.5').round({ precision: 0 })).toThrow(DecimalError);
+        });
+    });
+
+    describe('rounding context', () => {
+
+        const ledger: DecimalContext = { precision: 18, scale: 2, rounding: 'half-even' };
+
+        test('should round every operation once, to the context', () => {
+            expect(d('10.00').div(d('3'), ledger).toString()).toBe('3.33');
+            expect(d('0.125').mul(d('1'), ledger).toString()).toBe('0.12');
+            expect(d('0.135').add(d('0.000'), ledger).toString()).toBe('0.14');
+            expect(d('1.005').sub(d('0.010'), ledger).toString()).toBe('1.00');
+            expect(d('10.125').mod(d('3'), ledger).toString()).toBe('1.12');
+        });
+
+        test('should give the result the precision of the context', () => {
+            const result = d('1.5').add(d('2.25'), ledger);
+            expect(result.getPrecision()).toBe(18);
+            expect(result.getScale()).toBe(2);
+        });
+
+        test('should throw when the result exceeds the precision', () => {
+            expect(() => d('999.99').add(d('0.01'), { precision: 5 })).toThrow('exceeds the precision (5)');
+        });
+
+        test('should divide from the exact quotient', () => {
+            // The dividend's extra digits count before rounding
+            expect(d('2.5').div(d('1')).toString()).toBe('3');
+            expect(d('1.4999').div(d('1')).toString()).toBe('1');
+            expect(d('1').div(d('8'), { scale: 2, rounding: 'half-even' }).toString()).toBe('0.12');
+            expect(d('-1').div(d('8'), { scale: 2, rounding: 'floor' }).toString()).toBe('-0.13');
+        });
+    });
+
+    describe('abs and negate', () => {
+
+        test('should keep the precision and scale', () => {
+            expect(d('-3.20').abs().toString()).toBe('3.20');
+            expect(d('3.20').negate().toString()).toBe('-3.20');
+            expect(d('-3.20').negate().getPrecision()).toBe(3);
+            expect(d('0.00').negate().toString()).toBe('0.00');
+        });
+    });
+
+    describe('pow', () => {
+
+        test('should raise to integer exponents', () => {
+            expect(d('1.05').pow(3).toString()).toBe('1.16');
+            expect(d('1.05').pow(3, { scale: 6 }).toString()).toBe('1.157625');
+            expect(d('-2').pow(3).toString()).toBe('-8');
+            expect(d('1.5').pow(0).toString()).toBe('1.0');
+        });
+
+        test('should divide one by the power for negative exponents', () => {
+            expect(d('2.00').pow(-2).toString()).toBe('0.25');
+            expect(d('3').pow(-1, { scale: 4, rounding: 'truncate' }).toString()).toBe('0.3333');
+        });
+
+        test('should reject fractional exponents and zero to a negative power', () => {
+            expect(() => d('2').pow(0.5)).toThrow(DecimalError);
+            expect(() => d('0').pow(-1)).toThrow('Division by zero');
+        });
+    });
+
+    describe('sqrt', () => {
+
+        test('should compute the root to a target scale', () => {
+            expect(d('2').sqrt({ scale: 10 }).toString()).toBe('1.4142135624');
+            expect(d('2.25').sqrt().toString()).toBe('1.50');
+            expect(d('0.0001').sqrt({ scale: 3 }).toString()).toBe('0.010');
+            expect(d('123456789012345678901234567890').sqrt().toString()).toBe('351364182882014');
+        });
+
+        test('should round the exact root with the mode', () => {
+            // sqrt(2) = 1.41421356..., sqrt(0.0625) = 0.25 exactly
+            expect(d('2').sqrt({ scale: 4, rounding: 'ceil' }).toString()).toBe('1.4143');
+            expect(d('2').sqrt({ scale: 4, rounding: 'floor' }).toString()).toBe('1.4142');
+            expect(d('0.0625').sqrt({ scale: 1, rounding: 'half-even' }).toString()).toBe('0.2');
+            expect(d('0.0625').sqrt({ scale: 1, rounding: 'half-up' }).toString()).toBe('0.3');
+        });
+
+        test('should throw for negative values', () => {
+            expect(() => d('-4').sqrt()).toThrow(DecimalError);
+        });
+    });
+
+    describe('min, max and sum', () => {
+
+        test('should compare across precisions and scales', () => {
+            expect(Decimal.min(d('1.5'), d('-2'), d('1.49')).toString()).toBe('-2');
+            expect(Decimal.max(d('1.5'), d('1.50001'), d('1.5000')).toString()).toBe('1.50001');
+            expect(() => Decimal.min()).toThrow(DecimalError);
+        });
+
+        test('should add up exactly, and round the total once', () => {
+            const values = [d('100.50'), d('25.25'), d('19.99'), d('0.005')];
+            expect(Decimal.sum(values).toString()).toBe('145.745');
+            expect(Decimal.sum(values, { scale: 2, rounding: 'half-even' }).toString()).toBe('145.74');
+            expect(Decimal.sum(values, { scale: 2 }).toString()).toBe('145.75');
+            expect(Decimal.sum([]).toString()).toBe('0');
+        });
+    });
+
+    describe('bigint input', () => {
+
+        test('should read a bigint as an integer', () => {
+            expect(new Decimal(12345678901234567890123n).toString()).toBe('12345678901234567890123');
+            expect(new Decimal(-12345n, 7, 2).toString()).toBe('-12345.00');
+            expect(Decimal.ensureDecimal(42n).toString()).toBe('42');
+            expect(() => new Decimal(12345n, 4, 0)).toThrow(DecimalError);
+        });
+    });
+});
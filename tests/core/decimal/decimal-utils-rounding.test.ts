@@ -1,4 +1,4 @@
-import { roundHalfUp, ceilRound, floorRound } from '../../../src/core/decimal/decimal-utils';
+import { roundHalfUp, ceilRound, floorRound, roundHalfEven, roundHalfDown, truncateRound, roundToScale, divideRounded, integerSqrt } from '../../../src/core/decimal/decimal-utils';
 
 describe('roundHalfUp', () => {
   it('should round up at half or more', () => {
@@ -59,3 +59,74 @@ describe('floorRound', () => {
     expect(() => floorRound(123n, 0, -1)).toThrow();
   });
 });
+
+describe('roundHalfEven', () => {
+  it('should round ties to the even digit', () => {
+    expect(roundHalfEven(125n, 2, 1)).toBe(12n); // 12.5 -> 12
+    expect(roundHalfEven(135n, 2, 1)).toBe(14n); // 13.5 -> 14
+    expect(roundHalfEven(-125n, 2, 1)).toBe(-12n);
+    expect(roundHalfEven(-135n, 2, 1)).toBe(-14n);
+  });
+  it('should round non-ties to the nearest', () => {
+    expect(roundHalfEven(1251n, 3, 1)).toBe(13n); // 12.51 -> 13
+    expect(roundHalfEven(-1249n, 3, 1)).toBe(-12n);
+  });
+});
+
+describe('roundHalfDown', () => {
+  it('should round ties toward zero', () => {
+    expect(roundHalfDown(125n, 2, 1)).toBe(12n);
+    expect(roundHalfDown(-125n, 2, 1)).toBe(-12n);
+    expect(roundHalfDown(1251n, 3, 1)).toBe(13n);
+  });
+});
+
+describe('truncateRound', () => {
+  it('should drop the extra digits', () => {
+    expect(truncateRound(129n, 2, 1)).toBe(12n);
+    expect(truncateRound(-129n, 2, 1)).toBe(-12n);
+    expect(truncateRound(123n, 1, 2)).toBe(1230n);
+  });
+});
+
+describe('roundToScale', () => {
+  it('should match the dedicated functions', () => {
+    for (const coefficient of [125n, -125n, 121n, -129n, 1250001n]) {
+      expect(roundToScale(coefficient, 2, 1, 'half-up')).toBe(roundHalfUp(coefficient, 2, 1));
+      expect(roundToScale(coefficient, 2, 1, 'ceil')).toBe(ceilRound(coefficient, 2, 1));
+      expect(roundToScale(coefficient, 2, 1, 'floor')).toBe(floorRound(coefficient, 2, 1));
+    }
+  });
+  it('should throw for negative scales and unknown modes', () => {
+    expect(() => roundToScale(123n, -1, 0)).toThrow();
+    expect(() => roundToScale(125n, 2, 1, 'up' as any)).toThrow('Invalid rounding mode');
+  });
+});
+
+describe('divideRounded', () => {
+  it('should round the quotient by the sign of the result', () => {
+    expect(divideRounded(-1n, 2n, 'half-up')).toBe(-1n);
+    expect(divideRounded(1n, -2n, 'half-down')).toBe(0n);
+    expect(divideRounded(7n, -2n, 'half-even')).toBe(-4n);
+    expect(divideRounded(-7n, 2n, 'ceil')).toBe(-3n);
+    expect(divideRounded(-7n, 2n, 'floor')).toBe(-4n);
+    expect(divideRounded(10n, 3n, 'ceil')).toBe(4n);
+  });
+  it('should throw on division by zero', () => {
+    expect(() => divideRounded(1n, 0n, 'half-up')).toThrow('Division by zero');
+  });
+});
+
+describe('integerSqrt', () => {
+  it('should return the floor of the square root', () => {
+    expect(integerSqrt(0n)).toBe(0n);
+    expect(integerSqrt(1n)).toBe(1n);
+    expect(integerSqrt(15n)).toBe(3n);
+    expect(integerSqrt(16n)).toBe(4n);
+    expect(integerSqrt(10n ** 40n)).toBe(10n ** 20n);
+    expect(integerSqrt(10n ** 40n - 1n)).toBe(10n ** 20n - 1n);
+  });
+  it('should throw for negative values', () => {
+    expect(() => integerSqrt(-1n)).toThrow();
+  });
+});
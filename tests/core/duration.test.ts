@@ -0,0 +1,60 @@
+import { IODuration } from '../../src/core/duration';
+import { IODate, IODateTime } from '../../src/core/temporal';
+
+describe('IODuration', () => {
+  it('should parse the parts of an ISO 8601 duration', () => {
+    const duration = IODuration.parse('P1Y2M3W4DT5H6M7.5S')!;
+
+    expect([duration.years, duration.months, duration.weeks, duration.days]).toEqual([1, 2, 3, 4]);
+    expect([duration.hours, duration.minutes, duration.seconds, duration.nanoseconds]).toEqual([5, 6, 7, 500_000_000]);
+    expect(duration.negative).toBe(false);
+    expect(duration.toIOString()).toBe('du"P1Y2M3W4DT5H6M7.5S"');
+  });
+
+  it('should reject invalid durations', () => {
+    for (const text of ['P', 'PT', 'P1DT', 'P1.5D', 'PT1H30', '1D', 'P1S']) {
+      expect(IODuration.parse(text)).toBeNull();
+    }
+  });
+
+  it('should write durations from their parts', () => {
+    expect(IODuration.from({ days: 1, hours: 2 }).text).toBe('P1DT2H');
+    expect(IODuration.from({ seconds: 0, nanoseconds: 1000 }).text).toBe('PT0.000001S');
+    expect(IODuration.from({ minutes: 5, negative: true }).text).toBe('-PT5M');
+    expect(IODuration.from({}).text).toBe('PT0S');
+    expect(() => IODuration.from({ hours: 1.5 })).toThrow(RangeError);
+  });
+
+  it('should compare durations by nominal length', () => {
+    const day = IODuration.parse('P1D')!;
+
+    expect(day.equals(IODuration.parse('PT24H')!)).toBe(true);
+    expect(IODuration.parse('P1M')!.compare(IODuration.parse('P30DT1S')!)).toBe(-1);
+    expect(IODuration.parse('-PT1H')!.toMilliseconds()).toBe(-3_600_000);
+    expect(day.negated().text).toBe('-P1D');
+  });
+
+  it('should add to a datetime at its own offset', () => {
+    const start = IODateTime.parse('2024-03-10T09:30:00.000001+05:30')!;
+
+    expect(IODuration.parse('P1DT2H')!.addTo(start).text).toBe('2024-03-11T11:30:00.000001+05:30');
+    expect(IODuration.parse('PT0.000001S')!.subtractFrom(start).text).toBe('2024-03-10T09:30:00+05:30');
+    expect(IODuration.parse('-P1D')!.addTo(new Date('2024-03-01T00:00:00Z')).toISOString()).toBe('2024-02-29T00:00:00.000Z');
+  });
+
+  it('should keep the day within the month for calendar units', () => {
+    expect(IODuration.parse('P1M')!.addTo(IODate.parse('2024-01-31')!).text).toBe('2024-02-29');
+    expect(IODuration.parse('P1Y')!.subtractFrom(IODate.parse('2024-02-29')!).text).toBe('2023-02-28');
+    expect(() => IODuration.parse('PT1H')!.addTo(IODate.parse('2024-01-31')!)).toThrow(RangeError);
+  });
+
+  it('should measure the duration between two values', () => {
+    const start = IODateTime.parse('2024-03-10T09:30:00+05:30')!;
+    const end = IODateTime.parse('2024-03-11T09:30:00.500Z')!;
+
+    expect(IODuration.between(start, end).text).toBe('P1DT5H30M0.5S');
+    expect(IODuration.between(end, start).text).toBe('-P1DT5H30M0.5S');
+    expect(IODuration.between(IODate.parse('2024-03-10')!, IODate.parse('2024-01-01')!).text).toBe('-P69D');
+    expect(() => IODuration.between(IODate.parse('2024-03-10')!, start)).toThrow(TypeError);
+  });
+});
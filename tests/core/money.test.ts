@@ -0,0 +1,46 @@
+import Decimal from '../../src/core/decimal/decimal';
+import { IOMoney, currencyScale } from '../../src/core/money';
+
+describe('IOMoney', () => {
+  it('should parse an amount followed by its currency', () => {
+    const money = IOMoney.parse('-12.50 USD')!;
+
+    expect(money.amount.toString()).toBe('-12.50');
+    expect(money.currency).toBe('USD');
+    expect(money.toIOString()).toBe('mo"-12.50 USD"');
+    expect(JSON.stringify({ money })).toBe('{"money":"-12.50 USD"}');
+  });
+
+  it('should reject invalid money', () => {
+    for (const text of ['12.50', 'USD 12.50', '12.50 usd', '12.50  USD', '12.50 USDT', '+1 USD', '1. USD']) {
+      expect(IOMoney.parse(text)).toBeNull();
+    }
+    expect(() => IOMoney.of('1', 'dollars')).toThrow(RangeError);
+  });
+
+  it('should know the scale of the currencies', () => {
+    expect(currencyScale('JPY')).toBe(0);
+    expect(currencyScale('USD')).toBe(2);
+    expect(currencyScale('BHD')).toBe(3);
+    expect(IOMoney.of(1n, 'CLF').scale).toBe(4);
+  });
+
+  it('should add, subtract and compare amounts of a currency', () => {
+    const price = IOMoney.parse('12.50 USD')!;
+    const fee = IOMoney.of('0.99', 'USD');
+
+    expect(String(price.add(fee))).toBe('13.49 USD');
+    expect(String(price.sub(fee))).toBe('11.51 USD');
+    expect(price.compare(fee)).toBe(1);
+    expect(price.equals(IOMoney.of('12.5', 'USD'))).toBe(true);
+    expect(price.equals(IOMoney.of('12.50', 'EUR'))).toBe(false);
+    expect(() => price.add(IOMoney.of('1', 'EUR'))).toThrow(RangeError);
+  });
+
+  it('should round products to the scale of the currency', () => {
+    expect(String(IOMoney.of('10.00', 'USD').mul(new Decimal('0.125')))).toBe('1.25 USD');
+    expect(String(IOMoney.of('10.00', 'USD').mul('0.1225', 'half-even'))).toBe('1.22 USD');
+    expect(String(IOMoney.of('1000', 'JPY').mul('0.085'))).toBe('85 JPY');
+    expect(String(IOMoney.of('1.23456', 'BHD').rounded('truncate'))).toBe('1.234 BHD');
+  });
+});
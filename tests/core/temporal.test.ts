@@ -0,0 +1,56 @@
+import { IODate, IODateTime, IOTime } from '../../src/core/temporal';
+
+describe('Temporal values', () => {
+  it('should keep the offset and the nanoseconds of a datetime', () => {
+    const value = IODateTime.parse('2024-03-10T09:30:00.123456789+05:30')!;
+
+    expect(value.offset).toBe('+05:30');
+    expect(value.offsetMinutes).toBe(330);
+    expect(value.nanosecond).toBe(123456789);
+    expect(value.isLocal).toBe(false);
+    expect(value.toDate().toISOString()).toBe('2024-03-10T04:00:00.123Z');
+    expect(value.toString()).toBe('2024-03-10T09:30:00.123456789+05:30');
+    expect(value.toIOString()).toBe('dt"2024-03-10T09:30:00.123456789+05:30"');
+  });
+
+  it('should tell a local wall-clock datetime from an instant', () => {
+    const local = IODateTime.parse('20240310T093000')!;
+
+    expect(local.isLocal).toBe(true);
+    expect(local.offset).toBeNull();
+    expect(local.toDate().toISOString()).toBe('2024-03-10T09:30:00.000Z');
+  });
+
+  it('should compare datetimes by instant, whatever their offsets', () => {
+    const india = IODateTime.parse('2024-03-10T09:30:00+05:30')!;
+    const utc = IODateTime.parse('2024-03-10T04:00:00Z')!;
+    const later = IODateTime.parse('2024-03-10T04:00:00.000001Z')!;
+
+    expect(india.equals(utc)).toBe(true);
+    expect(india.compare(later)).toBe(-1);
+    expect(later.compare(new Date('2024-03-10T04:00:00Z'))).toBe(1);
+  });
+
+  it('should write an instant at an offset', () => {
+    const value = IODateTime.fromDate(new Date('2024-03-10T04:00:00Z'), '-08:00');
+    expect(value.text).toBe('2024-03-09T20:00:00.000-08:00');
+    expect(value.toDate().toISOString()).toBe('2024-03-10T04:00:00.000Z');
+  });
+
+  it('should parse plain dates and times', () => {
+    const date = IODate.parse('2024-02-29')!;
+    expect([date.year, date.month, date.day]).toEqual([2024, 2, 29]);
+    expect(date.toDate().toISOString()).toBe('2024-02-29T00:00:00.000Z');
+
+    const time = IOTime.parse('093000123456')!;
+    expect([time.hour, time.minute, time.second, time.nanosecond]).toEqual([9, 30, 0, 123456000]);
+    expect(time.toDate().toISOString()).toBe('1900-01-01T09:30:00.123Z');
+    expect(time.compare(new Date('1900-01-01T09:30:00.123Z'))).toBe(1);
+  });
+
+  it('should reject invalid values', () => {
+    expect(IODate.parse('2023-02-29')).toBeNull();
+    expect(IODateTime.parse('2024-03-10T25:00:00')).toBeNull();
+    expect(IOTime.parse('09:30:00.1234567891')).toBeNull();
+  });
+});
@@ -7,6 +7,7 @@ import Collection from '../../src/core/collection';
 import Document from '../../src/core/document';
 import ValidationError from '../../src/errors/io-validation-error';
 import IOError from '../../src/errors/io-error';
+import IOSchema from '../../src/schema/schema';
 
 /**
  * Helper function to create definitions with a schema
@@ -438,6 +439,73 @@ describe('load() API', () => {
 });
 
 
+// =============================================================================
+// Typed schema overloads - load*(data, schema, defs?, options?)
+// =============================================================================
+describe('Typed schema overloads', () => {
+  const userSchema = IOSchema.create('$User')
+    .addMember('name', { type: 'string' })
+    .addMember('age', { type: 'int', optional: true })
+    .build();
+
+  it('loadObject(data, schema) returns a typed object', () => {
+    const obj = loadObject({ name: 'Alice', age: 28 }, userSchema);
+
+    expectTypeOf(obj).toEqualTypeOf<InternetObject<any, { name: string; age?: number }>>();
+    expect(obj.toObject()).toEqual({ name: 'Alice', age: 28 });
+  });
+
+  it('loadObject(data, schema, defs, options) honors the options', () => {
+    const defs = createDefs('~ $schema: { id: int }');
+    const schema = IOSchema.create('$Person')
+      .addMember('name', { type: 'string' })
+      .addMember('home', { type: 'object', schema: IOSchema.create('$Addr').addMember('city', { type: 'string' }).build() })
+      .build();
+    const errors: Error[] = [];
+
+    const obj = loadObject({ name: 'Ann', home: { city: 3 } }, schema, defs, { exhaustive: true, errorCollector: errors });
+    expect(obj).toBeInstanceOf(InternetObject);
+    expect(errors).toHaveLength(1);
+    expect(() => loadObject({ name: 'Ann', home: { city: 3 } }, schema, { strict: true })).toThrow(ValidationError);
+
+    const home = loadObject({ name: 'Ann', home: { city: 'Oslo' } }, schema).toObject().home;
+    expectTypeOf(home).toEqualTypeOf<{ city: string }>();
+    expect(home).toEqual({ city: 'Oslo' });
+  });
+
+  it('uses the given schema over schemaName', () => {
+    const defs = createDefs('~ $schema: { id: int }');
+    const obj = loadObject({ name: 'Alice' }, userSchema, defs, { schemaName: '$Nope' });
+    expect(obj.toObject().name).toBe('Alice');
+  });
+
+  it('loadCollection(data, schema) returns typed items', () => {
+    const col = loadCollection([{ name: 'Alice' }, { name: 'Bob', age: 3 }], userSchema);
+    const users = col.toObject();
+
+    expectTypeOf(users).toEqualTypeOf<{ name: string; age?: number }[]>();
+    expect(users.map(user => user.name)).toEqual(['Alice', 'Bob']);
+  });
+
+  it('load(data, schema) returns a typed document', () => {
+    const one = load({ name: 'Alice' }, userSchema);
+    const many = load([{ name: 'Alice' }], userSchema);
+
+    expectTypeOf(one.toObject()).toEqualTypeOf<{ name: string; age?: number }>();
+    expectTypeOf(many.toObject()).toEqualTypeOf<{ name: string; age?: number }[]>();
+    expect(one.toObject()).toEqual({ name: 'Alice' });
+    expect(many.toObject()).toEqual([{ name: 'Alice' }]);
+    expect(one.header.schema).toBe(userSchema);
+  });
+
+  it('keeps untyped results for definitions', () => {
+    const defs = createDefs('~ $schema: { name: string }');
+    expectTypeOf(loadObject({ name: 'A' }, defs).toObject()).toBeAny();
+    expectTypeOf(load({ name: 'A' }, defs).toObject()).toBeAny();
+  });
+});
+
+
 // =============================================================================
 // loadInferred() - 2 Overload Pattern Tests
 // =============================================================================
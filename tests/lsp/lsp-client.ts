@@ -0,0 +1,73 @@
+import { encodeMessage, Message, MessageReader, NotificationMessage, ResponseMessage } from '../../src/lsp';
+
+/**
+ * A minimal LSP client for the tests: it frames requests and notifications
+ * for the server and matches the responses to the requests.
+ */
+export class LspTestClient {
+  readonly notifications: NotificationMessage[] = [];
+  private readonly _pending = new Map<number | string | null, (response: ResponseMessage) => void>();
+  private readonly _waiting: Array<{ method: string; resolve: (n: NotificationMessage) => void }> = [];
+  private readonly _reader = new MessageReader(message => this._receive(message), error => { throw error; });
+  private _nextId = 1;
+
+  constructor(private readonly write: (bytes: Uint8Array) => void) {}
+
+  /** Passes a chunk of the server output to the client. */
+  push(chunk: Uint8Array | string): void {
+    this._reader.push(chunk);
+  }
+
+  request(method: string, params?: unknown): Promise<ResponseMessage> {
+    const id = this._nextId++;
+    return new Promise(resolve => {
+      this._pending.set(id, resolve);
+      this.write(encodeMessage({ jsonrpc: '2.0', id, method, params }));
+    });
+  }
+
+  notify(method: string, params?: unknown): void {
+    this.write(encodeMessage({ jsonrpc: '2.0', method, params }));
+  }
+
+  /** Frames any JSON value as a message body, such as a malformed message. */
+  send(body: unknown): void {
+    this.write(encodeMessage(body as Message));
+  }
+
+  /** Resolves with the next response to the id, `null` for messages that could not be read. */
+  nextResponse(id: number | string | null): Promise<ResponseMessage> {
+    return new Promise(resolve => this._pending.set(id, resolve));
+  }
+
+  /** Resolves with the next notification of the method. */
+  nextNotification(method: string): Promise<NotificationMessage> {
+    return new Promise(resolve => this._waiting.push({ method, resolve }));
+  }
+
+  async initialize(): Promise<ResponseMessage> {
+    const response = await this.request('initialize', { processId: null, rootUri: null, capabilities: {} });
+    this.notify('initialized', {});
+    return response;
+  }
+
+  /** Opens a document and resolves with its diagnostics. */
+  async open(uri: string, text: string): Promise<any[]> {
+    const published = this.nextNotification('textDocument/publishDiagnostics');
+    this.notify('textDocument/didOpen', { textDocument: { uri, languageId: 'io', version: 1, text } });
+    return (await published).params.diagnostics;
+  }
+
+  private _receive(message: Message): void {
+    if ('id' in message && !('method' in message)) {
+      this._pending.get(message.id!)?.(message);
+      this._pending.delete(message.id!);
+      return;
+    }
+
+    const notification = message as NotificationMessage;
+    this.notifications.push(notification);
+    const waiting = this._waiting.findIndex(waiter => waiter.method === notification.method);
+    if (waiting >= 0) this._waiting.splice(waiting, 1)[0].resolve(notification);
+  }
+}
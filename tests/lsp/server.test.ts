@@ -0,0 +1,228 @@
+import { spawn } from 'node:child_process';
+import { PassThrough } from 'node:stream';
+import { CompletionItemKind, ErrorCode, MessageType, SymbolKind, startLanguageServer } from '../../src/lsp';
+import { LspTestClient } from './lsp-client';
+
+const uri = 'file:///service.io';
+
+const text = `~ @boss: admin
+~ $address: { city: string, zip?: string }
+~ $schema: { name: string, role: {string, choices: [admin, user]}, home: $address, tags?: [string], age?: {int, min: 18} }
+--- people
+~ alice, admin, {Paris, "75001"}, [a], 30
+~ bob, guest, {London}
+~ carol, @boss, {Rome}, [], 12
+--- office: $address
+city: Berlin
+`;
+
+/** Finds the LSP position of the nth occurrence of a string in the text. */
+function positionOf(search: string, text_ = text, nth = 0, offset = 0) {
+  let index = -1;
+  for (let i = 0; i <= nth; i++) index = text_.indexOf(search, index + 1);
+  return positionAt(text_, index + offset);
+}
+
+function positionAt(text_: string, offset = text_.length) {
+  const before = text_.slice(0, offset).split('\n');
+  return { line: before.length - 1, character: before[before.length - 1].length };
+}
+
+function connect() {
+  const input = new PassThrough();
+  const output = new PassThrough();
+  const exits: number[] = [];
+
+  startLanguageServer(input, output, { onExit: code => exits.push(code) });
+  const client = new LspTestClient(bytes => input.write(bytes));
+  output.on('data', chunk => client.push(chunk));
+  return { client, input, exits };
+}
+
+describe('IOLanguageServer', () => {
+  let client: LspTestClient;
+  let exits: number[];
+
+  beforeEach(async () => {
+    ({ client, exits } = connect());
+    const response = await client.initialize();
+    expect(response.result.capabilities.hoverProvider).toBe(true);
+  });
+
+  test('publishes syntax and validation errors as diagnostics', async () => {
+    const diagnostics = await client.open(uri, text);
+
+    expect(diagnostics.map((d: any) => [d.code, d.range.start])).toEqual([
+      ['invalid-choice', positionOf('guest')],
+      ['invalid-range', positionOf('12')],
+    ]);
+    expect(diagnostics[0]).toMatchObject({ severity: 1, source: 'internet-object' });
+    expect(diagnostics[0].message).toContain('guest');
+
+    // Edits update the diagnostics
+    const published = client.nextNotification('textDocument/publishDiagnostics');
+    const start = positionOf('guest');
+    client.notify('textDocument/didChange', {
+      textDocument: { uri, version: 2 },
+      contentChanges: [{ range: { start, end: { ...start, character: start.character + 5 } }, text: 'user' }],
+    });
+    const { params } = await published;
+    expect(params.version).toBe(2);
+    expect(params.diagnostics.map((d: any) => d.code)).toEqual(['invalid-range']);
+  });
+
+  test('reports syntax errors and documents that do not parse', async () => {
+    const syntax = await client.open('file:///a.io', '~ $schema: { a: int }\n---\n~ {1\n~ 2\n');
+    expect(syntax.map((d: any) => d.code)).toEqual(['expecting-bracket']);
+
+    const invalid = await client.open('file:///b.io', '~ $schema: { a: int }\n--- x: $nope\n~ 1\n');
+    expect(invalid).toHaveLength(1);
+    expect(invalid[0].message).toContain('$nope');
+  });
+
+  test('describes the member definition of a value on hover', async () => {
+    await client.open(uri, text);
+
+    const role = await client.request('textDocument/hover', { textDocument: { uri }, position: positionOf('admin, {Paris') });
+    expect(role.result.contents.value).toBe(
+      '`role: string`\n\nPath: `people[0].role`\n\nConstraints: `choices: [admin, user]`'
+    );
+    expect(role.result.range.start).toEqual(positionOf('admin, {Paris'));
+
+    const zip = await client.request('textDocument/hover', { textDocument: { uri }, position: positionOf('"75001"', text, 0, 2) });
+    expect(zip.result.contents.value).toContain('`zip: string` (optional)');
+    expect(zip.result.contents.value).toContain('Path: `people[0].home.zip`');
+
+    const tag = await client.request('textDocument/hover', { textDocument: { uri }, position: positionOf('[a]', text, 0, 1) });
+    expect(tag.result.contents.value).toContain('Path: `people[0].tags[0]`');
+
+    const city = await client.request('textDocument/hover', { textDocument: { uri }, position: positionOf('city: Berlin') });
+    expect(city.result.contents.value).toContain('Path: `office.city`');
+
+    const comma = await client.request('textDocument/hover', { textDocument: { uri }, position: positionOf(', admin') });
+    expect(comma.result).toBeNull();
+  });
+
+  test('completes member keys, choices, variables and schemas', async () => {
+    const source = text + '--- more\n~ dave, ';
+    await client.open(uri, source);
+    const end = positionAt(source);
+
+    const members = await client.request('textDocument/completion', { textDocument: { uri }, position: end });
+    expect(members.result.filter((item: any) => item.kind === CompletionItemKind.EnumMember).map((item: any) => item.label))
+      .toEqual(['admin', 'user']);
+    expect(members.result.filter((item: any) => item.kind === CompletionItemKind.Property).map((item: any) => item.insertText))
+      .toEqual(['role: ', 'home: ', 'tags: ', 'age: ']);
+
+    const keyed = source + 'role: ';
+    await client.open(uri, keyed);
+    const choices = await client.request('textDocument/completion', { textDocument: { uri }, position: positionAt(keyed) });
+    expect(choices.result.map((item: any) => item.label)).toEqual(['admin', 'user']);
+
+    const variable = keyed + '@';
+    await client.open(uri, variable);
+    const variables = await client.request('textDocument/completion', { textDocument: { uri }, position: positionAt(variable) });
+    expect(variables.result).toEqual([{ label: '@boss', kind: CompletionItemKind.Variable, detail: 'admin' }]);
+
+    const schemaRef = text + '--- x: $';
+    await client.open(uri, schemaRef);
+    const schemas = await client.request('textDocument/completion', { textDocument: { uri }, position: positionAt(schemaRef) });
+    expect(schemas.result.map((item: any) => item.label)).toEqual(['$address', '$schema']);
+  });
+
+  test('goes to the header definition of schemas and variables', async () => {
+    await client.open(uri, text);
+
+    const schema = await client.request('textDocument/definition', { textDocument: { uri }, position: positionOf('$address', text, 2) });
+    expect(schema.result).toEqual({
+      uri,
+      range: { start: { line: 1, character: 2 }, end: { line: 1, character: 10 } },
+    });
+
+    const variable = await client.request('textDocument/definition', { textDocument: { uri }, position: positionOf('@boss', text, 1) });
+    expect(variable.result.range.start).toEqual({ line: 0, character: 2 });
+
+    const none = await client.request('textDocument/definition', { textDocument: { uri }, position: positionOf('alice') });
+    expect(none.result).toBeNull();
+  });
+
+  test('lists the sections as document symbols', async () => {
+    await client.open(uri, text);
+    const { result } = await client.request('textDocument/documentSymbol', { textDocument: { uri } });
+
+    expect(result.map((symbol: any) => [symbol.name, symbol.kind, symbol.detail])).toEqual([
+      ['people', SymbolKind.Array, '3 rows'],
+      ['office', SymbolKind.Object, '$address'],
+    ]);
+    expect(result[0].range.start).toEqual(positionOf('--- people'));
+    expect(result[1].selectionRange.start).toEqual(positionOf('office'));
+  });
+
+  test('answers protocol errors and exits after shutdown', async () => {
+    const unknown = await client.request('textDocument/rename', { textDocument: { uri } });
+    expect(unknown.error!.code).toBe(ErrorCode.MethodNotFound);
+
+    const closed = await client.request('textDocument/hover', { textDocument: { uri: 'file:///x.io' }, position: { line: 0, character: 0 } });
+    expect(closed.error!.code).toBe(ErrorCode.InvalidParams);
+
+    expect((await client.request('shutdown')).result).toBeNull();
+    client.notify('exit');
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(exits).toEqual([0]);
+  });
+
+  test('logs and drops malformed notifications, and keeps answering', async () => {
+    await client.open(uri, text);
+
+    const logged = client.nextNotification('window/logMessage');
+    client.notify('textDocument/didOpen', {});
+    expect((await logged).params).toMatchObject({ type: MessageType.Error, message: expect.stringContaining('didOpen') });
+
+    const changed = client.nextNotification('window/logMessage');
+    client.notify('textDocument/didChange', { textDocument: { uri, version: 2 }, contentChanges: [{ range: {}, text: 'x' }] });
+    expect((await changed).params.message).toContain('didChange');
+
+    const result = (await client.request('textDocument/documentSymbol', { textDocument: { uri } })).result;
+    expect(result.map((symbol: any) => symbol.name)).toEqual(['people', 'office']);
+  });
+
+  test('answers messages that are not objects with InvalidRequest, and keeps answering', async () => {
+    for (const body of [null, 5, 'x', [1]]) {
+      const response = client.nextResponse(null);
+      client.send(body);
+      expect((await response).error!.code).toBe(ErrorCode.InvalidRequest);
+    }
+
+    const method = client.nextResponse(7);
+    client.send({ jsonrpc: '2.0', id: 7, method: 5 });
+    expect((await method).error!.code).toBe(ErrorCode.InvalidRequest);
+
+    await client.open(uri, text);
+    const result = (await client.request('textDocument/documentSymbol', { textDocument: { uri } })).result;
+    expect(result.map((symbol: any) => symbol.name)).toEqual(['people', 'office']);
+  });
+
+  test('refuses requests before initialize', async () => {
+    const fresh = connect().client;
+    const response = await fresh.request('textDocument/documentSymbol', { textDocument: { uri } });
+    expect(response.error!.code).toBe(ErrorCode.ServerNotInitialized);
+  });
+});
+
+describe('io-lsp over stdio', () => {
+  test('serves a client through the standard streams of the process', async () => {
+    const child = spawn(process.execPath, ['--import', 'tsx', 'src/cli/bin/io-lsp.ts'], { stdio: ['pipe', 'pipe', 'inherit'] });
+    const exited = new Promise<number | null>(resolve => child.on('exit', resolve));
+
+    const client = new LspTestClient(bytes => child.stdin.write(bytes));
+    child.stdout.on('data', chunk => client.push(chunk));
+
+    await client.initialize();
+    const diagnostics = await client.open(uri, text);
+    expect(diagnostics).toHaveLength(2);
+
+    await client.request('shutdown');
+    client.notify('exit');
+    expect(await exited).toBe(0);
+  }, 30000);
+});
@@ -0,0 +1,104 @@
+import { Decimal, IOEditableDocument, IOError, parseDefinitions } from '../../../src';
+import ErrorCodes from '../../../src/errors/io-error-codes';
+
+const config = `# Service configuration
+~ version: "1.2.0"   # bumped by CI
+~ $schema: { name: string, port: int, debug?: bool, tags?: [string] }
+--- app
+name: api,   port: 8080 # public port
+--- workers
+~ alpha,  1,   T     # primary
+~ 'beta', 0x1F, false
+`;
+
+describe('IOEditableDocument', () => {
+  test('keeps the text untouched until edited', () => {
+    const doc = IOEditableDocument.parse(config);
+    expect(doc.toString()).toBe(config);
+    expect(doc.edits).toEqual([]);
+  });
+
+  test('replaces only the value of a keyed member', () => {
+    const doc = IOEditableDocument.parse(config).setAt('app', 0, 'port', 9090);
+
+    expect(doc.text).toBe(config.replace('port: 8080', 'port: 9090'));
+    expect(doc.edits).toEqual([{ start: config.indexOf('8080'), end: config.indexOf('8080') + 4, text: '9090' }]);
+    expect(doc.getAt('app', 0, 'port')).toBe(9090);
+  });
+
+  test('addresses positional members through the section schema', () => {
+    const doc = IOEditableDocument.parse(config)
+      .setAt('workers', 0, 'name', 'gamma')
+      .setAt('workers', 1, 1, 255);
+
+    expect(doc.text).toContain('~ gamma,  1,   T     # primary');
+    expect(doc.text).toContain("~ 'beta', 0xff, false");
+    expect(doc.toDocument().toJSON().data.workers[0]).toEqual({ name: 'gamma', port: 1, debug: true });
+  });
+
+  test('keeps the style of the replaced value', () => {
+    const doc = IOEditableDocument.parse(config)
+      .setAt('workers', 1, 'name', "it's")
+      .setAt('workers', 1, 'debug', true)
+      .setAt('workers', 0, 'debug', false)
+      .setHeader('version', '1.3.0');
+
+    expect(doc.text).toContain(`~ 'it\\'s', 0x1F, true`);
+    expect(doc.text).toContain('~ alpha,  1,   F     # primary');
+    expect(doc.text).toContain('~ version: "1.3.0"   # bumped by CI');
+  });
+
+  test('appends members that are not present', () => {
+    const doc = IOEditableDocument.parse(config)
+      .setAt('app', 0, 'tags', ['a', 'b c'])
+      .setAt('workers', 1, 3, ['x']);
+
+    expect(doc.text).toContain('name: api,   port: 8080, tags: [a, b c] # public port');
+    expect(doc.text).toContain("~ 'beta', 0x1F, false, [x]");
+    expect(doc.toDocument().toJSON().data.app.tags).toEqual(['a', 'b c']);
+  });
+
+  test('writes objects, dates, decimals and nulls', () => {
+    const doc = IOEditableDocument.parse('~ $schema: { a: any, b: any, c*: string, d: object }\n---\n{}, 1, x, {}\n')
+      .setAt(0, 0, 'a', new Date('2024-05-01T10:00:00.000Z'))
+      .setAt(0, 0, 'b', new Decimal('1.50'))
+      .setAt(0, 0, 'c', null)
+      .setAt(0, 0, 'd', { host: 'localhost', 'max-conn': 10 });
+
+    expect(doc.text).toBe('~ $schema: { a: any, b: any, c*: string, d: object }\n---\n'
+      + 'dt"2024-05-01T10:00:00.000Z", 1.50m, N, {host: localhost, max-conn: 10}\n');
+  });
+
+  test('adds header definitions', () => {
+    const doc = IOEditableDocument.parse(config).setHeader('owner', 'ops team');
+    expect(doc.text).toContain('~ version: "1.2.0"   # bumped by CI\n~ $schema: { name: string, port: int, debug?: bool, tags?: [string] }\n~ owner: ops team\n--- app');
+    expect(doc.getHeader('owner')).toBe('ops team');
+
+    expect(IOEditableDocument.parse('a, b\n').setHeader('v', 1).text).toBe('~ v: 1\n---\na, b\n');
+    expect(IOEditableDocument.parse('--- data\na, b\n').setHeader('v', 1).text).toBe('~ v: 1\n--- data\na, b\n');
+    expect(IOEditableDocument.parse('~ a: 1\r\n---\r\nx\r\n').setHeader('b', 2).text).toBe('~ a: 1\r\n~ b: 2\r\n---\r\nx\r\n');
+  });
+
+  test('resolves schemas from external definitions', () => {
+    const defs = parseDefinitions('~ $schema: { host: string, port: int }')!;
+    const doc = IOEditableDocument.parse('localhost, 80 # dev\n', defs).setAt(0, 0, 'port', 8080);
+
+    expect(doc.text).toBe('localhost, 8080 # dev\n');
+  });
+
+  test('reports missing sections and objects', () => {
+    const doc = IOEditableDocument.parse(config);
+
+    expect(() => doc.setAt('nope', 0, 'a', 1)).toThrow(IOError);
+    expect(() => doc.setAt('workers', 5, 'name', 'x')).toThrow(/no object at index 5/);
+    expect(() => doc.setAt('app', 0, 7, 'x')).toThrow(/no member at position 7/);
+    expect(() => IOEditableDocument.parse('name, age\n---\nx, 1').setHeader('v', 1)).toThrow(IOError);
+
+    try {
+      doc.setAt(3, 0, 'a', 1);
+      expect.unreachable();
+    } catch (err) {
+      expect((err as IOError).errorCode).toBe(ErrorCodes.sectionNotFound);
+    }
+  });
+});
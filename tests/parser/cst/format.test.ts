@@ -0,0 +1,108 @@
+import { checkFormat, format, parse } from '../../../src';
+
+const messy = `# Service file
+
+~ $schema: {name:string,role:{string,choices:[admin,user]},home:$address,tags?:[string]}
+~ @boss :admin   # the boss
+~ version: 1.2
+~ $address: {
+    city: string,   # the city
+    # postal code
+    zip?: string
+  }
+--- people:$schema
+~ alice,admin,{Paris,"75001"},[a]
+~ bob,  user,{London}
+
+~ carol, @boss, {Rome}, [] # no tags
+--- office : $address
+city:Berlin, zip:   "10115"
+`;
+
+const formatted = `# Service file
+
+~ version: 1.2
+~ @boss: admin # the boss
+~ $schema: {
+    name: string,
+    role: { string, choices: [admin, user] },
+    home: $address,
+    tags?: [string]
+  }
+~ $address: {
+    city: string, # the city
+    # postal code
+    zip?: string
+  }
+--- people: $schema
+~ alice, admin, { Paris, "75001" }, [a]
+~ bob,   user,  { London }
+
+~ carol, @boss, { Rome },           [] # no tags
+--- office: $address
+city: Berlin, zip: "10115"
+`;
+
+describe('format()', () => {
+  test('lays out a document canonically, keeping values and comments as written', () => {
+    expect(format(messy)).toBe(formatted);
+    expect(parse(format(messy)).toJSON()).toEqual(parse(messy).toJSON());
+  });
+
+  test('is idempotent', () => {
+    expect(format(formatted)).toBe(formatted);
+    expect(format(format(messy, { maxWidth: 30 }), { maxWidth: 30 })).toBe(format(messy, { maxWidth: 30 }));
+  });
+
+  test('wraps rows longer than the width, moving members to the next line first', () => {
+    const text = '---\n~ dave, user, {Berlin, "10115"}, [a, b, c, d, e, f, g, h, i, j, k, l, m, n], 44\n';
+
+    expect(format(text)).toBe('---\n~ dave, user, { Berlin, "10115" }, [a, b, c, d, e, f, g, h, i, j, k, l, m, n],\n  44\n');
+    expect(format(text, { maxWidth: 24 })).toBe([
+      '---',
+      '~ dave, user,',
+      '  { Berlin, "10115" }, [',
+      '    a,', '    b,', '    c,', '    d,', '    e,', '    f,', '    g,',
+      '    h,', '    i,', '    j,', '    k,', '    l,', '    m,', '    n',
+      '  ], 44',
+      '',
+    ].join('\n'));
+  });
+
+  test('keeps empty members and the spelling of values', () => {
+    const text = `~ a,,  c,\n~   r'x',0xFF  ,1.5m, 10n,dt'2024-01-01', T,N`;
+
+    expect(format(text, { alignColumns: false })).toBe(`~ a, , c,\n~ r'x', 0xFF, 1.5m, 10n, dt'2024-01-01', T, N\n`);
+    expect(format(text)).toBe(`~ a,    ,     c,\n~ r'x', 0xFF, 1.5m, 10n, dt'2024-01-01', T, N\n`);
+  });
+
+  test('honors the options', () => {
+    const text = '~ b: 1\n~ $s: {x, y}\n~ a: 2\n---\n~ a, {b: 1}\n~ abc, {d: 2}\n';
+
+    expect(format(text, { sortDefinitions: false, indent: 4, maxWidth: 12 })).toBe(
+      '~ b: 1\n~ $s: {\n        x,\n        y\n    }\n~ a: 2\n---\n~ a,\n    { b: 1 }\n~ abc,\n    { d: 2 }\n'
+    );
+    expect(format(text)).toBe('~ b: 1\n~ a: 2\n~ $s: { x, y }\n---\n~ a,   { b: 1 }\n~ abc, { d: 2 }\n');
+  });
+
+  test('keeps CRLF line endings, and formats empty text to empty text', () => {
+    expect(format('~ a,1\r\n~ bb,2\r\n')).toBe('~ a,  1\r\n~ bb, 2\r\n');
+    expect(format('')).toBe('');
+    expect(format('# only a comment')).toBe('# only a comment\n');
+  });
+
+  test('throws the syntax errors of the text', () => {
+    expect(() => format('~ {a, b\n~ c')).toThrow(/expecting-bracket|Missing closing brace/);
+  });
+});
+
+describe('checkFormat()', () => {
+  test('reports whether the text is formatted, and the first line that is not', () => {
+    expect(checkFormat(formatted)).toEqual({ formatted: true, output: formatted });
+
+    const result = checkFormat(formatted.replace('~ bob,   user', '~ bob, user'));
+    expect(result.formatted).toBe(false);
+    expect(result.output).toBe(formatted);
+    expect(result.line).toBe(formatted.split('\n').findIndex(line => line.startsWith('~ bob')) + 1);
+  });
+});
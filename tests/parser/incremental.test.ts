@@ -0,0 +1,188 @@
+import { IncrementalParseResult, IOError, parse, parseDefinitions, parseIncremental, reparse } from '../../src';
+import Tokenizer from '../../src/parser/tokenizer';
+
+const text = `~ $schema: { name: string, age: int, tags?: [string] }
+~ $point: { x: int, y?: int }
+--- people
+~ alice, 30   # first
+~ bob, x, [a, b]
+  ~ carol, 40
+~ 'dan', 1, [c]
+--- points: $point
+~ 1, 2
+~ {x: 3}
+~ 5, y
+`;
+
+function edit(result: IncrementalParseResult, from: string, to: string): IncrementalParseResult {
+  const start = result.text.indexOf(from);
+  return reparse(result, { start, end: start + from.length, text: to });
+}
+
+/** Compares an incremental result with a full parse of its text. */
+function expectFullParse(result: IncrementalParseResult): void {
+  const full = parse(result.text, null);
+  expect(result.document.toJSON()).toEqual(full.toJSON());
+  expect(result.document.errors.map(error => error.message)).toEqual(full.errors.map(error => error.message));
+
+  const positions = (tokens: readonly { pos: number, row: number, col: number }[]) =>
+    tokens.map(({ pos, row, col }) => `${pos}:${row}:${col}`);
+  expect(positions(result.state.tokens)).toEqual(positions(new Tokenizer(result.text).tokenize()));
+}
+
+describe('parseIncremental', () => {
+  test('parses the whole document', () => {
+    const result = parseIncremental(text);
+    expect(result.reparsed).toBe('document');
+    expect(result.text).toBe(text);
+    expectFullParse(result);
+  });
+
+  test('parses empty text', () => {
+    expect(parseIncremental('').document.toJSON()).toEqual(parse('').toJSON());
+  });
+});
+
+describe('reparse', () => {
+  test('reparses only the edited row', () => {
+    const before = parseIncremental(text);
+    const people = before.document.sections!.get('people')!.data as any;
+    const alice = people.getAt(0);
+    const carol = people.getAt(2);
+
+    const result = edit(before, 'bob, x', 'bob, 25');
+    expect(result.reparsed).toBe('row');
+    expect(people.getAt(1).toJSON()).toEqual({ name: 'bob', age: 25, tags: ['a', 'b'] });
+
+    // The other rows keep their values
+    expect(people.getAt(0)).toBe(alice);
+    expect(people.getAt(2)).toBe(carol);
+    expectFullParse(result);
+  });
+
+  test('moves the positions and errors that follow the row', () => {
+    let result = edit(parseIncremental(text), 'alice, 30', 'alice,\n  30, [\n  x]');
+    expect(result.reparsed).toBe('row');
+    expectFullParse(result);
+
+    result = edit(result, 'dan', 'daniel');
+    expect(result.reparsed).toBe('row');
+    expect(result.document.errors.map(error => error.message)).toEqual([
+      expect.stringContaining(`for 'age'" at 7:8`),
+      expect.stringContaining(`for 'y'" at 13:6`),
+    ]);
+    expectFullParse(result);
+  });
+
+  test('moves the rows that follow over several edits', () => {
+    const rows = '~ a, 1\n  ~ b, 2 ~ c, x\n~ d, y\n';
+    let result = parseIncremental(`~ $schema: { name: string, age: int }\n---\n${rows}`);
+
+    // The rows on the line of the next row move along the line too
+    result = edit(result, 'a, 1\n  ', 'a,\n 10\n');
+    expect(result.reparsed).toBe('row');
+    expectFullParse(result);
+
+    result = edit(result, 'd, y', 'dd, z');
+    result = edit(result, 'a,\n 10', 'a, 1');
+    expect(result.reparsed).toBe('row');
+    expect(result.document.errors.map(error => error.message)).toEqual([
+      expect.stringContaining('at 4:13'),
+      expect.stringContaining('at 5:7'),
+    ]);
+    expectFullParse(result);
+  });
+
+  test('replaces the errors of the edited row', () => {
+    let result = edit(parseIncremental(text), '1, 2', '1, 2}');
+    expect(result.reparsed).toBe('row');
+    expect(result.document.errors).toHaveLength(3);
+    expectFullParse(result);
+
+    result = edit(result, '1, 2}', '1, 2');
+    expect(result.document.errors).toHaveLength(2);
+    expectFullParse(result);
+  });
+
+  test('reparses the document for structural edits', () => {
+    const before = parseIncremental(text);
+    const structural: Array<[string, string]> = [
+      ['name: string', 'name: int'],         // the header
+      ['alice, 30', 'alice, 30\n~ eve, 2'],  // adds a row
+      ['~ carol, 40\n', ''],                 // removes a row
+      ["'dan', 1", "'dan, 1"],               // an unclosed string
+      ['~ 1, 2', '~ 1, 2 # ~ {x: 3}'],       // comments out the next row
+      ['--- points', 'points'],              // removes a section separator
+    ];
+
+    for (const [from, to] of structural) {
+      const result = edit(parseIncremental(text), from, to);
+      expect(result.reparsed).toBe('document');
+      expectFullParse(result);
+    }
+    expect(before.text).toBe(text);
+  });
+
+  test('keeps the options and external definitions', () => {
+    const defs = parseDefinitions('~ $schema: { host: string, port: int }')!;
+    let result = parseIncremental('~ a, 1\n~ b, x, y\n', defs, { exhaustive: true });
+    expect(result.document.errors).toHaveLength(2);
+
+    result = edit(result, 'a, 1', 'a, z, w');
+    expect(result.reparsed).toBe('row');
+    expect(result.document.errors).toHaveLength(4);
+    expect(result.document.toJSON()).toEqual(parse(result.text, defs, undefined, { exhaustive: true }).toJSON());
+  });
+
+  test('rejects edits outside the text', () => {
+    const result = parseIncremental(text);
+    expect(() => reparse(result, { start: 5, end: 2, text: '' })).toThrow(IOError);
+    expect(() => reparse(result, { start: 0, end: text.length + 1, text: '' })).toThrow(IOError);
+  });
+
+  test('matches a full parse after random edits', () => {
+    let seed = 7;
+    const random = (n: number) => (seed = (seed * 1103515245 + 12345) % 2147483648) % n;
+    const pieces = ['a', '1', ',', ' ', '\n', '{', '}', '"', '[', ']', '#', ':', '~', "'", '-', ''];
+
+    // The edits are made to the data, as an invalid header fails the parse
+    let result = parseIncremental(text);
+    let rows = 0;
+    for (let i = 0; i < 500; i++) {
+      const dataStart = result.text.indexOf('--- people') + 1;
+      const start = dataStart + random(result.text.length + 1 - dataStart);
+      const end = Math.min(result.text.length, start + random(3));
+      const inserted = pieces[random(pieces.length)] + pieces[random(pieces.length)];
+
+      const edited = result.text.slice(0, start) + inserted + result.text.slice(end);
+      try {
+        result = reparse(result, { start, end, text: inserted });
+      } catch {
+        // Some edits make the document invalid as a whole, such as a section schema that is not defined
+        expect(() => parse(edited, null)).toThrow();
+        result = parseIncremental(text);
+        continue;
+      }
+      if (result.reparsed === 'row') rows++;
+      expectFullParse(result);
+
+      if (result.text.length > 400 || random(40) === 0) result = parseIncremental(text);
+    }
+    expect(rows).toBeGreaterThan(100);
+  });
+
+  test('updates a large collection row by row', () => {
+    const rows = Array.from({ length: 50000 }, (_, i) => `~ user${i}, ${i % 100}\n`).join('');
+    let result = parseIncremental(`~ $schema: { name: string, age: int }\n---\n${rows}`);
+
+    const at = result.text.indexOf('user25000,') + 'user25000, '.length;
+    result = reparse(result, { start: at, end: at + 1, text: 'x' });
+    expect(result.reparsed).toBe('row');
+    expect(result.document.errors).toHaveLength(1);
+    expect(result.document.errors[0].message).toContain('at 25003:14');
+
+    result = reparse(result, { start: at, end: at + 1, text: '7' });
+    expect(result.document.errors).toHaveLength(0);
+    expect((result.document.toJSON() as any)[25000]).toEqual({ name: 'user25000', age: 7 });
+  });
+});
@@ -1,6 +1,8 @@
 import Tokenizer from "../../../../src/parser/tokenizer";
 import TokenType from "../../../../src/parser/tokenizer/token-types";
 import { TokenErrorValue } from "../../../../src/parser/tokenizer/tokens";
+import { IODuration } from "../../../../src/core/duration";
+import { IOMoney } from "../../../../src/core/money";
 
 describe("Annotated String Parsing", () => {
   describe("Raw Strings", () => {
@@ -34,6 +36,14 @@ describe("Annotated String Parsing", () => {
       expect(tokens[2].value).toBe("single quotes");
     });
 
+    it("should keep the closing quote in the token text at the end of input", () => {
+      const tokens = new Tokenizer(`r'x', r"closed"`).tokenize();
+
+      expect(tokens[0].token).toBe("r'x'");
+      expect(tokens[2].token).toBe('r"closed"');
+      expect(tokens[2].value).toBe("closed");
+    });
+
     it("should preserve special characters in raw strings", () => {
       const input = `r"[0-9\\n\\t\\r]", r'g~^&*(@hi🤐'`;
       const tokenizer = new Tokenizer(input);
@@ -110,6 +120,42 @@ describe("Annotated String Parsing", () => {
       expect(Buffer.isBuffer(tokens[0].value)).toBe(true);
       expect((tokens[0].value as Buffer).length).toBe(0);
     });
+
+    it("should accept base64url binary strings", () => {
+      const bytes = Buffer.from([0xfb, 0xff, 0xbf]);
+      const tokenizer = new Tokenizer(`b"${bytes.toString("base64url")}"`);
+      const tokens = tokenizer.tokenize();
+
+      expect(tokens).toHaveLength(1);
+      expect(tokens[0].type).toBe(TokenType.BINARY);
+      expect(tokens[0].value).toEqual(bytes);
+    });
+  });
+
+  describe("Hex Strings", () => {
+    it("should parse hex strings with hex prefix", () => {
+      const input = `hex"48656c6C6f", hex''`;
+      const tokenizer = new Tokenizer(input);
+      const tokens = tokenizer.tokenize();
+
+      expect(tokens).toHaveLength(3);
+      expect(tokens[0].type).toBe(TokenType.BINARY);
+      expect(tokens[0].subType).toBe("HEX_STRING");
+      expect((tokens[0].value as Buffer).toString()).toBe("Hello");
+      expect((tokens[2].value as Buffer).length).toBe(0);
+    });
+
+    it("should handle invalid hex strings", () => {
+      const input = `hex"abc", hex"zz", "next"`;
+      const tokenizer = new Tokenizer(input);
+      const tokens = tokenizer.tokenize();
+
+      expect(tokens).toHaveLength(5);
+      expect(tokens[0].type).toBe(TokenType.ERROR);
+      expect((tokens[0].value as TokenErrorValue).errorCode).toBe("invalid-hex");
+      expect(tokens[2].type).toBe(TokenType.ERROR);
+      expect(tokens[4].value).toBe("next");
+    });
   });
 
   describe("DateTime Strings", () => {
@@ -181,6 +227,56 @@ describe("Annotated String Parsing", () => {
     });
   });
 
+  describe("Duration Strings", () => {
+    it("should parse duration strings with du prefix", () => {
+      const input = `du"P1DT2H", du'-PT0.5S'`;
+      const tokenizer = new Tokenizer(input);
+      const tokens = tokenizer.tokenize();
+
+      expect(tokens).toHaveLength(3);
+      expect(tokens[0].type).toBe(TokenType.DURATION);
+      expect(tokens[0].value).toBeInstanceOf(IODuration);
+      expect(String(tokens[0].value)).toBe("P1DT2H");
+      expect((tokens[2].value as IODuration).negative).toBe(true);
+    });
+
+    it("should handle invalid duration formats", () => {
+      const input = `du"P1H", "next"`;
+      const tokenizer = new Tokenizer(input);
+      const tokens = tokenizer.tokenize();
+
+      expect(tokens).toHaveLength(3);
+      expect(tokens[0].type).toBe(TokenType.ERROR);
+      expect((tokens[0].value as TokenErrorValue).errorCode).toBe("invalid-duration");
+      expect(tokens[2].value).toBe("next");
+    });
+  });
+
+  describe("Money Strings", () => {
+    it("should parse money strings with mo prefix", () => {
+      const input = `mo"12.50 USD", mo'-1200 JPY'`;
+      const tokenizer = new Tokenizer(input);
+      const tokens = tokenizer.tokenize();
+
+      expect(tokens).toHaveLength(3);
+      expect(tokens[0].type).toBe(TokenType.MONEY);
+      expect(tokens[0].value).toBeInstanceOf(IOMoney);
+      expect(String(tokens[0].value)).toBe("12.50 USD");
+      expect((tokens[2].value as IOMoney).currency).toBe("JPY");
+    });
+
+    it("should handle invalid money formats", () => {
+      const input = `mo"USD 12.50", "next"`;
+      const tokenizer = new Tokenizer(input);
+      const tokens = tokenizer.tokenize();
+
+      expect(tokens).toHaveLength(3);
+      expect(tokens[0].type).toBe(TokenType.ERROR);
+      expect((tokens[0].value as TokenErrorValue).errorCode).toBe("invalid-money");
+      expect(tokens[2].value).toBe("next");
+    });
+  });
+
   describe("Multi-character Annotation Prefixes", () => {
     it("should handle multi-character annotation prefixes", () => {
       const input = `dt"2023-12-25T10:30:00Z"`;
@@ -227,7 +323,7 @@ describe("Annotated String Parsing", () => {
 
       expect(tokens).toHaveLength(3);
       expect(tokens[0].token).toBe('r"test"');
-      expect(tokens[2].token).toBe("r'test"); // Actual tokenizer behavior
+      expect(tokens[2].token).toBe("r'test'");
     });
   });
 
@@ -257,7 +257,7 @@ describe("DateTime Token Parsing", () => {
       
       expect(dateTimeTokens[0].token).toBe('dt"2023-12-25T10:30:00Z"');
       expect(dateTimeTokens[1].token).toBe("d'2023-12-25'");
-      expect(dateTimeTokens[2].token).toBe('t"10:30:00'); // Actual tokenizer behavior
+      expect(dateTimeTokens[2].token).toBe('t"10:30:00"');
     });
   });
 
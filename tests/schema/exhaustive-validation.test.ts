@@ -0,0 +1,143 @@
+import { parse, parseDefinitions, loadObject, loadCollection, validateObject, validateCollection } from '../../src';
+import ErrorCodes from '../../src/errors/io-error-codes';
+import IOCollection from '../../src/core/collection';
+import IOObject from '../../src/core/internet-object';
+import IOError from '../../src/errors/io-error';
+
+const schemaText = `~ $schema: { name: string, age: {int, min: 18}, role: {string, choices: [admin, user]}, email: email }`;
+
+function codes(errors: readonly Error[]) {
+  return errors.map(e => (e as IOError).errorCode);
+}
+
+describe('Exhaustive validation', () => {
+  describe('parse()', () => {
+    const defs = parseDefinitions(schemaText)!;
+
+    test('reports only the first failure by default', () => {
+      expect(() => parse('N, 10, guest, nope', defs)).toThrow(/null/i);
+    });
+
+    test('collects every failing member of an object', () => {
+      const doc = parse('N, 10, guest, nope', defs, { exhaustive: true });
+      const errors = doc.getErrors();
+      expect(codes(errors)).toEqual([
+        ErrorCodes.nullNotAllowed,
+        ErrorCodes.invalidRange,
+        ErrorCodes.invalidChoice,
+        ErrorCodes.invalidEmail,
+      ]);
+
+      const obj = doc.sections!.get(0)!.data as IOObject;
+      expect(obj.getErrors()).toHaveLength(4);
+    });
+
+    test('gives each failure its own position', () => {
+      const doc = parse('N, 10, guest, nope', defs, { exhaustive: true });
+      const cols = doc.getErrors().map(e => (e as IOError).positionRange!.getStartPos().col);
+      expect(cols).toEqual([1, 4, 8, 15]);
+    });
+
+    test('collects unknown, duplicate and missing members', () => {
+      const doc = parse('~ $schema: { a: string, b: int, c: bool }\n---\na: x, b: 1, b: 2, d: 5', null, { exhaustive: true });
+      expect(codes(doc.getErrors())).toEqual([
+        ErrorCodes.duplicateMember,
+        ErrorCodes.unknownMember,
+        ErrorCodes.valueRequired,
+      ]);
+    });
+
+    test('collects additional values of a closed schema', () => {
+      const doc = parse('~ $schema: { a: int, b: int }\n---\n1, 2, 3, 4', null, { exhaustive: true });
+      expect(codes(doc.getErrors())).toEqual([
+        ErrorCodes.additionalValuesNotAllowed,
+        ErrorCodes.additionalValuesNotAllowed,
+      ]);
+    });
+
+    test('collects every failing member of a nested object', () => {
+      const doc = parse('~ $schema: { name: string, addr: { city: string, zip: int } }\n---\nN, {2, x}', null, { exhaustive: true });
+      expect(codes(doc.getErrors())).toEqual([
+        ErrorCodes.nullNotAllowed,
+        ErrorCodes.notAString,
+        ErrorCodes.invalidType,
+      ]);
+      expect(doc.getErrors().map(e => (e as IOError).message)).toEqual([
+        expect.stringContaining('name'),
+        expect.stringContaining('addr.city'),
+        expect.stringContaining('addr.zip'),
+      ]);
+    });
+
+    test('returns the complete list from IOCollection.getErrors()', () => {
+      const doc = parse(`${schemaText}\n---\n~ Alice, 30, admin, a@b.com\n~ N, 10, guest, nope\n~ Bob, 12, user, b@c.com`, null, { exhaustive: true });
+      const collection = doc.sections!.get(0)!.data as IOCollection;
+      const errors = collection.getErrors();
+
+      expect(codes(errors)).toEqual([
+        ErrorCodes.nullNotAllowed,
+        ErrorCodes.invalidRange,
+        ErrorCodes.invalidChoice,
+        ErrorCodes.invalidEmail,
+        ErrorCodes.invalidRange,
+      ]);
+      expect(errors.map(e => (e as any).collectionIndex)).toEqual([1, 1, 1, 1, 2]);
+    });
+  });
+
+  describe('load and validate', () => {
+    const defs = parseDefinitions(schemaText)!;
+    const bad = { name: null, age: 10, role: 'guest', email: 'nope', extra: true };
+
+    test('validateObject() reports the first failure by default', () => {
+      expect(validateObject(bad, defs).errors).toHaveLength(1);
+    });
+
+    test('validateObject() reports every failure in exhaustive mode', () => {
+      const result = validateObject(bad, defs, { exhaustive: true });
+      expect(result.valid).toBe(false);
+      expect(codes(result.errors)).toEqual([
+        ErrorCodes.nullNotAllowed,
+        ErrorCodes.invalidRange,
+        ErrorCodes.invalidChoice,
+        ErrorCodes.invalidEmail,
+        ErrorCodes.unknownMember,
+      ]);
+    });
+
+    test('validateObject() accepts options after a schema and definitions', () => {
+      const result = validateObject(bad, defs.get('$schema'), defs, { exhaustive: true });
+      expect(result.errors).toHaveLength(5);
+    });
+
+    test('validateObject() passes valid data in exhaustive mode', () => {
+      const result = validateObject({ name: 'Al', age: 20, role: 'user', email: 'a@b.com' }, defs, { exhaustive: true });
+      expect(result).toEqual({ valid: true, errors: [], data: { name: 'Al', age: 20, role: 'user', email: 'a@b.com' } });
+    });
+
+    test('validateCollection() reports every failure of every item', () => {
+      const good = { name: 'Al', age: 20, role: 'user', email: 'a@b.com' };
+      const result = validateCollection([good, bad], defs, { exhaustive: true });
+      expect(result.errors).toHaveLength(5);
+      expect(result.errors.every(e => (e as any).collectionIndex === 1)).toBe(true);
+    });
+
+    test('loadObject() returns the object with all of its errors', () => {
+      const errors: Error[] = [];
+      const obj = loadObject(bad, defs, { exhaustive: true, errorCollector: errors });
+      expect(obj.getErrors()).toHaveLength(5);
+      expect(errors).toHaveLength(5);
+      expect(obj.get('age')).toBeUndefined();
+    });
+
+    test('loadObject() throws the first failure in strict exhaustive mode', () => {
+      expect(() => loadObject(bad, defs, { exhaustive: true, strict: true })).toThrow(/null/i);
+    });
+
+    test('loadCollection() records the failure count on the error item', () => {
+      const col = loadCollection([bad], defs, { exhaustive: true });
+      expect(col.getErrors()).toHaveLength(5);
+      expect((col.getAt(0) as any).errorCount).toBe(5);
+    });
+  });
+});
@@ -0,0 +1,237 @@
+import { IOError, IODefinitions, IOSchema, fromJSONSchema, parse, parseDefinitions, toJSONSchema, validateObject } from '../../../src';
+import ErrorCodes from '../../../src/errors/io-error-codes';
+
+const person = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  type: 'object',
+  properties: {
+    name: { type: 'string', minLength: 1 },
+    age: { type: 'integer', minimum: 0 },
+    email: { type: 'string', format: 'email' },
+    address: { $ref: '#/$defs/address' },
+  },
+  required: ['name', 'email'],
+  additionalProperties: false,
+  $defs: {
+    address: {
+      type: 'object',
+      properties: { city: { type: 'string' }, zip: { type: ['string', 'null'] } },
+      required: ['city', 'zip'],
+    },
+  },
+};
+
+describe('fromJSONSchema()', () => {
+  test('imports the root object as the default schema', () => {
+    const { definitions, issues } = fromJSONSchema(person);
+    const schema = definitions.defaultSchema!;
+
+    expect(issues).toEqual([]);
+    expect(schema.names).toEqual(['name', 'age', 'email', 'address']);
+    expect(schema.open).toBe(false);
+    expect(schema.defs.name).toMatchObject({ type: 'string', minLen: 1, optional: false, null: false });
+    expect(schema.defs.age).toMatchObject({ type: 'int', min: 0, optional: true });
+    expect(schema.defs.email).toMatchObject({ type: 'email', optional: false });
+  });
+
+  test('imports $defs as named schemas', () => {
+    const { definitions } = fromJSONSchema(person);
+    const address = definitions.get('$address') as IOSchema;
+
+    expect(address).toBeInstanceOf(IOSchema);
+    expect(address.open).toBe(true);
+    expect(address.defs.zip).toMatchObject({ type: 'string', null: true, optional: false });
+  });
+
+  test('produces definitions usable for parsing and validation', () => {
+    const { definitions } = fromJSONSchema(JSON.stringify(person));
+    const doc = parse('Alice, 30, alice@example.com, {Paris, N}', definitions);
+
+    expect(doc.toJSON()).toEqual({ name: 'Alice', age: 30, email: 'alice@example.com', address: { city: 'Paris', zip: null } });
+    expect(validateObject({ name: 'Bob', email: 'nope' }, definitions).valid).toBe(false);
+    expect(() => parse('Alice, -1, a@b.com', definitions)).toThrow();
+  });
+
+  test('imports arrays, enums, defaults and unions', () => {
+    const { definitions, issues } = fromJSONSchema({
+      type: 'object',
+      properties: {
+        tags: { type: 'array', items: { type: 'string' }, minItems: 1, maxItems: 3 },
+        role: { enum: ['admin', 'user', null], default: 'user' },
+        id: { anyOf: [{ type: 'string' }, { type: 'integer' }] },
+        count: { type: 'integer', exclusiveMinimum: 0 },
+        kind: { const: 'fixed' },
+      },
+    });
+    const { defs } = definitions.defaultSchema!;
+
+    expect(issues).toEqual([]);
+    expect(defs.tags).toMatchObject({ type: 'array', of: { type: 'string' }, minLen: 1, maxLen: 3 });
+    expect(defs.role).toMatchObject({ type: 'any', choices: ['admin', 'user'], default: 'user', null: true });
+    expect(defs.id.anyOf.map((def: any) => def.type)).toEqual(['string', 'int']);
+    expect(defs.count).toMatchObject({ type: 'int', min: 1 });
+    expect(defs.kind.choices).toEqual(['fixed']);
+  });
+
+  test('imports formats of integers, numbers and strings', () => {
+    const { definitions } = fromJSONSchema({
+      type: 'object',
+      properties: {
+        small: { type: 'integer', format: 'uint8', minimum: 0, maximum: 255 },
+        big: { type: 'integer', format: 'bigint', minimum: 10 },
+        ratio: { type: 'number', format: 'double' },
+        price: { type: 'string', format: 'decimal', default: '1.50' },
+        at: { type: 'string', format: 'date-time' },
+        site: { type: 'string', format: 'uri' },
+      },
+    });
+    const { defs } = definitions.defaultSchema!;
+
+    expect(defs.small).toMatchObject({ type: 'uint8' });
+    expect(defs.small.min).toBeUndefined();
+    expect(defs.big).toMatchObject({ type: 'bigint', min: 10n });
+    expect(defs.ratio.type).toBe('number');
+    expect(defs.price.type).toBe('decimal');
+    expect(defs.price.default.toString()).toBe('1.50');
+    expect(defs.at.type).toBe('datetime');
+    expect(defs.site.type).toBe('url');
+  });
+
+  test('imports times in UTC whatever the time zone of the process', () => {
+    const tz = process.env.TZ;
+    process.env.TZ = 'America/New_York';
+    try {
+      const { definitions } = fromJSONSchema({
+        type: 'object',
+        properties: {
+          opens: { type: 'string', format: 'time', default: '09:30:00' },
+          closes: { type: 'string', format: 'time', enum: ['17:00:00+02:00'] },
+        },
+      });
+      const { defs } = definitions.defaultSchema!;
+
+      expect(defs.opens.default.toISOString()).toBe('1900-01-01T09:30:00.000Z');
+      expect(defs.closes.choices![0].toISOString()).toBe('1900-01-01T15:00:00.000Z');
+    } finally {
+      if (tz === undefined) delete process.env.TZ;
+      else process.env.TZ = tz;
+    }
+  });
+
+  test('imports nullable references and nested objects', () => {
+    const { definitions } = fromJSONSchema({
+      type: 'object',
+      properties: {
+        home: { anyOf: [{ $ref: '#/$defs/addr' }, { type: 'null' }] },
+        meta: { type: 'object', properties: { v: { type: 'integer' } }, required: ['v'], additionalProperties: { type: 'string' } },
+        any: { type: 'object' },
+      },
+      required: ['home', 'meta'],
+      $defs: { addr: { type: 'object', properties: { city: { type: 'string' } } } },
+    });
+    const { defs } = definitions.defaultSchema!;
+
+    expect(defs.home).toMatchObject({ type: 'object', null: true });
+    expect(defs.meta.schema).toBeInstanceOf(IOSchema);
+    expect(defs.meta.schema.open).toMatchObject({ type: 'string', path: '*' });
+    expect(defs.any.schema).toBeUndefined();
+
+    const doc = parse('N, {1, x: abc}, {}', definitions);
+    expect(doc.toJSON()).toEqual({ home: null, meta: { v: 1, x: 'abc' }, any: {} });
+  });
+
+  test('imports recursive and draft-07 definitions', () => {
+    const { definitions, issues } = fromJSONSchema({
+      $ref: '#/definitions/node',
+      definitions: {
+        node: {
+          type: 'object',
+          properties: { name: { type: 'string' }, children: { type: 'array', items: { $ref: '#/definitions/node' } } },
+          required: ['name'],
+          additionalProperties: false,
+        },
+      },
+    });
+
+    expect(issues).toEqual([]);
+    const doc = parse('root, [{a}, {b, [{c}]}]', definitions);
+    expect(JSON.parse(JSON.stringify(doc.toJSON()))).toEqual({ name: 'root', children: [{ name: 'a' }, { name: 'b', children: [{ name: 'c' }] }] });
+  });
+
+  test('inlines references to non-object definitions', () => {
+    const { definitions } = fromJSONSchema({
+      type: 'object',
+      properties: { status: { $ref: '#/$defs/status' } },
+      $defs: { status: { type: 'string', enum: ['on', 'off'] } },
+    });
+
+    expect(definitions.get('$status')).toBeUndefined();
+    expect(definitions.defaultSchema!.defs.status).toMatchObject({ type: 'string', choices: ['on', 'off'] });
+  });
+
+  test('round-trips IO definitions through JSON Schema', () => {
+    const defs = parseDefinitions(`~ $Addr: { city: string, zip?*: {string, len: 5} }
+~ $schema: { name: {string, maxLen: 20}, age?: {uint8, max: 120}, role: {string, choices: [a, b], default: a}, home: $Addr, tags: [string], *: int }`)!;
+    const exported = toJSONSchema(defs).schema;
+    const imported = fromJSONSchema(exported).definitions;
+
+    expect(toJSONSchema(imported).schema).toEqual(exported);
+  });
+
+  test('adds the schemas to the given definitions', () => {
+    const defs = new IODefinitions();
+    defs.set('@limit', 10);
+    const result = fromJSONSchema({ $defs: { item: { type: 'object', properties: {} } } }, { defs });
+
+    expect(result.definitions).toBe(defs);
+    expect(defs.keys).toEqual(['@limit', '$item']);
+  });
+
+  test('reports unsupported keywords', () => {
+    const { issues } = fromJSONSchema({
+      type: 'object',
+      properties: {
+        a: { type: 'string', format: 'hostname' },
+        b: { type: 'object', patternProperties: { '^x': { type: 'string' } } },
+        c: { type: 'array', items: { type: 'integer' }, uniqueItems: true },
+        d: { not: { type: 'string' } },
+        e: { oneOf: [{ type: 'string' }, { type: 'integer' }] },
+        f: { $ref: 'https://example.com/other.json' },
+        g: { type: 'string', 'x-custom': true },
+        h: { type: 'number', exclusiveMaximum: 1.5 },
+      },
+      required: ['z'],
+    });
+
+    expect(issues.map(issue => `${issue.path} ${issue.keyword}`)).toEqual([
+      '#/properties/a/format format',
+      '#/properties/b/patternProperties patternProperties',
+      '#/properties/c/uniqueItems uniqueItems',
+      '#/properties/d/not not',
+      '#/properties/e oneOf',
+      '#/properties/f $ref',
+      '#/properties/g/x-custom x-custom',
+      '#/properties/h/exclusiveMaximum exclusiveMaximum',
+      '#/required required',
+    ]);
+  });
+
+  test('reports a root schema that is not an object', () => {
+    const { definitions, issues } = fromJSONSchema({ type: 'string' });
+    expect(definitions.defaultSchema).toBeNull();
+    expect(issues).toHaveLength(1);
+  });
+
+  test('throws in strict mode', () => {
+    expect(() => fromJSONSchema({ type: 'object', properties: { a: { not: {} } } }, { strict: true }))
+      .toThrow(IOError);
+
+    try {
+      fromJSONSchema({ type: 'object', properties: { a: { not: {} } } }, { strict: true });
+    } catch (err) {
+      expect((err as IOError).errorCode).toBe(ErrorCodes.unsupportedConstruct);
+    }
+
+    expect(() => fromJSONSchema('[]' as any)).toThrow(/JSON Schema document/);
+  });
+});
@@ -0,0 +1,215 @@
+import { IOError, IOSchema, fromJSONSchema, parseDefinitions, toJSONSchema } from '../../../src';
+import ErrorCodes from '../../../src/errors/io-error-codes';
+
+describe('toJSONSchema()', () => {
+  test('converts members, optional and required', () => {
+    const defs = parseDefinitions('~ $schema: { name: string, age?: int, active: bool }')!;
+    const { schema, issues } = toJSONSchema(defs);
+
+    expect(issues).toEqual([]);
+    expect(schema).toEqual({
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        age: { type: 'integer' },
+        active: { type: 'boolean' },
+      },
+      required: ['name', 'active'],
+      additionalProperties: false,
+    });
+  });
+
+  test('converts durations to the duration format', () => {
+    const defs = parseDefinitions('~ $schema: { sla: {duration, choices: [du"PT4H", du"P1D"]} }')!;
+    const { schema, issues } = toJSONSchema(defs);
+
+    expect(issues).toEqual([]);
+    expect(schema.properties).toEqual({
+      sla: { type: 'string', format: 'duration', enum: ['PT4H', 'P1D'] },
+    });
+  });
+
+  test('converts money to the money format, its currencies to a pattern', () => {
+    const defs = parseDefinitions('~ $schema: { total: {money, currencies: [USD, EUR], min: mo"0.00 USD"} }')!;
+    const { schema, issues } = toJSONSchema(defs);
+
+    expect(schema.properties).toEqual({
+      total: { type: 'string', format: 'money', pattern: '^-?\\d+(?:\\.\\d+)? (?:USD|EUR)$' },
+    });
+    expect(issues.map(issue => issue.keyword)).toEqual(['min']);
+
+    const { definitions, issues: importIssues } = fromJSONSchema(schema);
+    expect(importIssues).toEqual([]);
+    expect(definitions.get('$schema').defs.total).toMatchObject({ type: 'money', currencies: ['USD', 'EUR'] });
+  });
+
+  test('converts binary to strings of its content encoding', () => {
+    const defs = parseDefinitions('~ $schema: { key: {binary, len: 2, default: b"AQI="}, hash: {bytes, encoding: hex} }')!;
+    const { schema, issues } = toJSONSchema(defs);
+
+    expect(schema.properties).toEqual({
+      key: { type: 'string', contentEncoding: 'base64', default: 'AQI=' },
+      hash: { type: 'string', contentEncoding: 'base16' },
+    });
+    expect(issues.map(issue => issue.keyword)).toEqual(['len']);
+
+    const { definitions, issues: importIssues } = fromJSONSchema(schema);
+    expect(importIssues).toEqual([]);
+    expect(definitions.get('$schema').defs.key).toMatchObject({ type: 'binary', default: new Uint8Array([1, 2]) });
+    expect(definitions.get('$schema').defs.hash).toMatchObject({ type: 'binary', encoding: 'hex' });
+  });
+
+  test('converts constraints, choices and defaults', () => {
+    const defs = parseDefinitions(`~ $schema: {
+      code: {string, minLen: 2, maxLen: 8, pattern: '^[A-Z]+$'},
+      pin: {string, len: 4},
+      score: {number, min: 0, max: 100, multipleOf: 0.5},
+      role: {string, choices: [admin, user], default: user},
+      tags: {array, of: string, minLen: 1, maxLen: 5}
+    }`)!;
+    const { properties } = toJSONSchema(defs).schema;
+
+    expect(properties.code).toEqual({ type: 'string', minLength: 2, maxLength: 8, pattern: '^[A-Z]+$' });
+    expect(properties.pin).toEqual({ type: 'string', minLength: 4, maxLength: 4 });
+    expect(properties.score).toEqual({ type: 'number', minimum: 0, maximum: 100, multipleOf: 0.5 });
+    expect(properties.role).toEqual({ type: 'string', enum: ['admin', 'user'], default: 'user' });
+    expect(properties.tags).toEqual({ type: 'array', items: { type: 'string' }, minItems: 1, maxItems: 5 });
+  });
+
+  test('maps formats and sized number types', () => {
+    const defs = parseDefinitions(`~ $schema: {
+      email: email, site: url, at: datetime, on: date, small: uint8, big: bigint, price: decimal
+    }`)!;
+    const { properties } = toJSONSchema(defs).schema;
+
+    expect(properties.email).toEqual({ type: 'string', format: 'email' });
+    expect(properties.site).toEqual({ type: 'string', format: 'uri' });
+    expect(properties.at).toEqual({ type: 'string', format: 'date-time' });
+    expect(properties.on).toEqual({ type: 'string', format: 'date' });
+    expect(properties.small).toEqual({ type: 'integer', format: 'uint8', minimum: 0, maximum: 255 });
+    expect(properties.big).toEqual({ type: 'integer', format: 'bigint' });
+    expect(properties.price).toEqual({ type: 'string', format: 'decimal' });
+  });
+
+  test('converts nullable members', () => {
+    const defs = parseDefinitions(`~ $Addr: { city: string }
+~ $schema: { nick*: string, level*: {int, choices: [1, 2]}, addr*: $Addr, any*: any }`)!;
+    const { properties } = toJSONSchema(defs).schema;
+
+    expect(properties.nick).toEqual({ type: ['string', 'null'] });
+    expect(properties.level).toEqual({ type: ['integer', 'null'], enum: [1, 2, null] });
+    expect(properties.addr).toEqual({ anyOf: [{ $ref: '#/$defs/Addr' }, { type: 'null' }] });
+    expect(properties.any).toEqual({});
+  });
+
+  test('emits referenced schemas under $defs', () => {
+    const defs = parseDefinitions(`~ $Addr: { city: string, next?: $Addr }
+~ $Person: { name: string, home: $Addr, homes: [$Addr] }
+~ $schema: $Person`)!;
+    const { schema } = toJSONSchema(defs);
+
+    expect(schema.properties.home).toEqual({ $ref: '#/$defs/Addr' });
+    expect(schema.properties.homes).toEqual({ type: 'array', items: { $ref: '#/$defs/Addr' } });
+    expect(schema.$defs.Addr.properties.next).toEqual({ $ref: '#/$defs/Addr' });
+    expect(Object.keys(schema.$defs)).toEqual(['Addr', 'Person']);
+  });
+
+  test('inlines nested object schemas', () => {
+    const defs = parseDefinitions('~ $schema: { home: { zip: int }, items: [{ id: int }], meta: object }')!;
+    const { properties } = toJSONSchema(defs).schema;
+
+    expect(properties.home).toEqual({
+      type: 'object', properties: { zip: { type: 'integer' } }, required: ['zip'], additionalProperties: false,
+    });
+    expect(properties.items.items.properties).toEqual({ id: { type: 'integer' } });
+    expect(properties.meta).toEqual({ type: 'object' });
+  });
+
+  test('converts open schemas to additionalProperties', () => {
+    const open = parseDefinitions('~ $schema: { a: int, * }')!;
+    const typed = parseDefinitions('~ $schema: { a: int, *: {string, maxLen: 3} }')!;
+
+    expect(toJSONSchema(open).schema.additionalProperties).toBeUndefined();
+    expect(toJSONSchema(typed).schema.additionalProperties).toEqual({ type: 'string', maxLength: 3 });
+  });
+
+  test('converts a single schema and follows its references', () => {
+    const defs = parseDefinitions(`~ $Addr: { city: string }
+~ $Unused: { x: int }
+~ $Person: { name: string, home: $Addr }`)!;
+    const { schema } = toJSONSchema(defs.get('$Person') as IOSchema, { defs, id: 'https://example.com/person' });
+
+    expect(schema.$id).toBe('https://example.com/person');
+    expect(Object.keys(schema.$defs)).toEqual(['Addr']);
+  });
+
+  test('selects the root schema by name', () => {
+    const defs = parseDefinitions('~ $Addr: { city: string }\n~ $Person: { home: $Addr }')!;
+    const { schema } = toJSONSchema(defs, { root: '$Person' });
+
+    expect(schema.properties.home).toEqual({ $ref: '#/$defs/Addr' });
+    expect(Object.keys(schema.$defs)).toEqual(['Addr']);
+    expect(() => toJSONSchema(defs, { root: '$Nope' })).toThrow(/not defined/);
+  });
+
+  test('references a recursive root schema with #', () => {
+    const defs = parseDefinitions('~ $schema: { name: string, children: [$schema] }')!;
+    expect(toJSONSchema(defs).schema.properties.children).toEqual({ type: 'array', items: { $ref: '#' } });
+  });
+
+  test('converts unions to oneOf, and discriminated unions to anyOf', () => {
+    const defs = parseDefinitions(`
+      ~ $a: { kind, n: int }
+      ~ $b: { kind, s: string }
+      ~ $ab: { any, oneOf: [$a, $b], discriminator: kind }
+      ~ $schema: { item: $ab, extra: { any, oneOf: [int, string] } }
+    `)!;
+    const { schema, issues } = toJSONSchema(defs);
+
+    expect(schema.properties.extra).toEqual({ oneOf: [{ type: 'integer' }, { type: 'string' }] });
+    expect(schema.$defs.ab).toEqual({ anyOf: [{ $ref: '#/$defs/a' }, { $ref: '#/$defs/b' }] });
+    expect(issues.map(issue => `${issue.path} ${issue.keyword}`)).toEqual(['$ab discriminator']);
+  });
+
+  test('reports unsupported constructs', () => {
+    const defs = parseDefinitions(`~ $schema: {
+      name: {string, pattern: '^a', flags: i},
+      price: {decimal, precision: 5, scale: 2},
+      at: {datetime, min: dt'2024-01-01'}
+    }`)!;
+    const { schema, issues } = toJSONSchema(defs);
+
+    expect(schema.properties.name).toEqual({ type: 'string', pattern: '^a' });
+    expect(issues.map(issue => `${issue.path} ${issue.keyword}`)).toEqual([
+      '$schema.name flags',
+      '$schema.price precision',
+      '$schema.price scale',
+      '$schema.at min',
+    ]);
+  });
+
+  test('reports custom types and unknown options', () => {
+    const schema = new IOSchema('$thing',
+      { id: { type: 'uuid', path: 'id' } },
+      { name: { type: 'string', path: 'name', locale: 'en' } },
+    );
+    const { schema: json, issues } = toJSONSchema(schema);
+
+    expect(json.properties.id).toEqual({});
+    expect(issues.map(issue => issue.keyword)).toEqual(['type', 'locale']);
+  });
+
+  test('throws all issues in strict mode', () => {
+    const defs = parseDefinitions(`~ $schema: { a: {string, flags: i}, b: {decimal, min: 1.0m} }`)!;
+
+    try {
+      toJSONSchema(defs, { strict: true });
+      expect.unreachable();
+    } catch (err) {
+      expect(err).toBeInstanceOf(IOError);
+      expect((err as IOError).errorCode).toBe(ErrorCodes.unsupportedConstruct);
+      expect((err as IOError).message).toMatch(/\$schema\.a.*\n.*\$schema\.b/);
+    }
+  });
+});
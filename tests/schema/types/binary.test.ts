@@ -0,0 +1,76 @@
+import { parse, parseDefinitions, loadObject, stringify } from '../../../src'
+
+describe('BinaryDef', () => {
+  test('should parse base64, base64url and hex values into bytes', () => {
+    const doc = parse('a: binary, b: binary, c: bytes\n---\nb"AQID", b"-_8", hex"0A0b0C"', null)
+    const data = doc.sections!.get(0)!.data as any
+
+    expect(data.get('a')).toEqual(new Uint8Array([1, 2, 3]))
+    expect(data.get('a').constructor).toBe(Uint8Array)
+    expect(data.get('b')).toEqual(new Uint8Array([0xfb, 0xff]))
+    expect(data.get('c')).toEqual(new Uint8Array([10, 11, 12]))
+  })
+
+  test('should reject values which are not binary', () => {
+    expect(() => parse('a: binary\n---\n"AQID"', null)).toThrow(/BINARY/)
+    expect(() => parse('a: binary\n---\n123', null)).toThrow(/BINARY/)
+  })
+
+  test('should report malformed base64 and hex values with the tokenizer error', () => {
+    expect(() => parse('a: binary\n---\nb"!!"', null)).toThrow(expect.objectContaining({ errorCode: 'invalid-base64' }))
+    expect(() => parse('a: bytes, b: int\n---\nhex"zz", 1', null)).toThrow(/Invalid hex format 'zz'/)
+  })
+
+  test('should count bytes for len, minLen and maxLen', () => {
+    expect(() => parse('a: { binary, len: 3 }\n---\nhex"010203"', null)).not.toThrow()
+    expect(() => parse('a: { binary, len: 3 }\n---\nhex"0102"', null)).toThrow(/3 bytes long, currently 2/)
+    expect(() => parse('a: { binary, minLen: 2 }\n---\nb"AQ=="', null)).toThrow(/at least 2 bytes/)
+    expect(() => parse('a: { binary, maxLen: 2 }\n---\nb"AQID"', null)).toThrow(/at most 2 bytes/)
+  })
+
+  test('should allow optional and null values, and defaults', () => {
+    expect(parse('a?: binary\n---\n~', null).errors).toHaveLength(0)
+    expect(parse('a*: binary\n---\nN', null).toJSON().a).toBeNull()
+
+    const doc = parse('b: int, a?: { binary, default: hex"ff" }\n---\n1', null)
+    expect((doc.sections!.get(0)!.data as any).get('a')).toEqual(new Uint8Array([255]))
+  })
+
+  test('should load bytes and strings of the encoding, and stringify them in it', () => {
+    const defs = parseDefinitions('~ $file: { data: binary, hash: { bytes, encoding: hex }, token: { binary, encoding: base64url } }')!
+    const obj = loadObject({
+      data: Buffer.from([1, 2, 3]),
+      hash: 'cafe',
+      token: new Uint8Array([0xfb, 0xff]).buffer,
+    }, defs, { schemaName: '$file' })
+
+    expect(obj.get('data').constructor).toBe(Uint8Array)
+    expect(obj.get('hash')).toEqual(new Uint8Array([0xca, 0xfe]))
+    expect(stringify(obj, defs, { schemaName: '$file' })).toBe('b"AQID", hex"cafe", b"-_8"')
+  })
+
+  test('should reject loaded strings outside the encoding', () => {
+    const defs = parseDefinitions('~ $file: { hash: { bytes, encoding: hex } }')!
+
+    expect(() => loadObject({ hash: 'caf' }, defs, { schemaName: '$file' })).toThrow(/hex string/)
+    expect(() => loadObject({ hash: 42 }, defs, { schemaName: '$file' })).toThrow(/Uint8Array/)
+  })
+
+  test('should write binary values to JSON as strings of their encoding', () => {
+    const doc = parse('a: binary, b: { bytes, encoding: hex }, c?: { binary, default: b"-_8", encoding: base64url }\n---\nb"AQID", hex"ff00"', null)
+    expect(JSON.stringify(doc)).toBe('{"a":"AQID","b":"ff00","c":"-_8"}')
+    expect(doc.toJSON()).toEqual({ a: 'AQID', b: 'ff00', c: '-_8' })
+
+    const defs = parseDefinitions('~ $file: { data: binary, hash: { bytes, encoding: hex } }')!
+    const bytes = new Uint8Array([1, 2, 3])
+    const obj = loadObject({ data: bytes, hash: 'cafe' }, defs, { schemaName: '$file' })
+    expect(obj.toJSON()).toEqual({ data: 'AQID', hash: 'cafe' })
+    expect(loadObject(obj.toJSON(), defs, { schemaName: '$file' }).get('data')).toEqual(bytes)
+    expect(JSON.stringify(bytes)).toBe('{"0":1,"1":2,"2":3}')
+  })
+
+  test('should round-trip binary values through stringify', () => {
+    const doc = parse('a: binary, b: { binary, encoding: hex }\n---\nb"AQID", hex"ff00"', null)
+    expect(stringify(doc)).toContain('b"AQID", hex"ff00"')
+  })
+})
@@ -0,0 +1,157 @@
+import {
+  IODefinitions, IOSchema, TypedefRegistry, doCommonTypeCheck,
+  parse, parseDefinitions, loadObject, stringify, validateObject, createStreamReader,
+} from '../../../src'
+import type { TypeDef, MemberDef } from '../../../src'
+import ValidationError from '../../../src/errors/io-validation-error'
+import TokenNode from '../../../src/parser/nodes/tokens'
+import TokenType from '../../../src/parser/tokenizer/token-types'
+
+const uuidExp = /^[0-9a-f]{8}-[0-9a-f]{4}-([1-8])[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i
+
+const uuidSchema = new IOSchema(
+  'uuid',
+  { type:     { type: 'string', optional: false, null: false, choices: ['uuid'] } },
+  { version:  { type: 'number', optional: true,  null: false, min: 1, max: 8 } },
+  { default:  { type: 'string', optional: true,  null: false } },
+  { choices:  { type: 'array',  optional: true,  null: false, of: { type: 'string' } } },
+  { optional: { type: 'bool',   optional: true } },
+  { null:     { type: 'bool',   optional: true } },
+)
+
+class UuidDef implements TypeDef {
+  static get types() { return ['uuid'] }
+
+  constructor(private _type: string) {}
+
+  get type() { return this._type }
+  get schema() { return uuidSchema }
+
+  parse(node: any, memberDef: MemberDef, defs?: IODefinitions): string {
+    const valueNode = defs?.getV(node) || node
+    const { value, changed } = doCommonTypeCheck(memberDef, valueNode, node, defs)
+    if (changed) return value
+    if (!(valueNode instanceof TokenNode) || valueNode.type !== TokenType.STRING) {
+      throw new ValidationError('invalid-uuid', `Expecting a uuid for '${memberDef.path}'.`, node)
+    }
+    return this.validate(value, memberDef, node)
+  }
+
+  load(value: any, memberDef: MemberDef, defs?: IODefinitions): string {
+    const { value: checked, changed } = doCommonTypeCheck(memberDef, value, undefined, defs)
+    if (changed) return checked
+    return this.validate(value, memberDef)
+  }
+
+  stringify(value: any, memberDef: MemberDef, defs?: IODefinitions): string | undefined {
+    const checked = this.load(value, memberDef, defs)
+    if (checked === null) return 'N'
+    if (checked === undefined) return undefined
+    return checked.toLowerCase()
+  }
+
+  private validate(value: any, memberDef: MemberDef, node?: any): string {
+    const match = typeof value === 'string' ? uuidExp.exec(value) : null
+    if (!match) {
+      throw new ValidationError('invalid-uuid', `Invalid uuid for '${memberDef.path}': ${value}`, node)
+    }
+    if (memberDef.version !== undefined && Number(match[1]) !== memberDef.version) {
+      throw new ValidationError('invalid-uuid', `Expecting a v${memberDef.version} uuid for '${memberDef.path}'.`, node)
+    }
+    return value
+  }
+}
+
+const ID = 'f47ac10b-58cc-4372-a567-0e02b2c3d479'
+
+describe('Custom types', () => {
+  describe('Scoped registration', () => {
+    const newDefs = () => new IODefinitions().registerType(UuidDef)
+
+    test('registers types on the definitions without touching the global registry', () => {
+      const defs = newDefs()
+      expect(defs.typeDefs?.has('uuid')).toBe(true)
+      expect(TypedefRegistry.isRegisteredType('uuid')).toBe(false)
+      expect(TypedefRegistry.isRegisteredType('uuid', defs)).toBe(true)
+      expect(TypedefRegistry.get('uuid', defs)).toBeInstanceOf(UuidDef)
+    })
+
+    test('compiles and parses schemas using the custom type', () => {
+      const defs = parseDefinitions('~ $schema: { id: uuid, name: string }', newDefs())!
+      const doc = parse(`${ID}, Alice`, defs)
+      expect(doc.toJSON()).toEqual({ id: ID, name: 'Alice' })
+      expect(() => parse('not-a-uuid, Alice', defs)).toThrow(/Invalid uuid/)
+    })
+
+    test('runs the README example', () => {
+      const defs = new IODefinitions().registerType(UuidDef)
+      const schemaDefs = parseDefinitions('~ $schema: { id: uuid, name: string }', defs)
+      const doc = parse('f47ac10b-58cc-4372-a567-0e02b2c3d479, Alice', schemaDefs)
+
+      expect(doc.toJSON()).toEqual({ id: ID, name: 'Alice' })
+      expect(() => parse('not-a-uuid, Alice', schemaDefs)).toThrow(/Invalid uuid/)
+    })
+
+    test('compiles schemas declared in the document header', () => {
+      const doc = parse(`id: uuid, name: string\n---\n${ID}, Bob`, newDefs())
+      expect(doc.toJSON()).toEqual({ id: ID, name: 'Bob' })
+    })
+
+    test('validates the type options against its schema', () => {
+      const defs = parseDefinitions('~ $schema: { id: {uuid, version: 4} }', newDefs())!
+      expect(parse(ID, defs).toJSON()).toEqual({ id: ID })
+      expect(() => parse('f47ac10b-58cc-1372-a567-0e02b2c3d479', defs)).toThrow(/v4 uuid/)
+      expect(() => parseDefinitions('~ $schema: { id: {uuid, version: 12} }', newDefs())).toThrow()
+    })
+
+    test('supports optional, null, arrays and additional properties', () => {
+      const defs = parseDefinitions('~ $schema: { id: uuid, ref?*: uuid, tags: [uuid], *: uuid }', newDefs())!
+      const doc = parse(`${ID}, N, [${ID}], other: ${ID}`, defs)
+      expect(doc.toJSON()).toEqual({ id: ID, ref: null, tags: [ID], other: ID })
+    })
+
+    test('loads, validates and stringifies plain objects', () => {
+      const defs = parseDefinitions('~ $schema: { id: uuid, name: string }', newDefs())!
+      const obj = loadObject({ id: ID.toUpperCase(), name: 'Alice' }, defs)
+      expect(stringify(obj, defs)).toBe(`${ID}, Alice`)
+      expect(validateObject({ id: ID, name: 'Alice' }, defs).valid).toBe(true)
+      expect(validateObject({ id: 'x', name: 'Alice' }, defs).valid).toBe(false)
+    })
+
+    test('is available to the stream reader', async () => {
+      const defs = parseDefinitions('~ $User: { id: uuid, name: string }', newDefs())!
+      const reader = createStreamReader(`--- $User\n~ ${ID}, Alice\n~ bad, Bob\n`, defs)
+      const items = await reader.collect()
+      expect(items[0].data.toJSON()).toEqual({ id: ID, name: 'Alice' })
+      expect(items[1].error?.message).toMatch(/Invalid uuid/)
+    })
+
+    test('keeps types of different definitions isolated', () => {
+      expect(() => parseDefinitions('~ $schema: { id: uuid }')).toThrow(/not supported|not a valid type/)
+      expect(() => parseDefinitions('~ $schema: { id: uuid }', new IODefinitions())).toThrow()
+    })
+
+    test('carries the scoped types over when merging definitions', () => {
+      const target = new IODefinitions()
+      target.merge(newDefs())
+      expect(TypedefRegistry.isRegisteredType('uuid', target)).toBe(true)
+    })
+
+    test('rejects constructors without valid type names', () => {
+      class Nameless extends UuidDef { static get types() { return [] } }
+      class Dollar extends UuidDef { static get types() { return ['$uuid'] } }
+      expect(() => new IODefinitions().registerType(Nameless)).toThrow(/at least one type name/)
+      expect(() => new IODefinitions().registerType(Dollar)).toThrow(/not valid/)
+    })
+  })
+
+  describe('Global registration', () => {
+    afterEach(() => TypedefRegistry.unregister('uuid'))
+
+    test('registers types for every document in the process', () => {
+      TypedefRegistry.register(UuidDef)
+      const doc = parse(`id: uuid\n---\n${ID}`)
+      expect(doc.toJSON()).toEqual({ id: ID })
+    })
+  })
+})
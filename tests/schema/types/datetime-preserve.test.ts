@@ -0,0 +1,62 @@
+import { parse, parseDefinitions, loadObject, stringify } from '../../../src'
+import { IODate, IODateTime, IOTime } from '../../../src/core/temporal'
+
+describe('DateTimeDef - preserved values', () => {
+  const schema = '~ $slot: { start: { datetime, preserve: true }, day: { date, preserve: true }, at: { time, preserve: true } }'
+
+  test('should parse the values into temporal values', () => {
+    const doc = parse(`${schema}\n--- $slot\n~ dt"2024-03-10T09:30:00.123456789+05:30", d"2024-03-10", t"09:30:00.000001"`, null)
+    const slot = (doc.sections!.get(0)!.data as any).getAt(0)
+
+    expect(slot.get('start')).toBeInstanceOf(IODateTime)
+    expect(slot.get('start').offset).toBe('+05:30')
+    expect(slot.get('day')).toBeInstanceOf(IODate)
+    expect(slot.get('at')).toBeInstanceOf(IOTime)
+    expect(slot.get('at').nanosecond).toBe(1000)
+  })
+
+  test('should stringify the values as they were written', () => {
+    const rows = [
+      '~ dt"2024-03-10T09:30:00.123456789+05:30", d"2024-03-10", t"09:30:00.000001"',
+      '~ dt"20240310T093000", d"20240310", t"0930"',
+    ]
+    const doc = parse(`${schema}\n--- $slot\n${rows.join('\n')}`, null)
+    const text = stringify(doc)
+
+    expect(text.split('\n').slice(-2)).toEqual(rows)
+  })
+
+  test('should check min and max with the sub-millisecond digits', () => {
+    const bounded = 'start: { datetime, preserve: true, min: dt"2024-01-01T00:00:00Z" }'
+
+    expect(parse(`${bounded}\n---\ndt"2024-01-01T05:30:00+05:30"`, null).errors).toHaveLength(0)
+    expect(() => parse(`${bounded}\n---\ndt"2024-01-01T05:29:59.999999+05:30"`, null)).toThrow(/range/i)
+  })
+
+  test('should check choices by instant', () => {
+    const choices = 'start: { datetime, preserve: true, choices: [dt"2024-01-01T00:00:00Z"] }'
+
+    expect(parse(`${choices}\n---\ndt"2024-01-01T05:30:00+05:30"`, null).errors).toHaveLength(0)
+    expect(() => parse(`${choices}\n---\ndt"2024-01-01T00:00:01Z"`, null)).toThrow(/must be/i)
+  })
+
+  test('should load temporal values and Date objects', () => {
+    const defs = parseDefinitions(schema)!
+    const obj = loadObject({
+      start: IODateTime.parse('2024-03-10T09:30:00+05:30'),
+      day: new Date('2024-03-10T00:00:00Z'),
+      at: IOTime.parse('09:30'),
+    }, defs, { schemaName: '$slot' })
+
+    expect(obj.get('day')).toBeInstanceOf(IODate)
+    expect(stringify(obj, defs, { schemaName: '$slot' })).toBe('dt"2024-03-10T09:30:00+05:30", d"2024-03-10", t"09:30"')
+  })
+
+  test('should keep returning Date objects without preserve', () => {
+    const doc = parse('start: datetime\n---\ndt"2024-03-10T09:30:45.123456+05:30"', null)
+    const start = (doc.sections!.get(0)!.data as any).get('start')
+
+    expect(start).toBeInstanceOf(Date)
+    expect(start.toISOString()).toBe('2024-03-10T04:00:45.123Z')
+  })
+})
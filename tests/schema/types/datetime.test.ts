@@ -132,6 +132,13 @@ describe('DateTimeDef - DateTime, Date, and Time Types', () => {
       const schema = 'dt: datetime'
       expect(() => parse(`${schema}\n---\nN`, null)).toThrow(/null/i)
     })
+
+    test('should fill a missing member with its default as a Date', () => {
+      const doc = parse(`n: int, dt?: {datetime, default: dt'2024-01-01'}\n---\n1`, null)
+      const value = (doc.sections!.get(0)!.data as any).get('dt')
+      expect(value).toBeInstanceOf(Date)
+      expect(value.toISOString()).toBe('2024-01-01T00:00:00.000Z')
+    })
   })
 
   describe('Multiple datetime fields', () => {
@@ -0,0 +1,48 @@
+import { parse, parseDefinitions, loadObject, stringify } from '../../../src'
+import { IODuration } from '../../../src/core/duration'
+
+describe('DurationDef', () => {
+  test('should parse durations', () => {
+    const doc = parse('sla: duration\n---\ndu"P1DT2H"', null)
+    const sla = (doc.sections!.get(0)!.data as any).get('sla')
+
+    expect(sla).toBeInstanceOf(IODuration)
+    expect(sla.toMilliseconds()).toBe(93_600_000)
+  })
+
+  test('should reject values which are not durations', () => {
+    expect(() => parse('sla: duration\n---\n"P1D"', null)).toThrow(/DURATION/)
+    expect(() => parse('sla: duration\n---\n3600', null)).toThrow(/DURATION/)
+  })
+
+  test('should respect min and max constraints', () => {
+    const schema = 'sla: { duration, min: du"PT1H", max: du"P30D" }'
+
+    expect(() => parse(`${schema}\n---\ndu"PT60M"`, null)).not.toThrow()
+    expect(() => parse(`${schema}\n---\ndu"P1M"`, null)).not.toThrow()
+    expect(() => parse(`${schema}\n---\ndu"PT59M59S"`, null)).toThrow(/range/i)
+    expect(() => parse(`${schema}\n---\ndu"P30DT1S"`, null)).toThrow(/range/i)
+  })
+
+  test('should respect choices', () => {
+    const schema = 'retention: { duration, choices: [du"P30D", du"P1Y"] }'
+
+    expect(() => parse(`${schema}\n---\ndu"P1Y"`, null)).not.toThrow()
+    expect(() => parse(`${schema}\n---\ndu"P2Y"`, null)).toThrow(/must be one of/i)
+  })
+
+  test('should allow optional and null durations', () => {
+    expect(parse('sla?: duration\n---\n~', null).errors).toHaveLength(0)
+    expect(parse('sla*: duration\n---\nN', null).toJSON().sla).toBeNull()
+  })
+
+  test('should load durations and ISO 8601 strings, and stringify them', () => {
+    const defs = parseDefinitions('~ $policy: { sla: duration, retention: { duration, max: du"P1Y" } }')!
+    const obj = loadObject({ sla: 'PT4H', retention: IODuration.parse('P30D') }, defs, { schemaName: '$policy' })
+
+    expect(obj.get('sla')).toBeInstanceOf(IODuration)
+    expect(stringify(obj, defs, { schemaName: '$policy' })).toBe('du"PT4H", du"P30D"')
+    expect(() => loadObject({ sla: 'PT4H', retention: 'P2Y' }, defs, { schemaName: '$policy' })).toThrow(/range/i)
+    expect(() => loadObject({ sla: '4 hours', retention: 'P1D' }, defs, { schemaName: '$policy' })).toThrow(/ISO 8601/)
+  })
+})
@@ -0,0 +1,54 @@
+import { parse, parseDefinitions, loadObject, stringify } from '../../../src'
+import { IOMoney } from '../../../src/core/money'
+
+describe('MoneyDef', () => {
+  test('should parse money, padded to the scale of its currency', () => {
+    const doc = parse('total: money\n---\nmo"12.5 USD"', null)
+    const total = (doc.sections!.get(0)!.data as any).get('total')
+
+    expect(total).toBeInstanceOf(IOMoney)
+    expect(String(total)).toBe('12.50 USD')
+  })
+
+  test('should reject values which are not money', () => {
+    expect(() => parse('total: money\n---\n"12.50 USD"', null)).toThrow(/MONEY/)
+    expect(() => parse('total: money\n---\n12.50m', null)).toThrow(/MONEY/)
+  })
+
+  test('should enforce the scale of the currency, or the scale option', () => {
+    expect(() => parse('total: money\n---\nmo"1200 JPY"', null)).not.toThrow()
+    expect(() => parse('total: money\n---\nmo"1200.5 JPY"', null)).toThrow(/scale 1, expected 0/)
+    expect(() => parse('total: money\n---\nmo"1.2345 BHD"', null)).toThrow(/scale 4, expected 3/)
+    expect(() => parse('total: { money, scale: 4 }\n---\nmo"1.2345 USD"', null)).not.toThrow()
+    expect(() => parse('total: { money, precision: 5 }\n---\nmo"1234.56 USD"', null)).toThrow(/precision/)
+  })
+
+  test('should respect currencies, min and max', () => {
+    const schema = 'total: { money, currencies: [USD, EUR], min: mo"0.00 USD", max: mo"1000 USD" }'
+
+    expect(() => parse(`${schema}\n---\nmo"0 USD"`, null)).not.toThrow()
+    expect(() => parse(`${schema}\n---\nmo"-0.01 USD"`, null)).toThrow(/greater than or equal/)
+    expect(() => parse(`${schema}\n---\nmo"1000.01 USD"`, null)).toThrow(/less than or equal/)
+    expect(() => parse(`${schema}\n---\nmo"5.00 GBP"`, null)).toThrow(/one of USD, EUR/)
+    expect(() => parse(`${schema}\n---\nmo"5.00 EUR"`, null)).toThrow(/in USD, the currency of its min/)
+  })
+
+  test('should respect choices, and allow optional and null money', () => {
+    const schema = 'fee: { money, choices: [mo"0.99 USD", mo"1.99 USD"] }'
+
+    expect(() => parse(`${schema}\n---\nmo"1.99 USD"`, null)).not.toThrow()
+    expect(() => parse(`${schema}\n---\nmo"2.99 USD"`, null)).toThrow(/must be one of/i)
+    expect(parse('fee?: money\n---\n~', null).errors).toHaveLength(0)
+    expect(parse('fee*: money\n---\nN', null).toJSON().fee).toBeNull()
+  })
+
+  test('should load money, strings and amounts with currencies, and stringify them', () => {
+    const defs = parseDefinitions('~ $invoice: { total: money, tax: { money, currencies: [USD] } }')!
+    const obj = loadObject({ total: '12.50 USD', tax: { amount: '1.5', currency: 'USD' } }, defs, { schemaName: '$invoice' })
+
+    expect(obj.get('tax')).toBeInstanceOf(IOMoney)
+    expect(stringify(obj, defs, { schemaName: '$invoice' })).toBe('mo"12.50 USD", mo"1.50 USD"')
+    expect(() => loadObject({ total: IOMoney.of(1, 'EUR'), tax: '1.00 EUR' }, defs, { schemaName: '$invoice' })).toThrow(/one of USD/)
+    expect(() => loadObject({ total: 12.5, tax: '1.00 USD' }, defs, { schemaName: '$invoice' })).toThrow(/IOMoney/)
+  })
+})
@@ -0,0 +1,169 @@
+import { IODefinitions, generateTypes, parseDefinitions } from '../../../src';
+
+const body = (ts: string) => ts.replace(/^\/\/ Generated.*\n\n/, '');
+
+describe('generateTypes()', () => {
+  test('generates an interface for every schema', () => {
+    const ts = generateTypes(`~ $address: { street: string, city?: string }
+~ $order_item: { sku: string, qty: int }`);
+
+    expect(ts).toBe(`// Generated from Internet Object definitions. Do not edit by hand.
+
+export interface Address {
+  street: string;
+  city?: string;
+}
+
+export interface OrderItem {
+  sku: string;
+  qty: number;
+}
+`);
+  });
+
+  test('maps the built-in types', () => {
+    const ts = generateTypes(`~ $T: {
+      s: string, e: email, u: url, i: int, n: number, u8: uint8, b: bigint,
+      d: decimal, dt: datetime, da: date, t: time, f: bool, a: any, o: object
+    }`, { banner: false, decimalImport: null });
+
+    expect(ts).toBe(`export interface T {
+  s: string;
+  e: string;
+  u: string;
+  i: number;
+  n: number;
+  u8: number;
+  b: bigint;
+  d: Decimal;
+  dt: Date;
+  da: Date;
+  t: Date;
+  f: boolean;
+  a: unknown;
+  o: Record<string, unknown>;
+}
+`);
+  });
+
+  test('maps choices to literal unions', () => {
+    const ts = generateTypes(`~ @admin: admin
+~ $T: { role: {string, choices: [@admin, 'user']}, level: {int, choices: [1, 2, 3]}, tags: [{string, choices: [a, b]}] }`, { banner: false });
+
+    expect(body(ts)).toContain(`role: 'admin' | 'user';`);
+    expect(ts).toContain('level: 1 | 2 | 3;');
+    expect(ts).toContain(`tags: ('a' | 'b')[];`);
+  });
+
+  test('maps optional and nullable members', () => {
+    const ts = generateTypes('~ $T: { a?: string, b*: int, c?*: $T, d*: any }', { banner: false });
+
+    expect(ts).toContain('a?: string;');
+    expect(ts).toContain('b: number | null;');
+    expect(ts).toContain('c?: T | null;');
+    expect(ts).toContain('d: unknown;');
+  });
+
+  test('maps arrays, nested objects and references', () => {
+    const ts = generateTypes(`~ $addr: { city: string }
+~ $T: { tags: [string], homes: [$addr], home: $addr, geo: { lat: number, lng: number }, rows: [{ id: int }], any: [] }`, { banner: false });
+
+    expect(ts).toContain('tags: string[];');
+    expect(ts).toContain('homes: Addr[];');
+    expect(ts).toContain('home: Addr;');
+    expect(ts).toContain('  geo: {\n    lat: number;\n    lng: number;\n  };');
+    expect(ts).toContain('  rows: {\n    id: number;\n  }[];');
+    expect(ts).toContain('any: unknown[];');
+  });
+
+  test('maps anyOf to unions', () => {
+    const ts = generateTypes('~ $T: { id: {any, anyOf: [string, int]}, ids: [{any, anyOf: [string, int]}] }', { banner: false });
+
+    expect(ts).toContain('id: string | number;');
+    expect(ts).toContain('ids: (string | number)[];');
+  });
+
+  test('maps additional properties to index signatures', () => {
+    const ts = generateTypes(`~ $Open: { a: string, * }
+~ $Typed: { a: string, b?: {string, choices: [x, y]}, *: int }
+~ $Map: { *: string }`, { banner: false });
+
+    expect(ts).toContain('export interface Open {\n  a: string;\n  [key: string]: unknown;\n}');
+    // The index signature includes the member types to stay valid TypeScript
+    expect(ts).toContain('  [key: string]: number | string | undefined;');
+    expect(ts).toContain('export interface Map {\n  [key: string]: string;\n}');
+  });
+
+  test('generates an alias for schema references and names $schema', () => {
+    expect(generateTypes('~ $person: { name: string }\n~ $schema: $person', { banner: false }))
+      .toContain('export type Schema = Person;');
+    expect(generateTypes('~ $schema: { name: string }', { banner: false, schemaName: 'Root' }))
+      .toBe('export interface Root {\n  name: string;\n}\n');
+  });
+
+  test('generates union types for oneOf', () => {
+    const types = generateTypes(`
+      ~ $click: { kind: { string, choices: [click] }, x: int }
+      ~ $view: { kind: { string, choices: [view] }, page: string }
+      ~ $event: { any, oneOf: [$click, $view], discriminator: kind }
+      ~ $log: { event: $event, extra?: { any, oneOf: [int, string] } }
+    `, { banner: false });
+
+    expect(types).toContain('export type Event = Click | View;');
+    expect(types).toContain('  extra?: number | string;');
+  });
+
+  test('imports Decimal only when used', () => {
+    expect(generateTypes('~ $T: { a: decimal }')).toContain(`import type { Decimal } from 'internet-object';`);
+    expect(generateTypes('~ $T: { a: decimal }', { decimalImport: './decimal' })).toContain(`from './decimal';`);
+    expect(generateTypes('~ $T: { a: int }')).not.toContain('import');
+  });
+
+  test('maps preserved dates and times to their value classes, and imports them', () => {
+    const ts = generateTypes('~ $T: { at: {datetime, preserve: true}, on: {date, preserve: true}, t: {time, preserve: true}, d: date }');
+
+    expect(ts).toContain(`import type { IODate, IODateTime, IOTime } from 'internet-object';`);
+    expect(body(ts)).toContain('  at: IODateTime;\n  on: IODate;\n  t: IOTime;\n  d: Date;\n');
+  });
+
+  test('maps durations to IODuration, and imports it', () => {
+    const ts = generateTypes('~ $T: { sla: duration, grace*: duration }');
+
+    expect(ts).toContain(`import type { IODuration } from 'internet-object';`);
+    expect(body(ts)).toContain('  sla: IODuration;\n  grace: IODuration | null;\n');
+  });
+
+  test('maps money to IOMoney, imported along with Decimal', () => {
+    const ts = generateTypes('~ $T: { total: money, rate: decimal }');
+
+    expect(ts).toContain(`import type { Decimal, IOMoney } from 'internet-object';`);
+    expect(body(ts)).toContain('  total: IOMoney;\n  rate: Decimal;\n');
+  });
+
+  test('maps binary values to Uint8Array', () => {
+    const ts = generateTypes('~ $T: { key: binary, hash?: {bytes, encoding: hex} }', { banner: false });
+    expect(ts).toBe('export interface T {\n  key: Uint8Array;\n  hash?: Uint8Array;\n}\n');
+  });
+
+  test('maps custom types with the type map', () => {
+    const defs = new IODefinitions();
+    defs.push('$T', parseDefinitions('~ $T: { id: string, tags: [string] }')!.get('$T'), true);
+    defs.get('$T').defs.id.type = 'uuid';
+
+    expect(generateTypes(defs, { banner: false })).toContain('id: unknown;');
+    expect(generateTypes(defs, { banner: false, typeMap: { uuid: 'string' } })).toContain('id: string;');
+  });
+
+  test('quotes member names that are not identifiers', () => {
+    const defs = parseDefinitions('~ $T: { a: string }')!;
+    const schema = defs.get('$T');
+    schema.names.push('first-name');
+    schema.defs['first-name'] = { type: 'string', path: 'first-name' };
+
+    expect(generateTypes(defs, { banner: false })).toContain(`'first-name': string;`);
+  });
+
+  test('throws when the text has no definitions', () => {
+    expect(() => generateTypes('')).toThrow(/does not contain any definitions/);
+  });
+});
@@ -0,0 +1,91 @@
+import { Decimal, IODate, IODateTime, IODuration, IOMoney, IOSchema, IOTime, InferMemberType, InferType, loadObject, parse, parseDefinitions } from '../../../src';
+
+const addressSchema = IOSchema.create('$Address')
+  .addMember('city', { type: 'string' })
+  .addMember('zip', { type: 'string', null: true })
+  .build();
+
+const userSchema = IOSchema.create('$User')
+  .addMember('name', { type: 'string', maxLen: 20 })
+  .addMember('age', { type: 'uint8', optional: true })
+  .addMember('role', { type: 'string', choices: ['admin', 'user'] })
+  .addMember('balance', { type: 'decimal' })
+  .addMember('joined', { type: 'date' })
+  .addMember('address', { type: 'object', schema: addressSchema })
+  .addMember('tags', { type: 'array', of: { type: 'string' } })
+  .build();
+
+describe('typed schema builder', () => {
+  test('infers the object type of the built schema', () => {
+    type User = InferType<typeof userSchema>;
+
+    expectTypeOf<User>().toEqualTypeOf<{
+      name: string;
+      age?: number;
+      role: 'admin' | 'user';
+      balance: Decimal;
+      joined: Date;
+      address: { city: string; zip: string | null };
+      tags: string[];
+    }>();
+  });
+
+  test('infers member types', () => {
+    expectTypeOf<InferMemberType<{ type: 'bigint', null: true }>>().toEqualTypeOf<bigint | null>();
+    expectTypeOf<InferMemberType<{ type: 'int', choices: readonly [1, 2] }>>().toEqualTypeOf<1 | 2>();
+    expectTypeOf<InferMemberType<{ type: 'array', of: IOSchema<{ id: number }> }>>().toEqualTypeOf<{ id: number }[]>();
+    expectTypeOf<InferMemberType<{ type: 'object' }>>().toEqualTypeOf<Record<string, unknown>>();
+    expectTypeOf<InferMemberType<{ type: 'any' }>>().toEqualTypeOf<unknown>();
+    expectTypeOf<InferMemberType<{ type: 'duration' }>>().toEqualTypeOf<IODuration>();
+    expectTypeOf<InferMemberType<{ type: 'money', optional: true }>>().toEqualTypeOf<IOMoney>();
+    expectTypeOf<InferMemberType<{ type: 'bytes', null: true }>>().toEqualTypeOf<Uint8Array | null>();
+    expectTypeOf<InferMemberType<{ type: 'uuid' }>>().toEqualTypeOf<unknown>();
+  });
+
+  test('infers the value classes of preserved dates and times', () => {
+    expectTypeOf<InferMemberType<{ type: 'datetime', preserve: true }>>().toEqualTypeOf<IODateTime>();
+    expectTypeOf<InferMemberType<{ type: 'date', preserve: true, null: true }>>().toEqualTypeOf<IODate | null>();
+    expectTypeOf<InferMemberType<{ type: 'time', preserve: true }>>().toEqualTypeOf<IOTime>();
+    expectTypeOf<InferMemberType<{ type: 'time', preserve: false }>>().toEqualTypeOf<Date>();
+  });
+
+  test('adds an index signature to open schemas', () => {
+    const schema = IOSchema.create('$Open').addMember('a', { type: 'int' }).setOpen(true).build();
+    expectTypeOf<InferType<typeof schema>>().toEqualTypeOf<{ a: number } & { [key: string]: unknown }>();
+
+    const closed = IOSchema.create('$Closed').addMember('a', { type: 'int' }).setOpen(false).build();
+    expectTypeOf<InferType<typeof closed>>().toEqualTypeOf<{ a: number }>();
+  });
+
+  test('keeps compiled schemas untyped', () => {
+    const defs = parseDefinitions('~ $schema: { name: string }')!;
+    expectTypeOf(defs.defaultSchema!).toEqualTypeOf<IOSchema>();
+    expectTypeOf<InferType<IOSchema>>().toBeAny();
+  });
+
+  test('builds schemas that validate like compiled ones', () => {
+    const obj = loadObject({
+      name: 'Alice',
+      role: 'admin',
+      balance: new Decimal('10.50'),
+      joined: new Date('2024-01-01'),
+      address: { city: 'Paris', zip: null },
+      tags: ['a'],
+    }, userSchema);
+
+    const user = obj.toObject();
+    expectTypeOf(user.address.zip).toEqualTypeOf<string | null>();
+    expect(user.name).toBe('Alice');
+    expect(user.address).toEqual({ city: 'Paris', zip: null });
+
+    expect(() => loadObject({ name: 'Bob', role: 'guest' }, userSchema)).toThrow();
+  });
+
+  test('types the documents parsed with a typed schema', () => {
+    const schema = IOSchema.create('$Point').addMember('x', { type: 'int' }).addMember('y', { type: 'int' }).build();
+    const doc = parse('1, 2', schema);
+
+    expectTypeOf(doc.toObject()).toEqualTypeOf<{ x: number; y: number } | { x: number; y: number }[]>();
+    expect(doc.toObject()).toEqual({ x: 1, y: 2 });
+  });
+});
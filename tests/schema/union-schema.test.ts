@@ -0,0 +1,103 @@
+import { IOUnionSchema, loadCollection, parse, parseDefinitions, stringify } from '../../src';
+import { stringifyDocument } from '../../src/facade/stringify-document';
+
+const defs = `
+~ $click: { kind, x: int, y: int }
+~ $view: { kind, page: string }
+~ $purchase: { kind: { string, choices: [purchase, buy] }, sku: string, amount: number }
+~ $event: { any, oneOf: [$click, $view, $purchase], discriminator: kind }
+`;
+
+describe('IOUnionSchema', () => {
+  test('compiles unions defined with oneOf', () => {
+    const union = parseDefinitions(defs)!.getV('$event');
+
+    expect(union).toBeInstanceOf(IOUnionSchema);
+    expect(union.discriminator).toBe('kind');
+    expect(union.oneOf.map((def: any) => def.schema.value)).toEqual(['$click', '$view', '$purchase']);
+  });
+
+  test('processes each row of a collection with the schema its tag selects', () => {
+    const doc = parse(`${defs}--- events: $event
+~ click, 10, 20
+~ view, home
+~ buy, A-1, 9.5
+~ kind: purchase, sku: B-2, amount: 1
+`);
+
+    expect(doc.toJSON()).toEqual([
+      { kind: 'click', x: 10, y: 20 },
+      { kind: 'view', page: 'home' },
+      { kind: 'buy', sku: 'A-1', amount: 9.5 },
+      { kind: 'purchase', sku: 'B-2', amount: 1 },
+    ]);
+    expect(doc.errors).toEqual([]);
+  });
+
+  test('reports the rows whose tag selects no schema, naming the tag', () => {
+    const doc = parse(`${defs}--- events: $event
+~ click, 10, 20
+~ checkout, 1
+~ view, 404
+~ x: 1
+`);
+
+    const messages = doc.errors.map(error => error.message);
+    expect(messages[0]).toMatch(/The kind 'checkout' does not select any schema of '\$event'; expecting one of click, view, purchase, buy\./);
+    expect((doc.errors[0] as any).errorCode).toBe('invalid-discriminator');
+    expect(messages[1]).toMatch(/Expecting a string value for 'page' but found 404/);
+    expect((doc.errors[2] as any).errorCode).toBe('missing-discriminator');
+    expect(doc.errors.map((error: any) => error.collectionIndex)).toEqual([1, 2, 3]);
+  });
+
+  test('selects the branches of members', () => {
+    const doc = parse(`${defs}~ $log: { at: int, event: $event, extra?: { any, oneOf: [int, { string, minLen: 2 }] } }
+--- $log
+~ 1, { click, 1, 2 }, 5
+~ 2, { kind: view, page: home }, ok
+~ 3, { view, home }, T
+`);
+
+    expect(doc.toJSON().slice(0, 2)).toEqual([
+      { at: 1, event: { kind: 'click', x: 1, y: 2 }, extra: 5 },
+      { at: 2, event: { kind: 'view', page: 'home' }, extra: 'ok' },
+    ]);
+    expect(doc.errors[0].message).toMatch(/None of the oneOf definitions of 'extra' matched/);
+  });
+
+  test('requires unions without a discriminator to match exactly one branch', () => {
+    const doc = parse(`~ $s: { v: { any, oneOf: [number, int] } }\n--- $s\n~ 1`);
+    expect((doc.errors[0] as any).errorCode).toBe('ambiguous-value');
+  });
+
+  test('requires the branches of discriminated unions to be schemas', () => {
+    expect(() => parseDefinitions('~ $e: { any, oneOf: [$a, string], discriminator: kind }\n~ $a: { kind }'))
+      .toThrow(/The branches of the discriminated union \$e must be schemas/);
+  });
+
+  test('loads JavaScript values with the schema their tag selects', () => {
+    const definitions = parseDefinitions(defs)!;
+    const errors: Error[] = [];
+    const events = loadCollection(
+      [{ kind: 'click', x: 1, y: 2 }, { kind: 'view', page: 'home' }, { kind: 'zoom' }],
+      definitions.getV('$event'), definitions, { errorCollector: errors }
+    );
+
+    expect(events.toJSON().slice(0, 2)).toEqual([{ kind: 'click', x: 1, y: 2 }, { kind: 'view', page: 'home' }]);
+    expect(errors[0].message).toMatch(/The kind 'zoom' does not select any schema/);
+  });
+
+  test('stringifies each row with its branch, and the union definition', () => {
+    const text = `~ $click: {kind, x: int, y: int}
+~ $view: {kind, page: string}
+~ $event: {any, oneOf: [$click, $view], discriminator: kind}
+--- events: $event
+~ click, 10, 20
+~ view, home`;
+    const doc = parse(text);
+
+    expect(stringifyDocument(doc)).toBe(text);
+    const events = doc.sections!.get('events')!.data!;
+    expect(stringify(events.getAt(1), doc.header.definitions!, { schemaName: '$event' })).toBe('view, home');
+  });
+});
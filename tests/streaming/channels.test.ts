@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { createStreamReader } from '../../src/streaming/reader';
+import { createStreamWriter } from '../../src/streaming/writer';
+import { BufferTransport } from '../../src/streaming/adapters';
+import { StreamItem } from '../../src/streaming/types';
+import { parseDefinitions } from '../../src';
+
+const defs = parseDefinitions(`
+~ $order: { id: int, item: string }
+~ $quote: { sym: string, px: number }
+`)!;
+
+function feed(): string {
+  const writer = createStreamWriter(new BufferTransport(), defs, {
+    includeSchemas: false,
+    channels: { orders: '$order', quotes: '$quote' },
+  });
+
+  return writer.getHeader()
+    + writer.writeTo('orders', { id: 1, item: 'tea' })
+    + writer.writeTo('quotes', { sym: 'ABC', px: 1.5 })
+    + writer.writeTo('orders', { id: 2, item: 'cake' })
+    + writer.writeTo('quotes', { sym: 'XYZ', px: 7 })
+    + writer.write({ id: 3, item: 'jam' }, '$order')
+    + writer.writeTo('orders', { id: 4, item: 'bread' });
+}
+
+async function all(items: AsyncIterable<StreamItem>): Promise<number[]> {
+  const indexes: number[] = [];
+  for await (const item of items) indexes.push(item.index);
+  return indexes;
+}
+
+describe('Stream channels', () => {
+  it('interleave tagged rows, declaring each channel once', async () => {
+    const text = feed();
+
+    expect(text.slice(text.indexOf('---\n'))).toBe(`---
+--- orders: $order
+~>orders 1, tea
+--- quotes: $quote
+~>quotes ABC, 1.5
+~>orders 2, cake
+~>quotes XYZ, 7
+--- $order
+~ 3, jam
+~>orders 4, bread
+`);
+
+    const items = await createStreamReader(text, defs).collect();
+    expect(items.map(item => [item.channel, item.schemaName, item.data.toJSON()])).toEqual([
+      ['orders', '$order', { id: 1, item: 'tea' }],
+      ['quotes', '$quote', { sym: 'ABC', px: 1.5 }],
+      ['orders', '$order', { id: 2, item: 'cake' }],
+      ['quotes', '$quote', { sym: 'XYZ', px: 7 }],
+      [undefined, '$order', { id: 3, item: 'jam' }],
+      ['orders', '$order', { id: 4, item: 'bread' }],
+    ]);
+  });
+
+  it('are routed to an async iterator each', async () => {
+    const reader = createStreamReader(feed(), defs);
+    const orders = reader.channel('orders');
+    const quotes = reader.channel('quotes');
+
+    expect(() => reader.channel('orders')).toThrow(/already being read/);
+    expect(await Promise.all([all(orders), all(quotes)])).toEqual([[0, 2, 5], [1, 3]]);
+  });
+
+  it('end every channel with the error of the stream', async () => {
+    const text = feed();
+    async function* broken() {
+      yield text.slice(0, text.indexOf('~>orders 2'));
+      throw new Error('Connection lost');
+    }
+    const reader = createStreamReader(broken(), defs);
+    const orders = reader.channel('orders');
+    const quotes = reader.channel('quotes');
+
+    await expect(all(orders)).rejects.toThrow('Connection lost');
+    await expect(all(quotes)).rejects.toThrow('Connection lost');
+  });
+
+  it('resume with the rows of every channel counted', async () => {
+    const text = feed();
+    const reader = createStreamReader(text, defs);
+    const iterator = reader[Symbol.asyncIterator]();
+    for (let i = 0; i < 3; i++) await iterator.next();
+
+    const checkpoint = reader.checkpoint!;
+    expect(checkpoint.section).toBe('--- orders: $order');
+    expect(checkpoint.channels).toEqual({
+      orders: { section: '--- orders: $order', collectionIndex: 1 },
+      quotes: { section: '--- quotes: $quote', collectionIndex: 1 },
+    });
+
+    const rest = new TextEncoder().encode(text).slice(checkpoint.offset);
+    const resumed = await createStreamReader([rest], defs, { resume: checkpoint }).collect();
+    expect(resumed.map(item => [item.index, item.channel, item.data.toJSON().sym ?? item.data.toJSON().id])).toEqual([
+      [3, 'quotes', 'XYZ'], [4, undefined, 3], [5, 'orders', 4],
+    ]);
+  });
+
+  it('carry one schema each', () => {
+    const writer = createStreamWriter(new BufferTransport(), defs, { channels: { orders: '$order' } });
+
+    expect(() => writer.writeTo('orders', { sym: 'ABC', px: 1 }, '$quote')).toThrow(/carries '\$order' items/);
+    expect(() => writer.writeTo('$orders', { id: 1, item: 'tea' })).toThrow(/not a valid channel name/);
+    expect(writer.writeTo('quotes', { sym: 'ABC', px: 1 }, '$quote')).toBe('--- quotes: $quote\n~>quotes ABC, 1\n');
+    expect(writer.writeTo('quotes', { sym: 'XYZ', px: 2 })).toBe('~>quotes XYZ, 2\n');
+  });
+});
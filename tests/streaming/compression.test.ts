@@ -0,0 +1,64 @@
+import { gunzipSync } from 'node:zlib';
+import { describe, it, expect } from 'vitest';
+import { CompressionFormat, detectCompression } from '../../src/streaming/compression';
+import { createStreamReader } from '../../src/streaming/reader';
+import { createStreamWriter } from '../../src/streaming/writer';
+import { writeStream } from '../../src/streaming/write-stream';
+import { parseDefinitions } from '../../src';
+
+const defs = parseDefinitions('~ $schema: { id: int, name: string }')!;
+const rows = [{ id: 1, name: 'a' }, { id: 2, name: 'b' }, { id: 3, name: 'c' }];
+
+async function compressed(format: CompressionFormat, end = true): Promise<Uint8Array[]> {
+  const sent: Uint8Array[] = [];
+  const writer = createStreamWriter({ send(chunk) { sent.push(chunk as Uint8Array); } }, defs, { compression: format });
+  await writer.sendHeader();
+  for (const row of rows) await writer.send(row);
+  if (end) await writer.end(); else await writer.flush();
+  return sent;
+}
+
+function bytesOf(chunks: Uint8Array[]): Uint8Array[] {
+  // One byte per chunk, the worst split
+  return chunks.flatMap(chunk => Array.from(chunk, byte => new Uint8Array([byte])));
+}
+
+describe('Compressed streams', () => {
+  it.each(['gzip', 'deflate', 'br'] as const)('round-trip with %s', async (format) => {
+    const chunks = await compressed(format);
+    expect(chunks.every(chunk => chunk instanceof Uint8Array)).toBe(true);
+
+    const options = format === 'br' ? { compression: format } : {};
+    const items = await createStreamReader(bytesOf(chunks), null, options).collect();
+    expect(items.map(item => item.data.toJSON())).toEqual(rows);
+  });
+
+  it('flush every chunk, so that a partial download holds whole rows', async () => {
+    const chunks = await compressed('gzip', false);
+
+    // The header, then the first row only
+    const items = await createStreamReader(chunks.slice(0, 2)).collect();
+    expect(items.map(item => item.data.toJSON())).toEqual(rows.slice(0, 1));
+  });
+
+  it('are detected by their first bytes, and only them', async () => {
+    expect(detectCompression(new Uint8Array([0x1f, 0x8b]))).toBe('gzip');
+    expect(detectCompression(new Uint8Array([0x78, 0x9c]))).toBe('deflate');
+    expect(detectCompression(new TextEncoder().encode('x^y'))).toBe(null);
+
+    const text = '---\n~ 1, a\n';
+    const items = await createStreamReader([new TextEncoder().encode(text)], defs).collect();
+    expect(items[0].data.toJSON()).toEqual(rows[0]);
+
+    const gzip = await compressed('gzip');
+    const raw = await createStreamReader(gzip, defs, { compression: 'none' }).collect();
+    expect(raw.map(item => item.data?.toJSON())).not.toEqual(rows);
+  });
+
+  it('compress the byte streams of writeStream()', async () => {
+    const body = writeStream(rows, defs, { compression: 'gzip' }).toReadableStream();
+    const bytes = new Uint8Array(await new Response(body).arrayBuffer());
+
+    expect(gunzipSync(bytes).toString()).toBe('id: int, name: string\n---\n~ 1, a\n~ 2, b\n~ 3, c\n');
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { createStreamReader } from '../../src/streaming/reader';
+import { createStreamWriter } from '../../src/streaming/writer';
+import { IOStreamError } from '../../src/streaming/error-records';
+import { BufferTransport } from '../../src/streaming/adapters';
+import { IOError, loadObject, parse, parseDefinitions } from '../../src';
+
+const defs = parseDefinitions(`
+~ $click: { kind, x: int, y: int, at?: { page: string } }
+~ $view: { kind, page: string }
+`)!;
+
+function writeAll(items: [object, string][], includeSchemas = true): string {
+  const writer = createStreamWriter(new BufferTransport(), defs, { onError: 'emit', includeSchemas });
+  return writer.getHeader() + items.map(([item, schemaName]) => writer.write(item, schemaName)).join('');
+}
+
+const items: [object, string][] = [
+  [{ kind: 'click', x: 'left', y: 1 }, '$click'],
+  [{ kind: 'click', x: 1, y: 1, at: { page: 5 } }, '$click'],
+  [{ kind: 'view', page: 'home' }, '$view'],
+];
+
+describe('$error records', () => {
+  it('are written as IO rows of the $error schema', () => {
+    const text = writeAll(items);
+
+    expect(text).toContain('~ $error: {code: string, message: string, path?: string, index?: int, schema?: string, channel?: string}\n');
+    expect(text).toContain(`---
+--- $error
+~ invalid-type, Expecting a value of type \\'int\\' for \\'x\\', x, 0, click
+~ not-a-string, Expecting a string value for \\'at.page\\' but found 5., at.page, 1, click
+--- $view
+~ view, home
+`);
+
+    // The document remains valid for parse()
+    expect(parse(text).toJSON().error.map((record: any) => record.path)).toEqual(['x', 'at.page']);
+  });
+
+  it('are read back as the errors of the items they replace', async () => {
+    for (const text of [writeAll(items), writeAll(items, false)]) {
+      const read = await createStreamReader(text, defs).collect();
+
+      expect(read.map(item => [item.index, item.schemaName, item.data?.toJSON() ?? null])).toEqual([
+        [0, '$click', null],
+        [1, '$click', null],
+        [2, '$view', { kind: 'view', page: 'home' }],
+      ]);
+
+      const error = read[1].error as IOStreamError;
+      expect(error).toBeInstanceOf(IOStreamError);
+      expect(error.errorCode).toBe('not-a-string');
+      expect(error.fact).toBe("Expecting a string value for 'at.page' but found 5.");
+      expect(error.path).toBe('at.page');
+      expect(error.index).toBe(1);
+      expect(error.schemaName).toBe('$click');
+    }
+  });
+
+  it('carry the index of the array element at fault in their path', () => {
+    const listDefs = parseDefinitions('~ $schema: { tags: [string], points?: [{ x: int }] }')!;
+    const pathOf = (data: object) => {
+      try {
+        loadObject(data, listDefs);
+      } catch (error) {
+        return (error as IOError).path;
+      }
+      return undefined;
+    };
+
+    expect(pathOf({ tags: ['a', 5] })).toBe('tags[1]');
+    expect(pathOf({ tags: [], points: [{ x: 1 }, { x: 'y' }] })).toBe('points[1].x');
+  });
+
+  it('are read with the built-in schema when the header does not define it', async () => {
+    const text = '---\n--- $error\n~ invalid-value, "a, b", , 4\n';
+    const [item] = await createStreamReader(text).collect();
+
+    expect(item.schemaName).toBe('$error');
+    expect(item.error).toBeInstanceOf(IOStreamError);
+    expect((item.error as IOStreamError).fact).toBe('a, b');
+    expect((item.error as IOStreamError).index).toBe(4);
+  });
+});
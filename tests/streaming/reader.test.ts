@@ -1,5 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { createStreamReader } from '../../src/streaming/reader';
+import { definitionsId } from '../../src/streaming/defs-id';
+import { parseDefinitions } from '../../src';
 
 describe('IOStreamReader', () => {
     it('reads from a string source', async () => {
@@ -172,3 +174,88 @@ describe('IOStreamReader', () => {
       expect((items[0].data as any).toJSON()).toEqual({ '0': "Start\n~ Middle\nEnd" });
     });
 });
+
+describe('IOStreamReader rows', () => {
+    const header = '~ $schema: { id: int, name: string }\n--- $schema\n';
+
+    it('reads sections far larger than maxBufferedChars row by row', async () => {
+      const rows = Array.from({ length: 5000 }, (_, i) => `~ ${i}, "row\n${i}"\n`).join('');
+      const reader = createStreamReader([header + rows], null, { maxBufferedChars: 1000 });
+
+      let count = 0;
+      for await (const item of reader) {
+        expect(item.data.toJSON()).toEqual({ id: count, name: `row\n${count}` });
+        count++;
+      }
+      expect(count).toBe(5000);
+    });
+
+    it('reports the errors of rows with their index in the section and their line in the stream', async () => {
+      const items = await createStreamReader(`${header}~ 1, a\n~ x, b\n--- $schema\n~ 3, c\n~ y, d\n`).collect();
+      const errors = items.map(item => item.error as any).filter(Boolean);
+
+      expect(errors.map(error => error.collectionIndex)).toEqual([1, 1]);
+      expect(errors.map(error => error.positionRange.getStartPos().row)).toEqual([4, 7]);
+      expect(items.map(item => item.index)).toEqual([0, 1, 2, 3]);
+    });
+
+    it('still caps the size of a single record', async () => {
+      const reader = createStreamReader([`${header}~ 1, "${'x'.repeat(2000)}"\n`], null, { maxBufferedChars: 1000 });
+      await expect(reader.collect()).rejects.toThrow(/exceeded maxBufferedChars \(1000\)/);
+    });
+});
+
+describe('IOStreamReader checkpoints', () => {
+    const text = '~ $schema: { id: int, name: string }\r\n---\r\n~ 1, Ä\n~ 2, "b\nc"\n--- $schema\n~ 3, d\n~ 4, e';
+
+    async function readWithCheckpoints(source: any, defs?: any, resume?: any) {
+      const reader = createStreamReader(source, defs, { resume });
+      const read: Array<{ id: number; checkpoint: any }> = [];
+      for await (const item of reader) {
+        read.push({ id: item.data.toJSON().id, checkpoint: reader.checkpoint });
+      }
+      return { reader, read };
+    }
+
+    it('exposes the checkpoint after each item', async () => {
+      const { reader, read } = await readWithCheckpoints(text);
+
+      expect(read.map(r => r.checkpoint.index)).toEqual([1, 2, 3, 4]);
+      expect(read[2].checkpoint).toEqual({
+        defsId: definitionsId(reader.definitions),
+        section: '--- $schema',
+        index: 3,
+        collectionIndex: 1,
+        offset: text.indexOf('~ 4') + 1,
+        charOffset: text.indexOf('~ 4'),
+        line: 8,
+      });
+      expect(read[3].checkpoint.charOffset).toBe(text.length);
+    });
+
+    it('resumes from the byte or character offset of a checkpoint', async () => {
+      const { reader, read } = await readWithCheckpoints(text);
+      const bytes = new TextEncoder().encode(text);
+
+      for (const [i, { checkpoint }] of read.entries()) {
+        const fromBytes = await readWithCheckpoints([bytes.slice(checkpoint.offset)], reader.definitions, checkpoint);
+        const fromChars = await readWithCheckpoints(text.slice(checkpoint.charOffset), reader.definitions, checkpoint);
+
+        expect(fromBytes.read).toEqual(read.slice(i + 1));
+        expect(fromChars.read).toEqual(read.slice(i + 1));
+      }
+    });
+
+    it('names the definitions by the defsId of the header', async () => {
+      const { read } = await readWithCheckpoints('~ defsId: orders-v2\n~ $schema: { id: int }\n---\n~ 1\n');
+      expect(read[0].checkpoint.defsId).toBe('orders-v2');
+    });
+
+    it('refuses to resume with other definitions', async () => {
+      const { read } = await readWithCheckpoints(text);
+      const other = parseDefinitions('~ $schema: { id: int, name: string, age?: int }');
+
+      expect(() => createStreamReader('', other, { resume: read[0].checkpoint }))
+        .toThrow(/The checkpoint was taken with the definitions/);
+    });
+});
@@ -0,0 +1,94 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { BufferTransport } from '../../src/streaming/adapters';
+import { hashDefinitions } from '../../src/streaming/defs-id';
+import { createStreamReader } from '../../src/streaming/reader';
+import { callbackResolver, directoryResolver, mapResolver } from '../../src/streaming/resolvers';
+import { createStreamWriter } from '../../src/streaming/writer';
+import { parseDefinitions } from '../../src';
+
+const source = '~ $schema: { id: int, name: string }\n~ @unknown: N/A';
+const defs = parseDefinitions(source)!;
+const defsId = hashDefinitions(defs);
+
+async function writeStream(rows: any[]) {
+  const transport = new BufferTransport();
+  const writer = createStreamWriter(transport, defs, { includeSchemas: false });
+  await writer.sendHeader();
+  for (const row of rows) await writer.send(row);
+  await writer.flush();
+  return transport.getOutput();
+}
+
+describe('Definitions by reference', () => {
+  it('writes only the content hash of the definitions into the header', async () => {
+    const text = await writeStream([{ id: 1, name: 'a' }]);
+
+    expect(text).toBe(`~ defsId: "${defsId}"\n---\n~ 1, a\n`);
+    expect(hashDefinitions(parseDefinitions('~ @unknown: N/A\n~ $schema: {id:int,name:string}')!)).not.toBe(defsId);
+    expect(hashDefinitions(parseDefinitions('~ $schema: {id:int,name:string}\n~ @unknown: N/A')!)).toBe(defsId);
+  });
+
+  it('resolves the definitions from a map, and validates the records with them', async () => {
+    const text = await writeStream([{ id: 1, name: 'a' }]);
+    const reader = createStreamReader(`${text}~ two, b\n`, null, { resolver: mapResolver({ [defsId]: defs }) });
+    const items = await reader.collect();
+
+    expect(items[0].data.toJSON()).toEqual({ id: 1, name: 'a' });
+    expect(items[1].error?.message).toMatch(/Expecting a value of type 'int' for 'id'/);
+    expect(reader.definitions?.getV('@unknown').value).toBe('N/A');
+    expect(reader.checkpoint?.defsId).toBe(defsId);
+  });
+
+  it('resolves the definitions with a callback', async () => {
+    const text = await writeStream([{ id: 2, name: 'b' }]);
+    const asked: string[] = [];
+    const reader = createStreamReader(text, null, {
+      resolver: callbackResolver(async id => { asked.push(id); return source; })
+    });
+
+    expect((await reader.collect())[0].data.toJSON()).toEqual({ id: 2, name: 'b' });
+    expect(asked).toEqual([defsId]);
+  });
+
+  it('fails when the resolved definitions do not match the hash', async () => {
+    const text = await writeStream([{ id: 1, name: 'a' }]);
+    const reader = createStreamReader(text, null, { resolver: () => '~ $schema: { id: int }' });
+
+    await expect(reader.collect()).rejects.toThrow(/The definitions resolved for the defsId '[0-9a-f]+' do not match it/);
+  });
+
+  it('fails when the definitions are not found', async () => {
+    const text = await writeStream([]);
+    const reader = createStreamReader(text, null, { resolver: mapResolver(new Map()) });
+
+    await expect(reader.collect()).rejects.toThrow(/No definitions were found for the defsId/);
+  });
+
+  describe('directoryResolver', () => {
+    let dir: string;
+
+    beforeEach(() => { dir = mkdtempSync(join(tmpdir(), 'io-defs-')); });
+    afterEach(() => { rmSync(dir, { recursive: true, force: true }); });
+
+    it('reads the definitions from the file named after the id', async () => {
+      writeFileSync(join(dir, `${defsId}.io`), source);
+      const text = await writeStream([{ id: 3, name: 'c' }]);
+      const reader = createStreamReader(text, null, { resolver: directoryResolver(dir) });
+
+      expect((await reader.collect())[0].data.toJSON()).toEqual({ id: 3, name: 'c' });
+    });
+
+    it('accepts named ids declared by the definitions, and never leaves the directory', async () => {
+      writeFileSync(join(dir, 'telemetry-v3.io'), `~ defsId: telemetry-v3\n${source}`);
+      const resolver = directoryResolver(dir);
+
+      const reader = createStreamReader('~ defsId: telemetry-v3\n---\n~ 4, d\n', null, { resolver });
+      expect((await reader.collect())[0].data.toJSON()).toEqual({ id: 4, name: 'd' });
+      expect(await resolver.resolve('../telemetry-v3')).toBeUndefined();
+      expect(await resolver.resolve('missing')).toBeUndefined();
+    });
+  });
+});
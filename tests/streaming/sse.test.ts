@@ -0,0 +1,162 @@
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterEach, describe, it, expect } from 'vitest';
+import { createSSESource } from '../../src/streaming/adapters';
+import { createStreamReader } from '../../src/streaming/reader';
+import { sseTransport } from '../../src/streaming/transports';
+import { createStreamWriter } from '../../src/streaming/writer';
+import { parseDefinitions } from '../../src';
+
+const defs = parseDefinitions('~ $schema: { id: int, note: string }')!;
+const rows = [
+  { id: 1, note: 'one' },
+  { id: 2, note: 'it\'s "two"\nlines' },
+  { id: 3, note: 'three' },
+  { id: 4, note: 'four' },
+];
+
+/**
+ * Just enough of an EventSource over fetch: fields, the last event id, and
+ * reconnection with `Last-Event-ID` when the connection drops.
+ */
+class TestEventSource {
+  readyState = 0;
+  connections = 0;
+  private lastEventId = '';
+  private readonly listeners = new Map<string, Set<(event: any) => void>>();
+  private readonly aborter = new AbortController();
+
+  constructor(private readonly url: string) {
+    void this.connect();
+  }
+
+  addEventListener(type: string, listener: (event: any) => void) {
+    if (!this.listeners.has(type)) this.listeners.set(type, new Set());
+    this.listeners.get(type)!.add(listener);
+  }
+
+  removeEventListener(type: string, listener: (event: any) => void) {
+    this.listeners.get(type)?.delete(listener);
+  }
+
+  close() {
+    this.readyState = 2;
+    this.aborter.abort();
+  }
+
+  private dispatch(type: string, event: any) {
+    this.listeners.get(type)?.forEach(listener => listener(event));
+  }
+
+  private async connect() {
+    this.connections++;
+    let buffer = '';
+    try {
+      const headers: Record<string, string> = this.lastEventId ? { 'last-event-id': this.lastEventId } : {};
+      const res = await fetch(this.url, { headers, signal: this.aborter.signal });
+      this.readyState = 1;
+      const decoder = new TextDecoder();
+      for await (const chunk of res.body as any) {
+        buffer += decoder.decode(chunk, { stream: true });
+        let end: number;
+        while ((end = buffer.indexOf('\n\n')) >= 0) {
+          const fields = buffer.slice(0, end).split('\n');
+          buffer = buffer.slice(end + 2);
+          let type = 'message';
+          const data: string[] = [];
+          for (const field of fields) {
+            const [, name, value] = /^([^:]*):? ?(.*)$/.exec(field)!;
+            if (name === 'event') type = value;
+            if (name === 'data') data.push(value);
+            if (name === 'id') this.lastEventId = value;
+          }
+          this.dispatch(type, { data: data.join('\n') });
+        }
+      }
+    } catch {
+      // The connection dropped
+    }
+    if (this.readyState === 2) return;
+    this.readyState = 0;
+    this.dispatch('error', {});
+    setTimeout(() => void this.connect(), 10);
+  }
+}
+
+let server: http.Server | null = null;
+
+function listen(handler: http.RequestListener): Promise<string> {
+  server = http.createServer(handler);
+  return new Promise(resolve => server!.listen(0, '127.0.0.1', () => {
+    resolve(`http://127.0.0.1:${(server!.address() as AddressInfo).port}/events`);
+  }));
+}
+
+afterEach(async () => {
+  server?.closeAllConnections();
+  await new Promise(resolve => server ? server.close(resolve) : resolve(undefined));
+  server = null;
+});
+
+describe('Server-Sent Events', () => {
+  it('frames each chunk as an event whose id is the index of the next item', async () => {
+    const url = await listen(async (_req, res) => {
+      const transport = sseTransport(res, { retry: 1000 });
+      const writer = createStreamWriter(transport, defs);
+      await writer.sendHeader();
+      await writer.send(rows[0]);
+      transport.end();
+    });
+
+    const res = await fetch(url);
+    expect(res.headers.get('content-type')).toBe('text/event-stream; charset=utf-8');
+    expect(await res.text()).toBe([
+      'retry: 1000\nid: 0\ndata: id: int, note: string\ndata: ---\n\n',
+      'id: 1\ndata: ~ 1, one\n\n',
+      'event: end\ndata:\n\n',
+    ].join(''));
+  });
+
+  it('streams the items to an EventSource, resuming after a dropped connection', async () => {
+    const url = await listen(async (req, res) => {
+      const lastEventId = req.headers['last-event-id'];
+      const startIndex = lastEventId === undefined ? 0 : Number(lastEventId);
+      const transport = sseTransport(res, { startIndex });
+      const writer = createStreamWriter(transport, defs);
+
+      if (lastEventId === undefined) {
+        await writer.sendHeader();
+        await writer.sendBatch(rows.slice(0, 2));
+        res.destroy();
+        return;
+      }
+
+      for (const row of rows.slice(startIndex)) await writer.send(row);
+      transport.end();
+    });
+
+    const eventSource = new TestEventSource(url);
+    const items = await createStreamReader(createSSESource(eventSource)).collect();
+
+    expect(items.map(item => item.data.toJSON())).toEqual(rows);
+    expect(eventSource.connections).toBe(2);
+    expect(eventSource.readyState).toBe(2);
+  });
+
+  it('fails the stream once the event source gives up', async () => {
+    const listeners: Record<string, (event: any) => void> = {};
+    const eventSource = {
+      readyState: 0,
+      addEventListener(type: string, listener: (event: any) => void) { listeners[type] = listener; },
+      close() { this.readyState = 2; },
+    };
+    const reading = createStreamReader(createSSESource(eventSource)).collect();
+
+    listeners.message({ data: '---\n~ 1' });
+    listeners.error({});
+    eventSource.readyState = 2;
+    listeners.error({});
+
+    await expect(reading).rejects.toThrow(/closed before the stream ended/);
+  });
+});
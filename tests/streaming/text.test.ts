@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { ChunkDecoder, updateStringState } from '../../src/streaming/text';
+import { ChunkDecoder, splitLinesKeepRemainder, updateStringState, utf8Length } from '../../src/streaming/text';
 
 describe('ChunkDecoder', () => {
   it('should decode simple strings passed as strings', () => {
@@ -60,8 +60,10 @@ describe('updateStringState', () => {
   });
 
   it('handles escaped quotes', () => {
-    // When outside a string, \" opens a string (escape only matters inside strings)
-    expect(updateStringState('\\"', null)).toBe('"');
+    // Open strings escape quotes too, so \' does not open a string
+    expect(updateStringState('\\"', null)).toBe(null);
+    expect(updateStringState("~ it\\'s, b", null)).toBe(null);
+    expect(updateStringState('\\\\"', null)).toBe('"');
     // When inside a string, escaped quote doesn't close it
     expect(updateStringState('a\\"b', '"')).toBe('"');
   });
@@ -76,3 +78,18 @@ describe('updateStringState', () => {
     expect(state).toBe(null);
   });
 });
+
+describe('splitLinesKeepRemainder', () => {
+  it('keeps the line breaks, and a trailing CR until the next chunk', () => {
+    expect(splitLinesKeepRemainder('a\r\nb\rc\nd\r')).toEqual({ lines: ['a\r\n', 'b\r', 'c\n'], remainder: 'd\r' });
+    expect(splitLinesKeepRemainder('d\r\ne')).toEqual({ lines: ['d\r\n'], remainder: 'e' });
+  });
+});
+
+describe('utf8Length', () => {
+  it('counts the bytes of the string in UTF-8', () => {
+    for (const text of ['abc', 'Äé', '€', 'Hello 🌍 World 🚀', '\uFEFF~']) {
+      expect(utf8Length(text)).toBe(new TextEncoder().encode(text).length);
+    }
+  });
+});
@@ -0,0 +1,125 @@
+import { Readable, Transform, Writable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { describe, it, expect } from 'vitest';
+import { createParseTransform, createStringifyTransform } from '../../src/node';
+import { IOParseTransform, IOStringifyTransform } from '../../src/streaming/transforms';
+import { StreamItem } from '../../src/streaming/types';
+import { parseDefinitions } from '../../src';
+
+const defs = parseDefinitions('~ $schema: { id: int, name: string }')!;
+const text = '~ $schema: { id: int, name: string }\n---\n~ 1, a\n~ 2, "b\nc"\n~ 3, d\n';
+
+function chunksOf(s: string, size: number): Uint8Array[] {
+  const bytes = new TextEncoder().encode(s);
+  const chunks: Uint8Array[] = [];
+  for (let i = 0; i < bytes.length; i += size) chunks.push(bytes.slice(i, i + size));
+  return chunks;
+}
+
+async function readAll<T>(stream: ReadableStream<T>): Promise<T[]> {
+  const out: T[] = [];
+  const reader = stream.getReader();
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) return out;
+    out.push(value);
+  }
+}
+
+function collect(into: string[]) {
+  return new Writable({
+    write(chunk, _encoding, callback) { into.push(chunk.toString()); callback(); }
+  });
+}
+
+describe('Web transform streams', () => {
+  it('parses bytes split anywhere into stream items', async () => {
+    const source = new ReadableStream<Uint8Array>({
+      start(controller) {
+        chunksOf(text, 5).forEach(chunk => controller.enqueue(chunk));
+        controller.close();
+      }
+    });
+    const parser = new IOParseTransform();
+    const items = await readAll(source.pipeThrough(parser));
+
+    expect(items.map(item => item.data.toJSON())).toEqual([
+      { id: 1, name: 'a' }, { id: 2, name: 'b\nc' }, { id: 3, name: 'd' },
+    ]);
+    expect(parser.reader.checkpoint?.index).toBe(3);
+  });
+
+  it('serializes objects into IO text, and errors the stream on invalid ones', async () => {
+    const objects = () => new ReadableStream({
+      start(controller) {
+        controller.enqueue({ id: 1, name: 'a' });
+        controller.enqueue({ id: 'two', name: 'b' });
+        controller.close();
+      }
+    });
+
+    const lenient = await readAll(objects().pipeThrough(new IOStringifyTransform(defs, { onError: 'ignore' })));
+    expect(lenient.join('')).toBe('id: int, name: string\n---\n~ 1, a\n');
+
+    await expect(readAll(objects().pipeThrough(new IOStringifyTransform(defs))))
+      .rejects.toThrow(/Expecting a value of type 'int' for 'id'/);
+  });
+});
+
+describe('Node.js transforms', () => {
+  it('pipes text through parsing, filtering and stringifying', async () => {
+    const out: string[] = [];
+    const filter = new Transform({
+      objectMode: true,
+      transform(item: StreamItem, _encoding, callback) {
+        const row = item.data.toJSON();
+        callback(null, row.id % 2 === 1 ? row : undefined);
+      }
+    });
+
+    await pipeline(
+      Readable.from(chunksOf(text, 7)),
+      createParseTransform(),
+      filter,
+      createStringifyTransform(defs),
+      collect(out),
+    );
+
+    expect(out.join('')).toBe('id: int, name: string\n---\n~ 1, a\n~ 3, d\n');
+  });
+
+  it('propagates the errors of the reader and of the writer', async () => {
+    await expect(pipeline(
+      Readable.from([text]),
+      createParseTransform(null, { maxBufferedChars: 10 }),
+      new Writable({ objectMode: true, write(_item, _encoding, callback) { callback(); } }),
+    )).rejects.toThrow(/exceeded maxBufferedChars/);
+
+    await expect(pipeline(
+      Readable.from([{ id: 'one' }]),
+      createStringifyTransform(defs),
+      collect([]),
+    )).rejects.toThrow(/Expecting a value of type 'int' for 'id'/);
+  });
+
+  it('waits for a slow consumer before taking more text', async () => {
+    const rows = Array.from({ length: 3000 }, (_, i) => `~ ${i}, n${i}\n`).join('');
+    const parser = createParseTransform(defs);
+    let taken = 0;
+    const source = Readable.from((function* () {
+      for (const chunk of chunksOf(`---\n${rows}`, 64)) { taken++; yield chunk; }
+    })());
+
+    source.pipe(parser);
+    await new Promise(resolve => setTimeout(resolve, 20));
+    const whileIdle = taken;
+
+    let read = 0;
+    for await (const item of parser) {
+      expect(item.data.toJSON().id).toBe(read++);
+    }
+
+    expect(read).toBe(3000);
+    expect(whileIdle).toBeLessThan(chunksOf(`---\n${rows}`, 64).length);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { createStreamReader } from '../../src/streaming/reader';
+import { writeStream } from '../../src/streaming/write-stream';
+import { parseDefinitions } from '../../src';
+
+const defs = parseDefinitions(`
+~ $click: { kind, x: int, y: int }
+~ $view: { kind, page: string }
+`)!;
+
+const events = [
+  { kind: 'click', x: 1, y: 2 },
+  { kind: 'click', x: 3, y: 4 },
+  { kind: 'view', page: 'home' },
+  { kind: 'click', x: 5, y: 6 },
+];
+
+async function textOf(iterable: AsyncIterable<string>): Promise<string> {
+  let text = '';
+  for await (const chunk of iterable) text += chunk;
+  return text;
+}
+
+describe('writeStream', () => {
+  it('writes a document, switching sections as the schema of the items changes', async () => {
+    const text = await textOf(writeStream(events, defs, { schemaName: event => `$${event.kind}` }));
+
+    expect(text).toBe(`~ $click: {kind, x: int, y: int}
+~ $view: {kind, page: string}
+---
+--- $click
+~ click, 1, 2
+~ click, 3, 4
+--- $view
+~ view, home
+--- $click
+~ click, 5, 6
+`);
+
+    const items = await createStreamReader(text).collect();
+    expect(items.map(item => [item.schemaName, item.data.toJSON()])).toEqual(
+      events.map(event => [`$${event.kind}`, event])
+    );
+  });
+
+  it('takes the items from async sources only as the text is read', async () => {
+    let taken = 0;
+    async function* source() {
+      for (const event of events) { taken++; yield event; }
+    }
+
+    const iterator = writeStream(source(), defs, { schemaName: '$click' })[Symbol.asyncIterator]();
+    await iterator.next();
+    expect(taken).toBe(0);
+    expect((await iterator.next()).value).toBe('--- $click\n~ click, 1, 2\n');
+    expect(taken).toBe(1);
+  });
+
+  it('follows the onError policy', async () => {
+    const invalid = [{ kind: 'click', x: 'left', y: 1 }, { kind: 'click', x: 1, y: 1 }];
+    const options = { includeSchemas: false, schemaName: '$click' };
+
+    await expect(textOf(writeStream(invalid, defs, options))).rejects.toThrow(/Expecting a value of type 'int' for 'x'/);
+    expect(await textOf(writeStream(invalid, defs, { ...options, onError: 'ignore' })))
+      .toMatch(/---\n--- \$click\n~ click, 1, 1\n$/);
+    expect(await textOf(writeStream(invalid, defs, { ...options, onError: 'emit' })))
+      .toMatch(/---\n--- \$error\n~ invalid-type, .*, x, 0, click\n--- \$click\n~ click, 1, 1\n$/);
+  });
+
+  it('reads as a ReadableStream of UTF-8 bytes', async () => {
+    const response = new Response(writeStream(events.slice(2, 3), defs, { schemaName: '$view' }).toReadableStream());
+    expect(await response.text()).toMatch(/---\n--- \$view\n~ view, home\n$/);
+
+    const stream = writeStream(events, defs, { schemaName: event => `$${event.kind}` }).toReadableStream();
+    expect(await new Response(stream).text()).toBe(await textOf(writeStream(events, defs, { schemaName: event => `$${event.kind}` })));
+  });
+
+  it('reads ahead of the stream up to highWaterMark bytes', async () => {
+    let taken = 0;
+    function* source() {
+      for (const event of events) { taken++; yield event; }
+    }
+
+    const stream = writeStream(source(), defs, { schemaName: '$click', onError: 'ignore', highWaterMark: 1 << 20 }).toReadableStream();
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(taken).toBe(events.length);
+    await stream.cancel();
+  });
+});
@@ -1,4 +1,5 @@
 import { describe, it, expect, vi } from 'vitest';
+import { Writable } from 'node:stream';
 import { createStreamWriter } from '../../src/streaming/writer';
 import { IOStreamTransport } from '../../src/streaming/types';
 import io from '../../src/facade';
@@ -107,4 +108,102 @@ describe('IOStreamWriter', () => {
         expect(lastOutput).not.toContain('--- users');
     });
   });
+
+  describe('backpressure', () => {
+    const rows = (count: number) => Array.from({ length: count }, (_, i) => ({ id: i, name: `row-${i}` }));
+
+    it('queues at most highWaterMark characters ahead of a slow transport', async () => {
+      const sent: string[] = [];
+      const pending: (() => void)[] = [];
+      const transport: IOStreamTransport = {
+        send: (chunk) => new Promise<void>(resolve => pending.push(() => { sent.push(chunk.toString()); resolve(); }))
+      };
+      const writer = createStreamWriter(transport, null, { highWaterMark: 30 });
+
+      await writer.send({ id: 1, name: 'Alice' });
+      let resolved = false;
+      const second = writer.send({ id: 2, name: 'Bobby-Bobby-Bobby' }).then(() => { resolved = true; });
+      await Promise.resolve();
+      expect(resolved).toBe(false);
+
+      pending.shift()!();
+      await second;
+      expect(sent).toEqual(['---\n~ 1, Alice\n']);
+
+      const flushed = writer.flush();
+      await new Promise(resolve => setTimeout(resolve, 0));
+      pending.shift()!();
+      await flushed;
+      expect(sent).toEqual(['---\n~ 1, Alice\n', '~ 2, Bobby-Bobby-Bobby\n']);
+    });
+
+    it('waits for a Node.js Writable to drain', async () => {
+      const received: string[] = [];
+      let writes = 0;
+      const writable = new Writable({
+        highWaterMark: 16,
+        write(chunk, _encoding, callback) {
+          writes++;
+          received.push(chunk.toString());
+          setTimeout(callback, 1);
+        }
+      });
+      const writer = createStreamWriter(writable, null, { highWaterMark: 1 });
+
+      for (const row of rows(20)) {
+        await writer.send(row);
+        // Never more than the writable's own buffer plus the chunk being sent
+        expect(writable.writableLength).toBeLessThanOrEqual(16 + 16);
+      }
+      await writer.flush();
+      await new Promise<void>(resolve => writable.end(resolve));
+
+      expect(writes).toBe(20);
+      expect(received.join('')).toContain('~ 19, row-19\n');
+    });
+
+    it('rejects sending after the transport fails', async () => {
+      const transport: IOStreamTransport = { send: () => Promise.reject(new Error('socket closed')) };
+      const writer = createStreamWriter(transport, null, { highWaterMark: 1 });
+
+      await expect(writer.send({ a: 1 })).rejects.toThrow('socket closed');
+      await expect(writer.send({ a: 2 })).rejects.toThrow('socket closed');
+      await expect(writer.flush()).rejects.toThrow('socket closed');
+    });
+
+    it('reads the items as a ReadableStream, pulling them as it is read', async () => {
+      let pulled = 0;
+      function* source() {
+        for (const row of rows(3)) {
+          pulled++;
+          yield row;
+        }
+      }
+      const writer = createStreamWriter(new MockTransport(), io.defs`~ $schema: { id: int, name: string }`, { highWaterMark: 1 });
+      const stream = writer.toReadableStream(source());
+      const reader = stream.getReader();
+
+      const chunks: string[] = [];
+      for (let next = await reader.read(); !next.done; next = await reader.read()) {
+        chunks.push(new TextDecoder().decode(next.value));
+        // The items are pulled as the stream is read, not ahead of it
+        expect(pulled).toBeLessThanOrEqual(chunks.length);
+      }
+
+      expect(chunks).toEqual(['id: int, name: string\n---\n', '~ 0, row-0\n', '~ 1, row-1\n', '~ 2, row-2\n']);
+      expect(pulled).toBe(3);
+    });
+
+    it('serializes the objects written to a TransformStream', async () => {
+      const writer = createStreamWriter(new MockTransport());
+      const transform = writer.toTransformStream();
+      const output = new Response(transform.readable).text();
+
+      const input = transform.writable.getWriter();
+      for (const row of rows(2)) await input.write(row);
+      await input.close();
+
+      expect(await output).toBe('---\n~ 0, row-0\n~ 1, row-1\n');
+    });
+  });
 });
@@ -1,12 +1,29 @@
-import { defineConfig } from 'tsup';
+import { defineConfig, Options } from 'tsup';
 
 const isProd = process.env.NODE_ENV === 'production';
 
-export default defineConfig({
-  entry: ['src/**/*.ts', '!src/**/*.test.ts', '!src/test-parser-crash.ts', '!src/examples/**/*'],
+/**
+ * The command line tools of the package `bin`. Unlike the library files they
+ * are bundled, since Node cannot resolve the extensionless imports of the
+ * unbundled ESM output.
+ */
+export const binConfig: Options = {
+  entry: ['src/cli/bin/*.ts'],
+  format: ['esm'],
+  platform: 'node',
+  bundle: true,
+  splitting: false,
+  clean: false,
+  target: 'es2022',
+  outDir: 'dist/cli/bin',
+};
+
+export default defineConfig([{
+  entry: ['src/**/*.ts', '!src/**/*.test.ts', '!src/test-parser-crash.ts', '!src/examples/**/*', '!src/cli/bin/**/*'],
   format: ['cjs', 'esm'],
   dts: true,
-  clean: true,
+  // The bins are written by their own build, which runs alongside this one
+  clean: ['!cli/bin/**'],
   bundle: false,
   sourcemap: true,
   splitting: false,
@@ -29,4 +46,4 @@ export default defineConfig({
   onSuccess: async () => {
     console.log('✅ Build complete!');
   },
-});
+}, binConfig]);